@@ -3,6 +3,17 @@ import { cors } from "@elysiajs/cors";
 import { config } from "./config";
 import { errorHandler } from "./middleware";
 import { v1Routes } from "./routes";
+import {
+  startVideoProcessingListener,
+  startVideoAnalysisListener,
+  startClipRenderListener,
+  startReelRenderListener,
+} from "./jobs";
+
+startVideoProcessingListener();
+startVideoAnalysisListener();
+startClipRenderListener();
+startReelRenderListener();
 
 const app = new Elysia()
   .use(errorHandler)
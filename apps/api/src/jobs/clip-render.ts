@@ -0,0 +1,158 @@
+/**
+ * Clip Render Listener
+ * Consumes clipRenderEvents and records render state on the Clip record
+ * (RENDERING → COMPLETED with storage/thumbnail keys, or FAILED). Each
+ * render writes its own files, so output from a render superseded while it
+ * ran is deleted from S3.
+ */
+
+import { prisma } from "@repo/db";
+import type { ClipRenderJobData, ClipRenderResult } from "@repo/types";
+import { clipRenderEvents, clipRenderQueue } from "../lib/queues";
+import { deleteObject } from "../lib/s3";
+
+/**
+ * Find the clip still waiting on a render job. Matching on renderJobId
+ * ignores results from a job superseded by a re-render or a time edit.
+ */
+function findRenderingClip(jobId: string) {
+  return prisma.clip.findFirst({
+    where: { renderJobId: jobId, renderStatus: { in: ["QUEUED", "RENDERING"] } },
+    select: { id: true, storageKey: true, thumbnailKey: true },
+  });
+}
+
+async function onActive({ jobId }: { jobId: string }): Promise<void> {
+  const clip = await findRenderingClip(jobId);
+  if (!clip) return;
+
+  await prisma.clip.update({
+    where: { id: clip.id },
+    data: { renderStatus: "RENDERING" },
+  });
+}
+
+/** Delete the S3 objects a render no longer needs. */
+async function deleteKeys(keys: (string | null)[]): Promise<void> {
+  await Promise.all(
+    keys
+      .filter((key): key is string => Boolean(key))
+      .map((key) => deleteObject(key)),
+  );
+}
+
+async function onCompleted({
+  jobId,
+  returnvalue,
+}: {
+  jobId: string;
+  returnvalue: unknown;
+}): Promise<void> {
+  // QueueEvents already JSON-parses return values, but tolerate raw strings
+  const result = (
+    typeof returnvalue === "string" ? JSON.parse(returnvalue) : returnvalue
+  ) as ClipRenderResult;
+
+  const job = await clipRenderQueue.getJob(jobId);
+  if (!job) return;
+  const { startTime, endTime } = job.data as ClipRenderJobData;
+
+  const clip = await findRenderingClip(jobId);
+  if (clip) {
+    // Only write the keys if the segment hasn't moved since the job was
+    // queued and no other listener has recorded the result
+    const { count } = await prisma.clip.updateMany({
+      where: {
+        id: clip.id,
+        renderJobId: jobId,
+        renderStatus: { in: ["QUEUED", "RENDERING"] },
+        startTime,
+        endTime,
+      },
+      data: {
+        renderStatus: "COMPLETED",
+        renderError: null,
+        storageKey: result.storageKey,
+        ...(result.thumbnailKey && { thumbnailKey: result.thumbnailKey }),
+      },
+    });
+    if (count === 1) {
+      // A re-render replaces the previous files
+      await deleteKeys([
+        clip.storageKey,
+        result.thumbnailKey ? clip.thumbnailKey : null,
+      ]);
+      return;
+    }
+
+    // Still pending on this job, so the times changed under it
+    await prisma.clip.updateMany({
+      where: {
+        id: clip.id,
+        renderJobId: jobId,
+        renderStatus: { in: ["QUEUED", "RENDERING"] },
+      },
+      data: { renderStatus: null, renderJobId: null, renderError: null },
+    });
+  }
+
+  // Every API instance gets the event; one of the others may have recorded it
+  const recorded = await prisma.clip.count({
+    where: { storageKey: result.storageKey },
+  });
+  if (recorded > 0) return;
+
+  // Superseded by a time edit, a newer render or the clip's deletion
+  await deleteKeys([result.storageKey, result.thumbnailKey]);
+  console.warn(`Discarded stale render output from job ${jobId}`);
+}
+
+/**
+ * Mark the render as FAILED. QueueEvents only emits `failed` once all retry
+ * attempts are exhausted.
+ */
+async function onFailed({
+  jobId,
+  failedReason,
+}: {
+  jobId: string;
+  failedReason: string;
+}): Promise<void> {
+  const clip = await findRenderingClip(jobId);
+  if (!clip) return;
+
+  await prisma.clip.update({
+    where: { id: clip.id },
+    data: {
+      renderStatus: "FAILED",
+      renderError: failedReason || "Clip render failed",
+    },
+  });
+}
+
+/** Attach the clip render listeners. Call once at API startup. */
+export function startClipRenderListener(): void {
+  clipRenderEvents.on("active", (args) => {
+    onActive(args).catch((error) => {
+      console.error(`Failed to mark render job ${args.jobId} as active:`, error);
+    });
+  });
+
+  clipRenderEvents.on("completed", (args) => {
+    onCompleted(args).catch((error) => {
+      console.error(
+        `Failed to persist render result for job ${args.jobId}:`,
+        error,
+      );
+    });
+  });
+
+  clipRenderEvents.on("failed", (args) => {
+    onFailed(args).catch((error) => {
+      console.error(
+        `Failed to persist render failure for job ${args.jobId}:`,
+        error,
+      );
+    });
+  });
+}
@@ -0,0 +1,8 @@
+/**
+ * Background job listeners
+ */
+
+export { startVideoProcessingListener } from "./video-processing";
+export { startVideoAnalysisListener } from "./video-analysis";
+export { startClipRenderListener } from "./clip-render";
+export { startReelRenderListener } from "./reel-render";
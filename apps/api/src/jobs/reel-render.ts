@@ -0,0 +1,147 @@
+/**
+ * Reel Render Listener
+ * Consumes reelRenderEvents and records render state on the Reel record
+ * (RENDERING → COMPLETED with storage key and duration, or FAILED). A
+ * failed render notifies the reel's creator. Each render writes its own
+ * file, so output from a superseded render is deleted from S3.
+ */
+
+import { prisma } from "@repo/db";
+import type { ReelRenderResult } from "@repo/types";
+import { reelRenderEvents } from "../lib/queues";
+import { deleteObject } from "../lib/s3";
+import { notify } from "../lib/notifications";
+
+/**
+ * Find the reel still waiting on a render job. Matching on renderJobId
+ * ignores results from a job superseded by a re-render or an edit.
+ */
+function findRenderingReel(jobId: string) {
+  return prisma.reel.findFirst({
+    where: {
+      renderJobId: jobId,
+      renderStatus: { in: ["QUEUED", "RENDERING"] },
+    },
+    select: { id: true, storageKey: true },
+  });
+}
+
+async function onActive({ jobId }: { jobId: string }): Promise<void> {
+  const reel = await findRenderingReel(jobId);
+  if (!reel) return;
+
+  await prisma.reel.update({
+    where: { id: reel.id },
+    data: { renderStatus: "RENDERING" },
+  });
+}
+
+async function onCompleted({
+  jobId,
+  returnvalue,
+}: {
+  jobId: string;
+  returnvalue: unknown;
+}): Promise<void> {
+  // QueueEvents already JSON-parses return values, but tolerate raw strings
+  const result = (
+    typeof returnvalue === "string" ? JSON.parse(returnvalue) : returnvalue
+  ) as ReelRenderResult;
+
+  // Only write the key if the reel is still waiting on this job — editing
+  // its items, or retiming or deleting one of its clips, clears renderJobId
+  const reel = await findRenderingReel(jobId);
+  if (reel) {
+    const { count } = await prisma.reel.updateMany({
+      where: {
+        id: reel.id,
+        renderJobId: jobId,
+        renderStatus: { in: ["QUEUED", "RENDERING"] },
+      },
+      data: {
+        renderStatus: "COMPLETED",
+        renderError: null,
+        storageKey: result.storageKey,
+        durationSecs: result.durationSecs,
+      },
+    });
+    if (count === 1) {
+      // A re-render replaces the previous file
+      if (reel.storageKey && reel.storageKey !== result.storageKey) {
+        await deleteObject(reel.storageKey);
+      }
+      return;
+    }
+  }
+
+  // Every API instance gets the event; one of the others may have recorded it
+  const recorded = await prisma.reel.count({
+    where: { storageKey: result.storageKey },
+  });
+  if (recorded > 0) return;
+
+  // Superseded while it ran — nothing points at this render's file
+  await deleteObject(result.storageKey);
+  console.warn(`Discarded stale render output from reel job ${jobId}`);
+}
+
+/**
+ * Mark the render as FAILED. QueueEvents only emits `failed` once all retry
+ * attempts are exhausted.
+ */
+async function onFailed({
+  jobId,
+  failedReason,
+}: {
+  jobId: string;
+  failedReason: string;
+}): Promise<void> {
+  const reel = await findRenderingReel(jobId);
+  if (!reel) return;
+
+  const renderError = failedReason || "Reel render failed";
+  const failed = await prisma.reel.update({
+    where: { id: reel.id },
+    data: { renderStatus: "FAILED", renderError },
+    select: { title: true, organizationId: true, createdById: true },
+  });
+
+  notify({
+    organizationId: failed.organizationId,
+    userIds: [failed.createdById],
+    type: "PROCESSING_FAILED",
+    title: `Rendering failed for ${failed.title}`,
+    body: renderError,
+    link: `/reels/${reel.id}`,
+  });
+}
+
+/** Attach the reel render listeners. Call once at API startup. */
+export function startReelRenderListener(): void {
+  reelRenderEvents.on("active", (args) => {
+    onActive(args).catch((error) => {
+      console.error(
+        `Failed to mark reel render job ${args.jobId} as active:`,
+        error,
+      );
+    });
+  });
+
+  reelRenderEvents.on("completed", (args) => {
+    onCompleted(args).catch((error) => {
+      console.error(
+        `Failed to persist reel render result for job ${args.jobId}:`,
+        error,
+      );
+    });
+  });
+
+  reelRenderEvents.on("failed", (args) => {
+    onFailed(args).catch((error) => {
+      console.error(
+        `Failed to persist reel render failure for job ${args.jobId}:`,
+        error,
+      );
+    });
+  });
+}
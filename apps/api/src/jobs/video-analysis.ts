@@ -0,0 +1,187 @@
+/**
+ * Video Analysis Listener
+ * Consumes videoAnalysisEvents and records each job's lifecycle on its
+ * AnalysisRun (RUNNING → COMPLETED with result JSON and player tracks, or
+ * FAILED), creates suggested clips from detected plays, then signals the
+ * analysis event bus. A failed run notifies whoever requested it.
+ */
+
+import { prisma, type Prisma } from "@repo/db";
+import type { VideoAnalysisResult } from "@repo/types";
+import { videoAnalysisEvents } from "../lib/queues";
+import { publishAnalysisRunChanged } from "../lib/analysis-events";
+import { persistTracks } from "../lib/tracks";
+import { syncSuggestedClips } from "../lib/ai-clips";
+import { notify } from "../lib/notifications";
+
+/** Full-game track inserts can take a while; Prisma's default is 5s */
+const TRACKS_TRANSACTION_TIMEOUT_MS = 120_000;
+
+/** Find the unfinished run bound to a job. */
+function findOpenRun(jobId: string) {
+  return prisma.analysisRun.findFirst({
+    where: { jobId, status: { in: ["QUEUED", "RUNNING"] } },
+    select: {
+      id: true,
+      videoId: true,
+      organizationId: true,
+      queuedAt: true,
+      startedAt: true,
+    },
+  });
+}
+
+/**
+ * Mark the run as RUNNING. Fires on every attempt, so startedAt keeps the
+ * time of the first one.
+ */
+async function onActive({ jobId }: { jobId: string }): Promise<void> {
+  const run = await findOpenRun(jobId);
+  if (!run) return;
+
+  await prisma.analysisRun.update({
+    where: { id: run.id },
+    data: { status: "RUNNING", startedAt: run.startedAt ?? new Date() },
+  });
+  publishAnalysisRunChanged(run.id);
+}
+
+/**
+ * Mark the run as FAILED, signal its stream and notify whoever requested it.
+ */
+async function failRun(
+  run: { id: string; organizationId: string; startedAt: Date | null },
+  errorMessage: string,
+): Promise<void> {
+  const completedAt = new Date();
+  const failed = await prisma.analysisRun.update({
+    where: { id: run.id },
+    data: {
+      status: "FAILED",
+      errorMessage,
+      completedAt,
+      durationMs: run.startedAt
+        ? completedAt.getTime() - run.startedAt.getTime()
+        : null,
+    },
+    select: {
+      requestedById: true,
+      video: { select: { title: true, gameId: true } },
+    },
+  });
+  publishAnalysisRunChanged(run.id);
+
+  notify({
+    organizationId: run.organizationId,
+    userIds: [failed.requestedById],
+    type: "PROCESSING_FAILED",
+    title: `Analysis failed for ${failed.video.title}`,
+    body: errorMessage,
+    link: failed.video.gameId ? `/games/${failed.video.gameId}` : null,
+  });
+}
+
+/** Persist the worker result and timings. */
+async function onCompleted({
+  jobId,
+  returnvalue,
+}: {
+  jobId: string;
+  returnvalue: unknown;
+}): Promise<void> {
+  // QueueEvents already JSON-parses return values, but tolerate raw strings
+  const result = (
+    typeof returnvalue === "string" ? JSON.parse(returnvalue) : returnvalue
+  ) as VideoAnalysisResult | null;
+
+  const run = await findOpenRun(jobId);
+  if (!run) {
+    console.warn(`No open analysis run found for completed job ${jobId}`);
+    return;
+  }
+
+  const completedAt = new Date();
+  const startedAt = run.startedAt ?? run.queuedAt;
+  // Tracks are stored as rows; keep them out of the result JSON
+  const { tracks, ...summary } = result ?? {};
+
+  // Write tracks, clip suggestions and the COMPLETED status together so
+  // readers never see a completed run with partial data. If that fails, the
+  // run is failed rather than left RUNNING with its stream open.
+  try {
+    await prisma.$transaction(
+      async (tx) => {
+        if (tracks?.length) {
+          await persistTracks(tx, run, tracks);
+        }
+        if (result?.plays) {
+          await syncSuggestedClips(tx, run, result.plays);
+        }
+        await tx.analysisRun.update({
+          where: { id: run.id },
+          data: {
+            status: "COMPLETED",
+            errorMessage: null,
+            result: result ? (summary as Prisma.InputJsonValue) : undefined,
+            modelVersion: result?.model_version ?? null,
+            startedAt,
+            completedAt,
+            durationMs: completedAt.getTime() - startedAt.getTime(),
+          },
+        });
+      },
+      { timeout: TRACKS_TRANSACTION_TIMEOUT_MS },
+    );
+  } catch (error) {
+    await failRun(run, "Analysis results could not be saved");
+    throw error;
+  }
+  publishAnalysisRunChanged(run.id);
+}
+
+/**
+ * Mark the run as FAILED. QueueEvents only emits `failed` once the job is
+ * moved to the failed set, i.e. after all retry attempts are exhausted.
+ */
+async function onFailed({
+  jobId,
+  failedReason,
+}: {
+  jobId: string;
+  failedReason: string;
+}): Promise<void> {
+  const run = await findOpenRun(jobId);
+  if (!run) return;
+
+  await failRun(run, failedReason || "Video analysis failed");
+}
+
+/** Attach the analysis listeners. Call once at API startup. */
+export function startVideoAnalysisListener(): void {
+  videoAnalysisEvents.on("active", (args) => {
+    onActive(args).catch((error) => {
+      console.error(
+        `Failed to mark analysis job ${args.jobId} as running:`,
+        error,
+      );
+    });
+  });
+
+  videoAnalysisEvents.on("completed", (args) => {
+    onCompleted(args).catch((error) => {
+      console.error(
+        `Failed to persist analysis result for job ${args.jobId}:`,
+        error,
+      );
+    });
+  });
+
+  videoAnalysisEvents.on("failed", (args) => {
+    onFailed(args).catch((error) => {
+      console.error(
+        `Failed to persist analysis failure for job ${args.jobId}:`,
+        error,
+      );
+    });
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * Video Processing Listener
+ * Consumes videoProcessingEvents and writes worker results back to the
+ * Video record (metadata + thumbnail → COMPLETED, or FAILED on error),
+ * then publishes the transition to the video event bus and notifies the
+ * team (footage ready) or the uploader (processing failed).
+ */
+
+import { prisma } from "@repo/db";
+import type { VideoProcessResult } from "@repo/types";
+import { videoProcessingEvents } from "../lib/queues";
+import { publishVideoStatus } from "../lib/video-events";
+import { notify } from "../lib/notifications";
+
+/** Find the video currently waiting on a processing job. */
+function findProcessingVideo(jobId: string) {
+  return prisma.video.findFirst({
+    where: { jobId, status: "PROCESSING" },
+    select: {
+      id: true,
+      title: true,
+      organizationId: true,
+      uploadedById: true,
+      game: { select: { id: true, title: true } },
+    },
+  });
+}
+
+/**
+ * Persist a successful processing result. Matches on jobId so a result from
+ * a superseded job (e.g. the video was re-uploaded) is ignored. Every API
+ * instance receives the event, so the status is only moved by a conditional
+ * update and only the instance that moved it publishes and notifies.
+ */
+async function onCompleted({
+  jobId,
+  returnvalue,
+}: {
+  jobId: string;
+  returnvalue: unknown;
+}): Promise<void> {
+  // QueueEvents already JSON-parses return values, but tolerate raw strings
+  const result = (
+    typeof returnvalue === "string" ? JSON.parse(returnvalue) : returnvalue
+  ) as VideoProcessResult | null;
+
+  const video = await findProcessingVideo(jobId);
+  if (!video) {
+    console.warn(`No processing video found for completed job ${jobId}`);
+    return;
+  }
+
+  const { count } = await prisma.video.updateMany({
+    where: { id: video.id, jobId, status: "PROCESSING" },
+    data: {
+      status: "COMPLETED",
+      errorMessage: null,
+      width: result?.width ?? null,
+      height: result?.height ?? null,
+      fps: result?.fps ?? null,
+      codec: result?.codec ?? null,
+      durationSecs: result?.durationSecs ?? null,
+      // Keep the client-extracted thumbnail if the worker didn't produce one
+      ...(result?.thumbnailKey && { thumbnailKey: result.thumbnailKey }),
+      ...(result?.thumbnailUrl && { thumbnailUrl: result.thumbnailUrl }),
+    },
+  });
+  if (count !== 1) return;
+  publishVideoStatus(video.id, "COMPLETED");
+
+  // Footage attached to a game is news for the whole team
+  if (video.game) {
+    const members = await prisma.member.findMany({
+      where: { organizationId: video.organizationId },
+      select: { userId: true },
+    });
+    notify({
+      organizationId: video.organizationId,
+      userIds: members.map((m) => m.userId),
+      type: "FOOTAGE_READY",
+      title: `New footage for ${video.game.title}`,
+      body: `${video.title} is ready to watch.`,
+      link: `/games/${video.game.id}`,
+    });
+  }
+}
+
+/**
+ * Mark the video as FAILED. QueueEvents only emits `failed` once the job is
+ * moved to the failed set, i.e. after all retry attempts are exhausted.
+ */
+async function onFailed({
+  jobId,
+  failedReason,
+}: {
+  jobId: string;
+  failedReason: string;
+}): Promise<void> {
+  const video = await findProcessingVideo(jobId);
+  if (!video) return;
+
+  const errorMessage = failedReason || "Video processing failed";
+  // Only the instance whose update moves the status publishes and notifies
+  const { count } = await prisma.video.updateMany({
+    where: { id: video.id, jobId, status: "PROCESSING" },
+    data: { status: "FAILED", errorMessage },
+  });
+  if (count !== 1) return;
+  publishVideoStatus(video.id, "FAILED", errorMessage);
+
+  notify({
+    organizationId: video.organizationId,
+    userIds: [video.uploadedById],
+    type: "PROCESSING_FAILED",
+    title: `Processing failed for ${video.title}`,
+    body: errorMessage,
+    link: video.game ? `/games/${video.game.id}` : "/upload",
+  });
+}
+
+/** Attach the processing listeners. Call once at API startup. */
+export function startVideoProcessingListener(): void {
+  videoProcessingEvents.on("completed", (args) => {
+    onCompleted(args).catch((error) => {
+      console.error(
+        `Failed to persist processing result for job ${args.jobId}:`,
+        error,
+      );
+    });
+  });
+
+  videoProcessingEvents.on("failed", (args) => {
+    onFailed(args).catch((error) => {
+      console.error(
+        `Failed to persist processing failure for job ${args.jobId}:`,
+        error,
+      );
+    });
+  });
+}
@@ -0,0 +1,188 @@
+/**
+ * AI clip suggestions
+ * Turns the play boundaries from an analysis run into clips with
+ * metadata.source = "ai". Suggestions stay pending until a coach accepts
+ * them; re-running analysis replaces pending suggestions but never touches
+ * manual or accepted clips. Pending suggestions that are already in use
+ * (in a playlist or reel, assigned, commented on or tagged with players)
+ * are updated in place instead, since deleting them would cascade.
+ */
+
+import type { Prisma } from "@repo/db";
+import {
+  isPendingAiClip,
+  type AiClipMetadata,
+  type DetectedPlay,
+} from "@repo/types";
+
+/**
+ * Minimum overlap (as a share of the shorter clip) for a detected play to
+ * count as already clipped.
+ */
+const OVERLAP_THRESHOLD = 0.5;
+
+function overlapRatio(
+  a: { startTime: number; endTime: number },
+  b: { startTime: number; endTime: number },
+): number {
+  const overlap =
+    Math.min(a.endTime, b.endTime) - Math.max(a.startTime, b.startTime);
+  if (overlap <= 0) return 0;
+  const shorter = Math.min(a.endTime - a.startTime, b.endTime - b.startTime);
+  return shorter > 0 ? overlap / shorter : 0;
+}
+
+/**
+ * Whether the clip is in use — something points at it, so deleting it would
+ * cascade, or a coach has started breaking it down
+ */
+function isReferenced(clip: {
+  breakdown: Prisma.JsonValue;
+  _count: Record<
+    "playlistItems" | "reelItems" | "assignments" | "comments" | "players",
+    number
+  >;
+}): boolean {
+  const hasBreakdown =
+    !!clip.breakdown &&
+    typeof clip.breakdown === "object" &&
+    Object.keys(clip.breakdown).length > 0;
+  return hasBreakdown || Object.values(clip._count).some((count) => count > 0);
+}
+
+/**
+ * Replace the video's pending AI clips with suggestions from `plays`.
+ * A referenced pending clip takes the detected play that overlaps it most
+ * (its times are kept once it has been rendered, on its own or in a reel)
+ * and stays otherwise.
+ * Plays that overlap a kept clip are skipped. New clips are numbered after
+ * the highest play number in use across the game, so they never collide
+ * with plays on other camera angles. Returns the number of clips created.
+ */
+export async function syncSuggestedClips(
+  tx: Prisma.TransactionClient,
+  run: { id: string; videoId: string; organizationId: string },
+  plays: DetectedPlay[],
+): Promise<number> {
+  const existing = await tx.clip.findMany({
+    where: { videoId: run.videoId },
+    select: {
+      id: true,
+      playNumber: true,
+      startTime: true,
+      endTime: true,
+      metadata: true,
+      breakdown: true,
+      renderStatus: true,
+      _count: {
+        select: {
+          playlistItems: true,
+          reelItems: true,
+          assignments: true,
+          comments: true,
+          players: true,
+        },
+      },
+    },
+  });
+
+  const pending = existing.filter((clip) => isPendingAiClip(clip.metadata));
+  const deletedIds = pending
+    .filter((clip) => !isReferenced(clip))
+    .map((clip) => clip.id);
+  const inUse = pending.filter((clip) => isReferenced(clip));
+  const settled = existing.filter((clip) => !pending.includes(clip));
+
+  if (deletedIds.length > 0) {
+    await tx.clip.deleteMany({ where: { id: { in: deletedIds } } });
+  }
+
+  const detected = plays
+    .filter(
+      (play) =>
+        Number.isFinite(play.start_time) &&
+        Number.isFinite(play.end_time) &&
+        play.start_time >= 0 &&
+        play.end_time > play.start_time,
+    )
+    .map((play) => ({
+      startTime: play.start_time,
+      endTime: play.end_time,
+      confidence: Number.isFinite(play.confidence) ? play.confidence : 0,
+    }))
+    .sort((a, b) => a.startTime - b.startTime)
+    .filter((play) =>
+      settled.every((clip) => overlapRatio(play, clip) < OVERLAP_THRESHOLD),
+    );
+
+  // Suggestions in use follow the detected play they overlap most
+  const claimed = new Set<(typeof detected)[number]>();
+  for (const clip of inUse) {
+    const match = detected
+      .filter((play) => !claimed.has(play))
+      .map((play) => ({ play, overlap: overlapRatio(play, clip) }))
+      .filter(({ overlap }) => overlap >= OVERLAP_THRESHOLD)
+      .sort((a, b) => b.overlap - a.overlap)[0];
+    if (!match) continue;
+    claimed.add(match.play);
+
+    const metadata: AiClipMetadata = {
+      ...(clip.metadata as unknown as AiClipMetadata),
+      confidence: match.play.confidence,
+      analysisRunId: run.id,
+    };
+    await tx.clip.update({
+      where: { id: clip.id },
+      data: {
+        // A rendered file or reel must keep matching the clip's segment
+        ...(clip.renderStatus || clip._count.reelItems > 0
+          ? {}
+          : { startTime: match.play.startTime, endTime: match.play.endTime }),
+        metadata: metadata as unknown as Prisma.InputJsonObject,
+      },
+    });
+  }
+
+  const candidates = detected.filter(
+    (play) =>
+      !claimed.has(play) &&
+      inUse.every((clip) => overlapRatio(play, clip) < OVERLAP_THRESHOLD),
+  );
+
+  if (candidates.length === 0) return 0;
+
+  // Play numbers group clips across camera angles, so number past the
+  // highest play in the whole game (or just this video if it has no game)
+  const video = await tx.video.findUniqueOrThrow({
+    where: { id: run.videoId },
+    select: { gameId: true },
+  });
+  const highest = await tx.clip.aggregate({
+    where: video.gameId
+      ? { video: { gameId: video.gameId } }
+      : { videoId: run.videoId },
+    _max: { playNumber: true },
+  });
+  const firstPlayNumber = (highest._max.playNumber ?? 0) + 1;
+
+  await tx.clip.createMany({
+    data: candidates.map((play, index) => {
+      const metadata: AiClipMetadata = {
+        source: "ai",
+        confidence: play.confidence,
+        reviewStatus: "pending",
+        analysisRunId: run.id,
+      };
+      return {
+        videoId: run.videoId,
+        organizationId: run.organizationId,
+        playNumber: firstPlayNumber + index,
+        startTime: play.startTime,
+        endTime: play.endTime,
+        metadata: metadata as unknown as Prisma.InputJsonObject,
+      };
+    }),
+  });
+
+  return candidates.length;
+}
@@ -0,0 +1,27 @@
+/**
+ * Analysis event bus
+ * In-process pub/sub for AnalysisRun changes, consumed by the per-run SSE
+ * stream. Publishers call this right after writing the run to the database.
+ */
+
+import { EventEmitter } from "node:events";
+
+const emitter = new EventEmitter();
+// One listener per open SSE connection — no meaningful upper bound
+emitter.setMaxListeners(0);
+
+/** Signal that an analysis run was updated. */
+export function publishAnalysisRunChanged(runId: string): void {
+  emitter.emit(runId);
+}
+
+/** Subscribe to changes of a single analysis run. Returns an unsubscribe function. */
+export function subscribeAnalysisRun(
+  runId: string,
+  listener: () => void,
+): () => void {
+  emitter.on(runId, listener);
+  return () => {
+    emitter.off(runId, listener);
+  };
+}
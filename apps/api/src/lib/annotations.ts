@@ -0,0 +1,50 @@
+/**
+ * Annotation access
+ * Shared by the annotation and comment routes: who counts as a coach and
+ * which annotations a member is allowed to see.
+ */
+
+import { prisma, Prisma } from "@repo/db";
+import { isCoachRole } from "@repo/types";
+
+/** Whether the user has coach-level access (owner/admin) in the organization */
+export async function isOrgCoach(organizationId: string, userId: string) {
+  const membership = await prisma.member.findFirst({
+    where: { organizationId, userId },
+  });
+  return isCoachRole(membership?.role ?? "member");
+}
+
+/**
+ * Annotations visible to a member: team annotations, their own and, for
+ * coaches, those shared with coaches.
+ */
+export function visibleAnnotationWhere(
+  userId: string,
+  isCoach: boolean,
+): Prisma.AnnotationWhereInput {
+  return {
+    OR: [
+      { visibility: "TEAM" },
+      { createdById: userId },
+      ...(isCoach ? [{ visibility: "COACHES" as const }] : []),
+    ],
+  };
+}
+
+/**
+ * visibleAnnotationWhere as a SQL condition on the annotation table under
+ * `alias`, for queries Prisma can't express (e.g. joins on time ranges).
+ */
+export function visibleAnnotationSql(
+  alias: string,
+  userId: string,
+  isCoach: boolean,
+): Prisma.Sql {
+  const a = Prisma.raw(alias);
+  return Prisma.sql`(
+    ${a}."visibility" = 'TEAM'
+    OR ${a}."createdById" = ${userId}
+    ${isCoach ? Prisma.sql`OR ${a}."visibility" = 'COACHES'` : Prisma.empty}
+  )`;
+}
@@ -0,0 +1,54 @@
+/**
+ * Clip player serialization
+ * Shared by the clip and player routes: the members tagged on a clip and
+ * the role each had in the play.
+ */
+
+import type { Prisma } from "@repo/db";
+import type { ClipPlayerData, ClipPlayerRole } from "@repo/types";
+
+/** Display order of a member's roles on a play */
+export const CLIP_PLAYER_ROLE_ORDER: ClipPlayerRole[] = [
+  "PARTICIPANT",
+  "BALL_CARRIER",
+  "TARGET",
+  "TACKLER",
+];
+
+/** Clip include that loads the tagged members */
+export const clipPlayersInclude = {
+  players: {
+    include: {
+      member: {
+        select: {
+          id: true,
+          user: { select: { name: true, jerseyNumber: true } },
+        },
+      },
+    },
+  },
+} satisfies Prisma.ClipInclude;
+
+type ClipWithPlayers = Prisma.ClipGetPayload<{
+  include: typeof clipPlayersInclude;
+}>;
+
+/** Tagged members by jersey number, then name; each role in role order */
+export function serializeClipPlayers(
+  players: ClipWithPlayers["players"],
+): ClipPlayerData[] {
+  return players
+    .map(({ member, role }) => ({
+      memberId: member.id,
+      name: member.user.name,
+      jerseyNumber: member.user.jerseyNumber,
+      role,
+    }))
+    .sort(
+      (a, b) =>
+        (a.jerseyNumber ?? Infinity) - (b.jerseyNumber ?? Infinity) ||
+        a.name.localeCompare(b.name) ||
+        CLIP_PLAYER_ROLE_ORDER.indexOf(a.role) -
+          CLIP_PLAYER_ROLE_ORDER.indexOf(b.role),
+    );
+}
@@ -0,0 +1,200 @@
+/**
+ * Clip search
+ * Turns ClipSearchFilters into a Prisma where clause across every game in
+ * the organization. Shared by the clip search endpoint and anything that
+ * aggregates over a filtered set of plays.
+ */
+
+import { prisma, type Prisma } from "@repo/db";
+import {
+  parseBreakdownValue,
+  type BreakdownFilter,
+  type BreakdownValue,
+  type ClipSearchFilters,
+} from "@repo/types";
+import { ApiError } from "../middleware/error";
+import { visibleAnnotationSql, visibleAnnotationWhere } from "./annotations";
+
+/** Who is searching — decides which annotations count for hasAnnotations */
+export interface ClipSearchViewer {
+  userId: string;
+  isCoach: boolean;
+}
+
+/** Game/footage tag filters: tags in the same category are alternatives. */
+async function tagConditions(
+  organizationId: string,
+  tagIds: string[],
+): Promise<Prisma.VideoWhereInput[]> {
+  const ids = [...new Set(tagIds)];
+  const tags = await prisma.tag.findMany({
+    where: { id: { in: ids }, organizationId },
+    select: { id: true, category: true },
+  });
+  if (tags.length !== ids.length) {
+    throw new ApiError(400, "One or more tags were not found");
+  }
+
+  const byCategory = new Map<string, string[]>();
+  for (const tag of tags) {
+    byCategory.set(tag.category, [
+      ...(byCategory.get(tag.category) ?? []),
+      tag.id,
+    ]);
+  }
+
+  return [...byCategory.entries()].map(([category, inCategory]) => {
+    const tagFilter = { some: { tagId: { in: inCategory } } };
+    // Camera angles are tagged on footage files; everything else on games
+    return category === "CAMERA_ANGLE"
+      ? { tags: tagFilter }
+      : { game: { tags: tagFilter } };
+  });
+}
+
+/** Breakdown column conditions, validated against the org's columns. */
+async function breakdownConditions(
+  organizationId: string,
+  filters: BreakdownFilter[],
+): Promise<Prisma.ClipWhereInput[]> {
+  const fields = await prisma.breakdownField.findMany({
+    where: { organizationId, key: { in: filters.map((f) => f.key) } },
+  });
+  const byKey = new Map(fields.map((field) => [field.key, field]));
+
+  return filters.flatMap((filter) => {
+    const field = byKey.get(filter.key);
+    if (!field) {
+      throw new ApiError(400, `Unknown breakdown column "${filter.key}"`);
+    }
+    const definition = { ...field, options: field.options as string[] };
+
+    function parse(raw: BreakdownValue): BreakdownValue {
+      const result = parseBreakdownValue(definition, raw);
+      if (!result.ok) throw new ApiError(400, result.error);
+      if (result.value === null) {
+        throw new ApiError(400, `${definition.label} filter needs a value`);
+      }
+      return result.value;
+    }
+
+    const path = [field.key];
+    const conditions: Prisma.ClipWhereInput[] = [];
+    if (filter.equals !== undefined) {
+      conditions.push({ breakdown: { path, equals: parse(filter.equals) } });
+    }
+    if (filter.in !== undefined) {
+      conditions.push({
+        OR: filter.in.map((value) => ({
+          breakdown: { path, equals: parse(value) },
+        })),
+      });
+    }
+    if (filter.min !== undefined || filter.max !== undefined) {
+      if (field.type !== "NUMBER") {
+        throw new ApiError(
+          400,
+          `${field.label} is not a number column, so it has no range`,
+        );
+      }
+      if (filter.min !== undefined) {
+        conditions.push({ breakdown: { path, gte: filter.min } });
+      }
+      if (filter.max !== undefined) {
+        conditions.push({ breakdown: { path, lte: filter.max } });
+      }
+    }
+    return conditions;
+  });
+}
+
+/**
+ * Ids of the clips on `videoIds` with at least one annotation the viewer
+ * can see overlapping the clip's time range (ranged annotations that start
+ * before the clip count). Annotations aren't related to clips directly —
+ * they're placed by time on the footage — so the overlap join runs in SQL
+ * and only annotated clips come back.
+ */
+async function annotatedClipIds(
+  videoIds: string[],
+  viewer: ClipSearchViewer,
+): Promise<string[]> {
+  if (videoIds.length === 0) return [];
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT c."id"
+    FROM "clip" c
+    WHERE c."videoId" = ANY(${videoIds})
+      AND EXISTS (
+        SELECT 1
+        FROM "annotation" a
+        WHERE a."videoId" = c."videoId"
+          AND a."timestamp" <= c."endTime"
+          AND COALESCE(a."endTimestamp", a."timestamp") >= c."startTime"
+          AND ${visibleAnnotationSql("a", viewer.userId, viewer.isCoach)}
+      )
+  `;
+  return rows.map((row) => row.id);
+}
+
+/** Where clause for clips in the organization matching every given filter. */
+export async function buildClipSearchWhere(
+  organizationId: string,
+  filters: ClipSearchFilters,
+  viewer: ClipSearchViewer,
+): Promise<Prisma.ClipWhereInput> {
+  // Season, game and tag filters pick footage files rather than plays
+  const videoConditions: Prisma.VideoWhereInput[] = [];
+  if (filters.seasonId) {
+    videoConditions.push({ game: { seasonId: filters.seasonId } });
+  }
+  if (filters.gameIds?.length) {
+    videoConditions.push({ gameId: { in: filters.gameIds } });
+  }
+  if (filters.tagIds?.length) {
+    videoConditions.push(
+      ...(await tagConditions(organizationId, filters.tagIds)),
+    );
+  }
+
+  const conditions: Prisma.ClipWhereInput[] = videoConditions.map((video) => ({
+    video,
+  }));
+  if (filters.labels?.length) {
+    conditions.push({ labels: { array_contains: filters.labels } });
+  }
+  if (filters.source) {
+    conditions.push({
+      metadata: { path: ["source"], equals: filters.source },
+    });
+  }
+  if (filters.breakdown?.length) {
+    conditions.push(
+      ...(await breakdownConditions(organizationId, filters.breakdown)),
+    );
+  }
+
+  if (filters.hasAnnotations !== undefined) {
+    // Only footage with annotations the viewer can see, among the files the
+    // other filters select, can hold annotated clips — keeps the id list to
+    // the searched games rather than the whole organization
+    const videos = await prisma.video.findMany({
+      where: {
+        organizationId,
+        annotations: {
+          some: visibleAnnotationWhere(viewer.userId, viewer.isCoach),
+        },
+        AND: videoConditions,
+      },
+      select: { id: true },
+    });
+    const ids = await annotatedClipIds(
+      videos.map((video) => video.id),
+      viewer,
+    );
+    conditions.push({
+      id: filters.hasAnnotations ? { in: ids } : { notIn: ids },
+    });
+  }
+
+  return { organizationId, AND: conditions };
+}
@@ -0,0 +1,329 @@
+/**
+ * ffmpeg helpers for the media worker
+ * Thin wrappers around the local ffmpeg/ffprobe binaries (FFMPEG_PATH,
+ * FFPROBE_PATH). Inputs may be local paths or presigned S3 URLs — ffmpeg
+ * seeks over HTTP with range requests, so cutting a clip never downloads the
+ * full game file.
+ */
+
+import { config } from "../config";
+
+/** Keep the end of stderr for error messages — ffmpeg is very chatty */
+const STDERR_TAIL_LENGTH = 2000;
+
+/**
+ * Reel output format. Every reel segment is normalized to this so the
+ * segments can be joined with the concat demuxer without re-encoding.
+ */
+const REEL_WIDTH = 1280;
+const REEL_HEIGHT = 720;
+const REEL_FPS = 30;
+const REEL_SAMPLE_RATE = 48000;
+
+const REEL_VIDEO_ARGS = [
+  "-c:v",
+  "libx264",
+  "-preset",
+  "veryfast",
+  "-crf",
+  "23",
+  "-pix_fmt",
+  "yuv420p",
+  "-r",
+  String(REEL_FPS),
+];
+
+const REEL_AUDIO_ARGS = [
+  "-c:a",
+  "aac",
+  "-b:a",
+  "128k",
+  "-ar",
+  String(REEL_SAMPLE_RATE),
+  "-ac",
+  "2",
+];
+
+/** Silent stereo track for segments without audio */
+const SILENT_AUDIO_SOURCE = `anullsrc=channel_layout=stereo:sample_rate=${REEL_SAMPLE_RATE}`;
+
+async function runBinary(name: string, command: string[]): Promise<string> {
+  const proc = Bun.spawn(command, { stdout: "pipe", stderr: "pipe" });
+
+  const [exitCode, stdout, stderr] = await Promise.all([
+    proc.exited,
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+
+  if (exitCode !== 0) {
+    throw new Error(
+      `${name} exited with code ${exitCode}: ${stderr.slice(-STDERR_TAIL_LENGTH).trim()}`,
+    );
+  }
+  return stdout;
+}
+
+/** Run ffmpeg with the given arguments, throwing with stderr on failure. */
+export async function runFfmpeg(args: string[]): Promise<void> {
+  await runBinary("ffmpeg", [
+    config.ffmpeg.path,
+    "-hide_banner",
+    "-loglevel",
+    "error",
+    "-y",
+    ...args,
+  ]);
+}
+
+/** Run ffprobe and return its stdout. */
+function runFfprobe(args: string[]): Promise<string> {
+  return runBinary("ffprobe", [
+    config.ffmpeg.probePath,
+    "-v",
+    "error",
+    ...args,
+  ]);
+}
+
+/** Whether `input` has at least one audio stream. */
+export async function hasAudioStream(input: string): Promise<boolean> {
+  const output = await runFfprobe([
+    "-select_streams",
+    "a",
+    "-show_entries",
+    "stream=index",
+    "-of",
+    "csv=p=0",
+    input,
+  ]);
+  return output.trim().length > 0;
+}
+
+/** Container duration of `input` in seconds. */
+export async function probeDuration(input: string): Promise<number> {
+  const output = await runFfprobe([
+    "-show_entries",
+    "format=duration",
+    "-of",
+    "default=noprint_wrappers=1:nokey=1",
+    input,
+  ]);
+  const duration = Number.parseFloat(output.trim());
+  if (!Number.isFinite(duration)) {
+    throw new Error(`ffprobe returned no duration for ${input}`);
+  }
+  return duration;
+}
+
+/** Stream and container details of a footage file */
+export interface VideoProbe {
+  width: number | null;
+  height: number | null;
+  fps: number | null;
+  codec: string | null;
+  durationSecs: number | null;
+}
+
+/** Parse an ffprobe rational like "30000/1001"; "0/0" means unknown. */
+function parseFrameRate(rate: string | undefined): number | null {
+  if (!rate) return null;
+  const [num, den] = rate.split("/").map(Number);
+  if (!num || !den) return null;
+  return Math.round((num / den) * 100) / 100;
+}
+
+/** Dimensions, frame rate, codec and duration of `input`'s first video stream. */
+export async function probeVideo(input: string): Promise<VideoProbe> {
+  const output = await runFfprobe([
+    "-select_streams",
+    "v:0",
+    "-show_entries",
+    "stream=width,height,codec_name,avg_frame_rate:format=duration",
+    "-of",
+    "json",
+    input,
+  ]);
+  const probe = JSON.parse(output) as {
+    streams?: {
+      width?: number;
+      height?: number;
+      codec_name?: string;
+      avg_frame_rate?: string;
+    }[];
+    format?: { duration?: string };
+  };
+
+  const stream = probe.streams?.[0];
+  if (!stream) {
+    throw new Error(`ffprobe found no video stream in ${input}`);
+  }
+  const duration = Number.parseFloat(probe.format?.duration ?? "");
+
+  return {
+    width: stream.width ?? null,
+    height: stream.height ?? null,
+    fps: parseFrameRate(stream.avg_frame_rate),
+    codec: stream.codec_name ?? null,
+    durationSecs: Number.isFinite(duration) ? duration : null,
+  };
+}
+
+/**
+ * Cut [startTime, endTime] out of `input` into an H.264/AAC MP4. Re-encodes
+ * so the cut is frame-accurate rather than snapping to keyframes.
+ */
+export function cutSegment(
+  input: string,
+  startTime: number,
+  endTime: number,
+  outputPath: string,
+): Promise<void> {
+  return runFfmpeg([
+    "-ss",
+    startTime.toFixed(3),
+    "-i",
+    input,
+    "-t",
+    (endTime - startTime).toFixed(3),
+    "-c:v",
+    "libx264",
+    "-preset",
+    "veryfast",
+    "-crf",
+    "23",
+    "-pix_fmt",
+    "yuv420p",
+    "-c:a",
+    "aac",
+    "-b:a",
+    "128k",
+    "-movflags",
+    "+faststart",
+    outputPath,
+  ]);
+}
+
+/** Grab a single JPEG frame at `time`, scaled to `width` (640px by default). */
+export function extractFrame(
+  input: string,
+  time: number,
+  outputPath: string,
+  width = 640,
+): Promise<void> {
+  return runFfmpeg([
+    "-ss",
+    time.toFixed(3),
+    "-i",
+    input,
+    "-frames:v",
+    "1",
+    "-vf",
+    `scale=${width}:-2`,
+    "-q:v",
+    "3",
+    outputPath,
+  ]);
+}
+
+/**
+ * Cut [startTime, endTime] out of `input` in the reel output format:
+ * letterboxed to 1280x720 at 30fps with a stereo AAC track. Footage without
+ * audio gets a silent track so every segment has the same stream layout.
+ */
+export function renderReelClip(
+  input: string,
+  startTime: number,
+  endTime: number,
+  withAudio: boolean,
+  outputPath: string,
+): Promise<void> {
+  const duration = (endTime - startTime).toFixed(3);
+  const scale =
+    `scale=${REEL_WIDTH}:${REEL_HEIGHT}:force_original_aspect_ratio=decrease,` +
+    `pad=${REEL_WIDTH}:${REEL_HEIGHT}:(ow-iw)/2:(oh-ih)/2,setsar=1`;
+
+  return runFfmpeg([
+    "-ss",
+    startTime.toFixed(3),
+    "-i",
+    input,
+    ...(withAudio ? [] : ["-f", "lavfi", "-i", SILENT_AUDIO_SOURCE]),
+    "-t",
+    duration,
+    "-map",
+    "0:v:0",
+    "-map",
+    withAudio ? "0:a:0" : "1:a:0",
+    "-vf",
+    scale,
+    ...REEL_VIDEO_ARGS,
+    ...REEL_AUDIO_ARGS,
+    outputPath,
+  ]);
+}
+
+/**
+ * Render a title card in the reel output format: centered white text on a
+ * black background with a silent audio track. Text is read from files so
+ * user input never needs escaping inside the filter graph.
+ */
+export function renderTitleCard(
+  titleFile: string,
+  subtitleFile: string | null,
+  durationSecs: number,
+  outputPath: string,
+): Promise<void> {
+  const filters = [
+    `drawtext=textfile='${titleFile}':fontcolor=white:fontsize=64:` +
+      `x=(w-text_w)/2:y=(h-text_h)/2${subtitleFile ? "-40" : ""}`,
+  ];
+  if (subtitleFile) {
+    filters.push(
+      `drawtext=textfile='${subtitleFile}':fontcolor=0xBBBBBB:fontsize=36:` +
+        `x=(w-text_w)/2:y=(h/2)+40`,
+    );
+  }
+
+  return runFfmpeg([
+    "-f",
+    "lavfi",
+    "-i",
+    `color=c=black:s=${REEL_WIDTH}x${REEL_HEIGHT}:r=${REEL_FPS}`,
+    "-f",
+    "lavfi",
+    "-i",
+    SILENT_AUDIO_SOURCE,
+    "-t",
+    durationSecs.toFixed(3),
+    "-vf",
+    filters.join(","),
+    ...REEL_VIDEO_ARGS,
+    ...REEL_AUDIO_ARGS,
+    outputPath,
+  ]);
+}
+
+/**
+ * Join segments already in the reel output format into one MP4 using the
+ * concat demuxer (stream copy, no re-encode). `listFile` is written by the
+ * caller with one `file '<path>'` line per segment.
+ */
+export function concatSegments(
+  listFile: string,
+  outputPath: string,
+): Promise<void> {
+  return runFfmpeg([
+    "-f",
+    "concat",
+    "-safe",
+    "0",
+    "-i",
+    listFile,
+    "-c",
+    "copy",
+    "-movflags",
+    "+faststart",
+    outputPath,
+  ]);
+}
@@ -5,3 +5,15 @@
 export { redisConnection } from "./redis";
 export * from "./s3";
 export * from "./queues";
+export * from "./video-events";
+export * from "./analysis-events";
+export * from "./tracks";
+export * from "./ai-clips";
+export * from "./ffmpeg";
+export * from "./playlists";
+export * from "./annotations";
+export * from "./notifications";
+export * from "./clip-search";
+export * from "./play-stats";
+export * from "./clip-players";
+export * from "./reels";
@@ -0,0 +1,108 @@
+/**
+ * Notifications
+ * Records in-app notifications for team activity and emails the members
+ * who opted in for that type. Called from route handlers and job listeners
+ * after the triggering change has been written.
+ */
+
+import { prisma, type NotificationType } from "@repo/db";
+import { DEFAULT_EMAIL_NOTIFICATIONS } from "@repo/types";
+import { notificationEmail } from "@repo/email";
+import { sendEmail } from "@repo/auth/server";
+import { config } from "../config";
+
+export interface NotifyParams {
+  organizationId: string;
+  /** Recipients; duplicates and nulls (e.g. a deleted creator) are dropped */
+  userIds: Array<string | null>;
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  /** Web app path the notification opens */
+  link?: string | null;
+}
+
+/** Longest body stored or emailed — comment replies are quoted in full otherwise */
+const MAX_BODY_LENGTH = 280;
+
+function truncate(text: string | null | undefined): string | null {
+  if (!text) return null;
+  return text.length > MAX_BODY_LENGTH
+    ? `${text.slice(0, MAX_BODY_LENGTH - 1)}…`
+    : text;
+}
+
+async function sendNotificationEmails(
+  params: NotifyParams & { userIds: string[] },
+  body: string | null,
+): Promise<void> {
+  const [organization, users] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: params.organizationId },
+      select: { name: true },
+    }),
+    prisma.user.findMany({
+      where: { id: { in: params.userIds } },
+      select: {
+        name: true,
+        email: true,
+        notificationPreferences: {
+          where: { type: params.type },
+          select: { email: true },
+        },
+      },
+    }),
+  ]);
+  if (!organization) return;
+
+  const url = `${config.webAppUrl}${params.link ?? "/dashboard"}`;
+  const recipients = users.filter(
+    (user) =>
+      user.notificationPreferences[0]?.email ??
+      DEFAULT_EMAIL_NOTIFICATIONS[params.type],
+  );
+
+  await Promise.all(
+    recipients.map((user) =>
+      sendEmail(
+        user.email,
+        notificationEmail({
+          userName: user.name,
+          organizationName: organization.name,
+          title: params.title,
+          body,
+          url,
+        }),
+      ),
+    ),
+  );
+}
+
+/**
+ * Notify members about an event. Never throws — failures are logged so the
+ * triggering request or job is unaffected, and callers need not await it.
+ */
+export async function notify(params: NotifyParams): Promise<void> {
+  const userIds = [
+    ...new Set(params.userIds.filter((id): id is string => Boolean(id))),
+  ];
+  if (userIds.length === 0) return;
+
+  const body = truncate(params.body);
+
+  try {
+    await prisma.notification.createMany({
+      data: userIds.map((userId) => ({
+        organizationId: params.organizationId,
+        userId,
+        type: params.type,
+        title: params.title,
+        body,
+        link: params.link ?? null,
+      })),
+    });
+    await sendNotificationEmails({ ...params, userIds }, body);
+  } catch (error) {
+    console.error(`Failed to send ${params.type} notifications:`, error);
+  }
+}
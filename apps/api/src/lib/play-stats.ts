@@ -0,0 +1,258 @@
+/**
+ * Play statistics
+ * Aggregates the standard breakdown columns (ODK, down, distance, yard
+ * line, play type, result, gain/loss) over a filtered set of clips. Columns
+ * are read by key, so custom columns don't affect the numbers and plays
+ * missing a column are left out of the stats that need it.
+ */
+
+import { prisma, type Prisma } from "@repo/db";
+import {
+  RED_ZONE_YARD_LINES,
+  type BreakdownValue,
+  type BreakdownValues,
+  type DownStats,
+  type GameStats,
+  type PlayStatsCounts,
+  type PlayStatsData,
+  type PlayStatsSummary,
+  type StatsSide,
+} from "@repo/types";
+
+/** Share of the distance a play must gain to be a success, by down */
+const SUCCESS_THRESHOLDS: Record<number, number> = {
+  1: 0.4,
+  2: 0.6,
+  3: 1,
+  4: 1,
+};
+
+interface StatsGame {
+  id: string;
+  title: string;
+  date: Date | null;
+}
+
+/** One play's breakdown, read from whichever of its angles was broken down */
+export interface StatsPlay {
+  game: StatsGame | null;
+  /** Game id, or the footage file's for footage without a game */
+  sequence: string;
+  playNumber: number;
+  odk: string | null;
+  /** Play Type as entered, e.g. "Punt" */
+  playType: string | null;
+  kind: "run" | "pass" | null;
+  formation: string | null;
+  down: number | null;
+  distance: number | null;
+  yardLine: number | null;
+  gain: number | null;
+  /** Result as entered, e.g. "Complete" */
+  result: string | null;
+  touchdown: boolean;
+}
+
+const statsClipSelect = {
+  videoId: true,
+  playNumber: true,
+  breakdown: true,
+  video: {
+    select: { game: { select: { id: true, title: true, date: true } } },
+  },
+} satisfies Prisma.ClipSelect;
+
+type StatsClip = Prisma.ClipGetPayload<{ select: typeof statsClipSelect }>;
+
+function numberValue(value: BreakdownValue | undefined): number | null {
+  return typeof value === "number" ? value : null;
+}
+
+function textValue(value: BreakdownValue | undefined): string | null {
+  return typeof value === "string" ? value.toLowerCase() : null;
+}
+
+/** One entry per play — angles of the same play share a play number. */
+function toPlays(clips: StatsClip[]): StatsPlay[] {
+  const byPlay = new Map<string, StatsClip[]>();
+  for (const clip of clips) {
+    const sequence = clip.video.game?.id ?? clip.videoId;
+    const key = `${sequence}:${clip.playNumber}`;
+    byPlay.set(key, [...(byPlay.get(key) ?? []), clip]);
+  }
+
+  return [...byPlay.values()].map((angles) => {
+    // The angle with the most columns filled in
+    const clip = angles.reduce((best, c) =>
+      Object.keys(c.breakdown as BreakdownValues).length >
+      Object.keys(best.breakdown as BreakdownValues).length
+        ? c
+        : best,
+    );
+    const values = clip.breakdown as BreakdownValues;
+    const playType =
+      typeof values.play_type === "string" ? values.play_type : null;
+    const kind = playType?.toLowerCase();
+
+    return {
+      game: clip.video.game,
+      sequence: clip.video.game?.id ?? clip.videoId,
+      playNumber: clip.playNumber,
+      odk: typeof values.odk === "string" ? values.odk.toUpperCase() : null,
+      playType,
+      kind: kind === "run" || kind === "pass" ? kind : null,
+      formation:
+        typeof values.off_formation === "string" ? values.off_formation : null,
+      down: numberValue(values.down),
+      distance: numberValue(values.distance),
+      yardLine: numberValue(values.yard_line),
+      gain: numberValue(values.gain_loss),
+      result: typeof values.result === "string" ? values.result : null,
+      touchdown: textValue(values.result) === "touchdown",
+    };
+  });
+}
+
+/** Whether the play stayed on schedule, or null when it can't be told */
+function isSuccess(play: StatsPlay): boolean | null {
+  if (play.touchdown) return true;
+  if (play.down === null || play.distance === null || play.gain === null) {
+    return null;
+  }
+  const threshold = SUCCESS_THRESHOLDS[play.down];
+  if (threshold === undefined) return null;
+  return play.gain >= play.distance * threshold;
+}
+
+export function inRedZone(play: StatsPlay): boolean {
+  return (
+    play.yardLine !== null &&
+    play.yardLine >= RED_ZONE_YARD_LINES.min &&
+    play.yardLine <= RED_ZONE_YARD_LINES.max
+  );
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null;
+}
+
+function countPlays(plays: StatsPlay[]): PlayStatsCounts {
+  const gains = plays.flatMap((p) => (p.gain === null ? [] : [p.gain]));
+  const outcomes = plays.flatMap((p) => {
+    const success = isSuccess(p);
+    return success === null ? [] : [success];
+  });
+  const yards = gains.reduce((sum, gain) => sum + gain, 0);
+
+  return {
+    plays: plays.length,
+    runs: plays.filter((p) => p.kind === "run").length,
+    passes: plays.filter((p) => p.kind === "pass").length,
+    yards,
+    yardsPerPlay: ratio(yards, gains.length),
+    successRate: ratio(outcomes.filter(Boolean).length, outcomes.length),
+  };
+}
+
+/**
+ * Counts, plus red-zone trips: a trip starts with a play snapped inside
+ * the 20 and lasts until a play outside it, a change of possession or the
+ * end of the game. `plays` must be in game and play order.
+ */
+export function summarizePlays(plays: StatsPlay[]): PlayStatsSummary {
+  let trips = 0;
+  let touchdowns = 0;
+  let previous: StatsPlay | null = null;
+  let scored = false;
+
+  for (const play of plays) {
+    const continues =
+      previous !== null &&
+      inRedZone(previous) &&
+      previous.sequence === play.sequence &&
+      previous.odk === play.odk;
+
+    if (inRedZone(play)) {
+      if (!continues) {
+        trips++;
+        scored = false;
+      }
+      if (play.touchdown && !scored) {
+        touchdowns++;
+        scored = true;
+      }
+    }
+    previous = play;
+  }
+
+  return {
+    ...countPlays(plays),
+    redZoneTrips: trips,
+    redZoneTouchdowns: touchdowns,
+    redZoneEfficiency: ratio(touchdowns, trips),
+  };
+}
+
+function compareGames(a: StatsGame, b: StatsGame): number {
+  if (a.date && b.date) return a.date.getTime() - b.date.getTime();
+  if (a.date || b.date) return a.date ? -1 : 1;
+  return a.title.localeCompare(b.title);
+}
+
+/** Plays among clips matching `where`, in game and play order. */
+export async function loadStatsPlays(
+  where: Prisma.ClipWhereInput,
+): Promise<StatsPlay[]> {
+  const clips = await prisma.clip.findMany({
+    where,
+    select: statsClipSelect,
+  });
+
+  // Game order, footage without a game last
+  return toPlays(clips).sort(
+    (a, b) =>
+      (a.game && b.game
+        ? compareGames(a.game, b.game)
+        : Number(!a.game) - Number(!b.game)) ||
+      a.sequence.localeCompare(b.sequence) ||
+      a.playNumber - b.playNumber,
+  );
+}
+
+/**
+ * Stats over the run and pass plays among clips matching `where`. With a
+ * side, only plays broken down with that ODK value count.
+ */
+export async function loadPlayStats(
+  where: Prisma.ClipWhereInput,
+  side?: StatsSide,
+): Promise<PlayStatsData> {
+  const all = await loadStatsPlays(where);
+  const plays = all.filter((p) => p.kind !== null && (!side || p.odk === side));
+
+  const downs = [...new Set(plays.flatMap((p) => p.down ?? []))].sort(
+    (a, b) => a - b,
+  );
+  const byDown: DownStats[] = downs.map((down) => ({
+    down,
+    ...countPlays(plays.filter((p) => p.down === down)),
+  }));
+
+  const games = new Map<string, StatsGame>();
+  for (const play of plays) {
+    if (play.game) games.set(play.game.id, play.game);
+  }
+  const byGame: GameStats[] = [...games.values()].map((game) => ({
+    gameId: game.id,
+    title: game.title,
+    date: game.date?.toISOString() ?? null,
+    ...summarizePlays(plays.filter((p) => p.game?.id === game.id)),
+  }));
+
+  return {
+    summary: summarizePlays(plays),
+    byDown,
+    byGame,
+    unclassifiedPlays: all.filter((p) => p.playType === null).length,
+  };
+}
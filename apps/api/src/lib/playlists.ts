@@ -0,0 +1,112 @@
+/**
+ * Playlist playback serialization
+ * Shared by the playlist and assignment routes: turns clips (with their
+ * footage file) into PlaylistItemData plus the deduplicated list of videos
+ * they play from, with presigned playback URLs.
+ */
+
+import type { Prisma } from "@repo/db";
+import type { PlaylistItemData, PlaylistVideoData } from "@repo/types";
+import { getSignedDownloadUrl } from "./s3";
+
+/** Playback URL lifetime — long enough for a full film session */
+const PLAYBACK_URL_EXPIRES_IN = 4 * 60 * 60;
+
+/** Clip include that loads everything needed to play the clip back */
+export const playbackClipInclude = {
+  video: {
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      mimeType: true,
+      fileSize: true,
+      durationSecs: true,
+      thumbnailKey: true,
+      storageKey: true,
+      createdAt: true,
+      game: { select: { id: true, title: true } },
+      tags: {
+        select: {
+          tag: {
+            select: { id: true, name: true, category: true },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.ClipInclude;
+
+export type PlaybackClip = Prisma.ClipGetPayload<{
+  include: typeof playbackClipInclude;
+}>;
+
+/**
+ * Serialize ordered playback entries. `id` and `note` are carried through
+ * unchanged so callers can use their own row IDs (playlist items,
+ * assignments).
+ */
+export async function serializePlaybackItems(
+  entries: Array<{ id: string; note: string | null; clip: PlaybackClip }>,
+): Promise<{ items: PlaylistItemData[]; videos: PlaylistVideoData[] }> {
+  // Batch-sign every thumbnail and footage key referenced by the entries
+  const keysToSign = new Set<string>();
+  for (const { clip } of entries) {
+    if (clip.thumbnailKey) keysToSign.add(clip.thumbnailKey);
+    if (clip.video.thumbnailKey) keysToSign.add(clip.video.thumbnailKey);
+    if (clip.video.storageKey) keysToSign.add(clip.video.storageKey);
+  }
+
+  const signedUrlMap = new Map<string, string>();
+  if (keysToSign.size > 0) {
+    const keys = Array.from(keysToSign);
+    const signedUrls = await Promise.all(
+      keys.map((key) => getSignedDownloadUrl(key, PLAYBACK_URL_EXPIRES_IN)),
+    );
+    for (let i = 0; i < keys.length; i++) {
+      signedUrlMap.set(keys[i], signedUrls[i]);
+    }
+  }
+
+  const videos = new Map<string, PlaylistVideoData>();
+  for (const { clip } of entries) {
+    const { video } = clip;
+    if (videos.has(video.id)) continue;
+    videos.set(video.id, {
+      id: video.id,
+      title: video.title,
+      status: video.status,
+      mimeType: video.mimeType,
+      fileSize: video.fileSize?.toString() ?? null,
+      durationSecs: video.durationSecs,
+      createdAt: video.createdAt.toISOString(),
+      thumbnailUrl: video.thumbnailKey
+        ? (signedUrlMap.get(video.thumbnailKey) ?? null)
+        : null,
+      storageUrl: video.storageKey
+        ? (signedUrlMap.get(video.storageKey) ?? null)
+        : null,
+      tags: video.tags.map((entry) => entry.tag),
+    });
+  }
+
+  return {
+    items: entries.map((entry) => ({
+      id: entry.id,
+      note: entry.note,
+      clip: {
+        id: entry.clip.id,
+        videoId: entry.clip.videoId,
+        playNumber: entry.clip.playNumber,
+        title: entry.clip.title,
+        startTime: entry.clip.startTime,
+        endTime: entry.clip.endTime,
+        thumbnailUrl: entry.clip.thumbnailKey
+          ? (signedUrlMap.get(entry.clip.thumbnailKey) ?? null)
+          : null,
+      },
+      game: entry.clip.video.game,
+    })),
+    videos: Array.from(videos.values()),
+  };
+}
@@ -1,6 +1,7 @@
 /**
- * Video Processing Queue
- * BullMQ queue for post-upload video processing (thumbnail, metadata, etc.)
+ * Job Queues
+ * BullMQ queues for post-upload video processing (thumbnail, metadata, etc.),
+ * ML video analysis, clip rendering and highlight reel rendering.
  */
 
 import { Queue, QueueEvents } from "bullmq";
@@ -22,3 +23,56 @@ export const videoProcessingQueue = new Queue("video-processing", {
 export const videoProcessingEvents = new QueueEvents("video-processing", {
   connection: redisConnection,
 });
+
+// Analysis results are persisted to AnalysisRun, so finished jobs can be trimmed
+export const videoAnalysisQueue = new Queue("video-analysis", {
+  connection: redisConnection,
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: {
+      type: "exponential",
+      delay: 1000,
+    },
+    removeOnComplete: { count: 100 },
+    removeOnFail: { count: 50 },
+  },
+});
+
+export const videoAnalysisEvents = new QueueEvents("video-analysis", {
+  connection: redisConnection,
+});
+
+// Rendered files live in S3 and on the Clip record; jobs are just transport
+export const clipRenderQueue = new Queue("clip-render", {
+  connection: redisConnection,
+  defaultJobOptions: {
+    attempts: 2,
+    backoff: {
+      type: "exponential",
+      delay: 5000,
+    },
+    removeOnComplete: { count: 100 },
+    removeOnFail: { count: 50 },
+  },
+});
+
+export const clipRenderEvents = new QueueEvents("clip-render", {
+  connection: redisConnection,
+});
+
+export const reelRenderQueue = new Queue("reel-render", {
+  connection: redisConnection,
+  defaultJobOptions: {
+    attempts: 2,
+    backoff: {
+      type: "exponential",
+      delay: 5000,
+    },
+    removeOnComplete: { count: 100 },
+    removeOnFail: { count: 50 },
+  },
+});
+
+export const reelRenderEvents = new QueueEvents("reel-render", {
+  connection: redisConnection,
+});
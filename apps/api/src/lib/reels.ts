@@ -0,0 +1,51 @@
+/**
+ * Reel render invalidation
+ * Shared by the clip routes: a rendered reel is cut from its clips' times,
+ * so retiming or deleting a clip discards the render of every reel that
+ * plays it.
+ */
+
+import { prisma } from "@repo/db";
+import { deleteObject } from "./s3";
+
+/**
+ * Clear the render state of every reel containing one of `clipIds` and
+ * delete their rendered files. Call before deleting clips — their reel
+ * items go with them. Clearing renderJobId also makes the reel-render
+ * listener discard the output of renders still in flight.
+ */
+export async function discardReelRenders(clipIds: string[]): Promise<void> {
+  const reels = await prisma.reel.findMany({
+    where: {
+      renderStatus: { not: null },
+      items: { some: { clipId: { in: clipIds } } },
+    },
+    select: { id: true, storageKey: true },
+  });
+  if (reels.length === 0) return;
+
+  await prisma.reel.updateMany({
+    where: { id: { in: reels.map((reel) => reel.id) } },
+    data: {
+      storageKey: null,
+      durationSecs: null,
+      renderStatus: null,
+      renderJobId: null,
+      renderError: null,
+    },
+  });
+
+  await Promise.all(
+    reels.map(async (reel) => {
+      if (!reel.storageKey) return;
+      try {
+        await deleteObject(reel.storageKey);
+      } catch (error) {
+        console.error(
+          `Failed to delete rendered file for reel ${reel.id}:`,
+          error,
+        );
+      }
+    }),
+  );
+}
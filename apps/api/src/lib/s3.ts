@@ -4,9 +4,13 @@
  * Bucket key structure:
  *   orgs/{orgId}/videos/{videoId}/original.{ext}
  *   orgs/{orgId}/videos/{videoId}/thumbnail.jpg
- *   orgs/{orgId}/videos/{videoId}/clips/{clipId}.{ext}
+ *   orgs/{orgId}/videos/{videoId}/clips/{clipId}/{renderId}.{ext}
+ *   orgs/{orgId}/videos/{videoId}/clips/{clipId}/{renderId}.jpg
+ *   orgs/{orgId}/reels/{reelId}/{renderId}.mp4
  */
 
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
 import {
   S3Client,
   CreateMultipartUploadCommand,
@@ -69,6 +73,42 @@ export function getThumbnailKey(orgId: string, videoId: string): string {
   return `orgs/${orgId}/videos/${videoId}/thumbnail.jpg`;
 }
 
+/**
+ * Build the S3 key for one render of a clip. Each render writes its own
+ * file, so a superseded render can never overwrite a newer one.
+ */
+export function getClipKey(
+  orgId: string,
+  videoId: string,
+  clipId: string,
+  renderId: string,
+  ext = "mp4",
+): string {
+  return `orgs/${orgId}/videos/${videoId}/clips/${clipId}/${renderId}.${ext}`;
+}
+
+/** Build the S3 key for the thumbnail of one render of a clip. */
+export function getClipThumbnailKey(
+  orgId: string,
+  videoId: string,
+  clipId: string,
+  renderId: string,
+): string {
+  return `orgs/${orgId}/videos/${videoId}/clips/${clipId}/${renderId}.jpg`;
+}
+
+/**
+ * Build the S3 key for one render of a highlight reel. Each render writes
+ * its own file, so a superseded render can never overwrite a newer one.
+ */
+export function getReelKey(
+  orgId: string,
+  reelId: string,
+  renderId: string,
+): string {
+  return `orgs/${orgId}/reels/${reelId}/${renderId}.mp4`;
+}
+
 /** Build the S3 key prefix for all objects belonging to a video. */
 export function getVideoPrefix(orgId: string, videoId: string): string {
   return `orgs/${orgId}/videos/${videoId}/`;
@@ -208,14 +248,21 @@ export async function headObject(
   }
 }
 
-/** Generate a presigned GET URL for downloading/streaming an object. */
+/**
+ * Generate a presigned GET URL for downloading/streaming an object.
+ * Pass `downloadName` to make browsers save the file instead of playing it.
+ */
 export async function getSignedDownloadUrl(
   key: string,
   expiresIn = 3600,
+  downloadName?: string,
 ): Promise<string> {
   const command = new GetObjectCommand({
     Bucket: S3_BUCKET,
     Key: key,
+    ...(downloadName && {
+      ResponseContentDisposition: `attachment; filename="${downloadName.replace(/["\\]/g, "")}"`,
+    }),
   });
   return getSignedUrl(s3, command, { expiresIn });
 }
@@ -237,3 +284,25 @@ export async function uploadThumbnail(
   await s3.send(command);
   return { key };
 }
+
+/**
+ * Upload a local file to S3 (used by the media worker for rendered output).
+ * The file is streamed from disk, so reels of any length don't have to fit
+ * in memory.
+ */
+export async function uploadFile(
+  key: string,
+  filePath: string,
+  contentType: string,
+): Promise<void> {
+  const { size } = await stat(filePath);
+  const command = new PutObjectCommand({
+    Bucket: S3_BUCKET,
+    Key: key,
+    Body: createReadStream(filePath),
+    // Required for a streamed body — S3 rejects chunked PUTs without it
+    ContentLength: size,
+    ContentType: contentType,
+  });
+  await s3.send(command);
+}
@@ -0,0 +1,181 @@
+/**
+ * Player track storage
+ * Writes the tracks reported by the analysis worker as PlayerTrack /
+ * TrackPoint / RouteSegment rows, and reads them back for a video time
+ * window (e.g. a clip's start/end).
+ */
+
+import { prisma, type Prisma } from "@repo/db";
+import type {
+  DetectedTrack,
+  DetectedTrackPoint,
+  PlayerTrackData,
+  TracksResponse,
+} from "@repo/types";
+
+/** Rows per createMany call — keeps bind parameters well under Postgres' limit */
+const INSERT_CHUNK_SIZE = 5000;
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+async function createInChunks<T>(
+  rows: T[],
+  insert: (chunk: T[]) => Promise<unknown>,
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    await insert(rows.slice(i, i + INSERT_CHUNK_SIZE));
+  }
+}
+
+/**
+ * Persist the tracks of a completed analysis run. Points with non-finite
+ * values are dropped and duplicate timestamps within a track keep the first
+ * sample. Must run inside the transaction that completes the run.
+ */
+export async function persistTracks(
+  tx: Prisma.TransactionClient,
+  run: { id: string; videoId: string; organizationId: string },
+  tracks: DetectedTrack[],
+): Promise<void> {
+  const prepared = tracks
+    .map((track) => {
+      const byTime = new Map<number, DetectedTrackPoint>();
+      for (const p of track.points ?? []) {
+        if (!isFiniteNumber(p.t) || !isFiniteNumber(p.x) || !isFiniteNumber(p.y)) {
+          continue;
+        }
+        if (!byTime.has(p.t)) byTime.set(p.t, p);
+      }
+      const points = [...byTime.values()].sort((a, b) => a.t - b.t);
+      // Stored as text, so 1 and "1" are the same track
+      return { track, trackId: String(track.track_id), points };
+    })
+    .filter(({ points }) => points.length > 0)
+    // trackId is unique per run — keep the first occurrence
+    .filter(
+      ({ trackId }, index, all) =>
+        all.findIndex((other) => other.trackId === trackId) === index,
+    );
+
+  if (prepared.length === 0) return;
+
+  const created = await tx.playerTrack.createManyAndReturn({
+    data: prepared.map(({ track, trackId, points }) => ({
+      analysisRunId: run.id,
+      videoId: run.videoId,
+      organizationId: run.organizationId,
+      trackId,
+      jerseyNumber: isFiniteNumber(track.jersey_number)
+        ? Math.round(track.jersey_number)
+        : null,
+      startTime: points[0]!.t,
+      endTime: points[points.length - 1]!.t,
+    })),
+    select: { id: true, trackId: true },
+  });
+
+  const idByTrackId = new Map(created.map((t) => [t.trackId, t.id]));
+
+  const pointRows: Prisma.TrackPointCreateManyInput[] = [];
+  const routeRows: Prisma.RouteSegmentCreateManyInput[] = [];
+
+  for (const { track, trackId, points } of prepared) {
+    const playerTrackId = idByTrackId.get(trackId);
+    if (!playerTrackId) continue;
+
+    for (const p of points) {
+      pointRows.push({ playerTrackId, timestamp: p.t, x: p.x, y: p.y });
+    }
+
+    for (const route of track.routes ?? []) {
+      if (
+        !route.route_type ||
+        !isFiniteNumber(route.start_time) ||
+        !isFiniteNumber(route.end_time) ||
+        route.end_time < route.start_time
+      ) {
+        continue;
+      }
+      routeRows.push({
+        playerTrackId,
+        videoId: run.videoId,
+        routeType: route.route_type,
+        startTime: route.start_time,
+        endTime: route.end_time,
+        confidence: isFiniteNumber(route.confidence) ? route.confidence : 0,
+      });
+    }
+  }
+
+  await createInChunks(pointRows, (data) => tx.trackPoint.createMany({ data }));
+  await createInChunks(routeRows, (data) =>
+    tx.routeSegment.createMany({ data }),
+  );
+}
+
+/**
+ * Load the tracks overlapping [startTime, endTime] for a video. Uses the
+ * given analysis run, or the video's most recent COMPLETED run. Only points
+ * inside the window are returned; routes are included when they overlap it.
+ */
+export async function getTracksInWindow(
+  video: { id: string; organizationId: string },
+  startTime: number,
+  endTime: number,
+  analysisRunId?: string,
+): Promise<TracksResponse> {
+  const run = await prisma.analysisRun.findFirst({
+    where: {
+      videoId: video.id,
+      organizationId: video.organizationId,
+      status: "COMPLETED",
+      ...(analysisRunId && { id: analysisRunId }),
+    },
+    orderBy: { completedAt: "desc" },
+    select: { id: true },
+  });
+
+  if (!run) return { analysisRunId: null, tracks: [] };
+
+  const tracks = await prisma.playerTrack.findMany({
+    where: {
+      analysisRunId: run.id,
+      startTime: { lte: endTime },
+      endTime: { gte: startTime },
+    },
+    orderBy: { trackId: "asc" },
+    include: {
+      points: {
+        where: { timestamp: { gte: startTime, lte: endTime } },
+        orderBy: { timestamp: "asc" },
+      },
+      routes: {
+        where: { startTime: { lte: endTime }, endTime: { gte: startTime } },
+        orderBy: { startTime: "asc" },
+      },
+    },
+  });
+
+  return {
+    analysisRunId: run.id,
+    tracks: tracks.map(
+      (track): PlayerTrackData => ({
+        id: track.id,
+        trackId: track.trackId,
+        jerseyNumber: track.jerseyNumber,
+        startTime: track.startTime,
+        endTime: track.endTime,
+        points: track.points.map((p) => ({ t: p.timestamp, x: p.x, y: p.y })),
+        routes: track.routes.map((route) => ({
+          id: route.id,
+          routeType: route.routeType,
+          startTime: route.startTime,
+          endTime: route.endTime,
+          confidence: route.confidence,
+        })),
+      }),
+    ),
+  };
+}
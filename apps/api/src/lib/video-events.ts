@@ -0,0 +1,38 @@
+/**
+ * Video event bus
+ * In-process pub/sub for Video status transitions, consumed by the
+ * per-video SSE stream. Publishers call this right after writing the new
+ * status to the database.
+ */
+
+import { EventEmitter } from "node:events";
+import type { VideoStatusValue, VideoStreamEvent } from "@repo/types";
+
+const emitter = new EventEmitter();
+// One listener per open SSE connection — no meaningful upper bound
+emitter.setMaxListeners(0);
+
+/** Publish an event for a single video. */
+export function publishVideoEvent(event: VideoStreamEvent): void {
+  emitter.emit(event.videoId, event);
+}
+
+/** Publish a status transition for a video. */
+export function publishVideoStatus(
+  videoId: string,
+  status: VideoStatusValue,
+  errorMessage: string | null = null,
+): void {
+  publishVideoEvent({ type: "status", videoId, status, errorMessage });
+}
+
+/** Subscribe to events for a single video. Returns an unsubscribe function. */
+export function subscribeVideoEvents(
+  videoId: string,
+  listener: (event: VideoStreamEvent) => void,
+): () => void {
+  emitter.on(videoId, listener);
+  return () => {
+    emitter.off(videoId, listener);
+  };
+}
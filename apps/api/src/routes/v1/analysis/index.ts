@@ -3,4 +3,3 @@
  */
 
 export { analysisRoutes } from "./routes";
-export { videoAnalysisQueue, videoAnalysisEvents } from "./queue";
@@ -1,124 +1,295 @@
 /**
  * Analysis Routes - v1
- * Handles video analysis job creation and status tracking
+ * Runs ML analysis on an organization's videos. Each request creates an
+ * AnalysisRun record bound to a Video; the video-analysis listener writes
+ * the worker's status, timings and result JSON back to that record, so
+ * results outlive the BullMQ job.
  */
 
 import { Elysia, t } from "elysia";
-import { videoAnalysisQueue, videoAnalysisEvents } from "./queue";
+import { prisma, type AnalysisRunStatus, type Prisma } from "@repo/db";
 import type {
-  JobStatus,
-  CreateJobResponse,
+  AnalysisRunData,
+  AnalysisStreamEvent,
+  VideoAnalysisJobData,
   VideoAnalysisResult,
 } from "@repo/types";
-import { authPlugin } from "../../../middleware";
+import { authPlugin, ApiError } from "../../../middleware";
+import {
+  S3_BUCKET,
+  S3_REGION,
+  getSignedDownloadUrl,
+} from "../../../lib/s3";
+import { videoAnalysisQueue, videoAnalysisEvents } from "../../../lib/queues";
+import {
+  publishAnalysisRunChanged,
+  subscribeAnalysisRun,
+} from "../../../lib/analysis-events";
 
-export const analysisRoutes = new Elysia({ prefix: "/analysis" })
+/** Video statuses whose source file is available for analysis */
+const ANALYZABLE_STATUSES = new Set(["UPLOADED", "PROCESSING", "COMPLETED"]);
+
+/** Run statuses after which the stream closes */
+const TERMINAL_STATUSES = new Set<AnalysisRunStatus>(["COMPLETED", "FAILED"]);
+
+/** How often the stream re-checks the DB and sends a keepalive */
+const STREAM_REFRESH_INTERVAL_MS = 15_000;
+
+/** Presigned source URL lifetime — long enough to sit in the queue for a while */
+const SOURCE_URL_EXPIRES_IN = 6 * 60 * 60;
+
+const runInclude = {
+  requestedBy: { select: { id: true, name: true } },
+} as const;
+
+type RunWithRequester = Prisma.AnalysisRunGetPayload<{
+  include: typeof runInclude;
+}>;
+
+/** Shape an AnalysisRun for API responses. */
+function formatRun(run: RunWithRequester): AnalysisRunData {
+  return {
+    id: run.id,
+    videoId: run.videoId,
+    status: run.status,
+    modelVersion: run.modelVersion,
+    errorMessage: run.errorMessage,
+    requestedBy: run.requestedBy,
+    queuedAt: run.queuedAt.toISOString(),
+    startedAt: run.startedAt?.toISOString() ?? null,
+    completedAt: run.completedAt?.toISOString() ?? null,
+    durationMs: run.durationMs,
+    result: (run.result as VideoAnalysisResult | null) ?? null,
+  };
+}
+
+export const analysisRoutes = new Elysia({
+  prefix: "/orgs/:organizationId/analysis",
+})
   .use(authPlugin)
+
   /**
-   * POST /analysis/video
-   * Queue a new video analysis job
+   * POST /orgs/:organizationId/analysis
+   * Queue analysis for a video. Creates a QUEUED AnalysisRun and enqueues
+   * the worker job. Coach-only.
    */
   .post(
-    "/video",
-    async ({ body }): Promise<CreateJobResponse> => {
-      const job = await videoAnalysisQueue.add("analyze", {
-        videoUrl: body.videoUrl,
+    "/",
+    async ({ params, body, user }) => {
+      const { organizationId } = params;
+
+      const video = await prisma.video.findFirst({
+        where: { id: body.videoId, organizationId },
+        select: { id: true, status: true, storageKey: true },
+      });
+
+      if (!video) {
+        throw new ApiError(404, "Video not found in this organization");
+      }
+
+      if (!video.storageKey || !ANALYZABLE_STATUSES.has(video.status)) {
+        throw new ApiError(409, "Video has not finished uploading");
+      }
+
+      const run = await prisma.analysisRun.create({
+        data: {
+          videoId: video.id,
+          organizationId,
+          requestedById: user!.id,
+        },
+      });
+
+      const jobId = `analysis-${run.id}`;
+      const jobData: VideoAnalysisJobData = {
+        analysisRunId: run.id,
+        videoId: video.id,
+        organizationId,
+        videoUrl: await getSignedDownloadUrl(
+          video.storageKey,
+          SOURCE_URL_EXPIRES_IN,
+        ),
+        s3Key: video.storageKey,
+        s3Bucket: S3_BUCKET,
+        s3Region: S3_REGION,
+      };
+
+      // Record the jobId before enqueueing so the listener can always match it
+      await prisma.analysisRun.update({
+        where: { id: run.id },
+        data: { jobId },
+      });
+
+      try {
+        await videoAnalysisQueue.add("analyze", jobData, { jobId });
+      } catch (error) {
+        console.error(`Failed to enqueue analysis run ${run.id}:`, error);
+        await prisma.analysisRun.update({
+          where: { id: run.id },
+          data: {
+            status: "FAILED",
+            errorMessage: "Failed to queue analysis",
+            completedAt: new Date(),
+          },
+        });
+        publishAnalysisRunChanged(run.id);
+        throw new ApiError(503, "Analysis queue is unavailable");
+      }
+
+      const created = await prisma.analysisRun.findUniqueOrThrow({
+        where: { id: run.id },
+        include: runInclude,
       });
-      return { jobId: job.id!, status: "queued" };
+
+      return { run: formatRun(created) };
     },
     {
-      auth: true,
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
       body: t.Object({
-        videoUrl: t.String({ format: "uri" }),
+        videoId: t.String({ minLength: 1 }),
       }),
     },
   )
 
   /**
-   * GET /analysis/job/:id
-   * Get the status of a specific job
+   * GET /orgs/:organizationId/analysis
+   * List analysis runs, newest first. Requires ?videoId= filter.
+   * Result JSON is omitted — fetch a single run to get it.
    */
   .get(
-    "/job/:id",
-    async ({ params }): Promise<JobStatus | { error: string }> => {
-      try {
-        const job = await videoAnalysisQueue.getJob(params.id);
-        if (!job) return { error: "Job not found" };
-        const state = await job.getState();
-
-        return {
-          id: job.id ?? "",
-          name: job.name,
-          state: state as JobStatus["state"],
-          progress: job.progress as number,
-          data: job.data,
-          timestamp: job.timestamp,
-          result: job.returnvalue ?? null,
-        };
-      } catch (err) {
-        return { error: err instanceof Error ? err.message : String(err) };
+    "/",
+    async ({ params, query }) => {
+      const runs = await prisma.analysisRun.findMany({
+        where: {
+          organizationId: params.organizationId,
+          videoId: query.videoId,
+        },
+        orderBy: { createdAt: "desc" },
+        include: runInclude,
+      });
+
+      return {
+        runs: runs.map((run) => ({ ...formatRun(run), result: null })),
+      };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      query: t.Object({
+        videoId: t.String({ minLength: 1 }),
+      }),
+    },
+  )
+
+  /**
+   * GET /orgs/:organizationId/analysis/:runId
+   * Get a single analysis run including its result JSON.
+   */
+  .get(
+    "/:runId",
+    async ({ params }) => {
+      const run = await prisma.analysisRun.findFirst({
+        where: {
+          id: params.runId,
+          organizationId: params.organizationId,
+        },
+        include: runInclude,
+      });
+
+      if (!run) {
+        throw new ApiError(404, "Analysis run not found");
       }
+
+      return { run: formatRun(run) };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        runId: t.String(),
+      }),
     },
-    { auth: true },
   )
 
   /**
-   * GET /analysis/job/:id/stream
-   * Server-Sent Events stream for real-time job updates
+   * GET /orgs/:organizationId/analysis/:runId/stream
+   * Server-Sent Events stream of run updates and worker progress. Sends the
+   * current run on connect and closes once it reaches COMPLETED or FAILED.
    */
   .get(
-    "/job/:id/stream",
-    ({ params }) => {
-      const jobId = params.id;
+    "/:runId/stream",
+    async ({ params }) => {
+      const existing = await prisma.analysisRun.findFirst({
+        where: {
+          id: params.runId,
+          organizationId: params.organizationId,
+        },
+        select: { id: true, jobId: true },
+      });
+
+      if (!existing) {
+        throw new ApiError(404, "Analysis run not found");
+      }
+
+      const runId = existing.id;
+      const jobId = existing.jobId;
       const encoder = new TextEncoder();
       let isClosed = false;
+      let lastUpdatedAt = 0;
+      let cleanup = () => {};
 
       const stream = new ReadableStream({
         async start(controller) {
-          const sendJobState = async () => {
+          const send = (event: AnalysisStreamEvent) => {
+            if (isClosed) return;
+            try {
+              controller.enqueue(
+                encoder.encode(`data: ${JSON.stringify(event)}\n\n`),
+              );
+            } catch {
+              // Ignore errors on closed stream
+            }
+          };
+
+          // Re-read the run and emit it if it changed. Bus signals only say
+          // that something changed; the periodic refresh catches writes made
+          // by other API instances.
+          const refresh = async () => {
             if (isClosed) return;
             try {
-              const job = await videoAnalysisQueue.getJob(jobId);
-              if (!job) {
-                controller.enqueue(
-                  encoder.encode(
-                    `data: ${JSON.stringify({ error: "Job not found" })}\n\n`,
-                  ),
-                );
+              const run = await prisma.analysisRun.findUnique({
+                where: { id: runId },
+                include: runInclude,
+              });
+
+              if (!run) {
                 cleanup();
                 return;
               }
 
-              const state = await job.getState();
-              const data: JobStatus = {
-                id: job.id ?? "",
-                name: job.name,
-                state: state as JobStatus["state"],
-                progress: job.progress as number,
-                data: job.data,
-                timestamp: job.timestamp,
-                result: job.returnvalue as VideoAnalysisResult | null,
-              };
+              if (run.updatedAt.getTime() === lastUpdatedAt) return;
+              lastUpdatedAt = run.updatedAt.getTime();
 
-              controller.enqueue(
-                encoder.encode(`data: ${JSON.stringify(data)}\n\n`),
-              );
+              send({ type: "run", run: formatRun(run) });
 
-              if (state === "completed" || state === "failed") {
+              if (TERMINAL_STATUSES.has(run.status)) {
                 cleanup();
               }
             } catch {
-              // Ignore errors on closed stream
+              // Transient DB errors — the next refresh will retry
             }
           };
 
-          const cleanup = () => {
+          cleanup = () => {
             if (isClosed) return;
             isClosed = true;
-            videoAnalysisEvents.off("active", onActive);
+            unsubscribe();
             videoAnalysisEvents.off("progress", onProgress);
-            videoAnalysisEvents.off("completed", onCompleted);
-            videoAnalysisEvents.off("failed", onFailed);
+            clearInterval(refreshTimer);
             try {
               controller.close();
             } catch {
@@ -126,64 +297,35 @@ export const analysisRoutes = new Elysia({ prefix: "/analysis" })
             }
           };
 
-          const onActive = async ({ jobId: eventJobId }: { jobId: string }) => {
-            if (eventJobId === jobId) await sendJobState();
-          };
-
-          const onProgress = async ({
+          const onProgress = ({
             jobId: eventJobId,
+            data,
           }: {
             jobId: string;
+            data: unknown;
           }) => {
-            if (eventJobId === jobId) await sendJobState();
+            if (eventJobId !== jobId || typeof data !== "number") return;
+            send({ type: "progress", runId, progress: data });
           };
 
-          const onCompleted = async ({
-            jobId: eventJobId,
-            returnvalue,
-          }: {
-            jobId: string;
-            returnvalue: string;
-          }) => {
-            if (eventJobId !== jobId || isClosed) return;
+          const unsubscribe = subscribeAnalysisRun(runId, () => {
+            void refresh();
+          });
+          videoAnalysisEvents.on("progress", onProgress);
+          const refreshTimer = setInterval(() => {
+            if (isClosed) return;
             try {
-              const job = await videoAnalysisQueue.getJob(jobId);
-              if (!job) return;
-
-              const result = returnvalue ? JSON.parse(returnvalue) : null;
-
-              const data: JobStatus = {
-                id: job.id ?? "",
-                name: job.name,
-                state: "completed",
-                progress: 100,
-                data: job.data,
-                timestamp: job.timestamp,
-                result: result as VideoAnalysisResult | null,
-              };
-
-              controller.enqueue(
-                encoder.encode(`data: ${JSON.stringify(data)}\n\n`),
-              );
-              cleanup();
+              controller.enqueue(encoder.encode(": keepalive\n\n"));
             } catch {
-              // Ignore errors
+              // Ignore errors on closed stream
             }
-          };
-
-          const onFailed = async ({ jobId: eventJobId }: { jobId: string }) => {
-            if (eventJobId === jobId) await sendJobState();
-          };
+            void refresh();
+          }, STREAM_REFRESH_INTERVAL_MS);
 
-          videoAnalysisEvents.on("active", onActive);
-          videoAnalysisEvents.on("progress", onProgress);
-          videoAnalysisEvents.on("completed", onCompleted);
-          videoAnalysisEvents.on("failed", onFailed);
-
-          await sendJobState();
+          await refresh();
         },
         cancel() {
-          isClosed = true;
+          cleanup();
         },
       });
 
@@ -195,5 +337,11 @@ export const analysisRoutes = new Elysia({ prefix: "/analysis" })
         },
       });
     },
-    { auth: true },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        runId: t.String(),
+      }),
+    },
   );
@@ -0,0 +1,5 @@
+/**
+ * Annotation templates module exports
+ */
+
+export { annotationTemplateRoutes } from "./routes";
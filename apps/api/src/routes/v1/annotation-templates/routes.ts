@@ -0,0 +1,198 @@
+/**
+ * Annotation Template Routes - v1
+ * The org's telestration library: named drawings (formations, coverage
+ * shells) stored as normalized elements and inserted onto any frame.
+ * Every member can list and insert templates; only coaches manage them.
+ */
+
+import { Elysia, t } from "elysia";
+import { prisma, type Prisma } from "@repo/db";
+import type { AnnotationData, AnnotationTemplateData } from "@repo/types";
+import { authPlugin, ApiError } from "../../../middleware";
+
+type TemplateWithCreator = Prisma.AnnotationTemplateGetPayload<{
+  include: { createdBy: { select: { name: true } } };
+}>;
+
+const templateInclude = {
+  createdBy: { select: { name: true } },
+} satisfies Prisma.AnnotationTemplateInclude;
+
+const templateDataBody = t.Object({
+  elements: t.Array(t.Record(t.String(), t.Unknown()), { minItems: 1 }),
+});
+
+const templateName = t.String({ minLength: 1, maxLength: 60 });
+
+function serializeTemplate(
+  template: TemplateWithCreator,
+): AnnotationTemplateData {
+  return {
+    id: template.id,
+    name: template.name,
+    data: template.data as unknown as AnnotationData["data"],
+    createdByName: template.createdBy?.name ?? null,
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString(),
+  };
+}
+
+/** Reject a blank name or one another template in the org already uses. */
+async function assertNameAvailable(
+  organizationId: string,
+  name: string,
+  excludeId?: string,
+) {
+  if (!name) {
+    throw new ApiError(400, "Template name is required");
+  }
+  const existing = await prisma.annotationTemplate.findUnique({
+    where: { organizationId_name: { organizationId, name } },
+    select: { id: true },
+  });
+  if (existing && existing.id !== excludeId) {
+    throw new ApiError(409, `A template named "${name}" already exists`);
+  }
+}
+
+export const annotationTemplateRoutes = new Elysia({
+  prefix: "/orgs/:organizationId/annotation-templates",
+})
+  .use(authPlugin)
+
+  /**
+   * GET /orgs/:organizationId/annotation-templates
+   * List the org's templates by name
+   */
+  .get(
+    "/",
+    async ({ params }) => {
+      const templates = await prisma.annotationTemplate.findMany({
+        where: { organizationId: params.organizationId },
+        include: templateInclude,
+        orderBy: { name: "asc" },
+      });
+
+      return { templates: templates.map(serializeTemplate) };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/annotation-templates
+   * Save a drawing as a template
+   */
+  .post(
+    "/",
+    async ({ params, body, user }) => {
+      const name = body.name.trim();
+      await assertNameAvailable(params.organizationId, name);
+
+      const template = await prisma.annotationTemplate.create({
+        data: {
+          organizationId: params.organizationId,
+          createdById: user!.id,
+          name,
+          data: body.data as object,
+        },
+        include: templateInclude,
+      });
+
+      return { template: serializeTemplate(template) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      body: t.Object({
+        name: templateName,
+        data: templateDataBody,
+      }),
+    },
+  )
+
+  /**
+   * PATCH /orgs/:organizationId/annotation-templates/:templateId
+   * Rename a template or replace its drawing
+   */
+  .patch(
+    "/:templateId",
+    async ({ params, body }) => {
+      const existing = await prisma.annotationTemplate.findFirst({
+        where: {
+          id: params.templateId,
+          organizationId: params.organizationId,
+        },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        throw new ApiError(404, "Template not found");
+      }
+
+      const name = body.name?.trim();
+      if (name !== undefined) {
+        await assertNameAvailable(params.organizationId, name, existing.id);
+      }
+
+      const template = await prisma.annotationTemplate.update({
+        where: { id: existing.id },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(body.data !== undefined && { data: body.data as object }),
+        },
+        include: templateInclude,
+      });
+
+      return { template: serializeTemplate(template) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        templateId: t.String(),
+      }),
+      body: t.Object({
+        name: t.Optional(templateName),
+        data: t.Optional(templateDataBody),
+      }),
+    },
+  )
+
+  /**
+   * DELETE /orgs/:organizationId/annotation-templates/:templateId
+   * Delete a template. Annotations it was inserted into keep their copy.
+   */
+  .delete(
+    "/:templateId",
+    async ({ params }) => {
+      const existing = await prisma.annotationTemplate.findFirst({
+        where: {
+          id: params.templateId,
+          organizationId: params.organizationId,
+        },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        throw new ApiError(404, "Template not found");
+      }
+
+      await prisma.annotationTemplate.delete({ where: { id: existing.id } });
+
+      return { success: true };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        templateId: t.String(),
+      }),
+    },
+  );
@@ -1,13 +1,179 @@
 /**
  * Annotation Routes - v1
  * CRUD operations for video annotations within an organization.
- * Coach annotations are public (visible to org). Player annotations are private.
+ * Visibility is PRIVATE (creator only), COACHES (creator and coaches) or
+ * TEAM (whole org). Coach annotations default to TEAM, player annotations
+ * to PRIVATE; players can share theirs with coaches, who see them in an inbox.
+ * Edits keep a revision history so earlier versions can be restored.
  */
 
 import { Elysia, t } from "elysia";
-import { prisma } from "@repo/db";
-import type { AnnotationElement } from "@repo/types";
+import { prisma, type AnnotationVisibility, type Prisma } from "@repo/db";
+import {
+  allowedAnnotationVisibilities,
+  type AnnotationData,
+  type AnnotationInboxItemData,
+  type AnnotationRevisionData,
+} from "@repo/types";
 import { authPlugin, ApiError } from "../../../middleware";
+import { isOrgCoach, visibleAnnotationWhere } from "../../../lib/annotations";
+
+type AnnotationWithCreator = Prisma.AnnotationGetPayload<{
+  include: { createdBy: { select: { name: true } } };
+}>;
+
+const annotationDataBody = t.Object({
+  elements: t.Array(t.Record(t.String(), t.Unknown()), { minItems: 1 }),
+});
+
+const visibilityBody = t.Union([
+  t.Literal("PRIVATE"),
+  t.Literal("COACHES"),
+  t.Literal("TEAM"),
+]);
+
+const inboxInclude = {
+  createdBy: { select: { name: true } },
+  video: {
+    select: {
+      id: true,
+      title: true,
+      game: { select: { id: true, title: true } },
+    },
+  },
+} satisfies Prisma.AnnotationInclude;
+
+function serializeAnnotation(
+  annotation: AnnotationWithCreator,
+): AnnotationData {
+  return {
+    id: annotation.id,
+    videoId: annotation.videoId,
+    timestamp: annotation.timestamp,
+    endTimestamp: annotation.endTimestamp,
+    data: annotation.data as unknown as AnnotationData["data"],
+    visibility: annotation.visibility,
+    sharedAt: annotation.sharedAt?.toISOString() ?? null,
+    reviewedAt: annotation.reviewedAt?.toISOString() ?? null,
+    createdById: annotation.createdById,
+    createdByName: annotation.createdBy.name,
+    createdAt: annotation.createdAt.toISOString(),
+    updatedAt: annotation.updatedAt.toISOString(),
+  };
+}
+
+function assertVisibilityAllowed(
+  isCoach: boolean,
+  visibility: AnnotationVisibility,
+) {
+  if (!allowedAnnotationVisibilities(isCoach).includes(visibility)) {
+    throw new ApiError(
+      403,
+      "Only coaches can share annotations with the whole team",
+    );
+  }
+}
+
+/**
+ * Column updates for a visibility change. Sharing with coaches (again)
+ * puts the annotation back at the top of their inbox as unreviewed.
+ */
+function visibilityFields(
+  current: AnnotationVisibility | null,
+  next: AnnotationVisibility,
+) {
+  if (next === "COACHES" && current !== "COACHES") {
+    return { visibility: next, sharedAt: new Date(), reviewedAt: null };
+  }
+  return { visibility: next };
+}
+
+/** A display range must end after it starts */
+function assertValidRange(timestamp: number, endTimestamp: number | null) {
+  if (endTimestamp !== null && endTimestamp <= timestamp) {
+    throw new ApiError(400, "endTimestamp must be after timestamp");
+  }
+}
+
+/**
+ * Load an annotation the user may modify. Private and coach-shared
+ * annotations can only be changed by their creator; team annotations only
+ * by coaches.
+ */
+async function findModifiableAnnotation(
+  organizationId: string,
+  annotationId: string,
+  userId: string,
+  action: "edit" | "delete",
+) {
+  const annotation = await prisma.annotation.findFirst({
+    where: { id: annotationId, organizationId },
+  });
+
+  if (!annotation) {
+    throw new ApiError(404, "Annotation not found");
+  }
+
+  if (annotation.visibility !== "TEAM") {
+    // Private or shared with coaches: only the creator can modify
+    if (annotation.createdById !== userId) {
+      throw new ApiError(403, `You can only ${action} your own annotations`);
+    }
+  } else {
+    // Team annotation: only coaches can modify
+    if (!(await isOrgCoach(organizationId, userId))) {
+      throw new ApiError(
+        403,
+        `Coach-level access required to ${action} team annotations`,
+      );
+    }
+  }
+
+  return annotation;
+}
+
+/**
+ * Replace an annotation's data and record the new version. The first edit
+ * also captures the original drawing so it stays restorable. The display
+ * range is not versioned; it is only changed when `endTimestamp` is given.
+ */
+async function replaceAnnotationData(
+  annotation: {
+    id: string;
+    data: Prisma.JsonValue;
+    createdById: string;
+    updatedAt: Date;
+  },
+  data: Prisma.InputJsonValue,
+  userId: string,
+  endTimestamp?: number | null,
+): Promise<AnnotationWithCreator> {
+  return prisma.$transaction(async (tx) => {
+    const revisionCount = await tx.annotationRevision.count({
+      where: { annotationId: annotation.id },
+    });
+    if (revisionCount === 0) {
+      await tx.annotationRevision.create({
+        data: {
+          annotationId: annotation.id,
+          data: annotation.data as Prisma.InputJsonValue,
+          editedById: annotation.createdById,
+          createdAt: annotation.updatedAt,
+        },
+      });
+    }
+
+    await tx.annotationRevision.create({
+      data: { annotationId: annotation.id, data, editedById: userId },
+    });
+
+    return tx.annotation.update({
+      where: { id: annotation.id },
+      data: { data, endTimestamp },
+      include: { createdBy: { select: { name: true } } },
+    });
+  });
+}
 
 export const annotationRoutes = new Elysia({
   prefix: "/orgs/:organizationId/annotations",
@@ -16,23 +182,21 @@ export const annotationRoutes = new Elysia({
 
   /**
    * GET /orgs/:organizationId/annotations
-   * List annotations for a video. Returns all public annotations plus
-   * the current user's private annotations.
+   * List annotations for a video. Returns all team annotations, the
+   * current user's own annotations and, for coaches, those shared with coaches.
    */
   .get(
     "/",
     async ({ params, query, user }) => {
       const { organizationId } = params;
       const userId = user!.id;
+      const isCoach = await isOrgCoach(organizationId, userId);
 
       const annotations = await prisma.annotation.findMany({
         where: {
           organizationId,
           videoId: query.videoId,
-          OR: [
-            { isPrivate: false },
-            { isPrivate: true, createdById: userId },
-          ],
+          ...visibleAnnotationWhere(userId, isCoach),
         },
         include: {
           createdBy: { select: { name: true } },
@@ -40,18 +204,7 @@ export const annotationRoutes = new Elysia({
         orderBy: { timestamp: "asc" },
       });
 
-      return {
-        annotations: annotations.map((ann) => ({
-          id: ann.id,
-          videoId: ann.videoId,
-          timestamp: ann.timestamp,
-          data: ann.data as { elements: AnnotationElement[] },
-          isPrivate: ann.isPrivate,
-          createdById: ann.createdById,
-          createdByName: ann.createdBy.name,
-          createdAt: ann.createdAt.toISOString(),
-        })),
-      };
+      return { annotations: annotations.map(serializeAnnotation) };
     },
     {
       isOrgMember: true,
@@ -66,14 +219,18 @@ export const annotationRoutes = new Elysia({
 
   /**
    * POST /orgs/:organizationId/annotations
-   * Create an annotation. Privacy is auto-determined by role:
-   * coaches (owner/admin) create public annotations, players create private ones.
+   * Create an annotation. Visibility defaults by role — coaches (owner/admin)
+   * create team annotations, players private ones — and may be given
+   * explicitly (players cannot choose TEAM).
+   * An `endTimestamp` keeps the drawing on screen over playback until then.
    */
   .post(
     "/",
     async ({ params, body, user }) => {
       const { organizationId } = params;
       const userId = user!.id;
+      const endTimestamp = body.endTimestamp ?? null;
+      assertValidRange(body.timestamp, endTimestamp);
 
       // Validate video belongs to org
       const video = await prisma.video.findFirst({
@@ -84,12 +241,10 @@ export const annotationRoutes = new Elysia({
         throw new ApiError(404, "Video not found in this organization");
       }
 
-      // Determine privacy from user's role in the org
-      const membership = await prisma.member.findFirst({
-        where: { organizationId, userId },
-      });
-      const role = membership?.role ?? "member";
-      const isPrivate = role === "member"; // players get private annotations
+      // Default visibility from the user's role in the org
+      const isCoach = await isOrgCoach(organizationId, userId);
+      const visibility = body.visibility ?? (isCoach ? "TEAM" : "PRIVATE");
+      assertVisibilityAllowed(isCoach, visibility);
 
       const annotation = await prisma.annotation.create({
         data: {
@@ -97,26 +252,16 @@ export const annotationRoutes = new Elysia({
           organizationId,
           createdById: userId,
           timestamp: body.timestamp,
+          endTimestamp,
           data: body.data as object,
-          isPrivate,
+          ...visibilityFields(null, visibility),
         },
         include: {
           createdBy: { select: { name: true } },
         },
       });
 
-      return {
-        annotation: {
-          id: annotation.id,
-          videoId: annotation.videoId,
-          timestamp: annotation.timestamp,
-          data: annotation.data as { elements: AnnotationElement[] },
-          isPrivate: annotation.isPrivate,
-          createdById: annotation.createdById,
-          createdByName: annotation.createdBy.name,
-          createdAt: annotation.createdAt.toISOString(),
-        },
-      };
+      return { annotation: serializeAnnotation(annotation) };
     },
     {
       isOrgMember: true,
@@ -126,53 +271,287 @@ export const annotationRoutes = new Elysia({
       body: t.Object({
         videoId: t.String({ minLength: 1 }),
         timestamp: t.Number({ minimum: 0 }),
-        data: t.Object({
-          elements: t.Array(t.Record(t.String(), t.Unknown()), { minItems: 1 }),
-        }),
+        endTimestamp: t.Optional(t.Nullable(t.Number({ minimum: 0 }))),
+        data: annotationDataBody,
+        visibility: t.Optional(visibilityBody),
       }),
     },
   )
 
   /**
-   * DELETE /orgs/:organizationId/annotations/:annotationId
-   * Delete an annotation. Coaches can delete any public annotation.
-   * Players can only delete their own private annotations.
+   * GET /orgs/:organizationId/annotations/inbox
+   * Coach inbox: annotations other members have shared with coaches,
+   * unreviewed first, then most recently shared.
    */
-  .delete(
-    "/:annotationId",
+  .get(
+    "/inbox",
     async ({ params, user }) => {
-      const { organizationId, annotationId } = params;
+      const annotations = await prisma.annotation.findMany({
+        where: {
+          organizationId: params.organizationId,
+          visibility: "COACHES",
+          createdById: { not: user!.id },
+        },
+        include: inboxInclude,
+        orderBy: [
+          { reviewedAt: { sort: "asc", nulls: "first" } },
+          { sharedAt: "desc" },
+        ],
+        take: 100,
+      });
+
+      return {
+        annotations: annotations.map(
+          (annotation): AnnotationInboxItemData => ({
+            ...serializeAnnotation(annotation),
+            video: { id: annotation.video.id, title: annotation.video.title },
+            game: annotation.video.game,
+          }),
+        ),
+      };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * PATCH /orgs/:organizationId/annotations/:annotationId
+   * Replace an annotation's elements, and optionally its display range
+   * (`endTimestamp: null` turns it back into a point annotation).
+   * Same permission rules as delete.
+   */
+  .patch(
+    "/:annotationId",
+    async ({ params, body, user }) => {
+      const userId = user!.id;
+      const annotation = await findModifiableAnnotation(
+        params.organizationId,
+        params.annotationId,
+        userId,
+        "edit",
+      );
+      if (body.endTimestamp !== undefined) {
+        assertValidRange(annotation.timestamp, body.endTimestamp);
+      }
+
+      const updated = await replaceAnnotationData(
+        annotation,
+        body.data as Prisma.InputJsonValue,
+        userId,
+        body.endTimestamp,
+      );
+
+      return { annotation: serializeAnnotation(updated) };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        annotationId: t.String(),
+      }),
+      body: t.Object({
+        data: annotationDataBody,
+        endTimestamp: t.Optional(t.Nullable(t.Number({ minimum: 0 }))),
+      }),
+    },
+  )
+
+  /**
+   * PATCH /orgs/:organizationId/annotations/:annotationId/visibility
+   * Change who can see an annotation. Only its creator may do this, and
+   * only coaches may publish to the whole team.
+   */
+  .patch(
+    "/:annotationId/visibility",
+    async ({ params, body, user }) => {
+      const { organizationId } = params;
       const userId = user!.id;
 
       const annotation = await prisma.annotation.findFirst({
-        where: { id: annotationId, organizationId },
+        where: { id: params.annotationId, organizationId },
       });
-
       if (!annotation) {
         throw new ApiError(404, "Annotation not found");
       }
+      if (annotation.createdById !== userId) {
+        throw new ApiError(
+          403,
+          "Only the creator can change who sees an annotation",
+        );
+      }
+      assertVisibilityAllowed(
+        await isOrgCoach(organizationId, userId),
+        body.visibility,
+      );
 
-      // Determine user's role
-      const membership = await prisma.member.findFirst({
-        where: { organizationId, userId },
+      const updated = await prisma.annotation.update({
+        where: { id: annotation.id },
+        data: {
+          ...visibilityFields(annotation.visibility, body.visibility),
+          // Not an edit to the drawing — keep the "edited" marker accurate
+          updatedAt: annotation.updatedAt,
+        },
+        include: { createdBy: { select: { name: true } } },
       });
-      const role = membership?.role ?? "member";
-      const isCoach = role === "owner" || role === "admin";
-
-      if (annotation.isPrivate) {
-        // Private annotation: only the creator can delete
-        if (annotation.createdById !== userId) {
-          throw new ApiError(403, "You can only delete your own annotations");
-        }
-      } else {
-        // Public annotation: only coaches can delete
-        if (!isCoach) {
-          throw new ApiError(403, "Coach-level access required to delete team annotations");
-        }
+
+      return { annotation: serializeAnnotation(updated) };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        annotationId: t.String(),
+      }),
+      body: t.Object({
+        visibility: visibilityBody,
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/annotations/:annotationId/review
+   * Mark an annotation shared with coaches as reviewed (or unreviewed).
+   */
+  .post(
+    "/:annotationId/review",
+    async ({ params, body }) => {
+      const annotation = await prisma.annotation.findFirst({
+        where: {
+          id: params.annotationId,
+          organizationId: params.organizationId,
+          visibility: "COACHES",
+        },
+      });
+      if (!annotation) {
+        throw new ApiError(404, "Shared annotation not found");
+      }
+
+      const updated = await prisma.annotation.update({
+        where: { id: annotation.id },
+        data: {
+          reviewedAt: body.reviewed ? new Date() : null,
+          updatedAt: annotation.updatedAt,
+        },
+        include: { createdBy: { select: { name: true } } },
+      });
+
+      return { annotation: serializeAnnotation(updated) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        annotationId: t.String(),
+      }),
+      body: t.Object({
+        reviewed: t.Boolean(),
+      }),
+    },
+  )
+
+  /**
+   * GET /orgs/:organizationId/annotations/:annotationId/revisions
+   * Revision history, newest first. Visible to whoever may edit the annotation.
+   */
+  .get(
+    "/:annotationId/revisions",
+    async ({ params, user }) => {
+      const annotation = await findModifiableAnnotation(
+        params.organizationId,
+        params.annotationId,
+        user!.id,
+        "edit",
+      );
+
+      const revisions = await prisma.annotationRevision.findMany({
+        where: { annotationId: annotation.id },
+        include: { editedBy: { select: { name: true } } },
+        orderBy: { createdAt: "desc" },
+      });
+
+      return {
+        revisions: revisions.map(
+          (revision): AnnotationRevisionData => ({
+            id: revision.id,
+            data: revision.data as unknown as AnnotationData["data"],
+            editedById: revision.editedById,
+            editedByName: revision.editedBy?.name ?? null,
+            createdAt: revision.createdAt.toISOString(),
+          }),
+        ),
+      };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        annotationId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/annotations/:annotationId/revisions/:revisionId/restore
+   * Restore an earlier version. Restoring is itself recorded as a new revision.
+   */
+  .post(
+    "/:annotationId/revisions/:revisionId/restore",
+    async ({ params, user }) => {
+      const userId = user!.id;
+      const annotation = await findModifiableAnnotation(
+        params.organizationId,
+        params.annotationId,
+        userId,
+        "edit",
+      );
+
+      const revision = await prisma.annotationRevision.findFirst({
+        where: { id: params.revisionId, annotationId: annotation.id },
+      });
+
+      if (!revision) {
+        throw new ApiError(404, "Revision not found");
       }
 
+      const updated = await replaceAnnotationData(
+        annotation,
+        revision.data as Prisma.InputJsonValue,
+        userId,
+      );
+
+      return { annotation: serializeAnnotation(updated) };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        annotationId: t.String(),
+        revisionId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * DELETE /orgs/:organizationId/annotations/:annotationId
+   * Delete an annotation. Coaches can delete any team annotation; private
+   * and coach-shared annotations can only be deleted by their creator.
+   */
+  .delete(
+    "/:annotationId",
+    async ({ params, user }) => {
+      const annotation = await findModifiableAnnotation(
+        params.organizationId,
+        params.annotationId,
+        user!.id,
+        "delete",
+      );
+
       await prisma.annotation.delete({
-        where: { id: annotationId },
+        where: { id: annotation.id },
       });
 
       return { deleted: true };
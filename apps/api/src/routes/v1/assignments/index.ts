@@ -0,0 +1,5 @@
+/**
+ * Assignments module exports
+ */
+
+export { assignmentRoutes } from "./routes";
@@ -0,0 +1,546 @@
+/**
+ * Assignment Routes - v1
+ * Coaches send a clip or a playlist to specific members with an optional
+ * due date and note. Members report the stretches of film they play back;
+ * an assignment counts as completed once enough of it has been watched at
+ * least once. Recipients are notified when film is assigned to them.
+ */
+
+import { Elysia, t } from "elysia";
+import { prisma, type AssignmentRecipient, type Prisma } from "@repo/db";
+import {
+  ASSIGNMENT_COMPLETION_THRESHOLD,
+  isCoachRole,
+  type AssignmentData,
+  type AssignmentProgressData,
+  type AssignmentSummary,
+  type PlaylistData,
+} from "@repo/types";
+import { authPlugin, ApiError } from "../../../middleware";
+import {
+  playbackClipInclude,
+  serializePlaybackItems,
+} from "../../../lib/playlists";
+import { notify } from "../../../lib/notifications";
+
+const assignmentInclude = {
+  createdBy: { select: { name: true } },
+  clip: { include: playbackClipInclude },
+  playlist: {
+    include: {
+      items: {
+        orderBy: { position: "asc" },
+        include: { clip: { include: playbackClipInclude } },
+      },
+    },
+  },
+  recipients: {
+    include: {
+      member: {
+        include: { user: { select: { id: true, name: true, email: true } } },
+      },
+    },
+  },
+} satisfies Prisma.AssignmentInclude;
+
+type AssignmentWithTarget = Prisma.AssignmentGetPayload<{
+  include: typeof assignmentInclude;
+}>;
+
+type RecipientProgress = {
+  watchedSecs: number;
+  lastWatchedAt: Date | null;
+  completedAt: Date | null;
+};
+
+/** Watched stretches of each assigned clip, as stored on the recipient */
+type WatchedRanges = Record<string, [number, number][]>;
+
+/** Attempts at merging a progress report before giving up on contention */
+const PROGRESS_WRITE_ATTEMPTS = 3;
+
+/** The assigned clips, each once — a playlist may repeat a clip */
+function getAssignedClips(assignment: AssignmentWithTarget) {
+  const clips = assignment.clip
+    ? [assignment.clip]
+    : (assignment.playlist?.items ?? []).map((item) => item.clip);
+  return [...new Map(clips.map((clip) => [clip.id, clip])).values()];
+}
+
+/** Total playback length of the assigned clip or playlist */
+function getTotalSecs(assignment: AssignmentWithTarget): number {
+  return getAssignedClips(assignment).reduce(
+    (sum, clip) => sum + Math.max(0, clip.endTime - clip.startTime),
+    0,
+  );
+}
+
+/** Sort ranges and merge the ones that overlap or touch */
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const merged: [number, number][] = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged.at(-1);
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Seconds of the assigned film covered by the watched ranges, within each
+ * clip's current times
+ */
+function getWatchedSecs(
+  assignment: AssignmentWithTarget,
+  ranges: WatchedRanges,
+): number {
+  return getAssignedClips(assignment).reduce(
+    (sum, clip) =>
+      sum +
+      (ranges[clip.id] ?? []).reduce(
+        (covered, [start, end]) =>
+          covered +
+          Math.max(
+            0,
+            Math.min(end, clip.endTime) - Math.max(start, clip.startTime),
+          ),
+        0,
+      ),
+    0,
+  );
+}
+
+function serializeSummary(assignment: AssignmentWithTarget): AssignmentSummary {
+  const { clip, playlist } = assignment;
+
+  return {
+    id: assignment.id,
+    kind: clip ? "CLIP" : "PLAYLIST",
+    title: clip
+      ? clip.title || `Play ${clip.playNumber}`
+      : (playlist?.title ?? "Playlist"),
+    clipId: assignment.clipId,
+    playlistId: assignment.playlistId,
+    game: clip?.video.game ?? null,
+    note: assignment.note,
+    dueDate: assignment.dueDate?.toISOString() ?? null,
+    totalSecs: getTotalSecs(assignment),
+    createdByName: assignment.createdBy?.name ?? null,
+    createdAt: assignment.createdAt.toISOString(),
+  };
+}
+
+function serializeProgress(
+  recipient: RecipientProgress | null,
+  totalSecs: number,
+): AssignmentProgressData {
+  const watchedSecs = recipient?.watchedSecs ?? 0;
+
+  return {
+    watchedSecs,
+    progress: totalSecs > 0 ? Math.min(1, watchedSecs / totalSecs) : 0,
+    lastWatchedAt: recipient?.lastWatchedAt?.toISOString() ?? null,
+    completedAt: recipient?.completedAt?.toISOString() ?? null,
+  };
+}
+
+function serializeAssignment(assignment: AssignmentWithTarget): AssignmentData {
+  const summary = serializeSummary(assignment);
+
+  return {
+    ...summary,
+    recipients: assignment.recipients
+      .map((recipient) => ({
+        memberId: recipient.memberId,
+        userId: recipient.member.user.id,
+        name: recipient.member.user.name,
+        email: recipient.member.user.email,
+        ...serializeProgress(recipient, summary.totalSecs),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+/** Present the assigned film as a playlist so one player handles both kinds */
+async function serializePlayback(
+  assignment: AssignmentWithTarget,
+): Promise<PlaylistData> {
+  const entries = assignment.clip
+    ? [{ id: assignment.id, note: null, clip: assignment.clip }]
+    : (assignment.playlist?.items ?? []);
+  const { items, videos } = await serializePlaybackItems(entries);
+
+  return {
+    id: assignment.playlistId ?? assignment.id,
+    title: serializeSummary(assignment).title,
+    itemCount: items.length,
+    createdAt: assignment.createdAt.toISOString(),
+    updatedAt: assignment.updatedAt.toISOString(),
+    items,
+    videos,
+  };
+}
+
+function findMembership(organizationId: string, userId: string) {
+  return prisma.member.findFirst({ where: { organizationId, userId } });
+}
+
+export const assignmentRoutes = new Elysia({
+  prefix: "/orgs/:organizationId/assignments",
+})
+  .use(authPlugin)
+
+  /**
+   * GET /orgs/:organizationId/assignments
+   * Coach view: every assignment with per-member completion, newest first.
+   * Optionally filtered to one clip or playlist.
+   */
+  .get(
+    "/",
+    async ({ params, query }) => {
+      const assignments = await prisma.assignment.findMany({
+        where: {
+          organizationId: params.organizationId,
+          ...(query.clipId && { clipId: query.clipId }),
+          ...(query.playlistId && { playlistId: query.playlistId }),
+        },
+        orderBy: { createdAt: "desc" },
+        include: assignmentInclude,
+      });
+
+      return { assignments: assignments.map(serializeAssignment) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      query: t.Object({
+        clipId: t.Optional(t.String()),
+        playlistId: t.Optional(t.String()),
+      }),
+    },
+  )
+
+  /**
+   * GET /orgs/:organizationId/assignments/mine
+   * Assignments sent to the current member with their own progress. Open
+   * assignments come first, soonest due date first.
+   */
+  .get(
+    "/mine",
+    async ({ params, user }) => {
+      const membership = await findMembership(params.organizationId, user!.id);
+      if (!membership) return { assignments: [] };
+
+      const assignments = await prisma.assignment.findMany({
+        where: {
+          organizationId: params.organizationId,
+          recipients: { some: { memberId: membership.id } },
+        },
+        orderBy: [
+          { dueDate: { sort: "asc", nulls: "last" } },
+          { createdAt: "desc" },
+        ],
+        include: assignmentInclude,
+      });
+
+      const mine = assignments.map((assignment) => {
+        const summary = serializeSummary(assignment);
+        const recipient =
+          assignment.recipients.find((r) => r.memberId === membership.id) ??
+          null;
+        return {
+          ...summary,
+          progress: serializeProgress(recipient, summary.totalSecs),
+        };
+      });
+
+      // Stable partition: incomplete assignments ahead of completed ones
+      return {
+        assignments: [
+          ...mine.filter((a) => !a.progress.completedAt),
+          ...mine.filter((a) => a.progress.completedAt),
+        ],
+      };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/assignments
+   * Assign a clip or a playlist (exactly one) to one or more members.
+   */
+  .post(
+    "/",
+    async ({ params, body, user }) => {
+      const { organizationId } = params;
+
+      if (Boolean(body.clipId) === Boolean(body.playlistId)) {
+        throw new ApiError(400, "Provide exactly one of clipId or playlistId");
+      }
+
+      if (body.clipId) {
+        const clip = await prisma.clip.findFirst({
+          where: { id: body.clipId, organizationId },
+        });
+        if (!clip) {
+          throw new ApiError(404, "Clip not found");
+        }
+      } else {
+        const playlist = await prisma.playlist.findFirst({
+          where: { id: body.playlistId, organizationId },
+        });
+        if (!playlist) {
+          throw new ApiError(404, "Playlist not found");
+        }
+      }
+
+      const memberIds = [...new Set(body.memberIds)];
+      const memberCount = await prisma.member.count({
+        where: { id: { in: memberIds }, organizationId },
+      });
+      if (memberCount !== memberIds.length) {
+        throw new ApiError(400, "One or more members were not found");
+      }
+
+      const assignment = await prisma.assignment.create({
+        data: {
+          organizationId,
+          createdById: user!.id,
+          clipId: body.clipId ?? null,
+          playlistId: body.playlistId ?? null,
+          note: body.note || null,
+          dueDate: body.dueDate ? new Date(body.dueDate) : null,
+          recipients: {
+            createMany: {
+              data: memberIds.map((memberId) => ({ memberId })),
+            },
+          },
+        },
+        include: assignmentInclude,
+      });
+
+      const summary = serializeSummary(assignment);
+      notify({
+        organizationId,
+        userIds: assignment.recipients.map((r) => r.member.user.id),
+        type: "FILM_ASSIGNED",
+        title: `${user!.name} assigned you ${summary.title}`,
+        body: assignment.note,
+        link: `/assignments/${assignment.id}`,
+      });
+
+      return { assignment: serializeAssignment(assignment) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      body: t.Object({
+        clipId: t.Optional(t.String({ minLength: 1 })),
+        playlistId: t.Optional(t.String({ minLength: 1 })),
+        memberIds: t.Array(t.String({ minLength: 1 }), {
+          minItems: 1,
+          maxItems: 200,
+        }),
+        dueDate: t.Optional(t.Nullable(t.String({ format: "date" }))),
+        note: t.Optional(t.Nullable(t.String({ maxLength: 1000 }))),
+      }),
+    },
+  )
+
+  /**
+   * GET /orgs/:organizationId/assignments/:assignmentId
+   * Playback data for an assignment: the film as a playlist plus the
+   * caller's progress. Open to recipients and coaches.
+   */
+  .get(
+    "/:assignmentId",
+    async ({ params, user }) => {
+      const { organizationId, assignmentId } = params;
+
+      const assignment = await prisma.assignment.findFirst({
+        where: { id: assignmentId, organizationId },
+        include: assignmentInclude,
+      });
+
+      if (!assignment) {
+        throw new ApiError(404, "Assignment not found");
+      }
+
+      const membership = await findMembership(organizationId, user!.id);
+      const recipient =
+        assignment.recipients.find((r) => r.memberId === membership?.id) ??
+        null;
+      const isCoach = isCoachRole(membership?.role ?? "member");
+
+      if (!recipient && !isCoach) {
+        throw new ApiError(403, "This assignment was not sent to you");
+      }
+
+      const summary = serializeSummary(assignment);
+
+      return {
+        assignment: {
+          ...summary,
+          progress: serializeProgress(recipient, summary.totalSecs),
+        },
+        playlist: await serializePlayback(assignment),
+        isRecipient: recipient !== null,
+      };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        assignmentId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/assignments/:assignmentId/progress
+   * Report stretches of one assigned clip watched since the last report.
+   * They're merged with what was already watched, so replays don't add
+   * progress; the assignment is marked completed the first time progress
+   * crosses the completion threshold.
+   */
+  .post(
+    "/:assignmentId/progress",
+    async ({ params, body, user }) => {
+      const { organizationId, assignmentId } = params;
+
+      const assignment = await prisma.assignment.findFirst({
+        where: { id: assignmentId, organizationId },
+        include: assignmentInclude,
+      });
+
+      if (!assignment) {
+        throw new ApiError(404, "Assignment not found");
+      }
+
+      const membership = await findMembership(organizationId, user!.id);
+      const recipient = assignment.recipients.find(
+        (r) => r.memberId === membership?.id,
+      );
+
+      if (!recipient) {
+        throw new ApiError(403, "This assignment was not sent to you");
+      }
+
+      const clip = getAssignedClips(assignment).find(
+        (c) => c.id === body.clipId,
+      );
+      if (!clip) {
+        throw new ApiError(400, "Clip is not part of this assignment");
+      }
+
+      const reported = body.ranges
+        .map(({ start, end }): [number, number] => [
+          Math.max(start, clip.startTime),
+          Math.min(end, clip.endTime),
+        ])
+        .filter(([start, end]) => end > start);
+      const totalSecs = getTotalSecs(assignment);
+
+      // Merge with a conditional write so concurrent reports can't drop each
+      // other's ranges; a lost race re-reads and merges again
+      let current: AssignmentRecipient | null = recipient;
+      for (let attempt = 0; attempt < PROGRESS_WRITE_ATTEMPTS; attempt++) {
+        if (!current) break;
+        const ranges = { ...(current.watchedRanges as WatchedRanges) };
+        ranges[clip.id] = mergeRanges([
+          ...(ranges[clip.id] ?? []),
+          ...reported,
+        ]);
+        // Never lower progress — retimed clips and rows from before ranges
+        // were stored keep what they had
+        const watchedSecs = Math.max(
+          current.watchedSecs,
+          getWatchedSecs(assignment, ranges),
+        );
+        const now = new Date();
+        const reachedThreshold =
+          totalSecs > 0 &&
+          watchedSecs / totalSecs >= ASSIGNMENT_COMPLETION_THRESHOLD;
+
+        const { count } = await prisma.assignmentRecipient.updateMany({
+          where: { id: current.id, lastWatchedAt: current.lastWatchedAt },
+          data: {
+            watchedRanges: ranges,
+            watchedSecs,
+            lastWatchedAt: now,
+            completedAt: current.completedAt ?? (reachedThreshold ? now : null),
+          },
+        });
+        const latest: AssignmentRecipient | null =
+          await prisma.assignmentRecipient.findUnique({
+            where: { id: current.id },
+          });
+        if (count === 1 && latest) {
+          return { progress: serializeProgress(latest, totalSecs) };
+        }
+        current = latest;
+      }
+
+      throw new ApiError(409, "Progress was updated at the same time, retry");
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        assignmentId: t.String(),
+      }),
+      body: t.Object({
+        clipId: t.String({ minLength: 1 }),
+        ranges: t.Array(
+          t.Object({
+            start: t.Number({ minimum: 0 }),
+            end: t.Number({ minimum: 0 }),
+          }),
+          { minItems: 1, maxItems: 100 },
+        ),
+      }),
+    },
+  )
+
+  /**
+   * DELETE /orgs/:organizationId/assignments/:assignmentId
+   * Withdraw an assignment. Watch progress is discarded with it.
+   */
+  .delete(
+    "/:assignmentId",
+    async ({ params }) => {
+      const assignment = await prisma.assignment.findFirst({
+        where: {
+          id: params.assignmentId,
+          organizationId: params.organizationId,
+        },
+      });
+
+      if (!assignment) {
+        throw new ApiError(404, "Assignment not found");
+      }
+
+      await prisma.assignment.delete({ where: { id: assignment.id } });
+
+      return { success: true };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        assignmentId: t.String(),
+      }),
+    },
+  );
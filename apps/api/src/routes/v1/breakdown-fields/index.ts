@@ -0,0 +1,5 @@
+/**
+ * Breakdown fields module exports
+ */
+
+export { breakdownFieldRoutes } from "./routes";
@@ -0,0 +1,347 @@
+/**
+ * Breakdown Field Routes - v1
+ * The org's play-by-play breakdown schema: the columns (down, distance,
+ * play type...) coaches fill in for each play. Values are stored on clips
+ * under each field's key and validated by the clip routes.
+ */
+
+import { Elysia, t } from "elysia";
+import { prisma, type BreakdownField } from "@repo/db";
+import {
+  breakdownFieldKey,
+  DEFAULT_BREAKDOWN_FIELDS,
+  type BreakdownFieldData,
+} from "@repo/types";
+import { authPlugin, ApiError } from "../../../middleware";
+
+const fieldLabel = t.String({ minLength: 1, maxLength: 40 });
+const fieldOptions = t.Array(t.String({ minLength: 1, maxLength: 40 }), {
+  maxItems: 50,
+});
+const fieldBound = t.Nullable(t.Integer());
+
+function serializeField(field: BreakdownField): BreakdownFieldData {
+  return {
+    id: field.id,
+    key: field.key,
+    label: field.label,
+    type: field.type,
+    options: field.options as string[],
+    min: field.min,
+    max: field.max,
+    position: field.position,
+  };
+}
+
+/** Trimmed, de-duplicated list options */
+function normalizeOptions(options: string[]): string[] {
+  return [...new Set(options.map((o) => o.trim()).filter(Boolean))];
+}
+
+/** Reject definitions a cell could never satisfy. */
+function assertValidDefinition(field: {
+  type: BreakdownField["type"];
+  options: string[];
+  min: number | null;
+  max: number | null;
+}) {
+  if (field.type === "SELECT" && field.options.length === 0) {
+    throw new ApiError(400, "A list column needs at least one option");
+  }
+  if (field.min !== null && field.max !== null && field.min > field.max) {
+    throw new ApiError(400, "Minimum must not be more than maximum");
+  }
+}
+
+async function listFields(organizationId: string) {
+  const fields = await prisma.breakdownField.findMany({
+    where: { organizationId },
+    orderBy: { position: "asc" },
+  });
+  return fields.map(serializeField);
+}
+
+export const breakdownFieldRoutes = new Elysia({
+  prefix: "/orgs/:organizationId/breakdown-fields",
+})
+  .use(authPlugin)
+
+  /**
+   * GET /orgs/:organizationId/breakdown-fields
+   * List the org's breakdown columns in display order
+   */
+  .get(
+    "/",
+    async ({ params }) => {
+      return { fields: await listFields(params.organizationId) };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/breakdown-fields
+   * Add a column at the end. Its key is derived from the label.
+   */
+  .post(
+    "/",
+    async ({ params, body }) => {
+      const { organizationId } = params;
+      const label = body.label.trim();
+      if (!label) {
+        throw new ApiError(400, "Column name is required");
+      }
+
+      const definition = {
+        type: body.type,
+        options:
+          body.type === "SELECT" ? normalizeOptions(body.options ?? []) : [],
+        min: body.type === "NUMBER" ? (body.min ?? null) : null,
+        max: body.type === "NUMBER" ? (body.max ?? null) : null,
+      };
+      assertValidDefinition(definition);
+
+      const key = breakdownFieldKey(label);
+      const existing = await prisma.breakdownField.findUnique({
+        where: { organizationId_key: { organizationId, key } },
+        select: { label: true },
+      });
+      if (existing) {
+        throw new ApiError(
+          409,
+          `A column named "${existing.label}" already exists`,
+        );
+      }
+
+      const last = await prisma.breakdownField.aggregate({
+        where: { organizationId },
+        _max: { position: true },
+      });
+
+      const field = await prisma.breakdownField.create({
+        data: {
+          organizationId,
+          key,
+          label,
+          ...definition,
+          position: (last._max.position ?? -1) + 1,
+        },
+      });
+
+      return { field: serializeField(field) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      body: t.Object({
+        label: fieldLabel,
+        type: t.Union([
+          t.Literal("NUMBER"),
+          t.Literal("TEXT"),
+          t.Literal("SELECT"),
+        ]),
+        options: t.Optional(fieldOptions),
+        min: t.Optional(fieldBound),
+        max: t.Optional(fieldBound),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/breakdown-fields/defaults
+   * Add the standard football columns the org doesn't have yet.
+   * Returns the full column list.
+   */
+  .post(
+    "/defaults",
+    async ({ params }) => {
+      const { organizationId } = params;
+
+      await prisma.$transaction(async (tx) => {
+        const existing = await tx.breakdownField.findMany({
+          where: { organizationId },
+          select: { key: true, position: true },
+        });
+        const keys = new Set(existing.map((f) => f.key));
+        let position =
+          existing.reduce((max, f) => Math.max(max, f.position), -1) + 1;
+
+        const missing = DEFAULT_BREAKDOWN_FIELDS.filter(
+          (f) => !keys.has(breakdownFieldKey(f.label)),
+        );
+        if (missing.length === 0) return;
+
+        await tx.breakdownField.createMany({
+          data: missing.map((f) => ({
+            organizationId,
+            key: breakdownFieldKey(f.label),
+            label: f.label,
+            type: f.type,
+            options: f.options,
+            min: f.min,
+            max: f.max,
+            position: position++,
+          })),
+        });
+      });
+
+      return { fields: await listFields(organizationId) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * PUT /orgs/:organizationId/breakdown-fields/order
+   * Reorder columns. fieldIds must list every column exactly once.
+   */
+  .put(
+    "/order",
+    async ({ params, body }) => {
+      const { organizationId } = params;
+      const fields = await prisma.breakdownField.findMany({
+        where: { organizationId },
+        select: { id: true },
+      });
+
+      const ids = new Set(fields.map((f) => f.id));
+      if (
+        body.fieldIds.length !== ids.size ||
+        new Set(body.fieldIds).size !== ids.size ||
+        body.fieldIds.some((id) => !ids.has(id))
+      ) {
+        throw new ApiError(400, "fieldIds must list every column once");
+      }
+
+      await prisma.$transaction(
+        body.fieldIds.map((id, position) =>
+          prisma.breakdownField.update({
+            where: { id },
+            data: { position },
+          }),
+        ),
+      );
+
+      return { fields: await listFields(organizationId) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      body: t.Object({
+        fieldIds: t.Array(t.String(), { maxItems: 100 }),
+      }),
+    },
+  )
+
+  /**
+   * PATCH /orgs/:organizationId/breakdown-fields/:fieldId
+   * Rename a column or change its options or bounds. The type and key
+   * can't change, so values already entered keep their meaning.
+   */
+  .patch(
+    "/:fieldId",
+    async ({ params, body }) => {
+      const field = await prisma.breakdownField.findFirst({
+        where: {
+          id: params.fieldId,
+          organizationId: params.organizationId,
+        },
+      });
+
+      if (!field) {
+        throw new ApiError(404, "Column not found");
+      }
+
+      const label = body.label?.trim();
+      if (label !== undefined && !label) {
+        throw new ApiError(400, "Column name is required");
+      }
+
+      const definition = {
+        type: field.type,
+        options:
+          field.type === "SELECT" && body.options !== undefined
+            ? normalizeOptions(body.options)
+            : (field.options as string[]),
+        min:
+          field.type === "NUMBER" && body.min !== undefined
+            ? body.min
+            : field.min,
+        max:
+          field.type === "NUMBER" && body.max !== undefined
+            ? body.max
+            : field.max,
+      };
+      assertValidDefinition(definition);
+
+      const updated = await prisma.breakdownField.update({
+        where: { id: field.id },
+        data: {
+          ...(label !== undefined && { label }),
+          options: definition.options,
+          min: definition.min,
+          max: definition.max,
+        },
+      });
+
+      return { field: serializeField(updated) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        fieldId: t.String(),
+      }),
+      body: t.Object({
+        label: t.Optional(fieldLabel),
+        options: t.Optional(fieldOptions),
+        min: t.Optional(fieldBound),
+        max: t.Optional(fieldBound),
+      }),
+    },
+  )
+
+  /**
+   * DELETE /orgs/:organizationId/breakdown-fields/:fieldId
+   * Remove a column. Values entered for it stay on clips but are no longer
+   * shown or validated.
+   */
+  .delete(
+    "/:fieldId",
+    async ({ params }) => {
+      const field = await prisma.breakdownField.findFirst({
+        where: {
+          id: params.fieldId,
+          organizationId: params.organizationId,
+        },
+        select: { id: true },
+      });
+
+      if (!field) {
+        throw new ApiError(404, "Column not found");
+      }
+
+      await prisma.breakdownField.delete({ where: { id: field.id } });
+
+      return { success: true };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        fieldId: t.String(),
+      }),
+    },
+  );
@@ -3,12 +3,112 @@
  * CRUD operations for clips within an organization.
  * Clips are time segments within footage files (Videos).
  * Each clip has a playNumber that groups clips across camera angles.
+ * Clips created from analysis (metadata.source = "ai") start as pending
+ * suggestions that coaches accept or reject in bulk.
+ * Breakdown values (down, distance...) are validated against the org's
+ * breakdown fields and stored on each clip under the field's key.
+ * POST /search queries clips across every game in the organization.
+ * Org members are tagged on clips with their role in the play (on the
+ * field, ball carrier or target, tackler) for per-player stats.
  */
 
 import { Elysia, t } from "elysia";
-import { prisma } from "@repo/db";
+import { prisma, type Prisma } from "@repo/db";
+import {
+  isPendingAiClip,
+  parseBreakdownValue,
+  type BreakdownValues,
+  type ClipRenderJobData,
+  type ClipSearchResponse,
+  type ClipSearchSort,
+} from "@repo/types";
 import { authPlugin, ApiError } from "../../../middleware";
-import { getSignedDownloadUrl } from "../../../lib/s3";
+import { deleteObject, getSignedDownloadUrl } from "../../../lib/s3";
+import { clipRenderQueue } from "../../../lib/queues";
+import { getTracksInWindow } from "../../../lib/tracks";
+import { isOrgCoach } from "../../../lib/annotations";
+import { buildClipSearchWhere } from "../../../lib/clip-search";
+import {
+  clipPlayersInclude,
+  serializeClipPlayers,
+} from "../../../lib/clip-players";
+import { discardReelRenders } from "../../../lib/reels";
+
+const DEFAULT_SEARCH_PAGE_SIZE = 50;
+
+const breakdownFilterValue = t.Union([
+  t.String({ maxLength: 200 }),
+  t.Number(),
+]);
+
+/** Search ordering; ties fall back to play order within a game. */
+function searchOrderBy(
+  sortBy: ClipSearchSort,
+  order: Prisma.SortOrder,
+): Prisma.ClipOrderByWithRelationInput[] {
+  switch (sortBy) {
+    case "gameDate":
+      return [
+        { video: { game: { date: { sort: order, nulls: "last" } } } },
+        { video: { gameId: order } },
+        { playNumber: "asc" },
+        { startTime: "asc" },
+      ];
+    case "playNumber":
+      return [{ playNumber: order }, { createdAt: order }];
+    case "createdAt":
+      return [{ createdAt: order }];
+  }
+}
+
+/** Best-effort removal of a clip's rendered file and thumbnail from S3. */
+async function deleteRenderedFiles(clip: {
+  id: string;
+  storageKey: string | null;
+  thumbnailKey: string | null;
+}): Promise<void> {
+  const keys = [clip.storageKey, clip.thumbnailKey].filter(
+    (key): key is string => Boolean(key),
+  );
+  try {
+    await Promise.all(keys.map((key) => deleteObject(key)));
+  } catch (error) {
+    console.error(`Failed to delete rendered files for clip ${clip.id}:`, error);
+  }
+}
+
+/**
+ * Validate breakdown cell values against the org's columns. Returns the
+ * values to store and the keys to clear (null or blank input).
+ */
+async function validateBreakdownValues(
+  organizationId: string,
+  values: Record<string, string | number | null>,
+): Promise<{ set: BreakdownValues; clear: string[] }> {
+  const fields = await prisma.breakdownField.findMany({
+    where: { organizationId, key: { in: Object.keys(values) } },
+  });
+  const byKey = new Map(fields.map((field) => [field.key, field]));
+
+  const set: BreakdownValues = {};
+  const clear: string[] = [];
+  for (const [key, raw] of Object.entries(values)) {
+    const field = byKey.get(key);
+    if (!field) {
+      throw new ApiError(400, `Unknown breakdown column "${key}"`);
+    }
+    const result = parseBreakdownValue(
+      { ...field, options: field.options as string[] },
+      raw,
+    );
+    if (!result.ok) {
+      throw new ApiError(400, result.error);
+    }
+    if (result.value === null) clear.push(key);
+    else set[key] = result.value;
+  }
+  return { set, clear };
+}
 
 export const clipRoutes = new Elysia({ prefix: "/orgs/:organizationId/clips" })
   .use(authPlugin)
@@ -40,6 +140,7 @@ export const clipRoutes = new Elysia({ prefix: "/orgs/:organizationId/clips" })
       const clips = await prisma.clip.findMany({
         where,
         orderBy: { playNumber: "asc" },
+        include: clipPlayersInclude,
       });
 
       // Batch-sign thumbnail URLs
@@ -59,6 +160,9 @@ export const clipRoutes = new Elysia({ prefix: "/orgs/:organizationId/clips" })
             thumbnailUrl,
             labels: clip.labels as string[],
             metadata: clip.metadata as Record<string, unknown>,
+            breakdown: clip.breakdown as BreakdownValues,
+            players: serializeClipPlayers(clip.players),
+            renderStatus: clip.renderStatus,
             createdAt: clip.createdAt.toISOString(),
           };
         }),
@@ -78,6 +182,119 @@ export const clipRoutes = new Elysia({ prefix: "/orgs/:organizationId/clips" })
     },
   )
 
+  /**
+   * POST /orgs/:organizationId/clips/search
+   * Find clips across every game and season, e.g. every 3rd-and-long
+   * against one opponent. Filters combine with AND; see ClipSearchFilters.
+   * Paginated by page/pageSize; newest games first by default.
+   */
+  .post(
+    "/search",
+    async ({ params, body, user }) => {
+      const { organizationId } = params;
+      const viewer = {
+        userId: user!.id,
+        isCoach: await isOrgCoach(organizationId, user!.id),
+      };
+      const where = await buildClipSearchWhere(organizationId, body, viewer);
+
+      const page = body.page ?? 1;
+      const pageSize = body.pageSize ?? DEFAULT_SEARCH_PAGE_SIZE;
+
+      const [total, clips] = await Promise.all([
+        prisma.clip.count({ where }),
+        prisma.clip.findMany({
+          where,
+          orderBy: searchOrderBy(
+            body.sortBy ?? "gameDate",
+            body.sortOrder ?? "desc",
+          ),
+          skip: (page - 1) * pageSize,
+          take: pageSize,
+          include: {
+            video: {
+              select: {
+                game: { select: { id: true, title: true, date: true } },
+              },
+            },
+          },
+        }),
+      ]);
+
+      const response: ClipSearchResponse = {
+        clips: await Promise.all(
+          clips.map(async (clip) => ({
+            id: clip.id,
+            videoId: clip.videoId,
+            playNumber: clip.playNumber,
+            title: clip.title,
+            startTime: clip.startTime,
+            endTime: clip.endTime,
+            thumbnailUrl: clip.thumbnailKey
+              ? await getSignedDownloadUrl(clip.thumbnailKey)
+              : null,
+            labels: clip.labels as string[],
+            metadata: clip.metadata as Record<string, unknown>,
+            breakdown: clip.breakdown as BreakdownValues,
+            renderStatus: clip.renderStatus,
+            createdAt: clip.createdAt.toISOString(),
+            game: clip.video.game
+              ? {
+                  id: clip.video.game.id,
+                  title: clip.video.game.title,
+                  date: clip.video.game.date?.toISOString() ?? null,
+                }
+              : null,
+          })),
+        ),
+        total,
+        page,
+        pageSize,
+      };
+      return response;
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      body: t.Object({
+        seasonId: t.Optional(t.String()),
+        gameIds: t.Optional(t.Array(t.String(), { maxItems: 200 })),
+        tagIds: t.Optional(t.Array(t.String(), { maxItems: 50 })),
+        labels: t.Optional(
+          t.Array(t.String({ maxLength: 100 }), { maxItems: 20 }),
+        ),
+        source: t.Optional(t.Union([t.Literal("manual"), t.Literal("ai")])),
+        hasAnnotations: t.Optional(t.Boolean()),
+        breakdown: t.Optional(
+          t.Array(
+            t.Object({
+              key: t.String({ maxLength: 40 }),
+              equals: t.Optional(breakdownFilterValue),
+              in: t.Optional(
+                t.Array(breakdownFilterValue, { minItems: 1, maxItems: 50 }),
+              ),
+              min: t.Optional(t.Number()),
+              max: t.Optional(t.Number()),
+            }),
+            { maxItems: 20 },
+          ),
+        ),
+        sortBy: t.Optional(
+          t.Union([
+            t.Literal("gameDate"),
+            t.Literal("playNumber"),
+            t.Literal("createdAt"),
+          ]),
+        ),
+        sortOrder: t.Optional(t.Union([t.Literal("asc"), t.Literal("desc")])),
+        page: t.Optional(t.Integer({ minimum: 1 })),
+        pageSize: t.Optional(t.Integer({ minimum: 1, maximum: 100 })),
+      }),
+    },
+  )
+
   /**
    * POST /orgs/:organizationId/clips
    * Create a new clip. Validates that the video belongs to the org.
@@ -152,6 +369,9 @@ export const clipRoutes = new Elysia({ prefix: "/orgs/:organizationId/clips" })
           thumbnailUrl: null,
           labels: clip.labels as string[],
           metadata: clip.metadata as Record<string, unknown>,
+          breakdown: clip.breakdown as BreakdownValues,
+          players: [],
+          renderStatus: clip.renderStatus,
           createdAt: clip.createdAt.toISOString(),
         },
       };
@@ -173,6 +393,274 @@ export const clipRoutes = new Elysia({ prefix: "/orgs/:organizationId/clips" })
     },
   )
 
+  /**
+   * POST /orgs/:organizationId/clips/suggestions/accept
+   * Accept AI-suggested clips in bulk. Accepted clips are kept when
+   * analysis is re-run. IDs that aren't pending suggestions are ignored.
+   */
+  .post(
+    "/suggestions/accept",
+    async ({ params, body }) => {
+      const candidates = await prisma.clip.findMany({
+        where: {
+          id: { in: body.clipIds },
+          organizationId: params.organizationId,
+        },
+      });
+      const pending = candidates.filter((clip) =>
+        isPendingAiClip(clip.metadata),
+      );
+
+      const accepted = await prisma.$transaction(
+        pending.map((clip) =>
+          prisma.clip.update({
+            where: { id: clip.id },
+            data: {
+              metadata: {
+                ...(clip.metadata as Record<string, unknown>),
+                reviewStatus: "accepted",
+              },
+            },
+            include: clipPlayersInclude,
+          }),
+        ),
+      );
+
+      const signedClips = await Promise.all(
+        accepted.map(async (clip) => ({
+          id: clip.id,
+          videoId: clip.videoId,
+          playNumber: clip.playNumber,
+          title: clip.title,
+          startTime: clip.startTime,
+          endTime: clip.endTime,
+          thumbnailUrl: clip.thumbnailKey
+            ? await getSignedDownloadUrl(clip.thumbnailKey)
+            : null,
+          labels: clip.labels as string[],
+          metadata: clip.metadata as Record<string, unknown>,
+          breakdown: clip.breakdown as BreakdownValues,
+          players: serializeClipPlayers(clip.players),
+          renderStatus: clip.renderStatus,
+          createdAt: clip.createdAt.toISOString(),
+        })),
+      );
+
+      return { clips: signedClips };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      body: t.Object({
+        clipIds: t.Array(t.String(), { minItems: 1, maxItems: 500 }),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/clips/suggestions/reject
+   * Reject AI-suggested clips in bulk by deleting them. Only pending
+   * suggestions are deleted — manual and accepted clips are never touched.
+   */
+  .post(
+    "/suggestions/reject",
+    async ({ params, body }) => {
+      const candidates = await prisma.clip.findMany({
+        where: {
+          id: { in: body.clipIds },
+          organizationId: params.organizationId,
+        },
+        select: { id: true, metadata: true },
+      });
+      const pendingIds = candidates
+        .filter((clip) => isPendingAiClip(clip.metadata))
+        .map((clip) => clip.id);
+
+      if (pendingIds.length > 0) {
+        await discardReelRenders(pendingIds);
+        await prisma.clip.deleteMany({ where: { id: { in: pendingIds } } });
+      }
+
+      return { deleted: pendingIds };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      body: t.Object({
+        clipIds: t.Array(t.String(), { minItems: 1, maxItems: 500 }),
+      }),
+    },
+  )
+
+  /**
+   * PATCH /orgs/:organizationId/clips/breakdown
+   * Set breakdown values on one or more clips — typically every camera
+   * angle of a play. A null or blank value clears that column.
+   */
+  .patch(
+    "/breakdown",
+    async ({ params, body }) => {
+      const clips = await prisma.clip.findMany({
+        where: {
+          id: { in: body.clipIds },
+          organizationId: params.organizationId,
+        },
+        select: { id: true, breakdown: true, metadata: true },
+      });
+
+      if (clips.length !== new Set(body.clipIds).size) {
+        throw new ApiError(404, "Clip not found");
+      }
+
+      const { set, clear } = await validateBreakdownValues(
+        params.organizationId,
+        body.values,
+      );
+
+      const updated = await prisma.$transaction(
+        clips.map((clip) => {
+          const breakdown: BreakdownValues = {
+            ...(clip.breakdown as BreakdownValues),
+            ...set,
+          };
+          for (const key of clear) delete breakdown[key];
+          // Breaking down a pending AI suggestion accepts it, so a re-run of
+          // analysis can't discard the coach's values
+          const metadata = isPendingAiClip(clip.metadata)
+            ? {
+                ...(clip.metadata as Record<string, unknown>),
+                reviewStatus: "accepted",
+              }
+            : undefined;
+          return prisma.clip.update({
+            where: { id: clip.id },
+            data: { breakdown, ...(metadata && { metadata }) },
+            select: { id: true, breakdown: true },
+          });
+        }),
+      );
+
+      return {
+        clips: updated.map((clip) => ({
+          id: clip.id,
+          breakdown: clip.breakdown as BreakdownValues,
+        })),
+      };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      body: t.Object({
+        clipIds: t.Array(t.String(), { minItems: 1, maxItems: 20 }),
+        values: t.Record(
+          t.String({ maxLength: 40 }),
+          t.Nullable(t.Union([t.String({ maxLength: 200 }), t.Number()])),
+        ),
+      }),
+    },
+  )
+
+  /**
+   * PUT /orgs/:organizationId/clips/players
+   * Replace the members tagged on one or more clips — typically every camera
+   * angle of a play. The primary player (ball carrier or target) and the
+   * tackler are tagged as on the field too.
+   */
+  .put(
+    "/players",
+    async ({ params, body }) => {
+      const { organizationId } = params;
+      const clipIds = [...new Set(body.clipIds)];
+
+      const clips = await prisma.clip.findMany({
+        where: { id: { in: clipIds }, organizationId },
+        select: { id: true, metadata: true },
+      });
+      if (clips.length !== clipIds.length) {
+        throw new ApiError(404, "Clip not found");
+      }
+
+      if (body.primary && body.primary.memberId === body.tacklerId) {
+        throw new ApiError(
+          400,
+          "The ball carrier or target can't also be the tackler",
+        );
+      }
+
+      const roles: Prisma.ClipPlayerCreateManyClipInput[] = [];
+      if (body.primary) roles.push(body.primary);
+      if (body.tacklerId) {
+        roles.push({ memberId: body.tacklerId, role: "TACKLER" });
+      }
+      const participantIds = [
+        ...new Set([...body.participantIds, ...roles.map((r) => r.memberId)]),
+      ];
+
+      const memberCount = await prisma.member.count({
+        where: { id: { in: participantIds }, organizationId },
+      });
+      if (memberCount !== participantIds.length) {
+        throw new ApiError(400, "One or more players were not found");
+      }
+
+      const rows: Prisma.ClipPlayerCreateManyClipInput[] = [
+        ...participantIds.map((memberId) => ({
+          memberId,
+          role: "PARTICIPANT" as const,
+        })),
+        ...roles,
+      ];
+      const updated = await prisma.$transaction(
+        clips.map((clip) =>
+          prisma.clip.update({
+            where: { id: clip.id },
+            data: {
+              players: { deleteMany: {}, createMany: { data: rows } },
+              // Tagging a pending AI suggestion accepts it, like any edit
+              ...(isPendingAiClip(clip.metadata) && {
+                metadata: {
+                  ...(clip.metadata as Record<string, unknown>),
+                  reviewStatus: "accepted",
+                },
+              }),
+            },
+            select: { id: true, ...clipPlayersInclude },
+          }),
+        ),
+      );
+
+      return {
+        clips: updated.map((clip) => ({
+          id: clip.id,
+          players: serializeClipPlayers(clip.players),
+        })),
+      };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      body: t.Object({
+        clipIds: t.Array(t.String(), { minItems: 1, maxItems: 20 }),
+        participantIds: t.Array(t.String({ minLength: 1 }), { maxItems: 30 }),
+        primary: t.Nullable(
+          t.Object({
+            memberId: t.String({ minLength: 1 }),
+            role: t.Union([t.Literal("BALL_CARRIER"), t.Literal("TARGET")]),
+          }),
+        ),
+        tacklerId: t.Nullable(t.String({ minLength: 1 })),
+      }),
+    },
+  )
+
   /**
    * GET /orgs/:organizationId/clips/:clipId
    * Get a single clip with presigned URLs.
@@ -185,6 +673,7 @@ export const clipRoutes = new Elysia({ prefix: "/orgs/:organizationId/clips" })
           id: params.clipId,
           organizationId: params.organizationId,
         },
+        include: clipPlayersInclude,
       });
 
       if (!clip) {
@@ -207,6 +696,9 @@ export const clipRoutes = new Elysia({ prefix: "/orgs/:organizationId/clips" })
           thumbnailUrl,
           labels: clip.labels as string[],
           metadata: clip.metadata as Record<string, unknown>,
+          breakdown: clip.breakdown as BreakdownValues,
+          players: serializeClipPlayers(clip.players),
+          renderStatus: clip.renderStatus,
           createdAt: clip.createdAt.toISOString(),
         },
       };
@@ -220,6 +712,156 @@ export const clipRoutes = new Elysia({ prefix: "/orgs/:organizationId/clips" })
     },
   )
 
+  /**
+   * GET /orgs/:organizationId/clips/:clipId/tracks
+   * Player tracks and route segments within the clip's time window, from the
+   * footage file's latest completed analysis run (or ?runId=).
+   */
+  .get(
+    "/:clipId/tracks",
+    async ({ params, query }) => {
+      const clip = await prisma.clip.findFirst({
+        where: {
+          id: params.clipId,
+          organizationId: params.organizationId,
+        },
+        select: { videoId: true, startTime: true, endTime: true },
+      });
+
+      if (!clip) {
+        throw new ApiError(404, "Clip not found");
+      }
+
+      return getTracksInWindow(
+        { id: clip.videoId, organizationId: params.organizationId },
+        clip.startTime,
+        clip.endTime,
+        query.runId,
+      );
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        clipId: t.String(),
+      }),
+      query: t.Object({
+        runId: t.Optional(t.String()),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/clips/:clipId/render
+   * Queue a render of the clip to its own file (plus thumbnail) in S3.
+   * Re-rendering replaces the previous file.
+   */
+  .post(
+    "/:clipId/render",
+    async ({ params }) => {
+      const clip = await prisma.clip.findFirst({
+        where: {
+          id: params.clipId,
+          organizationId: params.organizationId,
+        },
+        include: { video: { select: { storageKey: true } } },
+      });
+
+      if (!clip) {
+        throw new ApiError(404, "Clip not found");
+      }
+
+      if (!clip.video.storageKey) {
+        throw new ApiError(409, "Footage file has not finished uploading");
+      }
+
+      if (clip.renderStatus === "QUEUED" || clip.renderStatus === "RENDERING") {
+        throw new ApiError(409, "Clip is already being rendered");
+      }
+
+      const jobId = `render-${clip.id}-${Date.now()}`;
+      const jobData: ClipRenderJobData = {
+        clipId: clip.id,
+        videoId: clip.videoId,
+        organizationId: clip.organizationId,
+        sourceKey: clip.video.storageKey,
+        startTime: clip.startTime,
+        endTime: clip.endTime,
+      };
+
+      // Record the jobId before enqueueing so the listener can always match it
+      await prisma.clip.update({
+        where: { id: clip.id },
+        data: { renderStatus: "QUEUED", renderJobId: jobId, renderError: null },
+      });
+
+      try {
+        await clipRenderQueue.add("render", jobData, { jobId });
+      } catch (error) {
+        console.error(`Failed to enqueue render for clip ${clip.id}:`, error);
+        await prisma.clip.update({
+          where: { id: clip.id },
+          data: {
+            renderStatus: "FAILED",
+            renderError: "Failed to queue render",
+          },
+        });
+        throw new ApiError(503, "Render queue is unavailable");
+      }
+
+      return { renderStatus: "QUEUED" as const, jobId };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        clipId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * GET /orgs/:organizationId/clips/:clipId/download
+   * Presigned download URL for the rendered clip file.
+   */
+  .get(
+    "/:clipId/download",
+    async ({ params }) => {
+      const clip = await prisma.clip.findFirst({
+        where: {
+          id: params.clipId,
+          organizationId: params.organizationId,
+        },
+      });
+
+      if (!clip) {
+        throw new ApiError(404, "Clip not found");
+      }
+
+      if (clip.renderStatus !== "COMPLETED" || !clip.storageKey) {
+        throw new ApiError(404, "Clip has not been rendered");
+      }
+
+      const baseName = (clip.title ?? `Play ${clip.playNumber}`)
+        .replace(/[^\w\- ]+/g, "")
+        .trim();
+      const url = await getSignedDownloadUrl(
+        clip.storageKey,
+        3600,
+        `${baseName || "clip"}.mp4`,
+      );
+
+      return { url };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        clipId: t.String(),
+      }),
+    },
+  )
+
   /**
    * PATCH /orgs/:organizationId/clips/:clipId
    * Update a clip. Cross-field endTime > startTime validation.
@@ -277,12 +919,40 @@ export const clipRoutes = new Elysia({ prefix: "/orgs/:organizationId/clips" })
           ...body.metadata,
         };
       }
+      // Editing a pending AI suggestion accepts it, so a re-run of analysis
+      // can't discard the coach's changes
+      if (isPendingAiClip(clip.metadata)) {
+        data.metadata = {
+          ...((data.metadata ?? clip.metadata) as Record<string, unknown>),
+          reviewStatus: "accepted",
+        };
+      }
+
+      // A rendered file no longer matches once the segment moves
+      const timesChanged =
+        newStartTime !== clip.startTime || newEndTime !== clip.endTime;
+      if (timesChanged && clip.renderStatus) {
+        data.renderStatus = null;
+        data.renderJobId = null;
+        data.renderError = null;
+        data.storageKey = null;
+        data.thumbnailKey = null;
+      }
 
       const updated = await prisma.clip.update({
         where: { id: params.clipId },
         data,
+        include: clipPlayersInclude,
       });
 
+      if (timesChanged && clip.renderStatus) {
+        await deleteRenderedFiles(clip);
+      }
+      // ...and neither do the reels cut from it
+      if (timesChanged) {
+        await discardReelRenders([clip.id]);
+      }
+
       let thumbnailUrl: string | null = null;
       if (updated.thumbnailKey) {
         thumbnailUrl = await getSignedDownloadUrl(updated.thumbnailKey);
@@ -299,6 +969,9 @@ export const clipRoutes = new Elysia({ prefix: "/orgs/:organizationId/clips" })
           thumbnailUrl,
           labels: updated.labels as string[],
           metadata: updated.metadata as Record<string, unknown>,
+          breakdown: updated.breakdown as BreakdownValues,
+          players: serializeClipPlayers(updated.players),
+          renderStatus: updated.renderStatus,
           createdAt: updated.createdAt.toISOString(),
         },
       };
@@ -322,7 +995,7 @@ export const clipRoutes = new Elysia({ prefix: "/orgs/:organizationId/clips" })
 
   /**
    * DELETE /orgs/:organizationId/clips/:clipId
-   * Delete a clip. No S3 cleanup needed for manual clips.
+   * Delete a clip and its rendered file/thumbnail, if any.
    */
   .delete(
     "/:clipId",
@@ -338,9 +1011,12 @@ export const clipRoutes = new Elysia({ prefix: "/orgs/:organizationId/clips" })
         throw new ApiError(404, "Clip not found");
       }
 
+      // The clip's reel items go with it, so reels playing it change
+      await discardReelRenders([clip.id]);
       await prisma.clip.delete({
         where: { id: params.clipId },
       });
+      await deleteRenderedFiles(clip);
 
       return { deleted: true, playNumber: clip.playNumber };
     },
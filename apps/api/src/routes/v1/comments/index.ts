@@ -0,0 +1,5 @@
+/**
+ * Comments module exports
+ */
+
+export { commentRoutes } from "./routes";
@@ -0,0 +1,437 @@
+/**
+ * Comment Routes - v1
+ * Threaded discussion on film. A thread is attached to a clip, an
+ * annotation, or a moment in a video; replies join the thread of the
+ * comment they answer. Comments can @mention org members. Authors edit
+ * their own comments; authors and coaches can delete them. Everyone who
+ * has taken part in a thread is notified of new replies.
+ */
+
+import { Elysia, t } from "elysia";
+import { prisma, type Prisma } from "@repo/db";
+import type {
+  CommentData,
+  CommentTargetKind,
+  CommentThreadData,
+} from "@repo/types";
+import { authPlugin, ApiError } from "../../../middleware";
+import { isOrgCoach, visibleAnnotationWhere } from "../../../lib/annotations";
+import { notify } from "../../../lib/notifications";
+
+const commentInclude = {
+  author: { select: { name: true } },
+  mentions: {
+    include: {
+      member: {
+        select: { id: true, userId: true, user: { select: { name: true } } },
+      },
+    },
+  },
+} satisfies Prisma.CommentInclude;
+
+type CommentWithAuthor = Prisma.CommentGetPayload<{
+  include: typeof commentInclude;
+}>;
+
+const mentionedMemberIdsBody = t.Optional(
+  t.Array(t.String({ minLength: 1 }), { maxItems: 50 }),
+);
+
+function getTargetKind(comment: {
+  clipId: string | null;
+  annotationId: string | null;
+}): CommentTargetKind {
+  if (comment.annotationId) return "ANNOTATION";
+  if (comment.clipId) return "CLIP";
+  return "VIDEO";
+}
+
+function serializeComment(comment: CommentWithAuthor): CommentData {
+  return {
+    id: comment.id,
+    kind: getTargetKind(comment),
+    videoId: comment.videoId,
+    timestamp: comment.timestamp,
+    clipId: comment.clipId,
+    annotationId: comment.annotationId,
+    parentId: comment.parentId,
+    body: comment.body,
+    mentions: comment.mentions.map(({ member }) => ({
+      memberId: member.id,
+      userId: member.userId,
+      name: member.user.name,
+    })),
+    authorId: comment.authorId,
+    authorName: comment.author.name,
+    editedAt: comment.editedAt?.toISOString() ?? null,
+    createdAt: comment.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Comments the user may see. Comments on an annotation follow the
+ * annotation's visibility.
+ */
+function visibleCommentWhere(
+  userId: string,
+  isCoach: boolean,
+): Prisma.CommentWhereInput {
+  return {
+    OR: [
+      { annotationId: null },
+      { annotation: visibleAnnotationWhere(userId, isCoach) },
+    ],
+  };
+}
+
+/** Deduplicate mentioned members and check they belong to the organization */
+async function resolveMentions(
+  organizationId: string,
+  memberIds: string[] | undefined,
+) {
+  const uniqueIds = [...new Set(memberIds ?? [])];
+  if (uniqueIds.length === 0) return [];
+
+  const memberCount = await prisma.member.count({
+    where: { id: { in: uniqueIds }, organizationId },
+  });
+  if (memberCount !== uniqueIds.length) {
+    throw new ApiError(400, "One or more mentioned members were not found");
+  }
+  return uniqueIds;
+}
+
+/** Tell the thread's other participants about a new reply */
+async function notifyThreadParticipants(reply: CommentWithAuthor) {
+  const [participants, video] = await Promise.all([
+    prisma.comment.findMany({
+      where: {
+        OR: [{ id: reply.parentId! }, { parentId: reply.parentId }],
+        authorId: { not: reply.authorId },
+      },
+      select: { authorId: true },
+      distinct: ["authorId"],
+    }),
+    prisma.video.findUnique({
+      where: { id: reply.videoId },
+      select: { gameId: true },
+    }),
+  ]);
+
+  notify({
+    organizationId: reply.organizationId,
+    userIds: participants.map((p) => p.authorId),
+    type: "COMMENT_REPLY",
+    title: `${reply.author.name} replied to a comment`,
+    body: reply.body,
+    link: video?.gameId ? `/games/${video.gameId}` : null,
+  });
+}
+
+/**
+ * Work out where a new comment lives from the one target it was given.
+ * Replies are attached to the thread's first comment and copy its target.
+ */
+async function resolveTarget(
+  organizationId: string,
+  userId: string,
+  body: {
+    parentId?: string;
+    annotationId?: string;
+    clipId?: string;
+    videoId?: string;
+    timestamp?: number;
+  },
+) {
+  const targets = [
+    body.parentId,
+    body.annotationId,
+    body.clipId,
+    body.videoId,
+  ].filter(Boolean);
+  if (targets.length !== 1) {
+    throw new ApiError(
+      400,
+      "Give exactly one of parentId, annotationId, clipId or videoId",
+    );
+  }
+
+  if (body.parentId) {
+    const isCoach = await isOrgCoach(organizationId, userId);
+    const parent = await prisma.comment.findFirst({
+      where: {
+        id: body.parentId,
+        organizationId,
+        ...visibleCommentWhere(userId, isCoach),
+      },
+    });
+    if (!parent) {
+      throw new ApiError(404, "Comment not found");
+    }
+    return {
+      parentId: parent.parentId ?? parent.id,
+      videoId: parent.videoId,
+      timestamp: parent.timestamp,
+      clipId: parent.clipId,
+      annotationId: parent.annotationId,
+    };
+  }
+
+  if (body.annotationId) {
+    const isCoach = await isOrgCoach(organizationId, userId);
+    const annotation = await prisma.annotation.findFirst({
+      where: {
+        id: body.annotationId,
+        organizationId,
+        ...visibleAnnotationWhere(userId, isCoach),
+      },
+    });
+    if (!annotation) {
+      throw new ApiError(404, "Annotation not found");
+    }
+    return {
+      videoId: annotation.videoId,
+      timestamp: annotation.timestamp,
+      annotationId: annotation.id,
+    };
+  }
+
+  if (body.clipId) {
+    const clip = await prisma.clip.findFirst({
+      where: { id: body.clipId, organizationId },
+    });
+    if (!clip) {
+      throw new ApiError(404, "Clip not found");
+    }
+    return {
+      videoId: clip.videoId,
+      timestamp: clip.startTime,
+      clipId: clip.id,
+    };
+  }
+
+  if (body.timestamp === undefined) {
+    throw new ApiError(400, "timestamp is required when commenting on a video");
+  }
+  const video = await prisma.video.findFirst({
+    where: { id: body.videoId, organizationId },
+  });
+  if (!video) {
+    throw new ApiError(404, "Video not found in this organization");
+  }
+  return { videoId: video.id, timestamp: body.timestamp };
+}
+
+export const commentRoutes = new Elysia({
+  prefix: "/orgs/:organizationId/comments",
+})
+  .use(authPlugin)
+
+  /**
+   * GET /orgs/:organizationId/comments
+   * List comment threads on a video, in playback order, each with its
+   * replies. Narrow to one clip or annotation with `clipId` / `annotationId`.
+   */
+  .get(
+    "/",
+    async ({ params, query, user }) => {
+      const { organizationId } = params;
+      const userId = user!.id;
+      const isCoach = await isOrgCoach(organizationId, userId);
+
+      const threads = await prisma.comment.findMany({
+        where: {
+          organizationId,
+          videoId: query.videoId,
+          parentId: null,
+          ...(query.clipId && { clipId: query.clipId }),
+          ...(query.annotationId && { annotationId: query.annotationId }),
+          ...visibleCommentWhere(userId, isCoach),
+        },
+        include: {
+          ...commentInclude,
+          replies: {
+            include: commentInclude,
+            orderBy: { createdAt: "asc" },
+          },
+        },
+        orderBy: [{ timestamp: "asc" }, { createdAt: "asc" }],
+      });
+
+      return {
+        threads: threads.map(
+          (thread): CommentThreadData => ({
+            ...serializeComment(thread),
+            replies: thread.replies.map(serializeComment),
+          }),
+        ),
+      };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      query: t.Object({
+        videoId: t.String({ minLength: 1 }),
+        clipId: t.Optional(t.String({ minLength: 1 })),
+        annotationId: t.Optional(t.String({ minLength: 1 })),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/comments
+   * Start a thread on a clip, an annotation, or a video moment (`videoId`
+   * plus `timestamp`), or reply with `parentId`.
+   */
+  .post(
+    "/",
+    async ({ params, body, user }) => {
+      const { organizationId } = params;
+      const userId = user!.id;
+
+      const target = await resolveTarget(organizationId, userId, body);
+      const memberIds = await resolveMentions(
+        organizationId,
+        body.mentionedMemberIds,
+      );
+
+      const comment = await prisma.comment.create({
+        data: {
+          organizationId,
+          authorId: userId,
+          ...target,
+          body: body.body,
+          mentions: {
+            createMany: {
+              data: memberIds.map((memberId) => ({ memberId })),
+            },
+          },
+        },
+        include: commentInclude,
+      });
+
+      // Fire-and-forget: the comment is saved whether or not this succeeds
+      if (comment.parentId) {
+        notifyThreadParticipants(comment).catch((error) => {
+          console.error(
+            `Failed to notify thread participants of comment ${comment.id}:`,
+            error,
+          );
+        });
+      }
+
+      return { comment: serializeComment(comment) };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      body: t.Object({
+        body: t.String({ minLength: 1, maxLength: 2000 }),
+        parentId: t.Optional(t.String({ minLength: 1 })),
+        annotationId: t.Optional(t.String({ minLength: 1 })),
+        clipId: t.Optional(t.String({ minLength: 1 })),
+        videoId: t.Optional(t.String({ minLength: 1 })),
+        timestamp: t.Optional(t.Number({ minimum: 0 })),
+        mentionedMemberIds: mentionedMemberIdsBody,
+      }),
+    },
+  )
+
+  /**
+   * PATCH /orgs/:organizationId/comments/:commentId
+   * Edit a comment's text and mentions. Only the author can edit.
+   */
+  .patch(
+    "/:commentId",
+    async ({ params, body, user }) => {
+      const { organizationId, commentId } = params;
+
+      const existing = await prisma.comment.findFirst({
+        where: { id: commentId, organizationId },
+      });
+
+      if (!existing) {
+        throw new ApiError(404, "Comment not found");
+      }
+
+      if (existing.authorId !== user!.id) {
+        throw new ApiError(403, "You can only edit your own comments");
+      }
+
+      const memberIds = await resolveMentions(
+        organizationId,
+        body.mentionedMemberIds,
+      );
+
+      const comment = await prisma.comment.update({
+        where: { id: commentId },
+        data: {
+          body: body.body,
+          editedAt: new Date(),
+          mentions: {
+            deleteMany: {},
+            createMany: {
+              data: memberIds.map((memberId) => ({ memberId })),
+            },
+          },
+        },
+        include: commentInclude,
+      });
+
+      return { comment: serializeComment(comment) };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        commentId: t.String(),
+      }),
+      body: t.Object({
+        body: t.String({ minLength: 1, maxLength: 2000 }),
+        mentionedMemberIds: mentionedMemberIdsBody,
+      }),
+    },
+  )
+
+  /**
+   * DELETE /orgs/:organizationId/comments/:commentId
+   * Delete a comment. Authors can delete their own; coaches can delete any.
+   * Deleting a thread's first comment removes its replies.
+   */
+  .delete(
+    "/:commentId",
+    async ({ params, user }) => {
+      const { organizationId, commentId } = params;
+      const userId = user!.id;
+
+      const comment = await prisma.comment.findFirst({
+        where: { id: commentId, organizationId },
+      });
+
+      if (!comment) {
+        throw new ApiError(404, "Comment not found");
+      }
+
+      if (
+        comment.authorId !== userId &&
+        !(await isOrgCoach(organizationId, userId))
+      ) {
+        throw new ApiError(403, "You can only delete your own comments");
+      }
+
+      await prisma.comment.delete({ where: { id: commentId } });
+
+      return { success: true };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        commentId: t.String(),
+      }),
+    },
+  );
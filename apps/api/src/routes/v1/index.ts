@@ -14,7 +14,17 @@ import { inviteLinkRoutes } from "./invite-links";
 import { uploadRoutes } from "./uploads";
 import { tagRoutes } from "./tags";
 import { clipRoutes } from "./clips";
+import { breakdownFieldRoutes } from "./breakdown-fields";
+import { statsRoutes } from "./stats";
+import { scoutingRoutes } from "./scouting";
+import { playerRoutes } from "./players";
 import { annotationRoutes } from "./annotations";
+import { annotationTemplateRoutes } from "./annotation-templates";
+import { reelRoutes } from "./reels";
+import { playlistRoutes } from "./playlists";
+import { assignmentRoutes } from "./assignments";
+import { commentRoutes } from "./comments";
+import { notificationRoutes } from "./notifications";
 
 export const v1Routes = new Elysia({ prefix: "/v1" })
   .use(healthRoutes)
@@ -27,4 +37,14 @@ export const v1Routes = new Elysia({ prefix: "/v1" })
   .use(uploadRoutes)
   .use(tagRoutes)
   .use(clipRoutes)
-  .use(annotationRoutes);
+  .use(breakdownFieldRoutes)
+  .use(statsRoutes)
+  .use(scoutingRoutes)
+  .use(playerRoutes)
+  .use(annotationRoutes)
+  .use(annotationTemplateRoutes)
+  .use(reelRoutes)
+  .use(playlistRoutes)
+  .use(assignmentRoutes)
+  .use(commentRoutes)
+  .use(notificationRoutes);
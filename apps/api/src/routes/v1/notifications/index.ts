@@ -0,0 +1,5 @@
+/**
+ * Notifications module exports
+ */
+
+export { notificationRoutes } from "./routes";
@@ -0,0 +1,207 @@
+/**
+ * Notification Routes - v1
+ * The signed-in member's notifications within an organization (newest
+ * first, with an unread count for the nav bar bell), plus the user's
+ * per-type email preferences, which apply across organizations.
+ */
+
+import { Elysia, t } from "elysia";
+import { prisma, type Notification, type NotificationType } from "@repo/db";
+import {
+  DEFAULT_EMAIL_NOTIFICATIONS,
+  type NotificationData,
+  type NotificationEmailPreferences,
+} from "@repo/types";
+import { authPlugin, ApiError } from "../../../middleware";
+
+/** Notifications returned per request — older ones stay in the database */
+const NOTIFICATION_LIST_LIMIT = 30;
+
+const emailPreferencesBody = t.Object({
+  FOOTAGE_READY: t.Optional(t.Boolean()),
+  FILM_ASSIGNED: t.Optional(t.Boolean()),
+  COMMENT_REPLY: t.Optional(t.Boolean()),
+  PROCESSING_FAILED: t.Optional(t.Boolean()),
+});
+
+function serializeNotification(notification: Notification): NotificationData {
+  return {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    link: notification.link,
+    readAt: notification.readAt?.toISOString() ?? null,
+    createdAt: notification.createdAt.toISOString(),
+  };
+}
+
+/** The user's saved choices layered over the defaults */
+async function getEmailPreferences(
+  userId: string,
+): Promise<NotificationEmailPreferences> {
+  const saved = await prisma.notificationPreference.findMany({
+    where: { userId },
+  });
+  const preferences = { ...DEFAULT_EMAIL_NOTIFICATIONS };
+  for (const preference of saved) {
+    preferences[preference.type] = preference.email;
+  }
+  return preferences;
+}
+
+const orgScopedRoutes = new Elysia({
+  prefix: "/orgs/:organizationId/notifications",
+})
+  .use(authPlugin)
+
+  /**
+   * GET /orgs/:organizationId/notifications
+   * The caller's most recent notifications and how many are unread.
+   */
+  .get(
+    "/",
+    async ({ params, user }) => {
+      const where = { organizationId: params.organizationId, userId: user!.id };
+
+      const [notifications, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          take: NOTIFICATION_LIST_LIMIT,
+        }),
+        prisma.notification.count({ where: { ...where, readAt: null } }),
+      ]);
+
+      return {
+        notifications: notifications.map(serializeNotification),
+        unreadCount,
+      };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/notifications/read-all
+   * Mark all of the caller's notifications in the organization as read.
+   */
+  .post(
+    "/read-all",
+    async ({ params, user }) => {
+      await prisma.notification.updateMany({
+        where: {
+          organizationId: params.organizationId,
+          userId: user!.id,
+          readAt: null,
+        },
+        data: { readAt: new Date() },
+      });
+
+      return { success: true };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/notifications/:notificationId/read
+   * Mark one notification as read.
+   */
+  .post(
+    "/:notificationId/read",
+    async ({ params, user }) => {
+      const notification = await prisma.notification.findFirst({
+        where: {
+          id: params.notificationId,
+          organizationId: params.organizationId,
+          userId: user!.id,
+        },
+      });
+
+      if (!notification) {
+        throw new ApiError(404, "Notification not found");
+      }
+
+      const updated = notification.readAt
+        ? notification
+        : await prisma.notification.update({
+            where: { id: notification.id },
+            data: { readAt: new Date() },
+          });
+
+      return { notification: serializeNotification(updated) };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        notificationId: t.String(),
+      }),
+    },
+  );
+
+// ─── User preferences (no org context needed) ─────────────────────────────────
+
+const preferenceRoutes = new Elysia({
+  prefix: "/notifications/preferences",
+})
+  .use(authPlugin)
+
+  /**
+   * GET /notifications/preferences
+   * Which notification types email the signed-in user.
+   */
+  .get(
+    "/",
+    async ({ user }) => {
+      return { email: await getEmailPreferences(user!.id) };
+    },
+    { auth: true },
+  )
+
+  /**
+   * PUT /notifications/preferences
+   * Update email preferences. Types left out keep their current setting.
+   */
+  .put(
+    "/",
+    async ({ body, user }) => {
+      const userId = user!.id;
+
+      const changes = Object.entries(body.email).filter(
+        (entry): entry is [NotificationType, boolean] =>
+          typeof entry[1] === "boolean",
+      );
+
+      await prisma.$transaction(
+        changes.map(([type, email]) =>
+          prisma.notificationPreference.upsert({
+            where: { userId_type: { userId, type } },
+            create: { userId, type, email },
+            update: { email },
+          }),
+        ),
+      );
+
+      return { email: await getEmailPreferences(userId) };
+    },
+    {
+      auth: true,
+      body: t.Object({
+        email: emailPreferencesBody,
+      }),
+    },
+  );
+
+export const notificationRoutes = new Elysia()
+  .use(orgScopedRoutes)
+  .use(preferenceRoutes);
@@ -0,0 +1,5 @@
+/**
+ * Players module exports
+ */
+
+export { playerRoutes } from "./routes";
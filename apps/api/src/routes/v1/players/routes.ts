@@ -0,0 +1,173 @@
+/**
+ * Player Routes - v1
+ * Per-player reports built from clip tagging: every play an org member is
+ * tagged on, with their role in it, and their targets, catches, carries,
+ * flag pulls and touchdowns.
+ */
+
+import { Elysia, t } from "elysia";
+import { prisma } from "@repo/db";
+import type {
+  ClipPlayerRole,
+  PlayerPlayData,
+  PlayerReportData,
+  PlayerStatsData,
+} from "@repo/types";
+import { authPlugin, ApiError } from "../../../middleware";
+import { loadStatsPlays } from "../../../lib/play-stats";
+import { CLIP_PLAYER_ROLE_ORDER } from "../../../lib/clip-players";
+
+/** Results that count a target as a catch */
+const CATCH_RESULTS = ["complete", "touchdown"];
+
+function playerStats(plays: PlayerPlayData[]): PlayerStatsData {
+  const stats: PlayerStatsData = {
+    plays: plays.length,
+    carries: 0,
+    targets: 0,
+    catches: 0,
+    flagPulls: 0,
+    touchdowns: 0,
+    yards: 0,
+  };
+
+  for (const play of plays) {
+    const result = play.result?.toLowerCase();
+    const carried = play.roles.includes("BALL_CARRIER");
+    const targeted = play.roles.includes("TARGET");
+    const caught = targeted && CATCH_RESULTS.includes(result ?? "");
+
+    if (carried) stats.carries++;
+    if (targeted) stats.targets++;
+    if (caught) stats.catches++;
+    if (play.roles.includes("TACKLER")) stats.flagPulls++;
+    if ((carried || targeted) && result === "touchdown") stats.touchdowns++;
+    if ((carried || caught) && play.gain !== null) stats.yards += play.gain;
+  }
+  return stats;
+}
+
+export const playerRoutes = new Elysia({
+  prefix: "/orgs/:organizationId/players",
+})
+  .use(authPlugin)
+
+  /**
+   * GET /orgs/:organizationId/players/:memberId
+   * A member's profile, stats and the plays they're tagged on, in game and
+   * play order. Each play is counted once across camera angles.
+   */
+  .get(
+    "/:memberId",
+    async ({ params }) => {
+      const { organizationId, memberId } = params;
+      const member = await prisma.member.findFirst({
+        where: { id: memberId, organizationId },
+        select: {
+          id: true,
+          role: true,
+          user: {
+            select: {
+              name: true,
+              image: true,
+              position: true,
+              jerseyNumber: true,
+            },
+          },
+        },
+      });
+
+      if (!member) {
+        throw new ApiError(404, "Player not found");
+      }
+
+      const tagged = await prisma.clipPlayer.findMany({
+        where: { memberId, clip: { organizationId } },
+        orderBy: { clip: { createdAt: "asc" } },
+        select: {
+          role: true,
+          clip: {
+            select: {
+              id: true,
+              videoId: true,
+              playNumber: true,
+              video: { select: { gameId: true } },
+            },
+          },
+        },
+      });
+
+      // Every angle of the tagged plays, tagged or not: stats come from the
+      // angle with the most columns filled in
+      const statsPlays =
+        tagged.length === 0
+          ? []
+          : await loadStatsPlays({
+              organizationId,
+              OR: tagged.map(({ clip }) =>
+                clip.video.gameId
+                  ? {
+                      video: { gameId: clip.video.gameId },
+                      playNumber: clip.playNumber,
+                    }
+                  : { videoId: clip.videoId, playNumber: clip.playNumber },
+              ),
+            });
+
+      // The member's roles on each play, and the first angle tagged
+      const byPlay = new Map<
+        string,
+        { clipId: string; roles: Set<ClipPlayerRole> }
+      >();
+      for (const { role, clip } of tagged) {
+        const key = `${clip.video.gameId ?? clip.videoId}:${clip.playNumber}`;
+        const entry = byPlay.get(key) ?? { clipId: clip.id, roles: new Set() };
+        entry.roles.add(role);
+        byPlay.set(key, entry);
+      }
+
+      const plays = statsPlays.flatMap((play): PlayerPlayData[] => {
+        const entry = byPlay.get(`${play.sequence}:${play.playNumber}`);
+        if (!entry) return [];
+        return [
+          {
+            clipId: entry.clipId,
+            game: play.game && {
+              id: play.game.id,
+              title: play.game.title,
+              date: play.game.date?.toISOString() ?? null,
+            },
+            playNumber: play.playNumber,
+            roles: CLIP_PLAYER_ROLE_ORDER.filter((r) => entry.roles.has(r)),
+            odk: play.odk,
+            playType: play.playType,
+            result: play.result,
+            down: play.down,
+            distance: play.distance,
+            gain: play.gain,
+          },
+        ];
+      });
+
+      const report: PlayerReportData = {
+        member: {
+          id: member.id,
+          role: member.role,
+          name: member.user.name,
+          image: member.user.image,
+          position: member.user.position,
+          jerseyNumber: member.user.jerseyNumber,
+        },
+        stats: playerStats(plays),
+        plays,
+      };
+      return { report };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        memberId: t.String(),
+      }),
+    },
+  );
@@ -0,0 +1,5 @@
+/**
+ * Playlists module exports
+ */
+
+export { playlistRoutes } from "./routes";
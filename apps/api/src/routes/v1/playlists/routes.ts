@@ -0,0 +1,313 @@
+/**
+ * Playlist Routes - v1
+ * Saved, ordered clip queues for film sessions. Unlike reels, playlists are
+ * never rendered: the player streams each clip's segment straight from its
+ * footage file, so a playlist response carries presigned playback URLs for
+ * every video it references.
+ */
+
+import { Elysia, t } from "elysia";
+import { prisma, type Prisma } from "@repo/db";
+import type { PlaylistData, PlaylistItemInput } from "@repo/types";
+import { authPlugin, ApiError } from "../../../middleware";
+import {
+  playbackClipInclude,
+  serializePlaybackItems,
+} from "../../../lib/playlists";
+
+const playlistItemBody = t.Object({
+  clipId: t.String({ minLength: 1 }),
+  note: t.Optional(t.Nullable(t.String({ maxLength: 1000 }))),
+});
+
+const playlistInclude = {
+  items: {
+    orderBy: { position: "asc" },
+    include: { clip: { include: playbackClipInclude } },
+  },
+} satisfies Prisma.PlaylistInclude;
+
+type PlaylistWithItems = Prisma.PlaylistGetPayload<{
+  include: typeof playlistInclude;
+}>;
+
+function findPlaylist(organizationId: string, playlistId: string) {
+  return prisma.playlist.findFirst({
+    where: { id: playlistId, organizationId },
+    include: playlistInclude,
+  });
+}
+
+/** Reject items that reference clips outside the organization. */
+async function assertClipsInOrg(
+  organizationId: string,
+  items: PlaylistItemInput[],
+): Promise<void> {
+  const clipIds = [...new Set(items.map((item) => item.clipId))];
+  if (clipIds.length === 0) return;
+
+  const found = await prisma.clip.count({
+    where: { id: { in: clipIds }, organizationId },
+  });
+  if (found !== clipIds.length) {
+    throw new ApiError(400, "One or more clips were not found");
+  }
+}
+
+async function serializePlaylist(
+  playlist: PlaylistWithItems,
+): Promise<PlaylistData> {
+  const { items, videos } = await serializePlaybackItems(playlist.items);
+
+  return {
+    id: playlist.id,
+    title: playlist.title,
+    itemCount: playlist.items.length,
+    createdAt: playlist.createdAt.toISOString(),
+    updatedAt: playlist.updatedAt.toISOString(),
+    items,
+    videos,
+  };
+}
+
+export const playlistRoutes = new Elysia({
+  prefix: "/orgs/:organizationId/playlists",
+})
+  .use(authPlugin)
+
+  /**
+   * GET /orgs/:organizationId/playlists
+   * List playlists for an organization, most recently edited first.
+   */
+  .get(
+    "/",
+    async ({ params }) => {
+      const playlists = await prisma.playlist.findMany({
+        where: { organizationId: params.organizationId },
+        orderBy: { updatedAt: "desc" },
+        include: { _count: { select: { items: true } } },
+      });
+
+      return {
+        playlists: playlists.map((playlist) => ({
+          id: playlist.id,
+          title: playlist.title,
+          itemCount: playlist._count.items,
+          createdAt: playlist.createdAt.toISOString(),
+          updatedAt: playlist.updatedAt.toISOString(),
+        })),
+      };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/playlists
+   * Create a playlist, optionally with its initial items.
+   */
+  .post(
+    "/",
+    async ({ params, body, user }) => {
+      const items = body.items ?? [];
+      await assertClipsInOrg(params.organizationId, items);
+
+      const playlist = await prisma.playlist.create({
+        data: {
+          title: body.title,
+          organizationId: params.organizationId,
+          createdById: user!.id,
+          items: {
+            createMany: {
+              data: items.map((item, position) => ({
+                position,
+                clipId: item.clipId,
+                note: item.note || null,
+              })),
+            },
+          },
+        },
+        include: playlistInclude,
+      });
+
+      return { playlist: await serializePlaylist(playlist) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      body: t.Object({
+        title: t.String({ minLength: 1, maxLength: 200 }),
+        items: t.Optional(t.Array(playlistItemBody, { maxItems: 500 })),
+      }),
+    },
+  )
+
+  /**
+   * GET /orgs/:organizationId/playlists/:playlistId
+   * Get a playlist with its ordered items and presigned playback URLs.
+   */
+  .get(
+    "/:playlistId",
+    async ({ params }) => {
+      const playlist = await findPlaylist(
+        params.organizationId,
+        params.playlistId,
+      );
+
+      if (!playlist) {
+        throw new ApiError(404, "Playlist not found");
+      }
+
+      return { playlist: await serializePlaylist(playlist) };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        playlistId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * PATCH /orgs/:organizationId/playlists/:playlistId
+   * Rename a playlist and/or replace its items. `items` is the full new
+   * order, including notes.
+   */
+  .patch(
+    "/:playlistId",
+    async ({ params, body }) => {
+      const playlist = await prisma.playlist.findFirst({
+        where: { id: params.playlistId, organizationId: params.organizationId },
+      });
+
+      if (!playlist) {
+        throw new ApiError(404, "Playlist not found");
+      }
+
+      const { items } = body;
+      if (items) {
+        await assertClipsInOrg(params.organizationId, items);
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        if (items) {
+          await tx.playlistItem.deleteMany({
+            where: { playlistId: playlist.id },
+          });
+          await tx.playlistItem.createMany({
+            data: items.map((item, position) => ({
+              playlistId: playlist.id,
+              position,
+              clipId: item.clipId,
+              note: item.note || null,
+            })),
+          });
+        }
+
+        return tx.playlist.update({
+          where: { id: playlist.id },
+          // Bump updatedAt even when only the items changed
+          data: { title: body.title, updatedAt: new Date() },
+          include: playlistInclude,
+        });
+      });
+
+      return { playlist: await serializePlaylist(updated) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        playlistId: t.String(),
+      }),
+      body: t.Object({
+        title: t.Optional(t.String({ minLength: 1, maxLength: 200 })),
+        items: t.Optional(t.Array(playlistItemBody, { maxItems: 500 })),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/playlists/:playlistId/items
+   * Append a clip to the end of a playlist.
+   */
+  .post(
+    "/:playlistId/items",
+    async ({ params, body }) => {
+      const playlist = await prisma.playlist.findFirst({
+        where: { id: params.playlistId, organizationId: params.organizationId },
+      });
+
+      if (!playlist) {
+        throw new ApiError(404, "Playlist not found");
+      }
+
+      await assertClipsInOrg(params.organizationId, [body]);
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const last = await tx.playlistItem.aggregate({
+          where: { playlistId: playlist.id },
+          _max: { position: true },
+        });
+        await tx.playlistItem.create({
+          data: {
+            playlistId: playlist.id,
+            position: (last._max.position ?? -1) + 1,
+            clipId: body.clipId,
+            note: body.note || null,
+          },
+        });
+
+        return tx.playlist.update({
+          where: { id: playlist.id },
+          data: { updatedAt: new Date() },
+          include: playlistInclude,
+        });
+      });
+
+      return { playlist: await serializePlaylist(updated) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        playlistId: t.String(),
+      }),
+      body: playlistItemBody,
+    },
+  )
+
+  /**
+   * DELETE /orgs/:organizationId/playlists/:playlistId
+   * Delete a playlist. Clips are not affected.
+   */
+  .delete(
+    "/:playlistId",
+    async ({ params }) => {
+      const playlist = await prisma.playlist.findFirst({
+        where: { id: params.playlistId, organizationId: params.organizationId },
+      });
+
+      if (!playlist) {
+        throw new ApiError(404, "Playlist not found");
+      }
+
+      await prisma.playlist.delete({ where: { id: playlist.id } });
+
+      return { success: true };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        playlistId: t.String(),
+      }),
+    },
+  );
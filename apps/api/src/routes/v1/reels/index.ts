@@ -0,0 +1,5 @@
+/**
+ * Reels module exports
+ */
+
+export { reelRoutes } from "./routes";
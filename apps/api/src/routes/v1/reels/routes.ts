@@ -0,0 +1,480 @@
+/**
+ * Reel Routes - v1
+ * Highlight reels: ordered lists of clips (from any game in the org) and
+ * title cards, rendered by the media worker into a single video file.
+ * Any change to a reel's items discards its rendered file.
+ */
+
+import { Elysia, t } from "elysia";
+import { prisma, type Prisma } from "@repo/db";
+import type {
+  ReelData,
+  ReelItemData,
+  ReelItemInput,
+  ReelRenderJobData,
+  ReelRenderSegment,
+} from "@repo/types";
+import { authPlugin, ApiError } from "../../../middleware";
+import { deleteObject, getSignedDownloadUrl } from "../../../lib/s3";
+import { reelRenderQueue } from "../../../lib/queues";
+
+/** How long a title card is shown when the editor doesn't say */
+const DEFAULT_TITLE_CARD_SECS = 3;
+
+const reelItemsBody = t.Array(
+  t.Union([
+    t.Object({
+      type: t.Literal("clip"),
+      clipId: t.String({ minLength: 1 }),
+    }),
+    t.Object({
+      type: t.Literal("title"),
+      title: t.String({ minLength: 1, maxLength: 120 }),
+      subtitle: t.Optional(t.Nullable(t.String({ maxLength: 200 }))),
+      durationSecs: t.Optional(t.Number({ minimum: 1, maximum: 15 })),
+    }),
+  ]),
+  { maxItems: 200 },
+);
+
+const reelInclude = {
+  items: {
+    orderBy: { position: "asc" },
+    include: {
+      clip: {
+        include: {
+          video: {
+            select: {
+              id: true,
+              title: true,
+              game: { select: { id: true, title: true } },
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.ReelInclude;
+
+type ReelWithItems = Prisma.ReelGetPayload<{ include: typeof reelInclude }>;
+
+function findReel(organizationId: string, reelId: string) {
+  return prisma.reel.findFirst({
+    where: { id: reelId, organizationId },
+    include: reelInclude,
+  });
+}
+
+/** Reject items that reference clips outside the organization. */
+async function assertClipsInOrg(
+  organizationId: string,
+  items: ReelItemInput[],
+): Promise<void> {
+  const clipIds = [
+    ...new Set(
+      items.flatMap((item) => (item.type === "clip" ? [item.clipId] : [])),
+    ),
+  ];
+  if (clipIds.length === 0) return;
+
+  const found = await prisma.clip.count({
+    where: { id: { in: clipIds }, organizationId },
+  });
+  if (found !== clipIds.length) {
+    throw new ApiError(400, "One or more clips were not found");
+  }
+}
+
+/** ReelItem rows for `items`, positioned in array order. */
+function toItemRows(
+  items: ReelItemInput[],
+): Omit<Prisma.ReelItemCreateManyInput, "reelId">[] {
+  return items.map((item, position) =>
+    item.type === "clip"
+      ? { position, type: "CLIP", clipId: item.clipId }
+      : {
+          position,
+          type: "TITLE_CARD",
+          title: item.title,
+          subtitle: item.subtitle || null,
+          durationSecs: item.durationSecs ?? DEFAULT_TITLE_CARD_SECS,
+        },
+  );
+}
+
+async function serializeReel(reel: ReelWithItems): Promise<ReelData> {
+  const items = await Promise.all(
+    reel.items.map(async (item): Promise<ReelItemData> => {
+      if (item.type === "TITLE_CARD" || !item.clip) {
+        return {
+          id: item.id,
+          type: "title",
+          title: item.title ?? "",
+          subtitle: item.subtitle,
+          durationSecs: item.durationSecs ?? DEFAULT_TITLE_CARD_SECS,
+        };
+      }
+
+      const { clip } = item;
+      return {
+        id: item.id,
+        type: "clip",
+        clip: {
+          id: clip.id,
+          playNumber: clip.playNumber,
+          title: clip.title,
+          startTime: clip.startTime,
+          endTime: clip.endTime,
+          thumbnailUrl: clip.thumbnailKey
+            ? await getSignedDownloadUrl(clip.thumbnailKey)
+            : null,
+          videoId: clip.video.id,
+          videoTitle: clip.video.title,
+          game: clip.video.game,
+        },
+      };
+    }),
+  );
+
+  return {
+    id: reel.id,
+    title: reel.title,
+    itemCount: reel.items.length,
+    renderStatus: reel.renderStatus,
+    durationSecs: reel.durationSecs,
+    renderError: reel.renderError,
+    createdAt: reel.createdAt.toISOString(),
+    updatedAt: reel.updatedAt.toISOString(),
+    items,
+  };
+}
+
+/** Best-effort removal of a reel's rendered file from S3. */
+async function deleteRenderedFile(reel: {
+  id: string;
+  storageKey: string | null;
+}): Promise<void> {
+  if (!reel.storageKey) return;
+  try {
+    await deleteObject(reel.storageKey);
+  } catch (error) {
+    console.error(`Failed to delete rendered file for reel ${reel.id}:`, error);
+  }
+}
+
+export const reelRoutes = new Elysia({ prefix: "/orgs/:organizationId/reels" })
+  .use(authPlugin)
+
+  /**
+   * GET /orgs/:organizationId/reels
+   * List reels for an organization, most recently edited first.
+   */
+  .get(
+    "/",
+    async ({ params }) => {
+      const reels = await prisma.reel.findMany({
+        where: { organizationId: params.organizationId },
+        orderBy: { updatedAt: "desc" },
+        include: { _count: { select: { items: true } } },
+      });
+
+      return {
+        reels: reels.map((reel) => ({
+          id: reel.id,
+          title: reel.title,
+          itemCount: reel._count.items,
+          renderStatus: reel.renderStatus,
+          durationSecs: reel.durationSecs,
+          createdAt: reel.createdAt.toISOString(),
+          updatedAt: reel.updatedAt.toISOString(),
+        })),
+      };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/reels
+   * Create a reel, optionally with its initial items.
+   */
+  .post(
+    "/",
+    async ({ params, body, user }) => {
+      const items = body.items ?? [];
+      await assertClipsInOrg(params.organizationId, items);
+
+      const reel = await prisma.reel.create({
+        data: {
+          title: body.title,
+          organizationId: params.organizationId,
+          createdById: user!.id,
+          items: { createMany: { data: toItemRows(items) } },
+        },
+        include: reelInclude,
+      });
+
+      return { reel: await serializeReel(reel) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+      body: t.Object({
+        title: t.String({ minLength: 1, maxLength: 200 }),
+        items: t.Optional(reelItemsBody),
+      }),
+    },
+  )
+
+  /**
+   * GET /orgs/:organizationId/reels/:reelId
+   * Get a reel with its ordered items.
+   */
+  .get(
+    "/:reelId",
+    async ({ params }) => {
+      const reel = await findReel(params.organizationId, params.reelId);
+
+      if (!reel) {
+        throw new ApiError(404, "Reel not found");
+      }
+
+      return { reel: await serializeReel(reel) };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        reelId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * PATCH /orgs/:organizationId/reels/:reelId
+   * Rename a reel and/or replace its items. `items` is the full new order.
+   */
+  .patch(
+    "/:reelId",
+    async ({ params, body }) => {
+      const reel = await prisma.reel.findFirst({
+        where: { id: params.reelId, organizationId: params.organizationId },
+      });
+
+      if (!reel) {
+        throw new ApiError(404, "Reel not found");
+      }
+
+      const { items } = body;
+      if (items) {
+        await assertClipsInOrg(params.organizationId, items);
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        if (items) {
+          await tx.reelItem.deleteMany({ where: { reelId: reel.id } });
+          await tx.reelItem.createMany({
+            data: toItemRows(items).map((row) => ({ ...row, reelId: reel.id })),
+          });
+        }
+
+        return tx.reel.update({
+          where: { id: reel.id },
+          data: {
+            ...(body.title !== undefined && { title: body.title }),
+            // The rendered file no longer matches once the items change
+            ...(items && {
+              storageKey: null,
+              durationSecs: null,
+              renderStatus: null,
+              renderJobId: null,
+              renderError: null,
+            }),
+          },
+          include: reelInclude,
+        });
+      });
+
+      if (items) {
+        await deleteRenderedFile(reel);
+      }
+
+      return { reel: await serializeReel(updated) };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        reelId: t.String(),
+      }),
+      body: t.Object({
+        title: t.Optional(t.String({ minLength: 1, maxLength: 200 })),
+        items: t.Optional(reelItemsBody),
+      }),
+    },
+  )
+
+  /**
+   * DELETE /orgs/:organizationId/reels/:reelId
+   * Delete a reel and its rendered file, if any. Clips are not affected.
+   */
+  .delete(
+    "/:reelId",
+    async ({ params }) => {
+      const reel = await prisma.reel.findFirst({
+        where: { id: params.reelId, organizationId: params.organizationId },
+      });
+
+      if (!reel) {
+        throw new ApiError(404, "Reel not found");
+      }
+
+      await prisma.reel.delete({ where: { id: reel.id } });
+      await deleteRenderedFile(reel);
+
+      return { success: true };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        reelId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/reels/:reelId/render
+   * Queue a render of the reel into a single file in S3. Re-rendering
+   * replaces the previous file.
+   */
+  .post(
+    "/:reelId/render",
+    async ({ params }) => {
+      const reel = await prisma.reel.findFirst({
+        where: { id: params.reelId, organizationId: params.organizationId },
+        include: {
+          items: {
+            orderBy: { position: "asc" },
+            include: {
+              clip: {
+                include: { video: { select: { storageKey: true } } },
+              },
+            },
+          },
+        },
+      });
+
+      if (!reel) {
+        throw new ApiError(404, "Reel not found");
+      }
+
+      if (reel.items.length === 0) {
+        throw new ApiError(400, "Reel has no items to render");
+      }
+
+      if (reel.renderStatus === "QUEUED" || reel.renderStatus === "RENDERING") {
+        throw new ApiError(409, "Reel is already being rendered");
+      }
+
+      const segments: ReelRenderSegment[] = reel.items.map((item) => {
+        if (item.type === "TITLE_CARD" || !item.clip) {
+          return {
+            type: "title",
+            title: item.title ?? "",
+            subtitle: item.subtitle,
+            durationSecs: item.durationSecs ?? DEFAULT_TITLE_CARD_SECS,
+          };
+        }
+
+        if (!item.clip.video.storageKey) {
+          throw new ApiError(409, "Footage file has not finished uploading");
+        }
+        return {
+          type: "clip",
+          sourceKey: item.clip.video.storageKey,
+          startTime: item.clip.startTime,
+          endTime: item.clip.endTime,
+        };
+      });
+
+      const jobId = `reel-render-${reel.id}-${Date.now()}`;
+      const jobData: ReelRenderJobData = {
+        reelId: reel.id,
+        organizationId: reel.organizationId,
+        segments,
+      };
+
+      // Record the jobId before enqueueing so the listener can always match it
+      await prisma.reel.update({
+        where: { id: reel.id },
+        data: { renderStatus: "QUEUED", renderJobId: jobId, renderError: null },
+      });
+
+      try {
+        await reelRenderQueue.add("render", jobData, { jobId });
+      } catch (error) {
+        console.error(`Failed to enqueue render for reel ${reel.id}:`, error);
+        await prisma.reel.update({
+          where: { id: reel.id },
+          data: {
+            renderStatus: "FAILED",
+            renderError: "Failed to queue render",
+          },
+        });
+        throw new ApiError(503, "Render queue is unavailable");
+      }
+
+      return { renderStatus: "QUEUED" as const, jobId };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        reelId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * GET /orgs/:organizationId/reels/:reelId/download
+   * Presigned download URL for the rendered reel file.
+   */
+  .get(
+    "/:reelId/download",
+    async ({ params }) => {
+      const reel = await prisma.reel.findFirst({
+        where: { id: params.reelId, organizationId: params.organizationId },
+      });
+
+      if (!reel) {
+        throw new ApiError(404, "Reel not found");
+      }
+
+      if (reel.renderStatus !== "COMPLETED" || !reel.storageKey) {
+        throw new ApiError(404, "Reel has not been rendered");
+      }
+
+      const baseName = reel.title.replace(/[^\w\- ]+/g, "").trim();
+      const url = await getSignedDownloadUrl(
+        reel.storageKey,
+        3600,
+        `${baseName || "reel"}.mp4`,
+      );
+
+      return { url };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        reelId: t.String(),
+      }),
+    },
+  );
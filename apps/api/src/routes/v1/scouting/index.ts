@@ -0,0 +1,5 @@
+/**
+ * Scouting module exports
+ */
+
+export { scoutingRoutes } from "./routes";
@@ -0,0 +1,320 @@
+/**
+ * Scouting Routes - v1
+ * Opponent scouting reports built from OPPONENT tags: every game against
+ * the opponent, their formation, play-type and down-and-distance
+ * tendencies from the breakdown data, and one-click playlists of their plays.
+ */
+
+import { Elysia, t } from "elysia";
+import { prisma } from "@repo/db";
+import type {
+  ScoutingOpponentData,
+  ScoutingReportData,
+  ScoutingTendency,
+  StatsSide,
+} from "@repo/types";
+import { authPlugin, ApiError } from "../../../middleware";
+import {
+  loadStatsPlays,
+  summarizePlays,
+  type StatsPlay,
+} from "../../../lib/play-stats";
+import { buildClipSearchWhere } from "../../../lib/clip-search";
+
+/** Playlists are capped at this many items */
+const MAX_PLAYLIST_PLAYS = 500;
+
+const ORDINALS = ["1st", "2nd", "3rd", "4th"];
+
+/** Longest distance still called short, and medium, on 2nd–4th down */
+const SHORT_YARDS = 3;
+const MEDIUM_YARDS = 6;
+
+const sideSchema = t.Union([t.Literal("O"), t.Literal("D")]);
+
+const breakdownFilterValue = t.Union([
+  t.String({ maxLength: 200 }),
+  t.Number(),
+]);
+
+async function findOpponent(organizationId: string, tagId: string) {
+  const tag = await prisma.tag.findFirst({
+    where: { id: tagId, organizationId, category: "OPPONENT" },
+    select: { id: true, name: true },
+  });
+
+  if (!tag) {
+    throw new ApiError(404, "Opponent not found");
+  }
+  return tag;
+}
+
+/** Down-and-distance situation with a sort key, e.g. "3rd & long" */
+function situationOf(play: StatsPlay): { label: string; order: number } | null {
+  if (play.down === null) return null;
+  const down = ORDINALS[play.down - 1] ?? `${play.down}th`;
+  if (play.down === 1 || play.distance === null) {
+    return { label: `${down} down`, order: play.down * 10 };
+  }
+
+  const [bucket, length] =
+    play.distance <= SHORT_YARDS
+      ? [1, "short"]
+      : play.distance <= MEDIUM_YARDS
+        ? [2, "medium"]
+        : [3, "long"];
+  return { label: `${down} & ${length}`, order: play.down * 10 + bucket };
+}
+
+/**
+ * Group plays by a breakdown value. Rows come out most common first unless
+ * the key has an explicit order.
+ */
+function tendencies(
+  plays: StatsPlay[],
+  keyOf: (play: StatsPlay) => { label: string; order?: number } | null,
+): ScoutingTendency[] {
+  const groups = new Map<string, { order: number; plays: StatsPlay[] }>();
+  for (const play of plays) {
+    const key = keyOf(play);
+    if (!key) continue;
+    const group = groups.get(key.label) ?? { order: key.order ?? 0, plays: [] };
+    group.plays.push(play);
+    groups.set(key.label, group);
+  }
+
+  return [...groups.entries()]
+    .sort(
+      ([aLabel, a], [bLabel, b]) =>
+        a.order - b.order ||
+        b.plays.length - a.plays.length ||
+        aLabel.localeCompare(bLabel),
+    )
+    .map(([value, group]) => ({
+      value,
+      plays: group.plays.length,
+      share: group.plays.length / plays.length,
+      runs: group.plays.filter((p) => p.kind === "run").length,
+      passes: group.plays.filter((p) => p.kind === "pass").length,
+    }));
+}
+
+export const scoutingRoutes = new Elysia({
+  prefix: "/orgs/:organizationId/scouting",
+})
+  .use(authPlugin)
+
+  /**
+   * GET /orgs/:organizationId/scouting
+   * List opponents (OPPONENT tags) with how many games were played against
+   * each, most recent opponent first.
+   */
+  .get(
+    "/",
+    async ({ params }) => {
+      const tags = await prisma.tag.findMany({
+        where: { organizationId: params.organizationId, category: "OPPONENT" },
+        select: {
+          id: true,
+          name: true,
+          games: { select: { game: { select: { date: true } } } },
+        },
+      });
+
+      const opponents: ScoutingOpponentData[] = tags
+        .map((tag) => {
+          const dates = tag.games.flatMap(({ game }) =>
+            game.date ? [game.date.getTime()] : [],
+          );
+          return {
+            id: tag.id,
+            name: tag.name,
+            gameCount: tag.games.length,
+            lastGameDate: dates.length
+              ? new Date(Math.max(...dates)).toISOString()
+              : null,
+          };
+        })
+        .sort(
+          (a, b) =>
+            (b.lastGameDate ?? "").localeCompare(a.lastGameDate ?? "") ||
+            a.name.localeCompare(b.name),
+        );
+
+      return { opponents };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * GET /orgs/:organizationId/scouting/:tagId
+   * Scouting report for one opponent. `side` picks which of their units to
+   * scout by our ODK value: D (default) is their offense, O their defense.
+   */
+  .get(
+    "/:tagId",
+    async ({ params, query }) => {
+      const { organizationId, tagId } = params;
+      const opponent = await findOpponent(organizationId, tagId);
+      const side: StatsSide = query.side ?? "D";
+
+      const [games, allPlays] = await Promise.all([
+        prisma.game.findMany({
+          where: { organizationId, tags: { some: { tagId } } },
+          orderBy: [
+            { date: { sort: "desc", nulls: "last" } },
+            { title: "asc" },
+          ],
+          select: {
+            id: true,
+            title: true,
+            date: true,
+            season: { select: { name: true } },
+          },
+        }),
+        loadStatsPlays({
+          organizationId,
+          video: { game: { tags: { some: { tagId } } } },
+        }),
+      ]);
+      const plays = allPlays.filter((p) => p.odk === side);
+
+      const report: ScoutingReportData = {
+        opponent,
+        side,
+        games: games.map((game) => ({
+          id: game.id,
+          title: game.title,
+          date: game.date?.toISOString() ?? null,
+          seasonName: game.season.name,
+          plays: plays.filter((p) => p.game?.id === game.id).length,
+        })),
+        plays: plays.length,
+        summary: summarizePlays(plays.filter((p) => p.kind !== null)),
+        formations: tendencies(plays, (p) =>
+          p.formation ? { label: p.formation } : null,
+        ),
+        playTypes: tendencies(plays, (p) =>
+          p.playType ? { label: p.playType } : null,
+        ),
+        situations: tendencies(plays, situationOf),
+      };
+      return { report };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        tagId: t.String(),
+      }),
+      query: t.Object({
+        side: t.Optional(sideSchema),
+      }),
+    },
+  )
+
+  /**
+   * POST /orgs/:organizationId/scouting/:tagId/playlists
+   * Create a playlist of the opponent's plays on one side that match the
+   * breakdown filters, e.g. all their red-zone plays. Plays are in game and
+   * play order, one camera angle each.
+   */
+  .post(
+    "/:tagId/playlists",
+    async ({ params, body, user }) => {
+      const { organizationId, tagId } = params;
+      await findOpponent(organizationId, tagId);
+
+      const where = await buildClipSearchWhere(
+        organizationId,
+        {
+          tagIds: [tagId],
+          breakdown: [{ key: "odk", equals: body.side }, ...body.breakdown],
+        },
+        { userId: user!.id, isCoach: true },
+      );
+      const clips = await prisma.clip.findMany({
+        where,
+        orderBy: [
+          { video: { game: { date: { sort: "asc", nulls: "last" } } } },
+          { video: { gameId: "asc" } },
+          { playNumber: "asc" },
+          { startTime: "asc" },
+        ],
+        select: {
+          id: true,
+          videoId: true,
+          playNumber: true,
+          video: { select: { gameId: true } },
+        },
+      });
+
+      // Each play once, from the first angle found
+      const seen = new Set<string>();
+      const clipIds = clips.flatMap((clip) => {
+        const key = `${clip.video.gameId ?? clip.videoId}:${clip.playNumber}`;
+        if (seen.has(key)) return [];
+        seen.add(key);
+        return [clip.id];
+      });
+
+      if (clipIds.length === 0) {
+        throw new ApiError(400, "No plays match these filters");
+      }
+      if (clipIds.length > MAX_PLAYLIST_PLAYS) {
+        throw new ApiError(
+          400,
+          `${clipIds.length} plays match; narrow the filters to ${MAX_PLAYLIST_PLAYS} or fewer`,
+        );
+      }
+
+      const playlist = await prisma.playlist.create({
+        data: {
+          title: body.title,
+          organizationId,
+          createdById: user!.id,
+          items: {
+            createMany: {
+              data: clipIds.map((clipId, position) => ({ position, clipId })),
+            },
+          },
+        },
+      });
+
+      return {
+        playlist: {
+          id: playlist.id,
+          title: playlist.title,
+          itemCount: clipIds.length,
+        },
+      };
+    },
+    {
+      isCoach: true,
+      params: t.Object({
+        organizationId: t.String(),
+        tagId: t.String(),
+      }),
+      body: t.Object({
+        title: t.String({ minLength: 1, maxLength: 200 }),
+        side: sideSchema,
+        breakdown: t.Array(
+          t.Object({
+            key: t.String({ maxLength: 40 }),
+            equals: t.Optional(breakdownFilterValue),
+            in: t.Optional(
+              t.Array(breakdownFilterValue, { minItems: 1, maxItems: 50 }),
+            ),
+            min: t.Optional(t.Number()),
+            max: t.Optional(t.Number()),
+          }),
+          { maxItems: 20 },
+        ),
+      }),
+    },
+  );
@@ -0,0 +1,5 @@
+/**
+ * Stats module exports
+ */
+
+export { statsRoutes } from "./routes";
@@ -0,0 +1,131 @@
+/**
+ * Stats Routes - v1
+ * Run/pass split, yards per play, success rate and red-zone efficiency
+ * computed from clip breakdowns, for a game, a season or every game
+ * against an opponent.
+ */
+
+import { Elysia, t } from "elysia";
+import { prisma } from "@repo/db";
+import { authPlugin, ApiError } from "../../../middleware";
+import { loadPlayStats } from "../../../lib/play-stats";
+
+const statsQuery = t.Object({
+  side: t.Optional(t.Union([t.Literal("O"), t.Literal("D")])),
+});
+
+export const statsRoutes = new Elysia({
+  prefix: "/orgs/:organizationId/stats",
+})
+  .use(authPlugin)
+
+  /**
+   * GET /orgs/:organizationId/stats/games/:gameId
+   * Stats for one game, with a breakdown by down
+   */
+  .get(
+    "/games/:gameId",
+    async ({ params, query }) => {
+      const { organizationId, gameId } = params;
+      const game = await prisma.game.findFirst({
+        where: { id: gameId, organizationId },
+        select: { id: true, title: true },
+      });
+
+      if (!game) {
+        throw new ApiError(404, "Game not found");
+      }
+
+      const stats = await loadPlayStats(
+        { organizationId, video: { gameId } },
+        query.side,
+      );
+
+      return {
+        scope: { type: "game", id: game.id, name: game.title },
+        stats,
+      };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        gameId: t.String(),
+      }),
+      query: statsQuery,
+    },
+  )
+
+  /**
+   * GET /orgs/:organizationId/stats/seasons/:seasonId
+   * Stats across a season, game by game
+   */
+  .get(
+    "/seasons/:seasonId",
+    async ({ params, query }) => {
+      const { organizationId, seasonId } = params;
+      const season = await prisma.season.findFirst({
+        where: { id: seasonId, organizationId },
+        select: { id: true, name: true },
+      });
+
+      if (!season) {
+        throw new ApiError(404, "Season not found");
+      }
+
+      const stats = await loadPlayStats(
+        { organizationId, video: { game: { seasonId } } },
+        query.side,
+      );
+
+      return {
+        scope: { type: "season", id: season.id, name: season.name },
+        stats,
+      };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        seasonId: t.String(),
+      }),
+      query: statsQuery,
+    },
+  )
+
+  /**
+   * GET /orgs/:organizationId/stats/opponents/:tagId
+   * Stats across every game tagged with an opponent, in any season
+   */
+  .get(
+    "/opponents/:tagId",
+    async ({ params, query }) => {
+      const { organizationId, tagId } = params;
+      const tag = await prisma.tag.findFirst({
+        where: { id: tagId, organizationId, category: "OPPONENT" },
+        select: { id: true, name: true },
+      });
+
+      if (!tag) {
+        throw new ApiError(404, "Opponent not found");
+      }
+
+      const stats = await loadPlayStats(
+        { organizationId, video: { game: { tags: { some: { tagId } } } } },
+        query.side,
+      );
+
+      return {
+        scope: { type: "opponent", id: tag.id, name: tag.name },
+        stats,
+      };
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        tagId: t.String(),
+      }),
+      query: statsQuery,
+    },
+  );
@@ -6,7 +6,7 @@
  *   1. POST /init        — Create S3 multipart upload + UploadSession in DB
  *   2. POST /sign-part   — Get presigned URL for a single part
  *   3. POST /complete-part — Record a completed part (ETag + partNumber)
- *   4. POST /complete    — Finalize S3 multipart upload
+ *   4. POST /complete    — Finalize S3 multipart upload + enqueue processing
  *   5. POST /abort       — Cancel upload, clean up S3 + DB
  *   6. GET  /status      — Check upload progress (for resumption)
  *   7. POST /thumbnail   — Upload a client-extracted thumbnail image
@@ -22,7 +22,12 @@ import {
   completeMultipartUpload as s3CompleteMultipart,
   abortMultipartUpload as s3AbortMultipart,
   uploadThumbnail,
+  S3_BUCKET,
+  S3_REGION,
 } from "../../../lib/s3";
+import { videoProcessingQueue } from "../../../lib/queues";
+import { publishVideoStatus } from "../../../lib/video-events";
+import type { VideoProcessJobData } from "@repo/types";
 
 /** Default part size: 10 MB */
 const DEFAULT_PART_SIZE = 10 * 1024 * 1024;
@@ -133,6 +138,7 @@ export const uploadRoutes = new Elysia({
           errorMessage: null,
         },
       });
+      publishVideoStatus(videoId, "UPLOADING");
 
       return {
         uploadSessionId: uploadSession.id,
@@ -333,7 +339,7 @@ export const uploadRoutes = new Elysia({
   .post(
     "/complete",
     async ({ params }) => {
-      const { videoId } = params;
+      const { organizationId, videoId } = params;
 
       const session = await prisma.uploadSession.findUnique({
         where: { videoId },
@@ -371,14 +377,53 @@ export const uploadRoutes = new Elysia({
           fileSize: session.totalBytes,
         },
       });
+      publishVideoStatus(videoId, "UPLOADED");
 
       // Clean up upload session
       await prisma.uploadSession.delete({
         where: { videoId },
       });
 
+      // Enqueue post-upload processing (metadata + thumbnail). The job ID is
+      // recorded before enqueueing so a fast worker can't finish before the
+      // listener is able to match the result back to this video. If Redis is
+      // unavailable the video stays UPLOADED — still playable, just without
+      // server-side metadata.
+      const jobData: VideoProcessJobData = {
+        videoId,
+        organizationId,
+        s3Key: session.s3Key,
+        s3Bucket: S3_BUCKET,
+        s3Region: S3_REGION,
+      };
+      const jobId = `process-${videoId}-${Date.now()}`;
+
+      await prisma.video.update({
+        where: { id: videoId },
+        data: { status: "PROCESSING", jobId },
+      });
+      publishVideoStatus(videoId, "PROCESSING");
+
+      let processing = true;
+      try {
+        await videoProcessingQueue.add("process", jobData, { jobId });
+      } catch (error) {
+        console.error(
+          `Failed to enqueue processing for video ${videoId}:`,
+          error,
+        );
+        processing = false;
+        await prisma.video.update({
+          where: { id: videoId },
+          data: { status: "UPLOADED", jobId: null },
+        });
+        publishVideoStatus(videoId, "UPLOADED");
+      }
+
       return {
         completed: true,
+        processing,
+        jobId: processing ? jobId : null,
       };
     },
     {
@@ -488,6 +533,7 @@ export const uploadRoutes = new Elysia({
           errorMessage: null,
         },
       });
+      publishVideoStatus(videoId, "PENDING");
 
       return { aborted: true };
     },
@@ -5,8 +5,12 @@
  * Deletion includes S3 cleanup of all associated objects.
  */
 
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { Elysia, t } from "elysia";
 import { prisma, VideoStatus } from "@repo/db";
+import type { VideoStreamEvent } from "@repo/types";
 import { authPlugin, ApiError } from "../../../middleware";
 import {
   deletePrefix,
@@ -14,9 +18,22 @@ import {
   abortMultipartUpload,
   getSignedDownloadUrl,
 } from "../../../lib/s3";
+import { videoProcessingEvents } from "../../../lib/queues";
+import { subscribeVideoEvents } from "../../../lib/video-events";
+import { getTracksInWindow } from "../../../lib/tracks";
+import { extractFrame } from "../../../lib/ffmpeg";
 
 const videoStatusValues = Object.values(VideoStatus) as [string, ...string[]];
 
+/** Statuses after which the events stream closes */
+const TERMINAL_STATUSES = new Set<VideoStatus>(["COMPLETED", "FAILED"]);
+
+/** How often the events stream re-checks the DB and sends a keepalive */
+const EVENTS_REFRESH_INTERVAL_MS = 15_000;
+
+/** Width of exported frames unless ?width= asks otherwise */
+const DEFAULT_FRAME_WIDTH = 1280;
+
 /** Tag include shape for video responses */
 const tagInclude = {
   tags: {
@@ -242,6 +259,249 @@ export const videoRoutes = new Elysia({
     },
   )
 
+  /**
+   * GET /orgs/:organizationId/videos/:videoId/events
+   * Server-Sent Events stream of status transitions, processing progress and
+   * error messages. Sends the current status on connect and closes once the
+   * video reaches COMPLETED or FAILED.
+   */
+  .get(
+    "/:videoId/events",
+    async ({ params }) => {
+      const video = await prisma.video.findFirst({
+        where: {
+          id: params.videoId,
+          organizationId: params.organizationId,
+        },
+        select: { id: true },
+      });
+
+      if (!video) {
+        throw new ApiError(404, "Video not found");
+      }
+
+      const videoId = video.id;
+      const encoder = new TextEncoder();
+      let isClosed = false;
+      let jobId: string | null = null;
+      let lastStatus: VideoStatus | null = null;
+      let cleanup = () => {};
+
+      const stream = new ReadableStream({
+        async start(controller) {
+          const send = (event: VideoStreamEvent) => {
+            if (isClosed) return;
+            try {
+              controller.enqueue(
+                encoder.encode(`data: ${JSON.stringify(event)}\n\n`),
+              );
+            } catch {
+              // Ignore errors on closed stream
+            }
+          };
+
+          // Re-read the video and emit its status if it changed. Bus events
+          // only signal that something changed; the DB is the source of truth
+          // (and the periodic refresh catches writes from other API instances).
+          const refresh = async () => {
+            if (isClosed) return;
+            try {
+              const current = await prisma.video.findUnique({
+                where: { id: videoId },
+                select: { status: true, jobId: true, errorMessage: true },
+              });
+
+              if (!current) {
+                cleanup();
+                return;
+              }
+
+              jobId = current.jobId;
+              if (current.status === lastStatus) return;
+              lastStatus = current.status;
+
+              send({
+                type: "status",
+                videoId,
+                status: current.status,
+                errorMessage: current.errorMessage,
+              });
+
+              if (TERMINAL_STATUSES.has(current.status)) {
+                cleanup();
+              }
+            } catch {
+              // Transient DB errors — the next refresh will retry
+            }
+          };
+
+          cleanup = () => {
+            if (isClosed) return;
+            isClosed = true;
+            unsubscribe();
+            videoProcessingEvents.off("progress", onProgress);
+            clearInterval(refreshTimer);
+            try {
+              controller.close();
+            } catch {
+              // Already closed
+            }
+          };
+
+          const onProgress = ({
+            jobId: eventJobId,
+            data,
+          }: {
+            jobId: string;
+            data: unknown;
+          }) => {
+            if (eventJobId !== jobId || typeof data !== "number") return;
+            send({ type: "progress", videoId, progress: data });
+          };
+
+          const unsubscribe = subscribeVideoEvents(videoId, () => {
+            void refresh();
+          });
+          videoProcessingEvents.on("progress", onProgress);
+          const refreshTimer = setInterval(() => {
+            if (isClosed) return;
+            try {
+              controller.enqueue(encoder.encode(": keepalive\n\n"));
+            } catch {
+              // Ignore errors on closed stream
+            }
+            void refresh();
+          }, EVENTS_REFRESH_INTERVAL_MS);
+
+          await refresh();
+        },
+        cancel() {
+          cleanup();
+        },
+      });
+
+      return new Response(stream, {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        },
+      });
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        videoId: t.String(),
+      }),
+    },
+  )
+
+  /**
+   * GET /orgs/:organizationId/videos/:videoId/tracks
+   * Player tracks and route segments between ?start= and ?end= (seconds),
+   * from the video's latest completed analysis run (or ?runId=).
+   */
+  .get(
+    "/:videoId/tracks",
+    async ({ params, query }) => {
+      if (query.end < query.start) {
+        throw new ApiError(400, "End time must not be before start time");
+      }
+
+      const video = await prisma.video.findFirst({
+        where: {
+          id: params.videoId,
+          organizationId: params.organizationId,
+        },
+        select: { id: true, organizationId: true },
+      });
+
+      if (!video) {
+        throw new ApiError(404, "Video not found");
+      }
+
+      return getTracksInWindow(video, query.start, query.end, query.runId);
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        videoId: t.String(),
+      }),
+      query: t.Object({
+        start: t.Numeric({ minimum: 0 }),
+        end: t.Numeric({ minimum: 0 }),
+        runId: t.Optional(t.String()),
+      }),
+    },
+  )
+
+  /**
+   * GET /orgs/:organizationId/videos/:videoId/frame
+   * A single JPEG frame at ?t= (seconds), for exporting annotated stills.
+   * Served by the API rather than drawn from the player so the browser can
+   * composite it onto a canvas without cross-origin restrictions.
+   */
+  .get(
+    "/:videoId/frame",
+    async ({ params, query }) => {
+      const video = await prisma.video.findFirst({
+        where: {
+          id: params.videoId,
+          organizationId: params.organizationId,
+        },
+        select: { id: true, storageKey: true, status: true },
+      });
+
+      if (!video) {
+        throw new ApiError(404, "Video not found");
+      }
+      if (video.status !== "COMPLETED" || !video.storageKey) {
+        throw new ApiError(400, "Video is not ready yet");
+      }
+
+      const workDir = await mkdtemp(join(tmpdir(), `frame-${video.id}-`));
+      try {
+        const framePath = join(workDir, "frame.jpg");
+        const sourceUrl = await getSignedDownloadUrl(video.storageKey, 600);
+        await extractFrame(
+          sourceUrl,
+          query.t,
+          framePath,
+          Math.round(query.width ?? DEFAULT_FRAME_WIDTH),
+        ).catch((error) => {
+          console.error(
+            `Frame extraction failed for video ${video.id}:`,
+            error,
+          );
+          throw new ApiError(500, "Failed to extract frame");
+        });
+        const frame = await Bun.file(framePath).arrayBuffer();
+
+        return new Response(frame, {
+          headers: {
+            "Content-Type": "image/jpeg",
+            "Cache-Control": "private, max-age=3600",
+          },
+        });
+      } finally {
+        await rm(workDir, { recursive: true, force: true });
+      }
+    },
+    {
+      isOrgMember: true,
+      params: t.Object({
+        organizationId: t.String(),
+        videoId: t.String(),
+      }),
+      query: t.Object({
+        t: t.Numeric({ minimum: 0 }),
+        width: t.Optional(t.Numeric({ minimum: 160, maximum: 1920 })),
+      }),
+    },
+  )
+
   /**
    * PATCH /orgs/:organizationId/videos/:videoId
    * Update video metadata (title, game association, tags)
@@ -5,8 +5,7 @@
 
 // Re-export shared types
 export type {
-  JobStatus,
-  CreateJobResponse,
+  AnalysisRunData,
   VideoAnalysisResult,
 } from "@repo/types";
 
@@ -0,0 +1,29 @@
+/**
+ * Media worker entry point
+ * Runs the ffmpeg-based workers (uploaded footage processing, clip and reel
+ * renders) outside the API process so long jobs never compete with request
+ * handling. Requires local ffmpeg and ffprobe binaries (FFMPEG_PATH,
+ * FFPROBE_PATH).
+ */
+
+import {
+  startClipRenderWorker,
+  startReelRenderWorker,
+  startVideoProcessingWorker,
+} from "./workers";
+
+const workers = [
+  startVideoProcessingWorker(),
+  startClipRenderWorker(),
+  startReelRenderWorker(),
+];
+
+console.log("Media worker started, waiting for processing and render jobs...");
+
+async function shutdown() {
+  await Promise.all(workers.map((worker) => worker.close()));
+  process.exit(0);
+}
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
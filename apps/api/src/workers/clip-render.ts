@@ -0,0 +1,91 @@
+/**
+ * Clip Render Worker
+ * Cuts a clip's segment out of its footage file with ffmpeg, extracts a
+ * thumbnail from the middle of the clip, and uploads both to S3 keys of
+ * their own for this render. Results are returned to the API's clip-render listener, which
+ * writes them to the Clip record.
+ */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Worker, type Job } from "bullmq";
+import type { ClipRenderJobData, ClipRenderResult } from "@repo/types";
+import { redisConnection } from "../lib/redis";
+import {
+  getClipKey,
+  getClipThumbnailKey,
+  getSignedDownloadUrl,
+  uploadFile,
+} from "../lib/s3";
+import { cutSegment, extractFrame } from "../lib/ffmpeg";
+
+/** Source URL lifetime — covers slow renders of long clips */
+const SOURCE_URL_EXPIRES_IN = 2 * 60 * 60;
+
+async function renderClip(
+  job: Job<ClipRenderJobData>,
+): Promise<ClipRenderResult> {
+  const { clipId, videoId, organizationId, sourceKey, startTime, endTime } =
+    job.data;
+
+  const workDir = await mkdtemp(join(tmpdir(), `clip-${clipId}-`));
+  try {
+    const sourceUrl = await getSignedDownloadUrl(
+      sourceKey,
+      SOURCE_URL_EXPIRES_IN,
+    );
+    const clipPath = join(workDir, "clip.mp4");
+    const thumbnailPath = join(workDir, "thumbnail.jpg");
+
+    await job.updateProgress(5);
+    await cutSegment(sourceUrl, startTime, endTime, clipPath);
+    await job.updateProgress(70);
+
+    // The API always enqueues clip renders with a jobId
+    const renderId = job.id!;
+    const storageKey = getClipKey(organizationId, videoId, clipId, renderId);
+    await uploadFile(storageKey, clipPath, "video/mp4");
+    await job.updateProgress(90);
+
+    // A missing thumbnail shouldn't fail an otherwise good render
+    let thumbnailKey: string | null = null;
+    try {
+      await extractFrame(clipPath, (endTime - startTime) / 2, thumbnailPath);
+      thumbnailKey = getClipThumbnailKey(
+        organizationId,
+        videoId,
+        clipId,
+        renderId,
+      );
+      await uploadFile(thumbnailKey, thumbnailPath, "image/jpeg");
+    } catch (error) {
+      console.warn(`Thumbnail extraction failed for clip ${clipId}:`, error);
+      thumbnailKey = null;
+    }
+
+    await job.updateProgress(100);
+    return { storageKey, thumbnailKey };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/** Start consuming clip-render jobs. */
+export function startClipRenderWorker(): Worker<
+  ClipRenderJobData,
+  ClipRenderResult
+> {
+  const worker = new Worker<ClipRenderJobData, ClipRenderResult>(
+    "clip-render",
+    renderClip,
+    // ffmpeg is CPU-bound — one render per worker process
+    { connection: redisConnection, concurrency: 1 },
+  );
+
+  worker.on("failed", (job, error) => {
+    console.error(`Clip render job ${job?.id} failed:`, error.message);
+  });
+
+  return worker;
+}
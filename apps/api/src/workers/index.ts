@@ -0,0 +1,7 @@
+/**
+ * Media workers (run in a separate process — see src/worker.ts)
+ */
+
+export { startClipRenderWorker } from "./clip-render";
+export { startReelRenderWorker } from "./reel-render";
+export { startVideoProcessingWorker } from "./video-processing";
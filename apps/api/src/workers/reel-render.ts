@@ -0,0 +1,124 @@
+/**
+ * Reel Render Worker
+ * Renders every segment of a highlight reel (clip cuts and title cards) in
+ * a common output format, joins them into a single MP4 and uploads it to
+ * an S3 key of its own for this render. Results are returned to the API's reel-render
+ * listener, which writes them to the Reel record.
+ */
+
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Worker, type Job } from "bullmq";
+import type { ReelRenderJobData, ReelRenderResult } from "@repo/types";
+import { redisConnection } from "../lib/redis";
+import { getReelKey, getSignedDownloadUrl, uploadFile } from "../lib/s3";
+import {
+  concatSegments,
+  hasAudioStream,
+  probeDuration,
+  renderReelClip,
+  renderTitleCard,
+} from "../lib/ffmpeg";
+
+/** Source URL lifetime — covers slow renders of long reels */
+const SOURCE_URL_EXPIRES_IN = 4 * 60 * 60;
+
+/** Share of progress spent on rendering segments; the rest is concat/upload */
+const SEGMENT_PROGRESS_SHARE = 85;
+
+async function renderReel(
+  job: Job<ReelRenderJobData>,
+): Promise<ReelRenderResult> {
+  const { reelId, organizationId, segments } = job.data;
+  if (segments.length === 0) {
+    throw new Error("Reel has no segments to render");
+  }
+
+  const workDir = await mkdtemp(join(tmpdir(), `reel-${reelId}-`));
+  try {
+    // Several clips usually share one game file — sign and probe it once
+    const sources = new Map<string, { url: string; hasAudio: boolean }>();
+    const segmentPaths: string[] = [];
+
+    for (const [index, segment] of segments.entries()) {
+      const segmentPath = join(workDir, `segment-${index}.mp4`);
+
+      if (segment.type === "clip") {
+        let source = sources.get(segment.sourceKey);
+        if (!source) {
+          const url = await getSignedDownloadUrl(
+            segment.sourceKey,
+            SOURCE_URL_EXPIRES_IN,
+          );
+          source = { url, hasAudio: await hasAudioStream(url) };
+          sources.set(segment.sourceKey, source);
+        }
+        await renderReelClip(
+          source.url,
+          segment.startTime,
+          segment.endTime,
+          source.hasAudio,
+          segmentPath,
+        );
+      } else {
+        const titleFile = join(workDir, `title-${index}.txt`);
+        await writeFile(titleFile, segment.title);
+        let subtitleFile: string | null = null;
+        if (segment.subtitle) {
+          subtitleFile = join(workDir, `subtitle-${index}.txt`);
+          await writeFile(subtitleFile, segment.subtitle);
+        }
+        await renderTitleCard(
+          titleFile,
+          subtitleFile,
+          segment.durationSecs,
+          segmentPath,
+        );
+      }
+
+      segmentPaths.push(segmentPath);
+      await job.updateProgress(
+        Math.round(((index + 1) / segments.length) * SEGMENT_PROGRESS_SHARE),
+      );
+    }
+
+    const listFile = join(workDir, "segments.txt");
+    await writeFile(
+      listFile,
+      segmentPaths.map((path) => `file '${path}'`).join("\n"),
+    );
+    const reelPath = join(workDir, "reel.mp4");
+    await concatSegments(listFile, reelPath);
+    const durationSecs = await probeDuration(reelPath);
+    await job.updateProgress(90);
+
+    // The API always enqueues reel renders with a jobId
+    const storageKey = getReelKey(organizationId, reelId, job.id!);
+    await uploadFile(storageKey, reelPath, "video/mp4");
+
+    await job.updateProgress(100);
+    return { storageKey, durationSecs };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/** Start consuming reel-render jobs. */
+export function startReelRenderWorker(): Worker<
+  ReelRenderJobData,
+  ReelRenderResult
+> {
+  const worker = new Worker<ReelRenderJobData, ReelRenderResult>(
+    "reel-render",
+    renderReel,
+    // ffmpeg is CPU-bound — one render per worker process
+    { connection: redisConnection, concurrency: 1 },
+  );
+
+  worker.on("failed", (job, error) => {
+    console.error(`Reel render job ${job?.id} failed:`, error.message);
+  });
+
+  return worker;
+}
@@ -0,0 +1,74 @@
+/**
+ * Video Processing Worker
+ * Probes an uploaded footage file with ffprobe for its dimensions, frame
+ * rate, codec and duration, and extracts a thumbnail to the video's S3 key.
+ * Results are returned to the API's video-processing listener, which writes
+ * them to the Video record and marks it COMPLETED.
+ */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Worker, type Job } from "bullmq";
+import type { VideoProcessJobData, VideoProcessResult } from "@repo/types";
+import { redisConnection } from "../lib/redis";
+import { getSignedDownloadUrl, getThumbnailKey, uploadFile } from "../lib/s3";
+import { extractFrame, probeVideo } from "../lib/ffmpeg";
+
+/** Source URL lifetime — probing and one frame grab are quick */
+const SOURCE_URL_EXPIRES_IN = 30 * 60;
+
+/** Thumbnail frame time, kept inside short files */
+const THUMBNAIL_TIME_SECS = 5;
+
+async function processVideo(
+  job: Job<VideoProcessJobData>,
+): Promise<VideoProcessResult> {
+  const { videoId, organizationId, s3Key } = job.data;
+
+  const workDir = await mkdtemp(join(tmpdir(), `video-${videoId}-`));
+  try {
+    const sourceUrl = await getSignedDownloadUrl(s3Key, SOURCE_URL_EXPIRES_IN);
+
+    await job.updateProgress(5);
+    const probe = await probeVideo(sourceUrl);
+    await job.updateProgress(50);
+
+    // A missing thumbnail shouldn't fail otherwise playable footage
+    let thumbnailKey: string | null = null;
+    try {
+      const thumbnailPath = join(workDir, "thumbnail.jpg");
+      const time = Math.min(THUMBNAIL_TIME_SECS, (probe.durationSecs ?? 0) / 2);
+      await extractFrame(sourceUrl, time, thumbnailPath);
+      thumbnailKey = getThumbnailKey(organizationId, videoId);
+      await uploadFile(thumbnailKey, thumbnailPath, "image/jpeg");
+    } catch (error) {
+      console.warn(`Thumbnail extraction failed for video ${videoId}:`, error);
+      thumbnailKey = null;
+    }
+
+    await job.updateProgress(100);
+    // Thumbnails are served through presigned URLs, so no public URL
+    return { ...probe, thumbnailKey, thumbnailUrl: null };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/** Start consuming video-processing jobs. */
+export function startVideoProcessingWorker(): Worker<
+  VideoProcessJobData,
+  VideoProcessResult
+> {
+  const worker = new Worker<VideoProcessJobData, VideoProcessResult>(
+    "video-processing",
+    processVideo,
+    { connection: redisConnection, concurrency: 1 },
+  );
+
+  worker.on("failed", (job, error) => {
+    console.error(`Video processing job ${job?.id} failed:`, error.message);
+  });
+
+  return worker;
+}
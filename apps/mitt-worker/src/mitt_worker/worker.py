@@ -22,20 +22,60 @@ try:
     REDIS_PORT = int(_redis_port_str)
 except ValueError as exc:
     raise RuntimeError(f"Environment variable REDIS_PORT must be an integer, got: {_redis_port_str!r}") from exc
+
+# Reported with every result and persisted on the AnalysisRun record
+MODEL_VERSION = os.getenv('MODEL_VERSION', 'mitt-stub-0')
+
+
 class PlayerAnalysis(TypedDict):
     player_id: str
     position: tuple[float, float]
     route_type: str | None
 
 
+class TrackPoint(TypedDict):
+    t: float  # video time in seconds
+    x: float  # normalized 0-1
+    y: float  # normalized 0-1
+
+
+class RouteSegment(TypedDict):
+    route_type: str
+    start_time: float
+    end_time: float
+    confidence: float
+
+
+class PlayerTrack(TypedDict):
+    track_id: str
+    jersey_number: int | None
+    points: list[TrackPoint]
+    routes: list[RouteSegment]
+
+
+class DetectedPlay(TypedDict):
+    start_time: float  # snap
+    end_time: float  # whistle
+    confidence: float
+
+
 class VideoAnalysisResult(TypedDict):
     routes_detected: list[str]
     players: list[PlayerAnalysis]
     analysis_complete: bool
+    model_version: str
+    tracks: list[PlayerTrack]
+    plays: list[DetectedPlay]
 
 
 class JobData(TypedDict):
+    analysisRunId: str
+    videoId: str
+    organizationId: str
     videoUrl: str
+    s3Key: str
+    s3Bucket: str
+    s3Region: str
 
 
 def process_video(video_url: str) -> VideoAnalysisResult:
@@ -46,6 +86,9 @@ def process_video(video_url: str) -> VideoAnalysisResult:
         routes_detected=[],
         players=[],
         analysis_complete=True,
+        model_version=MODEL_VERSION,
+        tracks=[],
+        plays=[],
     )
 
 
@@ -58,6 +101,7 @@ async def process_job(job, token):
     video_url = job.data.get('videoUrl')
     if not video_url:
         raise ValueError(f"No videoUrl in job data: {job.data}")
+    print(f"[INFO] Analysis run {job.data.get('analysisRunId')} for video {job.data.get('videoId')}")
 
     # Update progress
     for i in range(1,100,5):
@@ -0,0 +1,67 @@
+import { notFound } from "next/navigation";
+import { headers } from "next/headers";
+import type { AssignmentPlaybackData } from "@repo/types";
+import { requireAuth, getServerOrg, getActiveMember } from "../../../lib/auth";
+import { NoTeamState } from "../../components/no-team-state";
+import { PlaylistPlayer } from "../../playlists/[playlistId]/playlist-player";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+async function fetchAssignment(
+  orgId: string,
+  assignmentId: string,
+  cookie: string,
+): Promise<AssignmentPlaybackData | null> {
+  const res = await fetch(
+    `${API_URL}/orgs/${orgId}/assignments/${assignmentId}`,
+    {
+      headers: { cookie },
+      cache: "no-store",
+    },
+  );
+  if (!res.ok) return null;
+  return res.json();
+}
+
+export default async function AssignmentPage({
+  params,
+}: {
+  params: Promise<{ assignmentId: string }>;
+}) {
+  await requireAuth();
+  const org = await getServerOrg();
+
+  if (!org) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+        <NoTeamState message="Join or create a team to watch assigned film." />
+      </div>
+    );
+  }
+
+  const { assignmentId } = await params;
+  const reqHeaders = await headers();
+  const cookie = reqHeaders.get("cookie") || "";
+
+  const [data, activeMember] = await Promise.all([
+    fetchAssignment(org.id, assignmentId, cookie),
+    getActiveMember(),
+  ]);
+
+  if (!data) {
+    notFound();
+  }
+
+  const role = activeMember?.role ?? "member";
+
+  return (
+    <PlaylistPlayer
+      initialPlaylist={data.playlist}
+      role={role}
+      activeOrgId={org.id}
+      assignment={data.assignment}
+      reportProgress={data.isRecipient}
+    />
+  );
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { standardSchemaResolver } from "@hookform/resolvers/standard-schema";
+import { authClient } from "@repo/auth/client";
+import { getRoleDisplayName, isCoachRole } from "@repo/types";
+import {
+  createAssignmentSchema,
+  type CreateAssignmentValues,
+} from "@repo/types/validations";
+import { Button } from "@repo/ui/components/button";
+import { Checkbox } from "@repo/ui/components/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@repo/ui/components/dialog";
+import { Input } from "@repo/ui/components/input";
+import { Label } from "@repo/ui/components/label";
+import { ScrollArea } from "@repo/ui/components/scroll-area";
+import { Spinner } from "@repo/ui/components/spinner";
+import { Textarea } from "@repo/ui/components/textarea";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+interface MemberOption {
+  id: string;
+  role: string;
+  name: string;
+}
+
+/** The film being assigned — exactly one of clipId / playlistId */
+export type AssignTarget =
+  | { clipId: string; playlistId?: never; label: string }
+  | { playlistId: string; clipId?: never; label: string };
+
+interface AssignFilmDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orgId: string;
+  target: AssignTarget;
+  onAssigned?: () => void;
+}
+
+/** Send a clip or playlist to selected roster members. */
+export function AssignFilmDialog({
+  open,
+  onOpenChange,
+  orgId,
+  target,
+  onAssigned,
+}: AssignFilmDialogProps) {
+  const [members, setMembers] = useState<MemberOption[] | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<CreateAssignmentValues>({
+    resolver: standardSchemaResolver(createAssignmentSchema),
+    defaultValues: { memberIds: [], dueDate: "", note: "" },
+  });
+
+  const selectedIds = watch("memberIds");
+
+  // Load the roster each time the dialog opens; players are listed first
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    reset({ memberIds: [], dueDate: "", note: "" });
+    setMembers(null);
+
+    authClient.organization
+      .listMembers({ query: { organizationId: orgId } })
+      .then((res) => {
+        if (cancelled) return;
+        const options = (res.data?.members ?? [])
+          .map((member) => ({
+            id: member.id,
+            role: member.role,
+            name: member.user.name,
+          }))
+          .sort(
+            (a, b) =>
+              Number(isCoachRole(a.role)) - Number(isCoachRole(b.role)) ||
+              a.name.localeCompare(b.name),
+          );
+        setMembers(options);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, orgId, reset]);
+
+  const playerIds = (members ?? [])
+    .filter((m) => !isCoachRole(m.role))
+    .map((m) => m.id);
+  const allPlayersSelected =
+    playerIds.length > 0 && playerIds.every((id) => selectedIds.includes(id));
+
+  function toggleMember(memberId: string, checked: boolean) {
+    setValue(
+      "memberIds",
+      checked
+        ? [...selectedIds, memberId]
+        : selectedIds.filter((id) => id !== memberId),
+      { shouldValidate: true },
+    );
+  }
+
+  function toggleAllPlayers() {
+    setValue(
+      "memberIds",
+      allPlayersSelected
+        ? selectedIds.filter((id) => !playerIds.includes(id))
+        : [...new Set([...selectedIds, ...playerIds])],
+      { shouldValidate: true },
+    );
+  }
+
+  const onSubmit = async (values: CreateAssignmentValues) => {
+    const res = await fetch(`${API_URL}/orgs/${orgId}/assignments`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({
+        ...(target.clipId
+          ? { clipId: target.clipId }
+          : { playlistId: target.playlistId }),
+        memberIds: values.memberIds,
+        dueDate: values.dueDate || null,
+        note: values.note || null,
+      }),
+    });
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => null);
+      const message = err?.message || err?.error || "Failed to assign film";
+      setError("root", { message });
+      return;
+    }
+
+    onOpenChange(false);
+    onAssigned?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <DialogHeader>
+            <DialogTitle>Assign {target.label}</DialogTitle>
+            <DialogDescription>
+              Selected members see it in their &ldquo;Assigned to you&rdquo;
+              queue, and you can track who has watched it.
+            </DialogDescription>
+          </DialogHeader>
+
+          {errors.root && (
+            <p className="text-sm text-destructive px-1 pt-2">
+              {errors.root.message}
+            </p>
+          )}
+
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <Label>Members</Label>
+                {playerIds.length > 0 && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={toggleAllPlayers}
+                  >
+                    {allPlayersSelected
+                      ? "Clear players"
+                      : "Select all players"}
+                  </Button>
+                )}
+              </div>
+              {members === null ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Spinner className="size-4" />
+                  Loading roster...
+                </div>
+              ) : (
+                <ScrollArea className="max-h-56 rounded-md border">
+                  <div className="p-1">
+                    {members.map((member) => (
+                      <label
+                        key={member.id}
+                        className="flex items-center gap-3 rounded px-2 py-1.5 text-sm cursor-pointer hover:bg-accent/50"
+                      >
+                        <Checkbox
+                          checked={selectedIds.includes(member.id)}
+                          onCheckedChange={(checked) =>
+                            toggleMember(member.id, checked === true)
+                          }
+                        />
+                        <span className="flex-1 truncate">{member.name}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {getRoleDisplayName(member.role)}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+              {errors.memberIds && (
+                <p className="text-sm text-destructive">
+                  {errors.memberIds.message}
+                </p>
+              )}
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="assignment-due-date">Due date (optional)</Label>
+              <Input
+                id="assignment-due-date"
+                type="date"
+                {...register("dueDate")}
+              />
+              {errors.dueDate && (
+                <p className="text-sm text-destructive">
+                  {errors.dueDate.message}
+                </p>
+              )}
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="assignment-note">Note (optional)</Label>
+              <Textarea
+                id="assignment-note"
+                rows={3}
+                placeholder='e.g. "Focus on your footwork at the snap"'
+                {...register("note")}
+              />
+              {errors.note && (
+                <p className="text-sm text-destructive">
+                  {errors.note.message}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Assigning..." : "Assign"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import Link from "next/link";
+import type { MyAssignmentData } from "@repo/types";
+import { cn } from "@repo/ui/lib/utils";
+import { Badge } from "@repo/ui/components/badge";
+import { Progress } from "@repo/ui/components/progress";
+import { CheckCircle2, Film, ListVideo } from "lucide-react";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Due dates are calendar days stored at UTC midnight */
+function formatDueDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function isOverdue(dateStr: string): boolean {
+  const today = new Date();
+  const todayUtc = Date.UTC(
+    today.getFullYear(),
+    today.getMonth(),
+    today.getDate(),
+  );
+  return new Date(dateStr).getTime() < todayUtc;
+}
+
+// ---------------------------------------------------------------------------
+// Queue Row
+// ---------------------------------------------------------------------------
+
+function AssignedRow({ assignment }: { assignment: MyAssignmentData }) {
+  const { progress } = assignment;
+  const isComplete = progress.completedAt !== null;
+  const overdue =
+    !isComplete && assignment.dueDate !== null && isOverdue(assignment.dueDate);
+  const Icon = assignment.kind === "PLAYLIST" ? ListVideo : Film;
+
+  return (
+    <Link
+      href={`/assignments/${assignment.id}`}
+      className="flex items-center gap-4 py-3 px-3 -mx-3 rounded-md hover:bg-accent/50 transition-colors"
+    >
+      <div
+        className={cn(
+          "shrink-0 size-10 rounded-md flex items-center justify-center",
+          isComplete ? "bg-muted" : "bg-primary/10",
+        )}
+      >
+        {isComplete ? (
+          <CheckCircle2 className="size-5 text-muted-foreground" />
+        ) : (
+          <Icon className="size-5 text-primary" />
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <p
+            className={cn(
+              "text-sm font-medium truncate",
+              isComplete && "text-muted-foreground",
+            )}
+          >
+            {assignment.title}
+          </p>
+          {overdue && (
+            <Badge variant="destructive" className="text-xs">
+              Overdue
+            </Badge>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground truncate mt-0.5">
+          {[
+            assignment.game?.title,
+            assignment.createdByName && `From ${assignment.createdByName}`,
+            assignment.dueDate && `Due ${formatDueDate(assignment.dueDate)}`,
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+        {assignment.note && (
+          <p className="text-xs text-muted-foreground mt-1 line-clamp-1">
+            {assignment.note}
+          </p>
+        )}
+      </div>
+
+      <div className="shrink-0 w-24 text-right">
+        {isComplete ? (
+          <span className="text-xs text-muted-foreground">Watched</span>
+        ) : (
+          <>
+            <Progress value={progress.progress * 100} className="h-1.5" />
+            <span className="text-xs text-muted-foreground tabular-nums">
+              {Math.round(progress.progress * 100)}%
+            </span>
+          </>
+        )}
+      </div>
+    </Link>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main Component
+// ---------------------------------------------------------------------------
+
+/** A member's assigned film, open items first. */
+export function AssignedQueue({
+  assignments,
+  className,
+}: {
+  assignments: MyAssignmentData[];
+  className?: string;
+}) {
+  const openCount = assignments.filter((a) => !a.progress.completedAt).length;
+
+  return (
+    <section className={className}>
+      <div className="flex items-center gap-3 mb-2">
+        <h2 className="text-sm font-medium text-muted-foreground">
+          Assigned to you
+        </h2>
+        <span className="text-xs text-muted-foreground/60">
+          {openCount} to watch
+        </span>
+        <div className="flex-1 h-px bg-border" />
+      </div>
+      <div>
+        {assignments.map((assignment) => (
+          <AssignedRow key={assignment.id} assignment={assignment} />
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,353 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import Link from "next/link";
+import {
+  isCoachRole,
+  type AssignmentData,
+  type AssignmentRecipientData,
+  type MyAssignmentData,
+} from "@repo/types";
+import { cn } from "@repo/ui/lib/utils";
+import { Badge } from "@repo/ui/components/badge";
+import { Button } from "@repo/ui/components/button";
+import { Progress } from "@repo/ui/components/progress";
+import { Separator } from "@repo/ui/components/separator";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@repo/ui/components/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@repo/ui/components/dropdown-menu";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@repo/ui/components/empty";
+import {
+  ChevronDown,
+  ClipboardList,
+  Film,
+  ListVideo,
+  MoreVertical,
+  Play,
+  Trash2,
+  X,
+} from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+import { AssignedQueue } from "./assigned-queue";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Due dates are calendar days stored at UTC midnight */
+function formatDueDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function recipientStatus(recipient: AssignmentRecipientData): string {
+  if (recipient.completedAt) {
+    return `Watched ${formatDate(recipient.completedAt)}`;
+  }
+  if (recipient.watchedSecs > 0) {
+    return `${Math.round(recipient.progress * 100)}% watched`;
+  }
+  return "Not started";
+}
+
+// ---------------------------------------------------------------------------
+// Assignment Card
+// ---------------------------------------------------------------------------
+
+function AssignmentCard({
+  assignment,
+  onDeleted,
+}: {
+  assignment: AssignmentData;
+  onDeleted: (assignmentId: string) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const completed = assignment.recipients.filter((r) => r.completedAt).length;
+  const total = assignment.recipients.length;
+  const Icon = assignment.kind === "PLAYLIST" ? ListVideo : Film;
+  const filmHref = assignment.playlistId
+    ? `/playlists/${assignment.playlistId}`
+    : assignment.game
+      ? `/games/${assignment.game.id}`
+      : null;
+
+  return (
+    <div className="py-3">
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          className="flex flex-1 min-w-0 items-center gap-4 text-left"
+          onClick={() => setExpanded((prev) => !prev)}
+          aria-expanded={expanded}
+        >
+          <div className="shrink-0 size-10 rounded-md bg-primary/10 flex items-center justify-center">
+            <Icon className="size-5 text-primary" />
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{assignment.title}</p>
+            <p className="text-xs text-muted-foreground truncate mt-0.5">
+              {[
+                assignment.game?.title,
+                `Assigned ${formatDate(assignment.createdAt)}`,
+                assignment.dueDate &&
+                  `Due ${formatDueDate(assignment.dueDate)}`,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </p>
+          </div>
+
+          <Badge
+            variant={completed === total ? "secondary" : "outline"}
+            className="shrink-0 tabular-nums"
+          >
+            {completed}/{total} watched
+          </Badge>
+          <ChevronDown
+            className={cn(
+              "size-4 shrink-0 text-muted-foreground transition-transform",
+              expanded && "rotate-180",
+            )}
+          />
+        </button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="size-8 shrink-0">
+              <MoreVertical className="size-4" />
+              <span className="sr-only">Assignment options</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem asChild>
+              <Link href={`/assignments/${assignment.id}`}>
+                <Play className="size-4 mr-2" />
+                Preview
+              </Link>
+            </DropdownMenuItem>
+            {filmHref && (
+              <DropdownMenuItem asChild>
+                <Link href={filmHref}>
+                  <Icon className="size-4 mr-2" />
+                  {assignment.kind === "PLAYLIST"
+                    ? "Open playlist"
+                    : "Open game"}
+                </Link>
+              </DropdownMenuItem>
+            )}
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <DropdownMenuItem
+                  onSelect={(e) => e.preventDefault()}
+                  className="text-destructive focus:text-destructive"
+                >
+                  <Trash2 className="size-4 mr-2" />
+                  Withdraw
+                </DropdownMenuItem>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>
+                    Withdraw &ldquo;{assignment.title}&rdquo;?
+                  </AlertDialogTitle>
+                  <AlertDialogDescription>
+                    It will disappear from every member&apos;s queue and its
+                    watch progress will be lost. The film itself is not
+                    affected.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => onDeleted(assignment.id)}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Withdraw
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {expanded && (
+        <div className="mt-3 ml-14 space-y-2">
+          {assignment.note && (
+            <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+              {assignment.note}
+            </p>
+          )}
+          {assignment.recipients.map((recipient) => (
+            <div key={recipient.memberId} className="flex items-center gap-3">
+              <span className="w-40 shrink-0 truncate text-sm">
+                {recipient.name}
+              </span>
+              <Progress
+                value={recipient.progress * 100}
+                className="h-1.5 flex-1"
+              />
+              <span
+                className={cn(
+                  "w-32 shrink-0 text-right text-xs",
+                  recipient.completedAt
+                    ? "text-foreground"
+                    : "text-muted-foreground",
+                )}
+              >
+                {recipientStatus(recipient)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main Component
+// ---------------------------------------------------------------------------
+
+export function AssignmentsContent({
+  initialAssignments,
+  myAssignments,
+  role,
+  activeOrgId,
+}: {
+  initialAssignments: AssignmentData[];
+  myAssignments: MyAssignmentData[];
+  role: string;
+  activeOrgId: string;
+}) {
+  const [assignments, setAssignments] =
+    useState<AssignmentData[]>(initialAssignments);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const isCoach = isCoachRole(role);
+
+  const handleDeleted = useCallback(
+    async (assignmentId: string) => {
+      setDeleteError(null);
+      const res = await fetch(
+        `${API_URL}/orgs/${activeOrgId}/assignments/${assignmentId}`,
+        { method: "DELETE", credentials: "include" },
+      );
+
+      if (res.ok) {
+        setAssignments((prev) => prev.filter((a) => a.id !== assignmentId));
+      } else {
+        const err = await res.json().catch(() => null);
+        setDeleteError(
+          err?.message || err?.error || "Failed to withdraw assignment",
+        );
+      }
+    },
+    [activeOrgId],
+  );
+
+  const isEmpty = myAssignments.length === 0 && assignments.length === 0;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+      {/* Page header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold tracking-tight">Assignments</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          {isCoach
+            ? "Assign clips and playlists from a game's play list or a playlist."
+            : "Film your coaches have asked you to watch."}
+        </p>
+      </div>
+
+      {/* Delete error banner */}
+      {deleteError && (
+        <div className="flex items-center justify-between gap-2 mb-4 rounded-md border border-destructive/50 bg-destructive/10 px-4 py-3">
+          <p className="text-sm text-destructive">{deleteError}</p>
+          <button
+            type="button"
+            className="shrink-0 text-destructive hover:text-destructive/80"
+            onClick={() => setDeleteError(null)}
+            aria-label="Dismiss error"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+      )}
+
+      {isEmpty ? (
+        <Empty className="min-h-75">
+          <EmptyMedia>
+            <ClipboardList className="size-16 text-muted-foreground" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>No assignments yet</EmptyTitle>
+            <EmptyDescription>
+              {isCoach
+                ? "Use “Assign” on a play or playlist to send film to your players."
+                : "You're all caught up."}
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="space-y-8">
+          {myAssignments.length > 0 && (
+            <AssignedQueue assignments={myAssignments} />
+          )}
+
+          {/* Coach completion view */}
+          {isCoach && assignments.length > 0 && (
+            <section>
+              <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-3">
+                Team assignments ({assignments.length})
+              </h2>
+              <Separator className="mb-1" />
+              <div className="divide-y">
+                {assignments.map((assignment) => (
+                  <AssignmentCard
+                    key={assignment.id}
+                    assignment={assignment}
+                    onDeleted={handleDeleted}
+                  />
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
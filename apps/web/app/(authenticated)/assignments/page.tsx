@@ -0,0 +1,51 @@
+import { requireAuth, getServerOrg, getActiveMember } from "../../lib/auth";
+import { headers } from "next/headers";
+import { isCoachRole } from "@repo/types";
+import { AssignmentsContent } from "./assignments-content";
+import { NoTeamState } from "../components/no-team-state";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+async function fetchAssignments(orgId: string, path: string, cookie: string) {
+  const res = await fetch(`${API_URL}/orgs/${orgId}/assignments${path}`, {
+    headers: { cookie },
+    cache: "no-store",
+  });
+  if (!res.ok) return [];
+  const data = await res.json();
+  return data.assignments || [];
+}
+
+export default async function AssignmentsPage() {
+  await requireAuth();
+  const org = await getServerOrg();
+
+  if (!org) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+        <NoTeamState message="Join or create a team to see assigned film." />
+      </div>
+    );
+  }
+
+  const reqHeaders = await headers();
+  const cookie = reqHeaders.get("cookie") || "";
+
+  const activeMember = await getActiveMember();
+  const role = activeMember?.role ?? "member";
+
+  const [teamAssignments, myAssignments] = await Promise.all([
+    isCoachRole(role) ? fetchAssignments(org.id, "", cookie) : [],
+    fetchAssignments(org.id, "/mine", cookie),
+  ]);
+
+  return (
+    <AssignmentsContent
+      initialAssignments={teamAssignments}
+      myAssignments={myAssignments}
+      role={role}
+      activeOrgId={org.id}
+    />
+  );
+}
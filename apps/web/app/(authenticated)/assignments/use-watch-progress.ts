@@ -0,0 +1,117 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  AssignmentProgressData,
+  AssignmentProgressRequest,
+  WatchedRange,
+} from "@repo/types";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+/** How often watched stretches are sent to the API */
+const REPORT_INTERVAL_MS = 15_000;
+
+/**
+ * Largest gap between two timeupdate events still counted as playback.
+ * timeupdate fires every ~250ms, so anything bigger is a seek or a scrub.
+ */
+const MAX_TICK_SECS = 2;
+
+interface UseWatchProgressOptions {
+  orgId: string;
+  /** Assignment to report against; null disables tracking */
+  assignmentId: string | null;
+  /** Clip currently playing — only playback inside its range counts */
+  clip: { id: string; startTime: number; endTime: number } | null;
+  initialProgress: AssignmentProgressData | null;
+}
+
+/**
+ * Collects the stretches of the active clip played forward without seeking
+ * and periodically reports them as assignment progress. The API merges them
+ * with what was already watched, so replays don't count twice. Pending
+ * stretches are flushed when the clip changes and when the page is left.
+ */
+export function useWatchProgress({
+  orgId,
+  assignmentId,
+  clip,
+  initialProgress,
+}: UseWatchProgressOptions) {
+  const [progress, setProgress] = useState(initialProgress);
+  const pendingRangesRef = useRef<WatchedRange[]>([]);
+  const lastTimeRef = useRef<number | null>(null);
+  const clipRef = useRef(clip);
+
+  const flush = useCallback(
+    (keepalive = false) => {
+      const current = clipRef.current;
+      const ranges = pendingRangesRef.current;
+      if (!assignmentId || !current || ranges.length === 0) return;
+      pendingRangesRef.current = [];
+      const body: AssignmentProgressRequest = { clipId: current.id, ranges };
+
+      fetch(`${API_URL}/orgs/${orgId}/assignments/${assignmentId}/progress`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        keepalive,
+        body: JSON.stringify(body),
+      })
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data) => {
+          if (data?.progress) setProgress(data.progress);
+        })
+        .catch(() => {
+          // Best effort — a lost report only under-counts progress
+        });
+    },
+    [orgId, assignmentId],
+  );
+
+  // New clip: report what was watched of the previous one and start fresh
+  useEffect(() => {
+    flush();
+    clipRef.current = clip;
+    lastTimeRef.current = null;
+  }, [clip, flush]);
+
+  useEffect(() => {
+    if (!assignmentId) return;
+
+    const interval = setInterval(() => flush(), REPORT_INTERVAL_MS);
+    const onPageHide = () => flush(true);
+    window.addEventListener("pagehide", onPageHide);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("pagehide", onPageHide);
+      flush(true);
+    };
+  }, [assignmentId, flush]);
+
+  const onTimeUpdate = useCallback((time: number) => {
+    const last = lastTimeRef.current;
+    lastTimeRef.current = time;
+
+    const current = clipRef.current;
+    if (last === null || !current) return;
+    if (time < current.startTime || time > current.endTime) return;
+
+    const delta = time - last;
+    if (delta <= 0 || delta > MAX_TICK_SECS) return;
+
+    // Extend the stretch being played, or start one after a seek
+    const ranges = pendingRangesRef.current;
+    const open = ranges.at(-1);
+    if (open && open.end === last) {
+      open.end = time;
+    } else {
+      ranges.push({ start: last, end: time });
+    }
+  }, []);
+
+  return { progress, onTimeUpdate };
+}
@@ -25,6 +25,7 @@ import {
 import Link from "next/link";
 import { Menu, LogOut, Settings, User } from "lucide-react";
 import { isCoachRole } from "@repo/types";
+import { NotificationBell } from "./notification-bell";
 
 function getInitials(name: string): string {
   return name
@@ -43,7 +44,12 @@ const NAV_LINKS: ReadonlyArray<{
 }> = [
   { href: "/dashboard", label: "Home" },
   { href: "/seasons", label: "Seasons", requiresOrg: true },
+  { href: "/scouting", label: "Scouting", requiresOrg: true },
   { href: "/roster", label: "Roster", requiresOrg: true },
+  { href: "/reels", label: "Reels", requiresOrg: true },
+  { href: "/playlists", label: "Playlists", requiresOrg: true },
+  { href: "/assignments", label: "Assignments", requiresOrg: true },
+  { href: "/inbox", label: "Inbox", requiresOrg: true, coachOnly: true },
   { href: "/upload", label: "Upload", requiresOrg: true, coachOnly: true },
 ];
 
@@ -136,8 +142,12 @@ export function NavBar({
           </nav>
         </div>
 
-        {/* Right: Avatar + mobile menu */}
+        {/* Right: Notifications + avatar + mobile menu */}
         <div className="flex items-center gap-2">
+          {activeOrgId && (
+            <NotificationBell key={activeOrgId} orgId={activeOrgId} />
+          )}
+
           {/* User avatar dropdown */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
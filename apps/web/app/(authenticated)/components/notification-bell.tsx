@@ -0,0 +1,204 @@
+"use client";
+
+/**
+ * Notification Bell — nav bar dropdown listing the member's notifications
+ * for the active team, with an unread count badge.
+ * Polls while the page is open; opening the dropdown refreshes immediately.
+ * Clicking a notification marks it read and opens its link.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { NotificationData, NotificationType } from "@repo/types";
+import { cn } from "@repo/ui/lib/utils";
+import { Button } from "@repo/ui/components/button";
+import { ScrollArea } from "@repo/ui/components/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@repo/ui/components/dropdown-menu";
+import {
+  AlertCircle,
+  Bell,
+  CheckCheck,
+  ClipboardList,
+  MessageSquare,
+  Video,
+} from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+/** How often the unread count is refreshed in the background */
+const POLL_INTERVAL_MS = 60_000;
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  FOOTAGE_READY: Video,
+  FILM_ASSIGNED: ClipboardList,
+  COMMENT_REPLY: MessageSquare,
+  PROCESSING_FAILED: AlertCircle,
+};
+
+function formatRelative(dateStr: string): string {
+  const diffMins = Math.floor(
+    (Date.now() - new Date(dateStr).getTime()) / 60000,
+  );
+  if (diffMins < 1) return "just now";
+  if (diffMins < 60) return `${diffMins}m ago`;
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export function NotificationBell({ orgId }: { orgId: string }) {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<NotificationData[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const baseUrl = `${API_URL}/orgs/${orgId}/notifications`;
+
+  const refresh = useCallback(async () => {
+    const res = await fetch(baseUrl, { credentials: "include" }).catch(
+      () => null,
+    );
+    if (!res?.ok) return;
+    const data: { notifications: NotificationData[]; unreadCount: number } =
+      await res.json();
+    setNotifications(data.notifications);
+    setUnreadCount(data.unreadCount);
+  }, [baseUrl]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  function handleSelect(notification: NotificationData) {
+    if (!notification.readAt) {
+      const readAt = new Date().toISOString();
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === notification.id ? { ...n, readAt } : n)),
+      );
+      setUnreadCount((count) => Math.max(0, count - 1));
+      fetch(`${baseUrl}/${notification.id}/read`, {
+        method: "POST",
+        credentials: "include",
+      });
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  }
+
+  async function handleMarkAllRead() {
+    const readAt = new Date().toISOString();
+    setNotifications((prev) =>
+      prev.map((n) => ({ ...n, readAt: n.readAt ?? readAt })),
+    );
+    setUnreadCount(0);
+    await fetch(`${baseUrl}/read-all`, {
+      method: "POST",
+      credentials: "include",
+    });
+  }
+
+  return (
+    <DropdownMenu
+      onOpenChange={(open) => {
+        if (open) refresh();
+      }}
+    >
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative rounded-full">
+          <Bell className="size-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 flex min-w-4 h-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-semibold leading-none text-primary-foreground">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">
+            Notifications{unreadCount > 0 ? ` (${unreadCount} unread)` : ""}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2">
+          <DropdownMenuLabel className="p-0">Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={handleMarkAllRead}
+            >
+              <CheckCheck className="size-3.5 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator className="my-0" />
+
+        {notifications.length === 0 ? (
+          <div className="flex flex-col items-center justify-center gap-2 py-8 text-muted-foreground">
+            <Bell className="size-5" />
+            <p className="text-sm">You&apos;re all caught up</p>
+          </div>
+        ) : (
+          <ScrollArea className="max-h-96">
+            <div className="p-1">
+              {notifications.map((notification) => {
+                const Icon = TYPE_ICONS[notification.type];
+                const isUnread = !notification.readAt;
+
+                return (
+                  <DropdownMenuItem
+                    key={notification.id}
+                    onSelect={() => handleSelect(notification)}
+                    className="items-start gap-2.5 py-2"
+                  >
+                    <Icon
+                      className={cn(
+                        "size-4 mt-0.5 shrink-0",
+                        notification.type === "PROCESSING_FAILED" &&
+                          "text-destructive",
+                      )}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p
+                        className={cn(
+                          "text-sm leading-snug",
+                          isUnread && "font-medium",
+                        )}
+                      >
+                        {notification.title}
+                      </p>
+                      {notification.body && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">
+                          {notification.body}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {formatRelative(notification.createdAt)}
+                      </p>
+                    </div>
+                    {isUnread && (
+                      <span className="mt-1.5 size-2 shrink-0 rounded-full bg-primary" />
+                    )}
+                  </DropdownMenuItem>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
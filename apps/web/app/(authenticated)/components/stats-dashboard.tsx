@@ -0,0 +1,460 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import type {
+  PlayStatsCounts,
+  PlayStatsData,
+  PlayStatsResponse,
+  PlayStatsSummary,
+  StatsSide,
+} from "@repo/types";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@repo/ui/components/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@repo/ui/components/select";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@repo/ui/components/empty";
+import { Spinner } from "@repo/ui/components/spinner";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@repo/ui/components/chart";
+import { ArrowLeft, BarChart3 } from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+const SCOPE_LABELS: Record<PlayStatsResponse["scope"]["type"], string> = {
+  game: "Game stats",
+  season: "Season stats",
+  opponent: "Opponent stats",
+};
+
+const ORDINALS = ["1st", "2nd", "3rd", "4th"];
+
+type SideFilter = StatsSide | "all";
+
+const SPLIT_CHART_CONFIG = {
+  runs: { label: "Run", color: "var(--chart-1)" },
+  passes: { label: "Pass", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const YARDS_CHART_CONFIG = {
+  yardsPerPlay: { label: "Yards/play", color: "var(--chart-3)" },
+} satisfies ChartConfig;
+
+const SUCCESS_CHART_CONFIG = {
+  successRate: { label: "Success rate", color: "var(--chart-4)" },
+} satisfies ChartConfig;
+
+/** Chart box size; ChartContainer defaults to a 16:9 box */
+const CHART_CLASS_NAME = "aspect-auto h-56 w-full";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function formatYards(value: number | null): string {
+  return value === null ? "—" : value.toFixed(1);
+}
+
+function formatShortDate(dateStr: string | null): string {
+  if (!dateStr) return "";
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function downLabel(down: number): string {
+  return ORDINALS[down - 1] ?? `${down}th`;
+}
+
+// ---------------------------------------------------------------------------
+// Summary
+// ---------------------------------------------------------------------------
+
+function StatTile({
+  label,
+  value,
+  detail,
+}: {
+  label: string;
+  value: string;
+  detail?: string;
+}) {
+  return (
+    <div className="rounded-lg border px-4 py-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-2xl font-semibold tabular-nums mt-1">{value}</p>
+      {detail && (
+        <p className="text-xs text-muted-foreground mt-0.5">{detail}</p>
+      )}
+    </div>
+  );
+}
+
+function SummaryTiles({ summary }: { summary: PlayStatsSummary }) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+      <StatTile label="Plays" value={String(summary.plays)} />
+      <StatTile
+        label="Run / pass"
+        value={`${formatPercent(summary.plays ? summary.runs / summary.plays : null)} run`}
+        detail={`${summary.runs} runs · ${summary.passes} passes`}
+      />
+      <StatTile
+        label="Yards per play"
+        value={formatYards(summary.yardsPerPlay)}
+        detail={`${summary.yards} total yards`}
+      />
+      <StatTile
+        label="Success rate"
+        value={formatPercent(summary.successRate)}
+      />
+      <StatTile
+        label="Red zone TD rate"
+        value={formatPercent(summary.redZoneEfficiency)}
+        detail={`${summary.redZoneTouchdowns} TD in ${summary.redZoneTrips} trip${summary.redZoneTrips !== 1 ? "s" : ""}`}
+      />
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Charts
+// ---------------------------------------------------------------------------
+
+/**
+ * Tooltip row for a single-series chart, with the value formatted (the
+ * default row prints the raw number)
+ */
+function formattedTooltipRow(label: string, format: (value: number) => string) {
+  return function TooltipRow(value: unknown) {
+    return (
+      <div className="flex flex-1 items-center justify-between gap-4 leading-none">
+        <span className="text-muted-foreground">{label}</span>
+        <span className="text-foreground font-mono font-medium tabular-nums">
+          {format(Number(value))}
+        </span>
+      </div>
+    );
+  };
+}
+
+function ChartCard({
+  title,
+  description,
+  children,
+}: {
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+/** Runs and passes stacked, one bar per down or game */
+function SplitChart({
+  data,
+}: {
+  data: (PlayStatsCounts & { label: string })[];
+}) {
+  return (
+    <ChartContainer config={SPLIT_CHART_CONFIG} className={CHART_CLASS_NAME}>
+      <BarChart data={data}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+        <YAxis
+          allowDecimals={false}
+          tickLine={false}
+          axisLine={false}
+          width={28}
+        />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="runs" stackId="split" fill="var(--color-runs)" />
+        <Bar
+          dataKey="passes"
+          stackId="split"
+          fill="var(--color-passes)"
+          radius={[4, 4, 0, 0]}
+        />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+function StatsCharts({ stats }: { stats: PlayStatsData }) {
+  const byDown = stats.byDown.map((row) => ({
+    ...row,
+    label: downLabel(row.down),
+  }));
+  const byGame = stats.byGame.map((row) => ({
+    ...row,
+    label: formatShortDate(row.date) || row.title,
+  }));
+  // Several games: trend game by game. One game: compare downs instead.
+  const isMultiGame = byGame.length > 1;
+  const trend = isMultiGame ? byGame : byDown;
+  const trendBy = isMultiGame ? "game" : "down";
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <ChartCard
+        title="Run / pass by down"
+        description="Play calls on each down"
+      >
+        <SplitChart data={byDown} />
+      </ChartCard>
+
+      {isMultiGame && (
+        <ChartCard
+          title="Run / pass by game"
+          description="Play calls game by game"
+        >
+          <SplitChart data={byGame} />
+        </ChartCard>
+      )}
+
+      <ChartCard
+        title={`Yards per play by ${trendBy}`}
+        description="Average Gain/Loss on runs and passes"
+      >
+        <ChartContainer
+          config={YARDS_CHART_CONFIG}
+          className={CHART_CLASS_NAME}
+        >
+          <BarChart data={trend}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} width={28} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={formattedTooltipRow(
+                    YARDS_CHART_CONFIG.yardsPerPlay.label,
+                    formatYards,
+                  )}
+                />
+              }
+            />
+            <Bar
+              dataKey="yardsPerPlay"
+              fill="var(--color-yardsPerPlay)"
+              radius={4}
+            />
+          </BarChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard
+        title={`Success rate by ${trendBy}`}
+        description="40% of the distance on 1st down, 60% on 2nd, all of it on 3rd and 4th"
+      >
+        <ChartContainer
+          config={SUCCESS_CHART_CONFIG}
+          className={CHART_CLASS_NAME}
+        >
+          <BarChart data={trend}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <YAxis
+              domain={[0, 1]}
+              tickFormatter={(value: number) => formatPercent(value)}
+              tickLine={false}
+              axisLine={false}
+              width={36}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={formattedTooltipRow(
+                    SUCCESS_CHART_CONFIG.successRate.label,
+                    formatPercent,
+                  )}
+                />
+              }
+            />
+            <Bar
+              dataKey="successRate"
+              fill="var(--color-successRate)"
+              radius={4}
+            />
+          </BarChart>
+        </ChartContainer>
+      </ChartCard>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Dashboard
+// ---------------------------------------------------------------------------
+
+interface StatsDashboardProps {
+  orgId: string;
+  /** Path under /orgs/:orgId/stats, e.g. `seasons/<id>` */
+  endpoint: string;
+  initialData: PlayStatsResponse;
+  backHref: string;
+  backLabel: string;
+}
+
+/**
+ * Charts of a game's, season's or opponent's breakdown stats. The numbers
+ * come from the Play Type, Down, Distance, Yard Line, Result and Gain/Loss
+ * breakdown columns.
+ */
+export function StatsDashboard({
+  orgId,
+  endpoint,
+  initialData,
+  backHref,
+  backLabel,
+}: StatsDashboardProps) {
+  const [data, setData] = useState(initialData);
+  const [side, setSide] = useState<SideFilter>("all");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isFirstRender = useRef(true);
+
+  useEffect(() => {
+    // The server already loaded stats for every play
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+
+    let cancelled = false;
+    const query = side === "all" ? "" : `?side=${side}`;
+    setIsLoading(true);
+    setError(null);
+
+    fetch(`${API_URL}/orgs/${orgId}/stats/${endpoint}${query}`, {
+      credentials: "include",
+    })
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((next: PlayStatsResponse) => {
+        if (!cancelled) setData(next);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Failed to load stats");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orgId, endpoint, side]);
+
+  const { scope, stats } = data;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+      <Link
+        href={backHref}
+        className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors mb-4"
+      >
+        <ArrowLeft className="size-3.5" />
+        {backLabel}
+      </Link>
+
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="shrink-0 size-10 rounded-md bg-primary/10 flex items-center justify-center">
+            <BarChart3 className="size-5 text-primary" />
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-2xl font-semibold tracking-tight truncate">
+              {scope.type === "opponent" ? `vs. ${scope.name}` : scope.name}
+            </h1>
+            <p className="text-sm text-muted-foreground mt-0.5">
+              {SCOPE_LABELS[scope.type]}
+              {stats.byGame.length > 1 && ` · ${stats.byGame.length} games`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 shrink-0">
+          {isLoading && <Spinner className="size-4" />}
+          <Select value={side} onValueChange={(v) => setSide(v as SideFilter)}>
+            <SelectTrigger className="w-36 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All plays</SelectItem>
+              <SelectItem value="O">Offense</SelectItem>
+              <SelectItem value="D">Defense</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+      {stats.summary.plays === 0 ? (
+        <Empty className="min-h-75">
+          <EmptyMedia>
+            <BarChart3 className="size-16 text-muted-foreground" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>No broken-down plays yet</EmptyTitle>
+            <EmptyDescription>
+              Stats count run and pass plays. Fill in Play Type, Down, Distance
+              and Gain/Loss in a game&apos;s Breakdown panel to see them here.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="space-y-6">
+          <SummaryTiles summary={stats.summary} />
+          <StatsCharts stats={stats} />
+        </div>
+      )}
+
+      {stats.unclassifiedPlays > 0 && (
+        <p className="text-xs text-muted-foreground mt-6">
+          {stats.unclassifiedPlays} play
+          {stats.unclassifiedPlays !== 1 ? "s have" : " has"} no Play Type yet
+          and {stats.unclassifiedPlays !== 1 ? "aren't" : "isn't"} counted.
+        </p>
+      )}
+    </div>
+  );
+}
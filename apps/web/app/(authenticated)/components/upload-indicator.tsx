@@ -12,10 +12,15 @@
  *
  * Global actions:
  * - Clear all: dismiss all entries when no uploads are active
+ *
+ * Completed uploads subscribe to the video's events stream to show
+ * server-side processing status without polling.
  */
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import type { VideoStatusValue } from "@repo/types";
 import { useUploads, useUploadActions } from "../../lib/upload-store";
+import { useVideoEvents } from "../../lib/video-events";
 import { Progress } from "@repo/ui/components/progress";
 import {
   Tooltip,
@@ -32,6 +37,7 @@ import {
   FileVideo,
   RotateCcw,
   Ban,
+  Loader2,
 } from "lucide-react";
 
 function formatBytes(bytes: number): string {
@@ -82,6 +88,52 @@ function RowAction({
   );
 }
 
+/** Processing status line for a finished upload, driven by the video's SSE stream. */
+function ProcessingStatus({
+  organizationId,
+  videoId,
+}: {
+  organizationId: string;
+  videoId: string;
+}) {
+  const [status, setStatus] = useState<VideoStatusValue | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const videoIds = useMemo(() => [videoId], [videoId]);
+
+  useVideoEvents(organizationId, videoIds, (event) => {
+    if (event.type === "progress") {
+      setProgress(event.progress);
+    } else {
+      setStatus(event.status);
+      setErrorMessage(event.errorMessage);
+    }
+  });
+
+  if (status === "COMPLETED") {
+    return <p className="text-xs text-muted-foreground">Ready to watch</p>;
+  }
+
+  if (status === "FAILED") {
+    return (
+      <p className="text-xs text-destructive truncate">
+        {errorMessage ?? "Processing failed"}
+      </p>
+    );
+  }
+
+  if (status === "PROCESSING") {
+    return (
+      <p className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+        <Loader2 className="size-3 animate-spin" />
+        Processing{progress !== null ? ` — ${Math.round(progress)}%` : "…"}
+      </p>
+    );
+  }
+
+  return <p className="text-xs text-muted-foreground">Uploaded</p>;
+}
+
 export function UploadIndicator() {
   const uploads = useUploads();
   const { dismissUpload, cancelUpload, retryUpload } = useUploadActions();
@@ -199,10 +251,17 @@ export function UploadIndicator() {
                   <p className="text-xs font-medium truncate">
                     {progress.fileName}
                   </p>
-                  <p className="text-xs text-muted-foreground">
-                    {formatBytes(progress.uploadedBytes)} /{" "}
-                    {formatBytes(progress.totalBytes)}
-                  </p>
+                  {progress.status === "completed" ? (
+                    <ProcessingStatus
+                      organizationId={entry.organizationId}
+                      videoId={entry.videoId}
+                    />
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {formatBytes(progress.uploadedBytes)} /{" "}
+                      {formatBytes(progress.totalBytes)}
+                    </p>
+                  )}
                 </div>
 
                 {/* Status icon */}
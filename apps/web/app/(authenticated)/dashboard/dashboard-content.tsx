@@ -2,7 +2,7 @@
 
 import { useRouter, useSearchParams } from "next/navigation";
 import { useState, useCallback, useEffect, useRef, useMemo } from "react";
-import { isCoachRole } from "@repo/types";
+import { isCoachRole, type MyAssignmentData } from "@repo/types";
 import { useActiveUploadCount } from "../../lib/upload-store";
 import { Button } from "@repo/ui/components/button";
 import {
@@ -53,6 +53,7 @@ import {
 import Image from "next/image";
 import Link from "next/link";
 import { clientEnv } from "@repo/env/web";
+import { AssignedQueue } from "../assignments/assigned-queue";
 
 const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
 
@@ -441,12 +442,14 @@ function GameCard({
 export function DashboardContent({
   initialGames,
   seasons,
+  assignments,
   role,
   activeOrgId,
   seasonFilter,
 }: {
   initialGames: GameData[];
   seasons: SeasonData[];
+  assignments: MyAssignmentData[];
   role: string;
   activeOrgId: string;
   seasonFilter: string;
@@ -517,6 +520,12 @@ export function DashboardContent({
     [activeOrgId],
   );
 
+  // Only open assignments make the dashboard queue
+  const openAssignments = useMemo(
+    () => assignments.filter((a) => !a.progress.completedAt),
+    [assignments],
+  );
+
   // Grouped games (memoized to avoid recomputation on every render)
   const groups = useMemo(() => groupGames(games, groupBy), [games, groupBy]);
 
@@ -579,6 +588,11 @@ export function DashboardContent({
         </div>
       </div>
 
+      {/* Assigned film */}
+      {openAssignments.length > 0 && (
+        <AssignedQueue assignments={openAssignments} className="mb-8" />
+      )}
+
       {/* Quick Stats Bar */}
       {totalGames > 0 && (
         <p className="text-sm text-muted-foreground mb-4">
@@ -17,6 +17,16 @@ async function fetchGames(orgId: string, seasonFilter: string, cookie: string) {
   return data.games || [];
 }
 
+async function fetchMyAssignments(orgId: string, cookie: string) {
+  const res = await fetch(`${API_URL}/orgs/${orgId}/assignments/mine`, {
+    headers: { cookie },
+    cache: "no-store",
+  });
+  if (!res.ok) return [];
+  const data = await res.json();
+  return data.assignments || [];
+}
+
 async function fetchSeasons(orgId: string, cookie: string) {
   const res = await fetch(`${API_URL}/orgs/${orgId}/seasons`, {
     headers: { cookie },
@@ -46,9 +56,10 @@ export default async function DashboardPage({
   const reqHeaders = await headers();
   const cookie = reqHeaders.get("cookie") || "";
 
-  const [games, seasons, activeMember] = await Promise.all([
+  const [games, seasons, assignments, activeMember] = await Promise.all([
     fetchGames(org.id, seasonFilter, cookie),
     fetchSeasons(org.id, cookie),
+    fetchMyAssignments(org.id, cookie),
     getActiveMember(),
   ]);
 
@@ -58,6 +69,7 @@ export default async function DashboardPage({
     <DashboardContent
       initialGames={games}
       seasons={seasons}
+      assignments={assignments}
       role={role}
       activeOrgId={org.id}
       seasonFilter={seasonFilter}
@@ -2,16 +2,24 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { isCoachRole } from "@repo/types";
-import type { AnnotationData, AnnotationElement } from "@repo/types";
+import type {
+  AnnotationData,
+  AnnotationElement,
+  PlayerTrackData,
+  TracksResponse,
+} from "@repo/types";
 import { Badge } from "@repo/ui/components/badge";
 import { Button } from "@repo/ui/components/button";
-import { Calendar, MapPin, Upload } from "lucide-react";
+import { BarChart3, Calendar, MapPin, Route, Upload } from "lucide-react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { clientEnv } from "@repo/env/web";
+import { IN_FLIGHT_STATUSES, useVideoEvents } from "../../../lib/video-events";
 import { VideoPlayer } from "../components/video-player";
 import { GameSidebar } from "../components/game-sidebar";
 import { AnnotationToolbar } from "../components/annotation-toolbar";
 import { useAnnotationCanvas } from "../components/use-annotation-canvas";
+import { useAnnotationTemplates } from "../components/use-annotation-templates";
 import type { VideoData } from "../components/video-player";
 import type { SidebarGameData } from "../components/game-sidebar";
 import type { ClipData } from "../components/clip-list";
@@ -39,6 +47,8 @@ interface GamePlaybackProps {
   role: string;
   orgId: string;
   userId: string;
+  /** Annotation to open the game at — its footage, at its timestamp */
+  focusAnnotationId?: string;
 }
 
 function formatGameDate(dateStr: string | null): string {
@@ -52,6 +62,11 @@ function formatGameDate(dateStr: string | null): string {
   });
 }
 
+/** End of an annotation's display range, or null for a freeze-frame */
+function toEndTimestamp(timestamp: number, holdSecs: number | null): number | null {
+  return holdSecs === null ? null : Math.round((timestamp + holdSecs) * 10) / 10;
+}
+
 export function GamePlayback({
   game,
   sidebarGames,
@@ -60,6 +75,7 @@ export function GamePlayback({
   role,
   orgId,
   userId,
+  focusAnnotationId,
 }: GamePlaybackProps) {
   const isCoach = isCoachRole(role);
 
@@ -69,19 +85,49 @@ export function GamePlayback({
   // Imperative seek ref — populated by VideoPlayer so we can trigger seeks programmatically
   const seekRef = useRef<((time: number) => void) | null>(null);
 
+  const router = useRouter();
+
+  // Refresh server data when any in-flight video changes status
+  const inFlightVideoIds = useMemo(
+    () =>
+      game.videos
+        .filter((v) => IN_FLIGHT_STATUSES.has(v.status))
+        .map((v) => v.id),
+    [game.videos],
+  );
+  useVideoEvents(orgId, inFlightVideoIds, (event) => {
+    if (event.type !== "status") return;
+    const current = game.videos.find((v) => v.id === event.videoId);
+    if (current && current.status !== event.status) {
+      router.refresh();
+    }
+  });
+
   // Filter to playable footage files (full game recordings from different angles)
   const footageFiles = useMemo(
     () =>
       game.videos.filter(
         (v) =>
-          v.storageUrl && (v.status === "UPLOADED" || v.status === "COMPLETED"),
+          v.storageUrl &&
+          (v.status === "UPLOADED" ||
+            v.status === "PROCESSING" ||
+            v.status === "COMPLETED"),
       ),
     [game.videos],
   );
 
+  // Linked annotation, if its footage is playable
+  const [focusAnnotation] = useState(() =>
+    initialAnnotations.find(
+      (a) =>
+        a.id === focusAnnotationId &&
+        footageFiles.some((v) => v.id === a.videoId),
+    ),
+  );
+
   // Track which footage file is active by video ID (not index)
   const [activeVideoId, setActiveVideoId] = useState<string>(
-    () => footageFiles[0]?.id ?? "",
+    () => focusAnnotation?.videoId ?? footageFiles[0]?.id ?? "",
   );
 
   // Derive the active footage file from the ID
@@ -112,7 +158,8 @@ export function GamePlayback({
   // Default to first play if clips exist, otherwise full footage mode
   const [activePlayNumber, setActivePlayNumber] = useState<number | null>(
     () => {
-      if (initialClips.length === 0) return null;
+      // A linked annotation opens in full footage mode
+      if (initialClips.length === 0 || focusAnnotation) return null;
       const playNumbers = Array.from(new Set(initialClips.map((c) => c.playNumber)));
       playNumbers.sort((a, b) => a - b);
       return playNumbers[0] ?? null;
@@ -265,11 +312,55 @@ export function GamePlayback({
     [clips, activeVideoId],
   );
 
+  // ---- Route overlay (AI-detected routes for the active play) ----
+  const [showRoutes, setShowRoutes] = useState(false);
+  const [routeTracks, setRouteTracks] = useState<{
+    clipId: string;
+    tracks: PlayerTrackData[];
+  } | null>(null);
+
+  // Tracks are in one camera's coordinates: only draw them over that angle,
+  // not over another angle the active play fell back to
+  const routeClipId =
+    activeClip && activeClip.videoId === activeVideoId ? activeClip.id : null;
+
+  useEffect(() => {
+    if (!showRoutes || !routeClipId) return;
+    if (routeTracks?.clipId === routeClipId) return;
+
+    const controller = new AbortController();
+    fetch(`${API_URL}/orgs/${orgId}/clips/${routeClipId}/tracks`, {
+      credentials: "include",
+      signal: controller.signal,
+    })
+      .then((res) => (res.ok ? (res.json() as Promise<TracksResponse>) : null))
+      .then((data) => {
+        setRouteTracks({ clipId: routeClipId, tracks: data?.tracks ?? [] });
+      })
+      .catch(() => {
+        // Aborted or network error — overlay stays empty
+      });
+
+    return () => controller.abort();
+  }, [showRoutes, routeClipId, orgId, routeTracks?.clipId]);
+
+  const activeRouteTracks =
+    routeClipId && routeTracks && routeTracks.clipId === routeClipId
+      ? routeTracks.tracks
+      : undefined;
+
   // ---- Annotation state ----
   const [annotations, setAnnotations] = useState<AnnotationData[]>(initialAnnotations);
   const [annotationMode, setAnnotationMode] = useState(false);
   const [activeAnnotation, setActiveAnnotation] = useState<AnnotationData | null>(null);
   const [isSavingAnnotation, setIsSavingAnnotation] = useState(false);
+  // Saved annotation currently loaded into the drawing tools (null = new drawing)
+  const [editingAnnotation, setEditingAnnotation] = useState<AnnotationData | null>(null);
+  // How long the drawing stays on screen during playback (null = freeze-frame)
+  const [holdSecs, setHoldSecs] = useState<number | null>(null);
+  // Video time the drawing belongs to, fixed when annotation mode is entered
+  // so scrubbing to place motion keyframes doesn't move it
+  const annotationTimeRef = useRef(0);
   const shownAnnotationIds = useRef<Set<string>>(new Set());
   const annotationModeRef = useRef(false);
   const activeAnnotationRef = useRef<AnnotationData | null>(null);
@@ -282,6 +373,9 @@ export function GamePlayback({
     enabled: annotationMode,
   });
 
+  // Org telestration templates, loaded when the editor opens
+  const annotationTemplates = useAnnotationTemplates(orgId, annotationMode);
+
   // Filter annotations for the current video
   const videoAnnotations = useMemo(
     () => annotations.filter((a) => a.videoId === activeVideoId),
@@ -306,9 +400,18 @@ export function GamePlayback({
         case "A":
           if (annotationMode) return; // Already in annotation mode
           e.preventDefault();
+          annotationTimeRef.current = Math.round(currentTimeRef.current * 10) / 10;
+          annotationCanvas.syncTime(currentTimeRef.current);
           setAnnotationMode(true);
           break;
 
+        case "r":
+        case "R":
+          if (annotationMode || e.ctrlKey || e.metaKey) return;
+          e.preventDefault();
+          setShowRoutes((prev) => !prev);
+          break;
+
         case "i":
         case "I":
           if (annotationMode) return;
@@ -327,6 +430,8 @@ export function GamePlayback({
 
         case "Escape":
           e.preventDefault();
+          // A half-placed route or zone is discarded before leaving
+          if (annotationMode && annotationCanvas.cancelPath()) return;
           if (annotationMode) {
             setAnnotationMode(false);
           } else if (activeAnnotation) {
@@ -338,11 +443,51 @@ export function GamePlayback({
           setMarkOut(null);
           break;
 
+        case "Enter":
+          if (annotationMode && annotationCanvas.finishPath()) {
+            e.preventDefault();
+          }
+          break;
+
         case "z":
         case "Z":
           if (annotationMode && (e.ctrlKey || e.metaKey)) {
             e.preventDefault();
-            annotationCanvas.undo();
+            if (e.shiftKey) {
+              annotationCanvas.redo();
+            } else {
+              annotationCanvas.undo();
+            }
+          }
+          break;
+
+        case "y":
+        case "Y":
+          if (annotationMode && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            annotationCanvas.redo();
+          }
+          break;
+
+        case "c":
+        case "C":
+          if (
+            annotationMode &&
+            (e.ctrlKey || e.metaKey) &&
+            annotationCanvas.copy()
+          ) {
+            e.preventDefault();
+          }
+          break;
+
+        case "v":
+        case "V":
+          if (
+            annotationMode &&
+            (e.ctrlKey || e.metaKey) &&
+            annotationCanvas.paste()
+          ) {
+            e.preventDefault();
           }
           break;
 
@@ -397,18 +542,26 @@ export function GamePlayback({
   }, [activeClipId, activeVideoId]);
 
   // ---- Auto-pause at annotation keyframes ----
+  // Ranged annotations never pause — VideoPlayer draws them over playback
   // Use a ref for videoAnnotations so the callback doesn't get recreated on every annotation change
   const videoAnnotationsRef = useRef(videoAnnotations);
   videoAnnotationsRef.current = videoAnnotations;
 
+  const { syncTime } = annotationCanvas;
   const handleTimeUpdate = useCallback(
     (time: number) => {
       currentTimeRef.current = time;
       // Read from refs to avoid recreating this callback on every state change
-      if (annotationModeRef.current || activeAnnotationRef.current) return;
+      if (annotationModeRef.current) {
+        // Scrubbing while drawing moves tracked elements along their keyframes
+        syncTime(time);
+        return;
+      }
+      if (activeAnnotationRef.current) return;
 
       for (const ann of videoAnnotationsRef.current) {
         if (
+          ann.endTimestamp === null &&
           Math.abs(time - ann.timestamp) < 0.3 &&
           !shownAnnotationIds.current.has(ann.id)
         ) {
@@ -418,7 +571,7 @@ export function GamePlayback({
         }
       }
     },
-    [], // Stable — reads from refs only
+    [syncTime], // Stable — reads from refs only
   );
 
   // Dismiss annotation overlay and resume playback
@@ -440,18 +593,56 @@ export function GamePlayback({
     [activeClip],
   );
 
-  // Save annotation
+  // Leaving annotation mode always ends an edit
+  useEffect(() => {
+    if (!annotationMode) {
+      setEditingAnnotation(null);
+      setHoldSecs(null);
+    }
+  }, [annotationMode]);
+
+  // Replace an annotation in local state (after an edit or a restore)
+  const handleAnnotationUpdated = useCallback((updated: AnnotationData) => {
+    setAnnotations((prev) =>
+      prev.map((a) => (a.id === updated.id ? updated : a)),
+    );
+  }, []);
+
+  // Save annotation — PATCHes the annotation being edited, otherwise creates one
   const handleSaveAnnotation = useCallback(async () => {
     if (annotationCanvas.isEmpty) return;
     setIsSavingAnnotation(true);
     try {
+      if (editingAnnotation) {
+        const res = await fetch(
+          `${API_URL}/orgs/${orgId}/annotations/${editingAnnotation.id}`,
+          {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            credentials: "include",
+            body: JSON.stringify({
+              data: { elements: annotationCanvas.elements },
+              endTimestamp: toEndTimestamp(editingAnnotation.timestamp, holdSecs),
+            }),
+          },
+        );
+        if (res.ok) {
+          const { annotation } = await res.json();
+          handleAnnotationUpdated(annotation);
+          setAnnotationMode(false);
+        }
+        return;
+      }
+
+      const timestamp = annotationTimeRef.current;
       const res = await fetch(`${API_URL}/orgs/${orgId}/annotations`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         credentials: "include",
         body: JSON.stringify({
           videoId: activeVideoId,
-          timestamp: Math.round(currentTimeRef.current * 10) / 10,
+          timestamp,
+          endTimestamp: toEndTimestamp(timestamp, holdSecs),
           data: { elements: annotationCanvas.elements },
         }),
       });
@@ -465,7 +656,7 @@ export function GamePlayback({
     } finally {
       setIsSavingAnnotation(false);
     }
-  }, [orgId, activeVideoId, annotationCanvas.elements, annotationCanvas.isEmpty]);
+  }, [orgId, activeVideoId, annotationCanvas.elements, annotationCanvas.isEmpty, editingAnnotation, holdSecs, handleAnnotationUpdated]);
 
   // Cancel annotation mode
   const handleCancelAnnotation = useCallback(() => {
@@ -486,7 +677,49 @@ export function GamePlayback({
     [orgId],
   );
 
-  // Seek to annotation timestamp (from sidebar)
+  // Open a saved annotation in the drawing tools at its keyframe
+  const { loadElements, setTool } = annotationCanvas;
+  const handleEditAnnotation = useCallback(
+    (annotation: AnnotationData) => {
+      setActivePlayNumber(null);
+      setActiveAnnotation(null);
+      shownAnnotationIds.current.add(annotation.id);
+      currentTimeRef.current = annotation.timestamp;
+      annotationTimeRef.current = annotation.timestamp;
+      seekRef.current?.(annotation.timestamp);
+      syncTime(annotation.timestamp);
+      setEditingAnnotation(annotation);
+      setHoldSecs(
+        annotation.endTimestamp === null
+          ? null
+          : Math.round((annotation.endTimestamp - annotation.timestamp) * 10) / 10,
+      );
+      setAnnotationMode(true);
+      loadElements(annotation.data.elements);
+      setTool("select");
+    },
+    [loadElements, setTool, syncTime],
+  );
+
+  // Seed the selected element's motion from detected player tracks in the display range
+  const { seedSelectedFromTracks } = annotationCanvas;
+  const handleSeedTrack = useCallback(async () => {
+    if (holdSecs === null) return false;
+    const start = annotationTimeRef.current;
+    const params = new URLSearchParams({
+      start: String(start),
+      end: String(start + holdSecs),
+    });
+    const res = await fetch(
+      `${API_URL}/orgs/${orgId}/videos/${activeVideoId}/tracks?${params}`,
+      { credentials: "include" },
+    );
+    if (!res.ok) return false;
+    const data = (await res.json()) as TracksResponse;
+    return seedSelectedFromTracks(data.tracks);
+  }, [orgId, activeVideoId, holdSecs, seedSelectedFromTracks]);
+
+  // Seek to an annotation or comment timestamp (from sidebar)
   const handleAnnotationSeek = useCallback(
     (timestamp: number) => {
       // Exit play mode so the full video seek bar is shown
@@ -501,7 +734,9 @@ export function GamePlayback({
     [],
   );
 
-  // Build annotation toolbar
+  const getCurrentTime = useCallback(() => currentTimeRef.current, []);
+
+  // Build annotation toolbar — motion tracking only applies to drawings shown over playback
   const annotationToolbarNode = annotationMode ? (
     <AnnotationToolbar
       tool={annotationCanvas.tool}
@@ -511,6 +746,12 @@ export function GamePlayback({
       lineWidth={annotationCanvas.lineWidth}
       onLineWidthChange={annotationCanvas.setLineWidth}
       onUndo={annotationCanvas.undo}
+      onRedo={annotationCanvas.redo}
+      canUndo={annotationCanvas.canUndo}
+      canRedo={annotationCanvas.canRedo}
+      onCopy={annotationCanvas.copy}
+      onPaste={annotationCanvas.paste}
+      canPaste={annotationCanvas.canPaste}
       onClear={annotationCanvas.clear}
       onSave={handleSaveAnnotation}
       onCancel={handleCancelAnnotation}
@@ -518,6 +759,24 @@ export function GamePlayback({
       isSaving={isSavingAnnotation}
       hasSelection={annotationCanvas.selectedIndex !== null}
       onDeleteSelected={annotationCanvas.deleteSelected}
+      holdSecs={holdSecs}
+      onHoldSecsChange={setHoldSecs}
+      isTracked={annotationCanvas.selectedIsTracked}
+      onTrackToggle={
+        holdSecs === null
+          ? undefined
+          : annotationCanvas.selectedIsTracked
+            ? annotationCanvas.untrackSelected
+            : annotationCanvas.trackSelected
+      }
+      onSeedTrack={holdSecs === null ? undefined : handleSeedTrack}
+      templates={annotationTemplates.templates}
+      onInsertTemplate={(template) =>
+        annotationCanvas.insertElements(template.data.elements)
+      }
+      getTemplateElements={annotationCanvas.snapshotElements}
+      onSaveTemplate={isCoach ? annotationTemplates.saveTemplate : undefined}
+      onDeleteTemplate={isCoach ? annotationTemplates.deleteTemplate : undefined}
     />
   ) : null;
 
@@ -545,6 +804,7 @@ export function GamePlayback({
         className="w-full h-full bg-black/60 text-orange-500 text-xs font-semibold px-1.5 py-1 rounded outline-none resize-none border-2 border-orange-500"
         style={{ fontFamily: "Inter, system-ui, sans-serif" }}
         placeholder="Type text..."
+        defaultValue={annotationCanvas.textInput.text}
         onKeyDown={(e) => {
           if (e.key === "Enter" && e.shiftKey) {
             e.preventDefault();
@@ -585,6 +845,24 @@ export function GamePlayback({
               </Badge>
             )}
             <div className="flex-1" />
+            {footageFiles.length > 0 && (
+              <Button
+                variant={showRoutes ? "secondary" : "outline"}
+                size="sm"
+                onClick={() => setShowRoutes((prev) => !prev)}
+                aria-pressed={showRoutes}
+                title="Toggle AI route overlay (R)"
+              >
+                <Route className="size-3.5 mr-1.5" />
+                Routes
+              </Button>
+            )}
+            <Button variant="outline" size="sm" asChild>
+              <Link href={`/games/${game.id}/stats`}>
+                <BarChart3 className="size-3.5 mr-1.5" />
+                Stats
+              </Link>
+            </Button>
             {isCoach && (
               <Button variant="outline" size="sm" asChild>
                 <Link href={`/upload?gameId=${game.id}`}>
@@ -652,6 +930,9 @@ export function GamePlayback({
                 annotationToolbar={annotationToolbarNode}
                 annotationTextInput={annotationTextInputNode}
                 seekRef={seekRef}
+                routeTracks={activeRouteTracks}
+                showRoutes={showRoutes}
+                startTime={focusAnnotation?.timestamp}
               />
             </div>
           ) : (
@@ -692,7 +973,13 @@ export function GamePlayback({
             annotations={videoAnnotations}
             onDeleteAnnotation={handleDeleteAnnotation}
             onAnnotationSeek={handleAnnotationSeek}
+            onEditAnnotation={handleEditAnnotation}
+            onAnnotationUpdated={handleAnnotationUpdated}
             userId={userId}
+            activeClipId={activeClipId}
+            activeAnnotationId={activeAnnotation?.id ?? null}
+            getCurrentTime={getCurrentTime}
+            onCommentSeek={handleAnnotationSeek}
             className="border-l-0 border-t"
           />
         </div>
@@ -716,7 +1003,13 @@ export function GamePlayback({
           annotations={videoAnnotations}
           onDeleteAnnotation={handleDeleteAnnotation}
           onAnnotationSeek={handleAnnotationSeek}
+          onEditAnnotation={handleEditAnnotation}
+          onAnnotationUpdated={handleAnnotationUpdated}
           userId={userId}
+          activeClipId={activeClipId}
+          activeAnnotationId={activeAnnotation?.id ?? null}
+          getCurrentTime={getCurrentTime}
+          onCommentSeek={handleAnnotationSeek}
           className="h-full"
         />
       </div>
@@ -64,8 +64,10 @@ async function fetchGameAnnotations(
 
 export default async function GameDetailPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ gameId: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }) {
   const session = await requireAuth();
   const org = await getServerOrg();
@@ -79,6 +81,8 @@ export default async function GameDetailPage({
   }
 
   const { gameId } = await params;
+  // ?annotation= opens the footage at that annotation (e.g. from the coach inbox)
+  const { annotation: focusAnnotationId } = await searchParams;
   const reqHeaders = await headers();
   const cookie = reqHeaders.get("cookie") || "";
 
@@ -125,6 +129,9 @@ export default async function GameDetailPage({
       role={role}
       orgId={org.id}
       userId={session.user.id}
+      focusAnnotationId={
+        typeof focusAnnotationId === "string" ? focusAnnotationId : undefined
+      }
     />
   );
 }
@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { PlaylistSummary } from "@repo/types";
+import { Button } from "@repo/ui/components/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@repo/ui/components/dialog";
+import { Label } from "@repo/ui/components/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@repo/ui/components/select";
+import { Spinner } from "@repo/ui/components/spinner";
+import { Textarea } from "@repo/ui/components/textarea";
+import { clientEnv } from "@repo/env/web";
+import type { ClipData } from "./clip-list";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+interface AddToPlaylistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clip: ClipData;
+  orgId: string;
+}
+
+/** Append a clip, with an optional coach note, to an existing playlist. */
+export function AddToPlaylistDialog({
+  open,
+  onOpenChange,
+  clip,
+  orgId,
+}: AddToPlaylistDialogProps) {
+  const [playlists, setPlaylists] = useState<PlaylistSummary[] | null>(null);
+  const [playlistId, setPlaylistId] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load playlists each time the dialog opens so new ones show up
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setPlaylists(null);
+    setNote("");
+    setError(null);
+
+    fetch(`${API_URL}/orgs/${orgId}/playlists`, { credentials: "include" })
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data: { playlists: PlaylistSummary[] }) => {
+        if (cancelled) return;
+        setPlaylists(data.playlists);
+        setPlaylistId((prev) =>
+          data.playlists.some((p) => p.id === prev)
+            ? prev
+            : (data.playlists[0]?.id ?? ""),
+        );
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setPlaylists([]);
+          setError("Failed to load playlists");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, orgId]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!playlistId) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(
+        `${API_URL}/orgs/${orgId}/playlists/${playlistId}/items`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({
+            clipId: clip.id,
+            note: note.trim() || null,
+          }),
+        },
+      );
+
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(
+          (err as { message?: string }).message || "Failed to add to playlist",
+        );
+      }
+
+      onOpenChange(false);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to add to playlist",
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Play {clip.playNumber} to playlist</DialogTitle>
+          <DialogDescription>
+            The play is added to the end of the playlist.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="space-y-1.5">
+            <Label>Playlist</Label>
+            {playlists === null ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Spinner className="size-4" />
+                Loading playlists...
+              </div>
+            ) : playlists.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No playlists yet. Create one from the Playlists page.
+              </p>
+            ) : (
+              <Select value={playlistId} onValueChange={setPlaylistId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Pick a playlist..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {playlists.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="playlistNote">Coach note (optional)</Label>
+            <Textarea
+              id="playlistNote"
+              rows={3}
+              maxLength={1000}
+              placeholder='e.g. "Watch the backside safety rotate late"'
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !playlistId}>
+              {saving && <Spinner className="size-4 mr-2" />}
+              Add to playlist
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { AnnotationData } from "@repo/types";
+import { Button } from "@repo/ui/components/button";
+import { Checkbox } from "@repo/ui/components/checkbox";
+import { Textarea } from "@repo/ui/components/textarea";
+import { ScrollArea } from "@repo/ui/components/scroll-area";
+import { Spinner } from "@repo/ui/components/spinner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@repo/ui/components/dialog";
+import { FileText, ImageDown } from "lucide-react";
+import { AnnotationPreview } from "./annotation-preview";
+import type { ClipData } from "./clip-list";
+import {
+  buildFilmReport,
+  canvasToBlob,
+  downloadBlob,
+  frameFilename,
+  renderAnnotatedFrame,
+  reportFilename,
+} from "./annotation-export";
+
+function formatTime(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return "0:00";
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+/** Play whose clip contains the annotation, if any */
+function playNumberFor(
+  annotation: AnnotationData,
+  clips: ClipData[],
+): number | null {
+  const clip = clips.find(
+    (c) =>
+      c.videoId === annotation.videoId &&
+      annotation.timestamp >= c.startTime &&
+      annotation.timestamp <= c.endTime,
+  );
+  return clip?.playNumber ?? null;
+}
+
+interface AnnotationExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orgId: string;
+  gameTitle: string;
+  annotations: AnnotationData[];
+  clips: ClipData[];
+}
+
+/**
+ * Export annotations as PNG frames or a multi-page PDF film report, with an
+ * optional note per page for players reading it away from the app.
+ */
+export function AnnotationExportDialog({
+  open,
+  onOpenChange,
+  orgId,
+  gameTitle,
+  annotations,
+  clips,
+}: AnnotationExportDialogProps) {
+  // Everything is exported unless unticked, including annotations added later
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(() => new Set());
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Rendered frames, reused between PNG and PDF exports until the annotation changes
+  const framesRef = useRef(new Map<string, HTMLCanvasElement>());
+
+  const sorted = [...annotations].sort((a, b) => a.timestamp - b.timestamp);
+  const selected = sorted.filter((a) => !excludedIds.has(a.id));
+
+  function toggle(id: string, checked: boolean) {
+    setExcludedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  async function renderSelected(): Promise<
+    { annotation: AnnotationData; canvas: HTMLCanvasElement }[]
+  > {
+    const frames = [];
+    setProgress({ done: 0, total: selected.length });
+    for (const annotation of selected) {
+      const key = `${annotation.id}:${annotation.updatedAt}`;
+      let canvas = framesRef.current.get(key);
+      if (!canvas) {
+        canvas = await renderAnnotatedFrame(orgId, annotation);
+        framesRef.current.set(key, canvas);
+      }
+      frames.push({ annotation, canvas });
+      setProgress({ done: frames.length, total: selected.length });
+    }
+    return frames;
+  }
+
+  async function runExport(exportFrames: () => Promise<void>) {
+    setError(null);
+    try {
+      await exportFrames();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  function handleDownloadImages() {
+    return runExport(async () => {
+      for (const { annotation, canvas } of await renderSelected()) {
+        const blob = await canvasToBlob(canvas, "image/png");
+        downloadBlob(
+          blob,
+          frameFilename(
+            gameTitle,
+            playNumberFor(annotation, clips),
+            annotation.timestamp,
+          ),
+        );
+      }
+    });
+  }
+
+  function handleDownloadReport() {
+    return runExport(async () => {
+      const frames = await renderSelected();
+      const report = await buildFilmReport(
+        gameTitle,
+        frames.map(({ annotation, canvas }) => ({
+          annotation,
+          canvas,
+          playNumber: playNumberFor(annotation, clips),
+          note: notes[annotation.id] ?? "",
+        })),
+      );
+      downloadBlob(report, reportFilename(gameTitle));
+    });
+  }
+
+  const isExporting = progress !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Export annotations</DialogTitle>
+          <DialogDescription>
+            Download each drawing over its video frame as a PNG, or print them
+            as a PDF film report with a page per play.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {sorted.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            There are no annotations on this footage yet.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[55vh]">
+            <div className="flex flex-col gap-2 pr-2">
+              {sorted.map((annotation) => {
+                const playNumber = playNumberFor(annotation, clips);
+                const checked = !excludedIds.has(annotation.id);
+                const id = `export-${annotation.id}`;
+
+                return (
+                  <div
+                    key={annotation.id}
+                    className="flex items-start gap-3 rounded-md border p-2"
+                  >
+                    <Checkbox
+                      id={id}
+                      checked={checked}
+                      onCheckedChange={(value) =>
+                        toggle(annotation.id, value === true)
+                      }
+                      disabled={isExporting}
+                      className="mt-1"
+                    />
+                    <AnnotationPreview
+                      elements={annotation.data.elements}
+                      time={annotation.timestamp}
+                    />
+                    <div className="flex-1 min-w-0 space-y-1.5">
+                      <label
+                        htmlFor={id}
+                        className="block text-sm font-medium truncate"
+                      >
+                        {playNumber !== null ? `Play ${playNumber} · ` : ""}
+                        {formatTime(annotation.timestamp)}
+                      </label>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {annotation.createdByName ?? "Unknown"}
+                      </p>
+                      {checked && (
+                        <Textarea
+                          value={notes[annotation.id] ?? ""}
+                          onChange={(e) =>
+                            setNotes((prev) => ({
+                              ...prev,
+                              [annotation.id]: e.target.value,
+                            }))
+                          }
+                          placeholder="Note for the report (optional)"
+                          rows={2}
+                          maxLength={1000}
+                          disabled={isExporting}
+                          className="text-sm min-h-0"
+                        />
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter className="items-center">
+          {progress && (
+            <span className="flex items-center gap-2 text-sm text-muted-foreground sm:mr-auto">
+              <Spinner className="size-4" />
+              Rendering {progress.done} of {progress.total}…
+            </span>
+          )}
+          <Button
+            variant="outline"
+            onClick={handleDownloadImages}
+            disabled={selected.length === 0 || isExporting}
+          >
+            <ImageDown className="size-4 mr-1.5" />
+            Download PNGs
+          </Button>
+          <Button
+            onClick={handleDownloadReport}
+            disabled={selected.length === 0 || isExporting}
+          >
+            <FileText className="size-4 mr-1.5" />
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,157 @@
+/**
+ * Annotated frame export.
+ * Composites a saved annotation over its video frame (fetched from the API)
+ * with the same drawing code as the player overlay, for PNG download and
+ * printable PDF film reports.
+ */
+
+import type { AnnotationData } from "@repo/types";
+import { clientEnv } from "@repo/env/web";
+import { createPdf, type PdfPage } from "../../../lib/pdf-document";
+import { renderAnnotation } from "./annotation-renderer";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+/** JPEG quality for frames embedded in the PDF (0-1). */
+const PDF_JPEG_QUALITY = 0.9;
+
+export interface FilmReportPage {
+  annotation: AnnotationData;
+  /** Composited frame from renderAnnotatedFrame */
+  canvas: HTMLCanvasElement;
+  playNumber: number | null;
+  note: string;
+}
+
+function formatTime(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return "0:00";
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+/** Draw an annotation over the video frame at its timestamp. */
+export async function renderAnnotatedFrame(
+  orgId: string,
+  annotation: AnnotationData,
+): Promise<HTMLCanvasElement> {
+  const params = new URLSearchParams({ t: String(annotation.timestamp) });
+  const res = await fetch(
+    `${API_URL}/orgs/${orgId}/videos/${annotation.videoId}/frame?${params}`,
+    { credentials: "include" },
+  );
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(
+      (err as { message?: string }).message || "Failed to load video frame",
+    );
+  }
+
+  const frame = await createImageBitmap(await res.blob());
+  const canvas = document.createElement("canvas");
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to get canvas 2D context");
+
+  ctx.drawImage(frame, 0, 0);
+  frame.close();
+  // Tracked elements are drawn where they were at the annotation's timestamp
+  renderAnnotation(
+    ctx,
+    annotation.data.elements,
+    canvas.width,
+    canvas.height,
+    annotation.timestamp,
+  );
+  return canvas;
+}
+
+export function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  type: "image/png" | "image/jpeg",
+  quality?: number,
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode image")),
+      type,
+      quality,
+    );
+  });
+}
+
+/** Save a blob through a temporary download link. */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function slugify(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return slug || "game";
+}
+
+/** File name for an exported frame, e.g. "week-3-vs-eagles-play-12-1m23s.png". */
+export function frameFilename(
+  gameTitle: string,
+  playNumber: number | null,
+  timestamp: number,
+): string {
+  const time = formatTime(timestamp).replace(":", "m");
+  const play = playNumber !== null ? `-play-${playNumber}` : "";
+  return `${slugify(gameTitle)}${play}-${time}s.png`;
+}
+
+export function reportFilename(gameTitle: string): string {
+  return `${slugify(gameTitle)}-film-report.pdf`;
+}
+
+/**
+ * A printable film report: one page per annotated frame with the game
+ * title, play number, author and the exporting coach's note.
+ */
+export async function buildFilmReport(
+  gameTitle: string,
+  pages: FilmReportPage[],
+): Promise<Blob> {
+  const pdfPages: PdfPage[] = [];
+
+  for (const { annotation, canvas, playNumber, note } of pages) {
+    const jpeg = await canvasToBlob(canvas, "image/jpeg", PDF_JPEG_QUALITY);
+    const details = [
+      playNumber !== null ? `Play ${playNumber}` : null,
+      formatTime(annotation.timestamp),
+      annotation.createdByName ? `Drawn by ${annotation.createdByName}` : null,
+    ].filter(Boolean);
+
+    pdfPages.push({
+      blocks: [
+        { type: "text", text: gameTitle, size: 18, bold: true },
+        { type: "text", text: details.join(" · "), size: 11, gray: 0.35 },
+        {
+          type: "image",
+          image: {
+            jpeg: new Uint8Array(await jpeg.arrayBuffer()),
+            width: canvas.width,
+            height: canvas.height,
+          },
+        },
+        ...(note.trim()
+          ? [{ type: "text" as const, text: note.trim(), size: 12 }]
+          : []),
+      ],
+    });
+  }
+
+  return createPdf(pdfPages);
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { AnnotationData, AnnotationRevisionData } from "@repo/types";
+import { Button } from "@repo/ui/components/button";
+import { Badge } from "@repo/ui/components/badge";
+import { ScrollArea } from "@repo/ui/components/scroll-area";
+import { Spinner } from "@repo/ui/components/spinner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@repo/ui/components/dialog";
+import { RotateCcw } from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+import { AnnotationPreview } from "./annotation-preview";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+function formatDateTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+interface AnnotationHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orgId: string;
+  annotation: AnnotationData;
+  onRestored: (annotation: AnnotationData) => void;
+}
+
+/** Browse an annotation's saved versions and restore an earlier one. */
+export function AnnotationHistoryDialog({
+  open,
+  onOpenChange,
+  orgId,
+  annotation,
+  onRestored,
+}: AnnotationHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<AnnotationRevisionData[] | null>(
+    null,
+  );
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setRevisions(null);
+    setError(null);
+
+    fetch(`${API_URL}/orgs/${orgId}/annotations/${annotation.id}/revisions`, {
+      credentials: "include",
+    })
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data: { revisions: AnnotationRevisionData[] }) => {
+        if (!cancelled) setRevisions(data.revisions);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setRevisions([]);
+          setError("Failed to load history");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, orgId, annotation.id, annotation.updatedAt]);
+
+  async function handleRestore(revisionId: string) {
+    setRestoringId(revisionId);
+    setError(null);
+    try {
+      const res = await fetch(
+        `${API_URL}/orgs/${orgId}/annotations/${annotation.id}/revisions/${revisionId}/restore`,
+        { method: "POST", credentials: "include" },
+      );
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(
+          (err as { message?: string }).message || "Failed to restore version",
+        );
+      }
+      const data = await res.json();
+      onRestored(data.annotation);
+      onOpenChange(false);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to restore version",
+      );
+    } finally {
+      setRestoringId(null);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Annotation history</DialogTitle>
+          <DialogDescription>
+            Every saved edit is kept. Restoring a version saves it as a new
+            edit, so nothing is lost.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {revisions === null ? (
+          <div className="flex items-center justify-center py-8">
+            <Spinner className="size-5" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            This annotation hasn&apos;t been edited yet.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <div className="flex flex-col gap-2 pr-2">
+              {revisions.map((revision, index) => (
+                <div
+                  key={revision.id}
+                  className="flex items-center gap-3 rounded-md border p-2"
+                >
+                  <AnnotationPreview
+                    elements={revision.data.elements}
+                    time={annotation.timestamp}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium truncate">
+                        {revision.editedByName ?? "Unknown"}
+                      </p>
+                      {index === 0 && (
+                        <Badge
+                          variant="secondary"
+                          className="text-[10px] py-0 px-1.5 h-4"
+                        >
+                          Current
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDateTime(revision.createdAt)} ·{" "}
+                      {revision.data.elements.length} element
+                      {revision.data.elements.length !== 1 ? "s" : ""}
+                    </p>
+                  </div>
+                  {index > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={restoringId !== null}
+                      onClick={() => handleRestore(revision.id)}
+                    >
+                      {restoringId === revision.id ? (
+                        <Spinner className="size-3.5 mr-1.5" />
+                      ) : (
+                        <RotateCcw className="size-3.5 mr-1.5" />
+                      )}
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
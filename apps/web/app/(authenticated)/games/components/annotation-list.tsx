@@ -1,7 +1,12 @@
 "use client";
 
-import { isCoachRole } from "@repo/types";
-import type { AnnotationData } from "@repo/types";
+import { useState } from "react";
+import {
+  ANNOTATION_VISIBILITY_LABELS,
+  allowedAnnotationVisibilities,
+  isCoachRole,
+} from "@repo/types";
+import type { AnnotationData, AnnotationVisibility } from "@repo/types";
 import { cn } from "@repo/ui/lib/utils";
 import { Button } from "@repo/ui/components/button";
 import { Badge } from "@repo/ui/components/badge";
@@ -11,7 +16,40 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@repo/ui/components/tooltip";
-import { Diamond, Trash2, Pencil } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@repo/ui/components/dropdown-menu";
+import {
+  Diamond,
+  Trash2,
+  Pencil,
+  History,
+  Lock,
+  MessageSquareShare,
+  Users,
+} from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+import { AnnotationHistoryDialog } from "./annotation-history-dialog";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+const VISIBILITY_ICONS: Record<AnnotationVisibility, typeof Lock> = {
+  PRIVATE: Lock,
+  COACHES: MessageSquareShare,
+  TEAM: Users,
+};
+
+/** Short badge text — team annotations get no badge */
+const VISIBILITY_BADGES: Partial<Record<AnnotationVisibility, string>> = {
+  PRIVATE: "Private",
+  COACHES: "Coaches",
+};
 
 function formatTimestamp(seconds: number): string {
   if (!Number.isFinite(seconds) || seconds < 0) return "0:00";
@@ -24,6 +62,12 @@ interface AnnotationListProps {
   annotations: AnnotationData[];
   onDelete: (annotationId: string) => void;
   onSeek: (timestamp: number) => void;
+  /** Open an annotation in the drawing tools for editing */
+  onEdit?: (annotation: AnnotationData) => void;
+  /** Called when an annotation is replaced (e.g. a version was restored or its visibility changed) */
+  onAnnotationUpdated?: (annotation: AnnotationData) => void;
+  /** Organization ID (for revision history and visibility API calls) */
+  orgId?: string;
   role: string;
   userId: string;
   className?: string;
@@ -33,11 +77,36 @@ export function AnnotationList({
   annotations,
   onDelete,
   onSeek,
+  onEdit,
+  onAnnotationUpdated,
+  orgId,
   role,
   userId,
   className,
 }: AnnotationListProps) {
   const isCoach = isCoachRole(role);
+  const [historyAnnotation, setHistoryAnnotation] =
+    useState<AnnotationData | null>(null);
+  const visibilityOptions = allowedAnnotationVisibilities(isCoach);
+
+  async function handleVisibilityChange(
+    annotationId: string,
+    visibility: AnnotationVisibility,
+  ) {
+    const res = await fetch(
+      `${API_URL}/orgs/${orgId}/annotations/${annotationId}/visibility`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ visibility }),
+      },
+    );
+    if (res.ok) {
+      const { annotation } = await res.json();
+      onAnnotationUpdated?.(annotation);
+    }
+  }
 
   if (annotations.length === 0) {
     return (
@@ -51,74 +120,188 @@ export function AnnotationList({
   }
 
   return (
-    <ScrollArea className={cn("max-h-[30vh]", className)}>
-      <div className="flex flex-col gap-0.5 p-1">
-        {annotations.map((ann) => {
-          const canDelete =
-            ann.isPrivate
-              ? ann.createdById === userId
-              : isCoach;
-
-          return (
-            <div
-              key={ann.id}
-              className={cn(
-                "flex items-center gap-2 rounded-md px-2 py-1.5 text-sm transition-colors cursor-pointer",
-                "hover:bg-accent",
-              )}
-              onClick={() => onSeek(ann.timestamp)}
-              role="button"
-              tabIndex={0}
-              onKeyDown={(e) => {
-                if (e.key === "Enter" || e.key === " ") {
-                  e.preventDefault();
-                  onSeek(ann.timestamp);
-                }
-              }}
-            >
-              {/* Keyframe diamond icon */}
-              <Diamond className="size-3 text-amber-400 shrink-0 fill-amber-400" />
-
-              {/* Timestamp */}
-              <span className="font-mono text-xs tabular-nums text-muted-foreground shrink-0">
-                {formatTimestamp(ann.timestamp)}
-              </span>
-
-              {/* Creator name */}
-              <span className="flex-1 min-w-0 truncate text-xs">
-                {ann.createdById === userId ? "You" : (ann.createdByName ?? "Unknown")}
-              </span>
-
-              {/* Privacy badge */}
-              {ann.isPrivate && (
-                <Badge variant="outline" className="text-[10px] py-0 px-1.5 h-4 shrink-0">
-                  Private
-                </Badge>
-              )}
-
-              {/* Delete button */}
-              {canDelete && (
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon-sm"
-                      className="size-6 shrink-0"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onDelete(ann.id);
-                      }}
+    <>
+      <ScrollArea className={cn("max-h-[30vh]", className)}>
+        <div className="flex flex-col gap-0.5 p-1">
+          {annotations.map((ann) => {
+            // Same rule as the API: creators edit private and shared, coaches edit team
+            const isOwn = ann.createdById === userId;
+            const canModify = ann.visibility === "TEAM" ? isCoach : isOwn;
+            const VisibilityIcon = VISIBILITY_ICONS[ann.visibility];
+            const badge = VISIBILITY_BADGES[ann.visibility];
+            const isEdited = ann.updatedAt !== ann.createdAt;
+
+            return (
+              <div
+                key={ann.id}
+                className={cn(
+                  "flex items-center gap-2 rounded-md px-2 py-1.5 text-sm transition-colors cursor-pointer",
+                  "hover:bg-accent",
+                )}
+                onClick={() => onSeek(ann.timestamp)}
+                role="button"
+                tabIndex={0}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" || e.key === " ") {
+                    e.preventDefault();
+                    onSeek(ann.timestamp);
+                  }
+                }}
+              >
+                {/* Keyframe diamond icon */}
+                <Diamond className="size-3 text-amber-400 shrink-0 fill-amber-400" />
+
+                {/* Timestamp */}
+                <span className="font-mono text-xs tabular-nums text-muted-foreground shrink-0">
+                  {formatTimestamp(ann.timestamp)}
+                  {ann.endTimestamp !== null &&
+                    `–${formatTimestamp(ann.endTimestamp)}`}
+                </span>
+
+                {/* Creator name */}
+                <span className="flex-1 min-w-0 truncate text-xs">
+                  {ann.createdById === userId ? "You" : (ann.createdByName ?? "Unknown")}
+                </span>
+
+                {/* Visibility badge */}
+                {badge && (
+                  <Badge variant="outline" className="text-[10px] py-0 px-1.5 h-4 shrink-0">
+                    {badge}
+                  </Badge>
+                )}
+
+                {isEdited && (
+                  <span className="text-[10px] text-muted-foreground shrink-0">
+                    edited
+                  </span>
+                )}
+
+                {/* Visibility menu — creators decide who sees their drawing */}
+                {isOwn && orgId && onAnnotationUpdated && (
+                  <DropdownMenu>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon-sm"
+                            className="size-6 shrink-0"
+                            onClick={(e) => e.stopPropagation()}
+                            aria-label="Change visibility"
+                          >
+                            <VisibilityIcon className="size-3" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                      </TooltipTrigger>
+                      <TooltipContent side="left">
+                        {ANNOTATION_VISIBILITY_LABELS[ann.visibility]}
+                      </TooltipContent>
+                    </Tooltip>
+                    <DropdownMenuContent
+                      align="end"
+                      onClick={(e) => e.stopPropagation()}
                     >
-                      <Trash2 className="size-3" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent side="left">Delete annotation</TooltipContent>
-                </Tooltip>
-              )}
-            </div>
-          );
-        })}
-      </div>
-    </ScrollArea>
+                      <DropdownMenuLabel>Who can see this</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuRadioGroup
+                        value={ann.visibility}
+                        onValueChange={(value) =>
+                          handleVisibilityChange(
+                            ann.id,
+                            value as AnnotationVisibility,
+                          )
+                        }
+                      >
+                        {visibilityOptions.map((visibility) => (
+                          <DropdownMenuRadioItem
+                            key={visibility}
+                            value={visibility}
+                          >
+                            {ANNOTATION_VISIBILITY_LABELS[visibility]}
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+
+                {/* Edit button */}
+                {canModify && onEdit && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        className="size-6 shrink-0"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onEdit(ann);
+                        }}
+                      >
+                        <Pencil className="size-3" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="left">Edit annotation</TooltipContent>
+                  </Tooltip>
+                )}
+
+                {/* History button */}
+                {canModify && isEdited && orgId && onAnnotationUpdated && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        className="size-6 shrink-0"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setHistoryAnnotation(ann);
+                        }}
+                      >
+                        <History className="size-3" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="left">Version history</TooltipContent>
+                  </Tooltip>
+                )}
+
+                {/* Delete button */}
+                {canModify && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        className="size-6 shrink-0"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDelete(ann.id);
+                        }}
+                      >
+                        <Trash2 className="size-3" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent side="left">Delete annotation</TooltipContent>
+                  </Tooltip>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      {/* Revision history dialog */}
+      {historyAnnotation && orgId && onAnnotationUpdated && (
+        <AnnotationHistoryDialog
+          open={!!historyAnnotation}
+          onOpenChange={(open) => {
+            if (!open) setHistoryAnnotation(null);
+          }}
+          orgId={orgId}
+          annotation={historyAnnotation}
+          onRestored={onAnnotationUpdated}
+        />
+      )}
+    </>
   );
 }
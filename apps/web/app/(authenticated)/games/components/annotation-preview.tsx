@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { AnnotationElement } from "@repo/types";
+import { cn } from "@repo/ui/lib/utils";
+import { renderAnnotation } from "./annotation-renderer";
+
+/** Preview size — 16:9 like the footage the annotation sits on */
+const PREVIEW_WIDTH = 160;
+const PREVIEW_HEIGHT = 90;
+
+/** Small static thumbnail of an annotation's drawing on a dark frame. */
+export function AnnotationPreview({
+  elements,
+  time,
+  className,
+}: {
+  elements: AnnotationElement[];
+  /** Video time to position tracked elements at */
+  time?: number;
+  className?: string;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+    renderAnnotation(ctx, elements, PREVIEW_WIDTH, PREVIEW_HEIGHT, time);
+  }, [elements, time]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={PREVIEW_WIDTH}
+      height={PREVIEW_HEIGHT}
+      className={cn(
+        "shrink-0 w-32 aspect-video rounded bg-neutral-900",
+        className,
+      )}
+    />
+  );
+}
@@ -1,9 +1,10 @@
 /**
  * Pure canvas 2D drawing functions for annotation elements.
  * All coordinates are stored normalized (0-1) and denormalized to canvas size for rendering.
+ * Motion-tracked elements are positioned for a video time before drawing.
  */
 
-import type { AnnotationElement } from "@repo/types";
+import type { AnnotationElement, AnnotationKeyframe } from "@repo/types";
 
 // ---- Hit-testing (normalized 0-1 coordinates) ----
 
@@ -27,6 +28,103 @@ function distToSegment(
 
 const HIT_THRESHOLD = 0.02; // normalized distance threshold
 
+/** Segments a curved arrow is sampled into for hit-testing and bounds */
+const CURVE_SAMPLES = 24;
+
+function hitTestPolyline(
+  points: [number, number][],
+  nx: number,
+  ny: number,
+): boolean {
+  for (let i = 1; i < points.length; i++) {
+    const [x1, y1] = points[i - 1]!;
+    const [x2, y2] = points[i]!;
+    if (distToSegment(nx, ny, x1, y1, x2, y2) < HIT_THRESHOLD) return true;
+  }
+  return false;
+}
+
+/** Even-odd test for a point inside a closed polygon. */
+function pointInPolygon(
+  points: [number, number][],
+  nx: number,
+  ny: number,
+): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i]!;
+    const [xj, yj] = points[j]!;
+    if (yi > ny !== yj > ny && nx < ((xj - xi) * (ny - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Points along a curved arrow's quadratic Bézier. */
+function curvePoints(
+  el: Extract<AnnotationElement, { type: "curve" }>,
+): [number, number][] {
+  const points: [number, number][] = [];
+  for (let i = 0; i <= CURVE_SAMPLES; i++) {
+    const t = i / CURVE_SAMPLES;
+    const a = (1 - t) * (1 - t);
+    const b = 2 * (1 - t) * t;
+    const c = t * t;
+    points.push([
+      a * el.startX + b * el.controlX + c * el.endX,
+      a * el.startY + b * el.controlY + c * el.endY,
+    ]);
+  }
+  return points;
+}
+
+/**
+ * The visible part of the line through (x1, y1) and (x2, y2), clipped to
+ * the frame. Null when the two points coincide or the line misses the frame.
+ */
+function scrimmageSegment(
+  el: Extract<AnnotationElement, { type: "scrimmage" }>,
+): [[number, number], [number, number]] | null {
+  const dx = el.x2 - el.x1;
+  const dy = el.y2 - el.y1;
+  if (dx === 0 && dy === 0) return null;
+
+  let tMin = -Infinity;
+  let tMax = Infinity;
+  for (const [p, d] of [
+    [el.x1, dx],
+    [el.y1, dy],
+  ] as const) {
+    if (d === 0) {
+      if (p < 0 || p > 1) return null;
+      continue;
+    }
+    const ta = (0 - p) / d;
+    const tb = (1 - p) / d;
+    tMin = Math.max(tMin, Math.min(ta, tb));
+    tMax = Math.min(tMax, Math.max(ta, tb));
+  }
+  if (tMin > tMax) return null;
+  return [
+    [el.x1 + tMin * dx, el.y1 + tMin * dy],
+    [el.x1 + tMax * dx, el.y1 + tMax * dy],
+  ];
+}
+
+function pointsBounds(
+  points: [number, number][],
+): { x: number; y: number; w: number; h: number } {
+  let minX = 1, minY = 1, maxX = 0, maxY = 0;
+  for (const [px, py] of points) {
+    if (px < minX) minX = px;
+    if (py < minY) minY = py;
+    if (px > maxX) maxX = px;
+    if (py > maxY) maxY = py;
+  }
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+}
+
 /** Test if a normalized point (nx, ny) hits an element. Returns true if hit. */
 export function hitTestElement(
   el: AnnotationElement,
@@ -34,13 +132,29 @@ export function hitTestElement(
   ny: number,
 ): boolean {
   switch (el.type) {
-    case "stroke": {
-      for (let i = 1; i < el.points.length; i++) {
-        const [x1, y1] = el.points[i - 1]!;
-        const [x2, y2] = el.points[i]!;
-        if (distToSegment(nx, ny, x1, y1, x2, y2) < HIT_THRESHOLD) return true;
-      }
-      return false;
+    case "stroke":
+    case "highlight":
+    case "route":
+      return hitTestPolyline(el.points, nx, ny);
+    case "curve":
+      return hitTestPolyline(curvePoints(el), nx, ny);
+    case "zone":
+      return (
+        pointInPolygon(el.points, nx, ny) ||
+        hitTestPolyline([...el.points, el.points[0]!], nx, ny)
+      );
+    case "spotlight": {
+      // The shade covers the whole frame, so only the lit ellipse selects it
+      if (el.rx === 0 || el.ry === 0) return false;
+      const dx = (nx - el.cx) / el.rx;
+      const dy = (ny - el.cy) / el.ry;
+      return Math.sqrt(dx * dx + dy * dy) <= 1;
+    }
+    case "scrimmage": {
+      const segment = scrimmageSegment(el);
+      if (!segment) return false;
+      const [[x1, y1], [x2, y2]] = segment;
+      return distToSegment(nx, ny, x1, y1, x2, y2) < HIT_THRESHOLD;
     }
     case "arrow": {
       return (
@@ -86,15 +200,18 @@ export function getElementBounds(
   el: AnnotationElement,
 ): { x: number; y: number; w: number; h: number } {
   switch (el.type) {
-    case "stroke": {
-      let minX = 1, minY = 1, maxX = 0, maxY = 0;
-      for (const [px, py] of el.points) {
-        if (px < minX) minX = px;
-        if (py < minY) minY = py;
-        if (px > maxX) maxX = px;
-        if (py > maxY) maxY = py;
-      }
-      return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+    case "stroke":
+    case "highlight":
+    case "route":
+    case "zone":
+      return pointsBounds(el.points);
+    case "curve":
+      return pointsBounds(curvePoints(el));
+    case "scrimmage": {
+      const segment = scrimmageSegment(el);
+      return segment
+        ? pointsBounds(segment)
+        : { x: el.x1, y: el.y1, w: 0, h: 0 };
     }
     case "arrow": {
       const x = Math.min(el.startX, el.endX);
@@ -107,6 +224,7 @@ export function getElementBounds(
       };
     }
     case "circle":
+    case "spotlight":
       return {
         x: el.cx - el.rx,
         y: el.cy - el.ry,
@@ -120,6 +238,113 @@ export function getElementBounds(
   }
 }
 
+// ---- Motion tracking (normalized 0-1 coordinates) ----
+
+/** Translate an element by a normalized offset. */
+export function moveElement(
+  el: AnnotationElement,
+  dx: number,
+  dy: number,
+): AnnotationElement {
+  switch (el.type) {
+    case "stroke":
+    case "highlight":
+    case "route":
+    case "zone":
+      return {
+        ...el,
+        points: el.points.map(
+          ([x, y]) => [x + dx, y + dy] as [number, number],
+        ),
+      };
+    case "arrow":
+      return {
+        ...el,
+        startX: el.startX + dx,
+        startY: el.startY + dy,
+        endX: el.endX + dx,
+        endY: el.endY + dy,
+      };
+    case "curve":
+      return {
+        ...el,
+        startX: el.startX + dx,
+        startY: el.startY + dy,
+        controlX: el.controlX + dx,
+        controlY: el.controlY + dy,
+        endX: el.endX + dx,
+        endY: el.endY + dy,
+      };
+    case "circle":
+    case "spotlight":
+      return { ...el, cx: el.cx + dx, cy: el.cy + dy };
+    case "scrimmage":
+      return {
+        ...el,
+        x1: el.x1 + dx,
+        y1: el.y1 + dy,
+        x2: el.x2 + dx,
+        y2: el.y2 + dy,
+      };
+    case "rectangle":
+      return { ...el, x: el.x + dx, y: el.y + dy };
+    case "text":
+      return {
+        ...el,
+        x: el.x + dx,
+        y: el.y + dy,
+        tailX: el.tailX + dx,
+        tailY: el.tailY + dy,
+      };
+  }
+}
+
+/** Centre of an element's bounds — the point its keyframes position. */
+export function getElementAnchor(el: AnnotationElement): {
+  x: number;
+  y: number;
+} {
+  const bounds = getElementBounds(el);
+  return { x: bounds.x + bounds.w / 2, y: bounds.y + bounds.h / 2 };
+}
+
+/**
+ * Linear interpolation between keyframes, holding the first and last
+ * positions outside their range. Keyframes must be ordered by time.
+ */
+export function trackedPositionAt(
+  keyframes: AnnotationKeyframe[],
+  time: number,
+): { x: number; y: number } | null {
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (!first || !last) return null;
+  if (time <= first.t) return { x: first.x, y: first.y };
+  if (time >= last.t) return { x: last.x, y: last.y };
+
+  for (let i = 1; i < keyframes.length; i++) {
+    const a = keyframes[i - 1]!;
+    const b = keyframes[i]!;
+    if (time <= b.t) {
+      const f = b.t === a.t ? 0 : (time - a.t) / (b.t - a.t);
+      return { x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f };
+    }
+  }
+  return { x: last.x, y: last.y };
+}
+
+/** An element as it appears at `time` — untracked elements are returned as-is. */
+export function elementAtTime(
+  el: AnnotationElement,
+  time: number,
+): AnnotationElement {
+  if (!el.track) return el;
+  const position = trackedPositionAt(el.track.keyframes, time);
+  if (!position) return el;
+  const anchor = getElementAnchor(el);
+  return moveElement(el, position.x - anchor.x, position.y - anchor.y);
+}
+
 /** Draw a dashed selection rectangle around an element. */
 export function renderSelection(
   ctx: CanvasRenderingContext2D,
@@ -151,26 +376,50 @@ export function clearCanvas(
   ctx.clearRect(0, 0, width, height);
 }
 
+/**
+ * Draw annotation elements. With a `time`, tracked elements are drawn at
+ * their interpolated position; without one they keep their stored geometry.
+ */
 export function renderAnnotation(
   ctx: CanvasRenderingContext2D,
   elements: AnnotationElement[],
   canvasWidth: number,
   canvasHeight: number,
+  time?: number,
 ): void {
-  for (const el of elements) {
+  for (const stored of elements) {
+    const el = time === undefined ? stored : elementAtTime(stored, time);
     switch (el.type) {
       case "stroke":
         renderStroke(ctx, el, canvasWidth, canvasHeight);
         break;
+      case "highlight":
+        renderHighlight(ctx, el, canvasWidth, canvasHeight);
+        break;
       case "arrow":
         renderArrow(ctx, el, canvasWidth, canvasHeight);
         break;
+      case "route":
+        renderRoute(ctx, el, canvasWidth, canvasHeight);
+        break;
+      case "curve":
+        renderCurve(ctx, el, canvasWidth, canvasHeight);
+        break;
       case "circle":
         renderCircle(ctx, el, canvasWidth, canvasHeight);
         break;
       case "rectangle":
         renderRectangle(ctx, el, canvasWidth, canvasHeight);
         break;
+      case "zone":
+        renderZone(ctx, el, canvasWidth, canvasHeight);
+        break;
+      case "spotlight":
+        renderSpotlight(ctx, el, canvasWidth, canvasHeight);
+        break;
+      case "scrimmage":
+        renderScrimmage(ctx, el, canvasWidth, canvasHeight);
+        break;
       case "text":
         renderText(ctx, el, canvasWidth, canvasHeight);
         break;
@@ -199,6 +448,59 @@ function renderStroke(
   ctx.stroke();
 }
 
+/** Highlighter strokes are this many times wider than the chosen line width */
+const HIGHLIGHT_WIDTH_SCALE = 4;
+const HIGHLIGHT_ALPHA = 0.35;
+
+function renderHighlight(
+  ctx: CanvasRenderingContext2D,
+  el: Extract<AnnotationElement, { type: "highlight" }>,
+  w: number,
+  h: number,
+): void {
+  if (el.points.length < 2) return;
+  ctx.save();
+  ctx.globalAlpha = HIGHLIGHT_ALPHA;
+  ctx.beginPath();
+  ctx.strokeStyle = el.color;
+  ctx.lineWidth = el.width * HIGHLIGHT_WIDTH_SCALE;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  const [startX, startY] = el.points[0]!;
+  ctx.moveTo(startX * w, startY * h);
+  for (let i = 1; i < el.points.length; i++) {
+    const [px, py] = el.points[i]!;
+    ctx.lineTo(px * w, py * h);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+/** Filled arrowhead at (x2, y2) pointing away from (x1, y1). Uses the current fill style. */
+function drawArrowhead(
+  ctx: CanvasRenderingContext2D,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  lineWidth: number,
+): void {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const headLen = Math.max(12, lineWidth * 4);
+  ctx.beginPath();
+  ctx.moveTo(x2, y2);
+  ctx.lineTo(
+    x2 - headLen * Math.cos(angle - Math.PI / 6),
+    y2 - headLen * Math.sin(angle - Math.PI / 6),
+  );
+  ctx.lineTo(
+    x2 - headLen * Math.cos(angle + Math.PI / 6),
+    y2 - headLen * Math.sin(angle + Math.PI / 6),
+  );
+  ctx.closePath();
+  ctx.fill();
+}
+
 function renderArrow(
   ctx: CanvasRenderingContext2D,
   el: Extract<AnnotationElement, { type: "arrow" }>,
@@ -221,21 +523,63 @@ function renderArrow(
   ctx.lineTo(x2, y2);
   ctx.stroke();
 
-  // Arrowhead
-  const angle = Math.atan2(y2 - y1, x2 - x1);
-  const headLen = Math.max(12, el.width * 4);
+  drawArrowhead(ctx, x1, y1, x2, y2, el.width);
+}
+
+function renderRoute(
+  ctx: CanvasRenderingContext2D,
+  el: Extract<AnnotationElement, { type: "route" }>,
+  w: number,
+  h: number,
+): void {
+  if (el.points.length < 2) return;
+  ctx.strokeStyle = el.color;
+  ctx.fillStyle = el.color;
+  ctx.lineWidth = el.width;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
   ctx.beginPath();
-  ctx.moveTo(x2, y2);
-  ctx.lineTo(
-    x2 - headLen * Math.cos(angle - Math.PI / 6),
-    y2 - headLen * Math.sin(angle - Math.PI / 6),
-  );
-  ctx.lineTo(
-    x2 - headLen * Math.cos(angle + Math.PI / 6),
-    y2 - headLen * Math.sin(angle + Math.PI / 6),
-  );
-  ctx.closePath();
-  ctx.fill();
+  const [startX, startY] = el.points[0]!;
+  ctx.moveTo(startX * w, startY * h);
+  for (let i = 1; i < el.points.length; i++) {
+    const [px, py] = el.points[i]!;
+    ctx.lineTo(px * w, py * h);
+  }
+  ctx.stroke();
+
+  // Arrowhead continues the final segment
+  const [fromX, fromY] = el.points[el.points.length - 2]!;
+  const [toX, toY] = el.points[el.points.length - 1]!;
+  drawArrowhead(ctx, fromX * w, fromY * h, toX * w, toY * h, el.width);
+}
+
+function renderCurve(
+  ctx: CanvasRenderingContext2D,
+  el: Extract<AnnotationElement, { type: "curve" }>,
+  w: number,
+  h: number,
+): void {
+  const x1 = el.startX * w;
+  const y1 = el.startY * h;
+  const cx = el.controlX * w;
+  const cy = el.controlY * h;
+  const x2 = el.endX * w;
+  const y2 = el.endY * h;
+
+  ctx.strokeStyle = el.color;
+  ctx.fillStyle = el.color;
+  ctx.lineWidth = el.width;
+  ctx.lineCap = "round";
+
+  ctx.beginPath();
+  ctx.moveTo(x1, y1);
+  ctx.quadraticCurveTo(cx, cy, x2, y2);
+  ctx.stroke();
+
+  // The curve leaves the control point tangentially at its end
+  const straight = cx === x2 && cy === y2;
+  drawArrowhead(ctx, straight ? x1 : cx, straight ? y1 : cy, x2, y2, el.width);
 }
 
 function renderCircle(
@@ -262,6 +606,73 @@ function renderRectangle(
   ctx.strokeRect(el.x * w, el.y * h, el.w * w, el.h * h);
 }
 
+function renderZone(
+  ctx: CanvasRenderingContext2D,
+  el: Extract<AnnotationElement, { type: "zone" }>,
+  w: number,
+  h: number,
+): void {
+  if (el.points.length < 2) return;
+  ctx.save();
+  ctx.beginPath();
+  const [startX, startY] = el.points[0]!;
+  ctx.moveTo(startX * w, startY * h);
+  for (let i = 1; i < el.points.length; i++) {
+    const [px, py] = el.points[i]!;
+    ctx.lineTo(px * w, py * h);
+  }
+  ctx.closePath();
+  ctx.globalAlpha = el.opacity;
+  ctx.fillStyle = el.color;
+  ctx.fill();
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = el.color;
+  ctx.lineWidth = 2;
+  ctx.lineJoin = "round";
+  ctx.stroke();
+  ctx.restore();
+}
+
+function renderSpotlight(
+  ctx: CanvasRenderingContext2D,
+  el: Extract<AnnotationElement, { type: "spotlight" }>,
+  w: number,
+  h: number,
+): void {
+  ctx.save();
+  // Shade the frame with the ellipse cut out
+  ctx.beginPath();
+  ctx.rect(0, 0, w, h);
+  ctx.ellipse(el.cx * w, el.cy * h, el.rx * w, el.ry * h, 0, 0, Math.PI * 2);
+  ctx.fillStyle = `rgba(0, 0, 0, ${el.dim})`;
+  ctx.fill("evenodd");
+
+  ctx.beginPath();
+  ctx.ellipse(el.cx * w, el.cy * h, el.rx * w, el.ry * h, 0, 0, Math.PI * 2);
+  ctx.strokeStyle = el.color;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+  ctx.restore();
+}
+
+function renderScrimmage(
+  ctx: CanvasRenderingContext2D,
+  el: Extract<AnnotationElement, { type: "scrimmage" }>,
+  w: number,
+  h: number,
+): void {
+  const segment = scrimmageSegment(el);
+  if (!segment) return;
+  const [[x1, y1], [x2, y2]] = segment;
+  ctx.strokeStyle = el.color;
+  ctx.lineWidth = el.width;
+  ctx.lineCap = "butt";
+  ctx.beginPath();
+  ctx.moveTo(x1 * w, y1 * h);
+  ctx.lineTo(x2 * w, y2 * h);
+  ctx.stroke();
+}
+
 /** Word-wrap text to fit within a max pixel width, breaking long words character-by-character. */
 function wrapText(
   ctx: CanvasRenderingContext2D,
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import {
+  annotationTemplateSchema,
+  type AnnotationElement,
+  type AnnotationTemplateData,
+} from "@repo/types";
+import { Button } from "@repo/ui/components/button";
+import { Input } from "@repo/ui/components/input";
+import { ScrollArea } from "@repo/ui/components/scroll-area";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@repo/ui/components/tooltip";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@repo/ui/components/popover";
+import { LayoutTemplate, Plus, Trash2 } from "lucide-react";
+import { AnnotationPreview } from "./annotation-preview";
+
+interface AnnotationTemplatesPopoverProps {
+  templates: AnnotationTemplateData[];
+  onInsert: (template: AnnotationTemplateData) => void;
+  /** Current drawing, saved when a coach adds a template */
+  getElements: () => AnnotationElement[];
+  /** Present for coaches only */
+  onSave?: (name: string, elements: AnnotationElement[]) => Promise<void>;
+  onDelete?: (templateId: string) => Promise<void>;
+}
+
+/**
+ * The org's telestration library in the annotation toolbar. Clicking a
+ * template adds its drawing to the frame; coaches can save the current
+ * drawing as a new template and remove old ones.
+ */
+export function AnnotationTemplatesPopover({
+  templates,
+  onInsert,
+  getElements,
+  onSave,
+  onDelete,
+}: AnnotationTemplatesPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  async function handleSave() {
+    if (!onSave) return;
+    const elements = getElements();
+    const parsed = annotationTemplateSchema.safeParse({ name, elements });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? "Invalid template");
+      return;
+    }
+
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSave(parsed.data.name, elements);
+      setName("");
+    } catch (err) {
+      setError(
+        (err as { message?: string }).message || "Failed to save template",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDelete(templateId: string) {
+    if (!onDelete) return;
+    setError(null);
+    try {
+      await onDelete(templateId);
+    } catch (err) {
+      setError(
+        (err as { message?: string }).message || "Failed to delete template",
+      );
+    }
+  }
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setError(null);
+      }}
+    >
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              aria-label="Templates"
+              className="text-white hover:text-white"
+            >
+              <LayoutTemplate className="size-4" />
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent side="bottom">Templates</TooltipContent>
+      </Tooltip>
+      <PopoverContent
+        side="bottom"
+        align="center"
+        className="w-72 p-2 bg-black/90 backdrop-blur-sm border-white/10 text-white"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        {templates.length === 0 ? (
+          <p className="px-1 py-3 text-center text-xs text-white/50">
+            No templates yet.
+            {onSave && " Draw a formation or coverage and save it here."}
+          </p>
+        ) : (
+          <ScrollArea className="max-h-72">
+            <div className="flex flex-col gap-1 pr-2">
+              {templates.map((template) => (
+                <div
+                  key={template.id}
+                  className="group flex items-center gap-2 rounded p-1 hover:bg-white/10"
+                >
+                  <button
+                    type="button"
+                    onClick={() => {
+                      onInsert(template);
+                      setOpen(false);
+                    }}
+                    className="flex flex-1 min-w-0 items-center gap-2 text-left"
+                  >
+                    <AnnotationPreview
+                      elements={template.data.elements}
+                      className="w-16"
+                    />
+                    <span className="truncate text-xs">{template.name}</span>
+                  </button>
+                  {onDelete && (
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => handleDelete(template.id)}
+                      aria-label={`Delete ${template.name}`}
+                      className="shrink-0 text-white/50 hover:text-red-300 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                    >
+                      <Trash2 className="size-3.5" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {onSave && (
+          <form
+            className="mt-2 flex items-center gap-1 border-t border-white/10 pt-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+          >
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Save current drawing as…"
+              maxLength={60}
+              disabled={isSaving}
+              className="h-7 text-xs bg-white/10 border-white/20 text-white placeholder:text-white/40"
+            />
+            <Button
+              type="submit"
+              size="icon-sm"
+              disabled={isSaving || !name.trim()}
+              aria-label="Save as template"
+            >
+              <Plus className="size-4" />
+            </Button>
+          </form>
+        )}
+
+        {error && <p className="mt-1.5 px-1 text-xs text-red-300">{error}</p>}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -24,12 +24,29 @@ import {
   Shapes,
   Palette,
   Undo2,
+  Redo,
+  Copy,
+  ClipboardPaste,
   Trash2,
   X,
   Save,
+  Timer,
+  Crosshair,
+  Route,
+  Highlighter,
+  Waypoints,
+  Redo2,
+  Pentagon,
+  Focus,
+  SeparatorHorizontal,
 } from "lucide-react";
 import { cn } from "@repo/ui/lib/utils";
-import type { AnnotationTool } from "@repo/types";
+import type {
+  AnnotationElement,
+  AnnotationTemplateData,
+  AnnotationTool,
+} from "@repo/types";
+import { AnnotationTemplatesPopover } from "./annotation-templates-popover";
 
 /** Tools always visible in the toolbar. */
 const PRIMARY_TOOLS: {
@@ -39,6 +56,7 @@ const PRIMARY_TOOLS: {
 }[] = [
   { tool: "select", icon: MousePointer2, label: "Select" },
   { tool: "pen", icon: Pencil, label: "Pen" },
+  { tool: "highlighter", icon: Highlighter, label: "Highlighter" },
 ];
 
 /** Shape tools collapsed into a popover. */
@@ -48,8 +66,25 @@ const SHAPE_TOOLS: {
   label: string;
 }[] = [
   { tool: "arrow", icon: MoveUpRight, label: "Arrow" },
+  { tool: "curve", icon: Redo2, label: "Curved arrow" },
+  {
+    tool: "route",
+    icon: Waypoints,
+    label: "Route — click each point, double-click or Enter to finish",
+  },
+  {
+    tool: "scrimmage",
+    icon: SeparatorHorizontal,
+    label: "Line of scrimmage — drag along the line",
+  },
   { tool: "circle", icon: Circle, label: "Circle" },
   { tool: "rectangle", icon: Square, label: "Rectangle" },
+  {
+    tool: "zone",
+    icon: Pentagon,
+    label: "Zone — click each corner, double-click or Enter to finish",
+  },
+  { tool: "spotlight", icon: Focus, label: "Spotlight" },
   { tool: "text", icon: Type, label: "Text" },
 ];
 
@@ -63,6 +98,16 @@ const COLOR_PRESETS = [
   { color: "#22c55e", label: "Green" },
 ];
 
+/** How long a drawing stays up over playback; null pauses on a freeze-frame */
+const HOLD_PRESETS: { secs: number | null; label: string }[] = [
+  { secs: null, label: "Freeze" },
+  { secs: 1, label: "1s" },
+  { secs: 2, label: "2s" },
+  { secs: 3, label: "3s" },
+  { secs: 5, label: "5s" },
+  { secs: 10, label: "10s" },
+];
+
 const WIDTH_PRESETS = [
   { width: 2, label: "Thin" },
   { width: 4, label: "Medium" },
@@ -77,6 +122,14 @@ interface AnnotationToolbarProps {
   lineWidth: number;
   onLineWidthChange: (w: number) => void;
   onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Copy the selected element, or the whole drawing when none is selected */
+  onCopy?: () => void;
+  /** Paste copied elements, e.g. from a drawing at another timestamp */
+  onPaste?: () => void;
+  canPaste?: boolean;
   onClear: () => void;
   onSave: () => void;
   onCancel: () => void;
@@ -86,6 +139,25 @@ interface AnnotationToolbarProps {
   hasSelection?: boolean;
   /** Delete the selected element */
   onDeleteSelected?: () => void;
+  /** Seconds the annotation stays on screen during playback (null = freeze-frame) */
+  holdSecs?: number | null;
+  onHoldSecsChange?: (secs: number | null) => void;
+  /** Whether the selected element follows a moving object */
+  isTracked?: boolean;
+  /** Start or stop motion tracking for the selected element */
+  onTrackToggle?: () => void;
+  /** Seed the selected element's motion from detected player tracks; false if none is close */
+  onSeedTrack?: () => Promise<boolean>;
+  /** The org's template library; the templates button shows when provided */
+  templates?: AnnotationTemplateData[];
+  onInsertTemplate?: (template: AnnotationTemplateData) => void;
+  getTemplateElements?: () => AnnotationElement[];
+  /** Coach-only template management */
+  onSaveTemplate?: (
+    name: string,
+    elements: AnnotationElement[],
+  ) => Promise<void>;
+  onDeleteTemplate?: (templateId: string) => Promise<void>;
 }
 
 export function AnnotationToolbar({
@@ -96,6 +168,12 @@ export function AnnotationToolbar({
   lineWidth,
   onLineWidthChange,
   onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  onCopy,
+  onPaste,
+  canPaste = false,
   onClear,
   onSave,
   onCancel,
@@ -103,9 +181,30 @@ export function AnnotationToolbar({
   isSaving,
   hasSelection = false,
   onDeleteSelected,
+  holdSecs = null,
+  onHoldSecsChange,
+  isTracked = false,
+  onTrackToggle,
+  onSeedTrack,
+  templates,
+  onInsertTemplate,
+  getTemplateElements,
+  onSaveTemplate,
+  onDeleteTemplate,
 }: AnnotationToolbarProps) {
   const [shapesOpen, setShapesOpen] = useState(false);
   const [styleOpen, setStyleOpen] = useState(false);
+  const [holdOpen, setHoldOpen] = useState(false);
+  const [seedStatus, setSeedStatus] = useState<
+    "idle" | "seeding" | "not-found"
+  >("idle");
+
+  async function handleSeedTrack() {
+    if (!onSeedTrack) return;
+    setSeedStatus("seeding");
+    const found = await onSeedTrack().catch(() => false);
+    setSeedStatus(found ? "idle" : "not-found");
+  }
 
   // Determine which icon to show on the shapes trigger
   const activeShapeTool = SHAPE_TOOLS.find((s) => s.tool === tool);
@@ -114,7 +213,7 @@ export function AnnotationToolbar({
 
   return (
     <div className="flex items-center gap-1 px-2 py-1.5 bg-black/80 backdrop-blur-sm rounded-lg shadow-lg max-w-[calc(100vw-2rem)]">
-      {/* Primary tools (select, pen) — always visible */}
+      {/* Primary tools (select, pen, highlighter) — always visible */}
       {PRIMARY_TOOLS.map(({ tool: t, icon: Icon, label }) => (
         <Tooltip key={t}>
           <TooltipTrigger asChild>
@@ -132,7 +231,7 @@ export function AnnotationToolbar({
         </Tooltip>
       ))}
 
-      {/* Shapes popover — arrow, circle, rectangle, text */}
+      {/* Shapes popover — lines, routes, areas and text */}
       <Popover open={shapesOpen} onOpenChange={setShapesOpen}>
         <Tooltip>
           <TooltipTrigger asChild>
@@ -157,7 +256,7 @@ export function AnnotationToolbar({
           className="w-auto p-1.5 bg-black/90 backdrop-blur-sm border-white/10"
           onPointerDown={(e) => e.stopPropagation()}
         >
-          <div className="flex items-center gap-1">
+          <div className="grid grid-cols-5 gap-1">
             {SHAPE_TOOLS.map(({ tool: t, icon: Icon, label }) => (
               <Tooltip key={t}>
                 <TooltipTrigger asChild>
@@ -181,6 +280,17 @@ export function AnnotationToolbar({
         </PopoverContent>
       </Popover>
 
+      {/* Templates popover — the org's saved formations and coverages */}
+      {templates && onInsertTemplate && getTemplateElements && (
+        <AnnotationTemplatesPopover
+          templates={templates}
+          onInsert={onInsertTemplate}
+          getElements={getTemplateElements}
+          onSave={onSaveTemplate}
+          onDelete={onDeleteTemplate}
+        />
+      )}
+
       <Separator orientation="vertical" className="h-5 mx-0.5 bg-white/20" />
 
       {/* Style popover — colors + line widths */}
@@ -258,6 +368,57 @@ export function AnnotationToolbar({
         </PopoverContent>
       </Popover>
 
+      {/* Hold popover — freeze-frame or stay on screen over playback */}
+      {onHoldSecsChange && (
+        <Popover open={holdOpen} onOpenChange={setHoldOpen}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <PopoverTrigger asChild>
+                <Button
+                  variant={holdSecs !== null ? "secondary" : "ghost"}
+                  size="sm"
+                  aria-label="Display duration"
+                  className="text-white hover:text-white h-7 px-1.5 gap-1 text-xs"
+                >
+                  <Timer className="size-4" />
+                  {holdSecs !== null && (
+                    <span className="tabular-nums">{holdSecs}s</span>
+                  )}
+                </Button>
+              </PopoverTrigger>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+              {holdSecs !== null
+                ? `Shown for ${holdSecs}s during playback`
+                : "Pauses on a freeze-frame"}
+            </TooltipContent>
+          </Tooltip>
+          <PopoverContent
+            side="bottom"
+            align="center"
+            className="w-auto p-1.5 bg-black/90 backdrop-blur-sm border-white/10"
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center gap-1">
+              {HOLD_PRESETS.map(({ secs, label }) => (
+                <Button
+                  key={label}
+                  variant={holdSecs === secs ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => {
+                    onHoldSecsChange(secs);
+                    setHoldOpen(false);
+                  }}
+                  className="text-white hover:text-white h-7 px-2 text-xs"
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+
       <Separator orientation="vertical" className="h-5 mx-0.5 bg-white/20" />
 
       {/* Delete selected */}
@@ -280,7 +441,97 @@ export function AnnotationToolbar({
         </Tooltip>
       )}
 
-      {/* Undo */}
+      {/* Motion tracking for the selected element */}
+      {hasSelection && onTrackToggle && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant={isTracked ? "secondary" : "ghost"}
+              size="icon-sm"
+              onClick={() => {
+                setSeedStatus("idle");
+                onTrackToggle();
+              }}
+              aria-label={isTracked ? "Stop tracking" : "Track motion"}
+              aria-pressed={isTracked}
+              className="text-white hover:text-white"
+            >
+              <Crosshair className="size-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            {isTracked
+              ? "Stop tracking"
+              : "Track motion — then scrub and drag to add keyframes"}
+          </TooltipContent>
+        </Tooltip>
+      )}
+      {hasSelection && onSeedTrack && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={handleSeedTrack}
+              disabled={seedStatus === "seeding"}
+              aria-label="Follow detected player"
+              className="text-white hover:text-white"
+            >
+              <Route className="size-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            {seedStatus === "not-found"
+              ? "No detected player near this element"
+              : "Follow the nearest detected player"}
+          </TooltipContent>
+        </Tooltip>
+      )}
+      {hasSelection && seedStatus === "not-found" && (
+        <span className="text-[10px] text-red-300 px-1">No player found</span>
+      )}
+
+      {/* Copy / paste — reuse a drawing at another timestamp */}
+      {onCopy && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={onCopy}
+              disabled={isEmpty}
+              aria-label={hasSelection ? "Copy selected" : "Copy drawing"}
+              className="text-white hover:text-white"
+            >
+              <Copy className="size-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            {hasSelection ? "Copy selected" : "Copy drawing"} <Kbd>Ctrl+C</Kbd>
+          </TooltipContent>
+        </Tooltip>
+      )}
+      {onPaste && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={onPaste}
+              disabled={!canPaste}
+              aria-label="Paste"
+              className="text-white hover:text-white"
+            >
+              <ClipboardPaste className="size-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            Paste <Kbd>Ctrl+V</Kbd>
+          </TooltipContent>
+        </Tooltip>
+      )}
+
+      {/* Undo / redo */}
       {!hasSelection && (
         <Tooltip>
           <TooltipTrigger asChild>
@@ -288,7 +539,7 @@ export function AnnotationToolbar({
               variant="ghost"
               size="icon-sm"
               onClick={onUndo}
-              disabled={isEmpty}
+              disabled={!canUndo}
               aria-label="Undo"
               className="text-white hover:text-white"
             >
@@ -300,6 +551,25 @@ export function AnnotationToolbar({
           </TooltipContent>
         </Tooltip>
       )}
+      {!hasSelection && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={onRedo}
+              disabled={!canRedo}
+              aria-label="Redo"
+              className="text-white hover:text-white"
+            >
+              <Redo className="size-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            Redo <Kbd>Ctrl+Shift+Z</Kbd>
+          </TooltipContent>
+        </Tooltip>
+      )}
 
       {/* Clear */}
       {!hasSelection && (
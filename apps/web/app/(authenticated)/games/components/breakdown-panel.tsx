@@ -0,0 +1,459 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { authClient } from "@repo/auth/client";
+import {
+  isCoachRole,
+  parseBreakdownValue,
+  type BreakdownFieldData,
+  type BreakdownValue,
+  type BreakdownValues,
+  type ClipPlayerData,
+} from "@repo/types";
+import { cn } from "@repo/ui/lib/utils";
+import { Spinner } from "@repo/ui/components/spinner";
+import { clientEnv } from "@repo/env/web";
+import type { ClipData } from "./clip-list";
+import {
+  PlayPlayersPopover,
+  type PlayerOption,
+  type PlayPlayersInput,
+} from "./play-players-popover";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+interface BreakdownRow {
+  playNumber: number;
+  /** Every camera angle of the play — values are written to all of them */
+  clips: ClipData[];
+  values: BreakdownValues;
+  players: ClipPlayerData[];
+}
+
+/**
+ * One row per play. Values come from the active angle's clip when it has
+ * one, otherwise from the first angle that has been broken down. Players
+ * are tagged on every angle, so any angle's list will do.
+ */
+function buildRows(clips: ClipData[], activeVideoId: string | null) {
+  const byPlay = new Map<number, ClipData[]>();
+  for (const clip of clips) {
+    const group = byPlay.get(clip.playNumber) ?? [];
+    group.push(clip);
+    byPlay.set(clip.playNumber, group);
+  }
+
+  return [...byPlay.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([playNumber, group]): BreakdownRow => {
+      const source =
+        group.find((c) => c.videoId === activeVideoId) ??
+        group.find((c) => Object.keys(c.breakdown ?? {}).length > 0) ??
+        group[0];
+      return {
+        playNumber,
+        clips: group,
+        values: source?.breakdown ?? {},
+        players: source?.players ?? [],
+      };
+    });
+}
+
+function formatValue(value: BreakdownValue | undefined): string {
+  return value === undefined ? "" : String(value);
+}
+
+interface BreakdownCellProps {
+  field: BreakdownFieldData;
+  value: BreakdownValue | undefined;
+  row: number;
+  col: number;
+  /** Datalist id with suggestions for this column */
+  listId?: string;
+  onCommit: (value: BreakdownValue | null) => Promise<void>;
+  onNavigate: (row: number, col: number) => void;
+}
+
+/** An editable cell. Saves on blur; Enter and the arrow keys move between plays. */
+function BreakdownCell({
+  field,
+  value,
+  row,
+  col,
+  listId,
+  onCommit,
+  onNavigate,
+}: BreakdownCellProps) {
+  const [draft, setDraft] = useState(formatValue(value));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  async function commit() {
+    const result = parseBreakdownValue(field, draft);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    if (formatValue(result.value ?? undefined) === formatValue(value)) {
+      setDraft(formatValue(value));
+      return;
+    }
+
+    setDraft(formatValue(result.value ?? undefined));
+    setIsSaving(true);
+    try {
+      await onCommit(result.value);
+    } catch (err) {
+      setError((err as { message?: string }).message || "Failed to save");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "Enter" || e.key === "ArrowDown") {
+      e.preventDefault();
+      onNavigate(e.shiftKey && e.key === "Enter" ? row - 1 : row + 1, col);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      onNavigate(row - 1, col);
+    } else if (e.key === "Escape") {
+      setDraft(formatValue(value));
+      setError(null);
+    }
+  }
+
+  return (
+    <input
+      data-cell={`${row}:${col}`}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+      list={listId}
+      inputMode={field.type === "NUMBER" ? "numeric" : undefined}
+      aria-label={field.label}
+      aria-invalid={error !== null}
+      title={error ?? undefined}
+      className={cn(
+        "h-7 bg-transparent px-1.5 outline-none focus:bg-background focus:ring-1 focus:ring-ring",
+        field.type === "NUMBER" ? "w-12 tabular-nums" : "w-24",
+        error && "ring-1 ring-destructive focus:ring-destructive",
+        isSaving && "text-muted-foreground",
+      )}
+    />
+  );
+}
+
+interface BreakdownPanelProps {
+  orgId: string;
+  clips: ClipData[];
+  activePlayNumber: number | null;
+  activeVideoId: string | null;
+  onPlaySelect: (playNumber: number) => void;
+  onClipUpdated: (clip: ClipData) => void;
+  isCoach: boolean;
+  className?: string;
+}
+
+/**
+ * Spreadsheet-style play-by-play breakdown: a row per play and a column
+ * per breakdown field. Coaches tab across a play and press Enter to move
+ * to the next one; moving to a play cues it up in the player.
+ */
+export function BreakdownPanel({
+  orgId,
+  clips,
+  activePlayNumber,
+  activeVideoId,
+  onPlaySelect,
+  onClipUpdated,
+  isCoach,
+  className,
+}: BreakdownPanelProps) {
+  const [fields, setFields] = useState<BreakdownFieldData[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [members, setMembers] = useState<PlayerOption[] | null>(null);
+  const tableRef = useRef<HTMLTableElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`${API_URL}/orgs/${orgId}/breakdown-fields`, {
+      credentials: "include",
+    })
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data: { fields: BreakdownFieldData[] }) => {
+        if (!cancelled) setFields(data.fields);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setFields([]);
+          setError("Failed to load breakdown columns");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orgId]);
+
+  // Roster for tagging players on plays; players are listed first
+  useEffect(() => {
+    if (!isCoach) return;
+    let cancelled = false;
+
+    authClient.organization
+      .listMembers({ query: { organizationId: orgId } })
+      .then((res) => {
+        if (cancelled) return;
+        setMembers(
+          (res.data?.members ?? [])
+            .map((member) => ({
+              id: member.id,
+              role: member.role,
+              name: member.user.name,
+            }))
+            .sort(
+              (a, b) =>
+                Number(isCoachRole(a.role)) - Number(isCoachRole(b.role)) ||
+                a.name.localeCompare(b.name),
+            ),
+        );
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orgId, isCoach]);
+
+  const rows = useMemo(
+    () => buildRows(clips, activeVideoId),
+    [clips, activeVideoId],
+  );
+
+  // Suggestions: list options, or values already typed in text columns
+  const suggestions = useMemo(() => {
+    const lists = new Map<string, string[]>();
+    for (const field of fields ?? []) {
+      if (field.type === "SELECT") {
+        lists.set(field.key, field.options);
+      } else if (field.type === "TEXT") {
+        const seen = new Set<string>();
+        for (const clip of clips) {
+          const value = clip.breakdown?.[field.key];
+          if (typeof value === "string") seen.add(value);
+        }
+        lists.set(field.key, [...seen].sort());
+      }
+    }
+    return lists;
+  }, [fields, clips]);
+
+  async function saveValue(
+    row: BreakdownRow,
+    field: BreakdownFieldData,
+    value: BreakdownValue | null,
+  ) {
+    const res = await fetch(`${API_URL}/orgs/${orgId}/clips/breakdown`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({
+        clipIds: row.clips.map((c) => c.id),
+        values: { [field.key]: value },
+      }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(
+        (err as { message?: string }).message || "Failed to save",
+      );
+    }
+
+    const data: { clips: { id: string; breakdown: BreakdownValues }[] } =
+      await res.json();
+    for (const updated of data.clips) {
+      const clip = row.clips.find((c) => c.id === updated.id);
+      if (clip) onClipUpdated({ ...clip, breakdown: updated.breakdown });
+    }
+  }
+
+  async function savePlayers(row: BreakdownRow, input: PlayPlayersInput) {
+    const res = await fetch(`${API_URL}/orgs/${orgId}/clips/players`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({
+        clipIds: row.clips.map((c) => c.id),
+        ...input,
+      }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(
+        (err as { message?: string }).message || "Failed to save",
+      );
+    }
+
+    const data: { clips: { id: string; players: ClipPlayerData[] }[] } =
+      await res.json();
+    for (const updated of data.clips) {
+      const clip = row.clips.find((c) => c.id === updated.id);
+      if (clip) onClipUpdated({ ...clip, players: updated.players });
+    }
+  }
+
+  function focusCell(row: number, col: number) {
+    tableRef.current
+      ?.querySelector<HTMLInputElement>(`[data-cell="${row}:${col}"]`)
+      ?.focus();
+  }
+
+  if (fields === null) {
+    return (
+      <div className="flex justify-center py-6">
+        <Spinner className="size-4" />
+      </div>
+    );
+  }
+
+  if (fields.length === 0) {
+    return (
+      <div className="px-3 pb-4 text-sm text-muted-foreground">
+        {error ??
+          (isCoach ? (
+            <>
+              No breakdown columns yet.{" "}
+              <Link
+                href="/settings/team"
+                className="underline hover:text-foreground"
+              >
+                Set them up in team settings
+              </Link>
+              .
+            </>
+          ) : (
+            "Your coaches haven't set up play breakdowns yet."
+          ))}
+      </div>
+    );
+  }
+
+  if (rows.length === 0) {
+    return (
+      <p className="px-3 pb-4 text-sm text-muted-foreground">
+        Mark plays to start breaking them down.
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn("overflow-auto", className)}>
+      <table ref={tableRef} className="w-max min-w-full text-xs">
+        <thead className="sticky top-0 z-10 bg-background">
+          <tr className="border-b">
+            <th className="sticky left-0 z-10 bg-background px-2 py-1.5 text-left font-medium text-muted-foreground">
+              #
+            </th>
+            {fields.map((field) => (
+              <th
+                key={field.id}
+                className="px-1.5 py-1.5 text-left font-medium text-muted-foreground whitespace-nowrap"
+              >
+                {field.label}
+              </th>
+            ))}
+            <th className="px-1.5 py-1.5 text-left font-medium text-muted-foreground whitespace-nowrap">
+              Players
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, rowIndex) => {
+            const isActive = row.playNumber === activePlayNumber;
+
+            return (
+              <tr
+                key={row.playNumber}
+                // Moving into a play's cells cues it up in the player
+                onFocus={() => {
+                  if (!isActive) onPlaySelect(row.playNumber);
+                }}
+                className={cn("border-b", isActive && "bg-accent")}
+              >
+                <td
+                  className={cn(
+                    "sticky left-0 px-2 tabular-nums",
+                    isActive ? "bg-accent font-medium" : "bg-background",
+                  )}
+                >
+                  <button
+                    type="button"
+                    tabIndex={-1}
+                    onClick={() => onPlaySelect(row.playNumber)}
+                    className="hover:underline"
+                  >
+                    {row.playNumber}
+                  </button>
+                </td>
+                {fields.map((field, colIndex) => {
+                  const value = row.values[field.key];
+
+                  return (
+                    <td key={field.id} className="border-l p-0">
+                      {isCoach ? (
+                        <BreakdownCell
+                          // Remount when a save lands so the draft picks it up
+                          key={formatValue(value)}
+                          field={field}
+                          value={value}
+                          row={rowIndex}
+                          col={colIndex}
+                          listId={
+                            suggestions.get(field.key)?.length
+                              ? `breakdown-${field.id}`
+                              : undefined
+                          }
+                          onCommit={(next) => saveValue(row, field, next)}
+                          onNavigate={focusCell}
+                        />
+                      ) : (
+                        <span className="block px-1.5 py-1.5 whitespace-nowrap">
+                          {formatValue(value) || "—"}
+                        </span>
+                      )}
+                    </td>
+                  );
+                })}
+                <td className="border-l p-0">
+                  <PlayPlayersPopover
+                    players={row.players}
+                    members={members}
+                    onSave={
+                      isCoach ? (input) => savePlayers(row, input) : undefined
+                    }
+                  />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {isCoach &&
+        fields.map((field) => {
+          const options = suggestions.get(field.key);
+          return options?.length ? (
+            <datalist key={field.id} id={`breakdown-${field.id}`}>
+              {options.map((option) => (
+                <option key={option} value={option} />
+              ))}
+            </datalist>
+          ) : null;
+        })}
+    </div>
+  );
+}
@@ -21,9 +21,29 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@repo/ui/components/alert-dialog";
-import { MoreHorizontal, Pencil, Trash2, Scissors } from "lucide-react";
+import {
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  Scissors,
+  Sparkles,
+  Check,
+  X,
+  Download,
+  Film,
+  ListPlus,
+  UserPlus,
+} from "lucide-react";
 import { clientEnv } from "@repo/env/web";
+import { isPendingAiClip } from "@repo/types";
+import type {
+  BreakdownValues,
+  ClipPlayerData,
+  RenderStatusValue,
+} from "@repo/types";
 import { ClipEditDialog } from "./clip-edit-dialog";
+import { AddToPlaylistDialog } from "./add-to-playlist-dialog";
+import { AssignFilmDialog } from "../../assignments/assign-film-dialog";
 
 const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
 
@@ -37,6 +57,12 @@ export interface ClipData {
   thumbnailUrl: string | null;
   labels: string[];
   metadata?: Record<string, unknown>;
+  /** Play-by-play breakdown values keyed by breakdown column key */
+  breakdown?: BreakdownValues;
+  /** Org members tagged on the play, with their role in it */
+  players?: ClipPlayerData[];
+  /** State of the clip's standalone file render (null if never rendered) */
+  renderStatus?: RenderStatusValue | null;
   createdAt?: string;
 }
 
@@ -45,6 +71,13 @@ interface PlayGroup {
   variants: ClipData[];
 }
 
+/** Confidence of an AI clip as a whole percentage, or null for manual clips */
+function aiConfidence(clip: ClipData): number | null {
+  if (clip.metadata?.source !== "ai") return null;
+  const confidence = clip.metadata.confidence;
+  return typeof confidence === "number" ? Math.round(confidence * 100) : null;
+}
+
 function formatTime(seconds: number): string {
   if (!Number.isFinite(seconds) || seconds < 0) return "0:00";
   const m = Math.floor(seconds / 60);
@@ -76,13 +109,26 @@ export function ClipList({
   className,
 }: ClipListProps) {
   const [editClip, setEditClip] = useState<ClipData | null>(null);
+  const [playlistClip, setPlaylistClip] = useState<ClipData | null>(null);
+  const [assignClip, setAssignClip] = useState<ClipData | null>(null);
   const [deletePlayNumber, setDeletePlayNumber] = useState<number | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+
+  // Pending AI suggestions are only shown to coaches, who review them
+  const visibleClips = useMemo(
+    () => (isCoach ? clips : clips.filter((c) => !isPendingAiClip(c.metadata))),
+    [clips, isCoach],
+  );
+  const pendingClipIds = useMemo(
+    () => clips.filter((c) => isPendingAiClip(c.metadata)).map((c) => c.id),
+    [clips],
+  );
 
   // Group clips by playNumber
   const plays: PlayGroup[] = useMemo(() => {
     const map = new Map<number, ClipData[]>();
-    for (const clip of clips) {
+    for (const clip of visibleClips) {
       const arr = map.get(clip.playNumber) ?? [];
       arr.push(clip);
       map.set(clip.playNumber, arr);
@@ -90,9 +136,9 @@ export function ClipList({
     return Array.from(map.entries())
       .sort(([a], [b]) => a - b)
       .map(([playNumber, variants]) => ({ playNumber, variants }));
-  }, [clips]);
+  }, [visibleClips]);
 
-  if (clips.length === 0) {
+  if (visibleClips.length === 0) {
     return (
       <div
         className={cn(
@@ -144,8 +190,95 @@ export function ClipList({
     }
   }
 
+  async function handleReviewSuggestions(
+    action: "accept" | "reject",
+    clipIds: string[],
+  ) {
+    if (!orgId || clipIds.length === 0) return;
+    setReviewing(true);
+    try {
+      const res = await fetch(
+        `${API_URL}/orgs/${orgId}/clips/suggestions/${action}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ clipIds }),
+        },
+      );
+      if (!res.ok) throw new Error(`Failed to ${action} suggestions`);
+      const data = await res.json();
+      if (action === "accept") {
+        for (const clip of data.clips as ClipData[]) onClipUpdated?.(clip);
+      } else {
+        for (const clipId of data.deleted as string[]) onClipDeleted?.(clipId);
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setReviewing(false);
+    }
+  }
+
+  async function handleRender(clip: ClipData) {
+    if (!orgId) return;
+    const res = await fetch(`${API_URL}/orgs/${orgId}/clips/${clip.id}/render`, {
+      method: "POST",
+      credentials: "include",
+    });
+    if (res.ok) {
+      onClipUpdated?.({ ...clip, renderStatus: "QUEUED" });
+    } else {
+      console.error(`Failed to queue render for clip ${clip.id}`);
+    }
+  }
+
+  async function handleDownload(clip: ClipData) {
+    if (!orgId) return;
+    const res = await fetch(
+      `${API_URL}/orgs/${orgId}/clips/${clip.id}/download`,
+      { credentials: "include" },
+    );
+    if (!res.ok) {
+      console.error(`Failed to get download link for clip ${clip.id}`);
+      return;
+    }
+    const { url } = await res.json();
+    // Presigned URL is served as an attachment, so this downloads in place
+    window.location.href = url;
+  }
+
   return (
     <>
+      {isCoach && orgId && pendingClipIds.length > 0 && (
+        <div className="flex items-center gap-2 mx-1 mt-1 rounded-md border border-dashed px-2 py-1.5">
+          <Sparkles className="size-3.5 shrink-0 text-primary" />
+          <span className="flex-1 text-xs text-muted-foreground">
+            {pendingClipIds.length} suggested{" "}
+            {pendingClipIds.length === 1 ? "clip" : "clips"}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            disabled={reviewing}
+            onClick={() => handleReviewSuggestions("accept", pendingClipIds)}
+          >
+            <Check className="size-3 mr-1" />
+            Accept all
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            disabled={reviewing}
+            onClick={() => handleReviewSuggestions("reject", pendingClipIds)}
+          >
+            <X className="size-3 mr-1" />
+            Reject all
+          </Button>
+        </div>
+      )}
       <ScrollArea className={cn("", className)}>
         <div className="flex flex-col gap-0.5 p-1">
           {plays.map((play) => {
@@ -158,6 +291,15 @@ export function ClipList({
             const maxLabelsShown = 3;
             const shownLabels = displayVariant.labels.slice(0, maxLabelsShown);
             const overflowCount = displayVariant.labels.length - maxLabelsShown;
+            const confidence = aiConfidence(displayVariant);
+            const pendingVariantIds = play.variants
+              .filter((v) => isPendingAiClip(v.metadata))
+              .map((v) => v.id);
+            const isSuggestion = pendingVariantIds.length > 0;
+            const isRendering =
+              displayVariant.renderStatus === "QUEUED" ||
+              displayVariant.renderStatus === "RENDERING";
+            const isRendered = displayVariant.renderStatus === "COMPLETED";
 
             return (
               <div
@@ -165,6 +307,7 @@ export function ClipList({
                 className={cn(
                   "flex items-center gap-2 rounded-md px-2 py-1.5 text-sm transition-colors cursor-pointer",
                   "hover:bg-accent",
+                  isSuggestion && "border border-dashed opacity-80",
                   isActive && "bg-accent ring-1 ring-primary/50",
                 )}
                 onClick={() => onPlaySelect(play.playNumber)}
@@ -200,6 +343,23 @@ export function ClipList({
                     </Badge>
                   </div>
                   <div className="flex items-center gap-1 mt-1 flex-wrap">
+                    {confidence !== null && (
+                      <Badge
+                        variant={isSuggestion ? "outline" : "secondary"}
+                        className="text-[10px] py-0 px-1.5 h-4 gap-0.5"
+                      >
+                        <Sparkles className="size-2.5" />
+                        AI {confidence}%
+                      </Badge>
+                    )}
+                    {isRendering && (
+                      <Badge
+                        variant="outline"
+                        className="text-[10px] py-0 px-1.5 h-4"
+                      >
+                        Rendering…
+                      </Badge>
+                    )}
                     {play.variants.length > 1 && (
                       <Badge
                         variant="secondary"
@@ -225,6 +385,22 @@ export function ClipList({
                   </div>
                 </div>
 
+                {/* Download rendered clip file */}
+                {isRendered && orgId && (
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    className="shrink-0"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDownload(displayVariant);
+                    }}
+                  >
+                    <Download className="size-3.5" />
+                    <span className="sr-only">Download play</span>
+                  </Button>
+                )}
+
                 {/* Coach actions */}
                 {isCoach && orgId && (
                   <DropdownMenu>
@@ -240,6 +416,30 @@ export function ClipList({
                       </Button>
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end">
+                      {isSuggestion && (
+                        <>
+                          <DropdownMenuItem
+                            disabled={reviewing}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleReviewSuggestions("accept", pendingVariantIds);
+                            }}
+                          >
+                            <Check className="size-3.5 mr-2" />
+                            Accept
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            disabled={reviewing}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleReviewSuggestions("reject", pendingVariantIds);
+                            }}
+                          >
+                            <X className="size-3.5 mr-2" />
+                            Reject
+                          </DropdownMenuItem>
+                        </>
+                      )}
                       <DropdownMenuItem
                         onClick={(e) => {
                           e.stopPropagation();
@@ -249,6 +449,34 @@ export function ClipList({
                         <Pencil className="size-3.5 mr-2" />
                         Edit
                       </DropdownMenuItem>
+                      <DropdownMenuItem
+                        disabled={isRendering}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRender(displayVariant);
+                        }}
+                      >
+                        <Film className="size-3.5 mr-2" />
+                        {isRendered ? "Re-render file" : "Render file"}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setPlaylistClip(displayVariant);
+                        }}
+                      >
+                        <ListPlus className="size-3.5 mr-2" />
+                        Add to playlist
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setAssignClip(displayVariant);
+                        }}
+                      >
+                        <UserPlus className="size-3.5 mr-2" />
+                        Assign to players
+                      </DropdownMenuItem>
                       <DropdownMenuItem
                         className="text-destructive"
                         onClick={(e) => {
@@ -281,6 +509,33 @@ export function ClipList({
         />
       )}
 
+      {/* Add to playlist dialog */}
+      {playlistClip && orgId && (
+        <AddToPlaylistDialog
+          open={!!playlistClip}
+          onOpenChange={(open) => {
+            if (!open) setPlaylistClip(null);
+          }}
+          clip={playlistClip}
+          orgId={orgId}
+        />
+      )}
+
+      {/* Assign dialog */}
+      {assignClip && orgId && (
+        <AssignFilmDialog
+          open={!!assignClip}
+          onOpenChange={(open) => {
+            if (!open) setAssignClip(null);
+          }}
+          orgId={orgId}
+          target={{
+            clipId: assignClip.id,
+            label: assignClip.title || `Play ${assignClip.playNumber}`,
+          }}
+        />
+      )}
+
       {/* Delete confirmation — deletes ALL variants for the play */}
       <AlertDialog
         open={deletePlayNumber !== null}
@@ -0,0 +1,810 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  commentSchema,
+  isCoachRole,
+  type AnnotationData,
+  type CommentData,
+  type CommentThreadData,
+} from "@repo/types";
+import { authClient } from "@repo/auth/client";
+import { cn } from "@repo/ui/lib/utils";
+import { Button } from "@repo/ui/components/button";
+import { ScrollArea } from "@repo/ui/components/scroll-area";
+import { Spinner } from "@repo/ui/components/spinner";
+import { Textarea } from "@repo/ui/components/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@repo/ui/components/select";
+import {
+  Clock,
+  Diamond,
+  Film,
+  MessageSquare,
+  Pencil,
+  Reply,
+  Send,
+  Trash2,
+  X,
+} from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+import type { ClipData } from "./clip-list";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+/** Most @mention suggestions shown at once */
+const MAX_SUGGESTIONS = 5;
+
+interface MemberOption {
+  id: string;
+  name: string;
+}
+
+type NewThreadTarget = "moment" | "clip" | "annotation";
+
+function formatTimestamp(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return "0:00";
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+function formatRelative(dateStr: string): string {
+  const diffMins = Math.floor(
+    (Date.now() - new Date(dateStr).getTime()) / 60000,
+  );
+  if (diffMins < 1) return "just now";
+  if (diffMins < 60) return `${diffMins}m ago`;
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** The `@query` being typed just before the caret, if any */
+function getMentionQuery(text: string, caret: number): string | null {
+  const match = /(?:^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  return match ? match[1]! : null;
+}
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const err = await res.json().catch(() => ({}));
+  return (err as { message?: string }).message || fallback;
+}
+
+// ---------------------------------------------------------------------------
+// Comment body — highlights @mentions
+// ---------------------------------------------------------------------------
+
+function CommentBody({ comment }: { comment: CommentData }) {
+  if (comment.mentions.length === 0) {
+    return <>{comment.body}</>;
+  }
+
+  const names = comment.mentions
+    .map((m) => m.name)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  const parts = comment.body.split(new RegExp(`(@(?:${names.join("|")}))`));
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <span key={index} className="font-medium text-primary">
+            {part}
+          </span>
+        ) : (
+          part
+        ),
+      )}
+    </>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Composer — textarea with @mention autocomplete
+// ---------------------------------------------------------------------------
+
+interface CommentComposerProps {
+  members: MemberOption[];
+  placeholder: string;
+  submitLabel: string;
+  initialBody?: string;
+  initialMentions?: MemberOption[];
+  autoFocus?: boolean;
+  /** Extra controls shown beside the submit button */
+  children?: React.ReactNode;
+  onSubmit: (body: string, mentionedMemberIds: string[]) => Promise<void>;
+  onCancel?: () => void;
+}
+
+function CommentComposer({
+  members,
+  placeholder,
+  submitLabel,
+  initialBody = "",
+  initialMentions = [],
+  autoFocus,
+  children,
+  onSubmit,
+  onCancel,
+}: CommentComposerProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [body, setBody] = useState(initialBody);
+  const [mentioned, setMentioned] = useState<MemberOption[]>(initialMentions);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const suggestions = useMemo(() => {
+    if (mentionQuery === null) return [];
+    const query = mentionQuery.toLowerCase();
+    return members
+      .filter((m) =>
+        m.name
+          .toLowerCase()
+          .split(/\s+/)
+          .some((word) => word.startsWith(query)),
+      )
+      .slice(0, MAX_SUGGESTIONS);
+  }, [members, mentionQuery]);
+
+  function updateMentionQuery(text: string, caret: number) {
+    setMentionQuery(getMentionQuery(text, caret));
+    setHighlighted(0);
+  }
+
+  function insertMention(member: MemberOption) {
+    const textarea = textareaRef.current;
+    if (!textarea || mentionQuery === null) return;
+
+    const caret = textarea.selectionStart;
+    const start = caret - mentionQuery.length - 1;
+    const inserted = `@${member.name} `;
+    const next = body.slice(0, start) + inserted + body.slice(caret);
+    setBody(next);
+    setMentioned((prev) =>
+      prev.some((m) => m.id === member.id) ? prev : [...prev, member],
+    );
+    setMentionQuery(null);
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(
+        start + inserted.length,
+        start + inserted.length,
+      );
+    });
+  }
+
+  async function handleSubmit() {
+    const parsed = commentSchema.safeParse({ body });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? "Invalid comment");
+      return;
+    }
+
+    // Only keep mentions whose @Name is still in the text
+    const text = parsed.data.body;
+    const mentionedMemberIds = mentioned
+      .filter((m) => text.includes(`@${m.name}`))
+      .map((m) => m.id);
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(text, mentionedMemberIds);
+      setBody("");
+      setMentioned([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save comment");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLTextAreaElement>) {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setHighlighted(
+          (i) => (i + step + suggestions.length) % suggestions.length,
+        );
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertMention(suggestions[highlighted]!);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === "Escape" && onCancel) {
+      e.preventDefault();
+      onCancel();
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={body}
+          placeholder={placeholder}
+          autoFocus={autoFocus}
+          className="min-h-14 text-sm resize-none"
+          onChange={(e) => {
+            setBody(e.target.value);
+            updateMentionQuery(e.target.value, e.target.selectionStart);
+          }}
+          onClick={(e) =>
+            updateMentionQuery(
+              e.currentTarget.value,
+              e.currentTarget.selectionStart,
+            )
+          }
+          onBlur={() => setMentionQuery(null)}
+          onKeyDown={handleKeyDown}
+        />
+
+        {/* @mention suggestions */}
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 right-0 top-full z-20 mt-1 rounded-md border bg-popover p-1 shadow-md">
+            {suggestions.map((member, index) => (
+              <button
+                key={member.id}
+                type="button"
+                className={cn(
+                  "flex w-full items-center rounded-sm px-2 py-1 text-left text-sm",
+                  index === highlighted && "bg-accent",
+                )}
+                // Keep focus in the textarea so the caret position is known
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(member);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+              >
+                {member.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      <div className="flex items-center gap-1.5">
+        {children}
+        <div className="flex-1" />
+        {onCancel && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+        )}
+        <Button
+          size="sm"
+          className="h-7"
+          onClick={handleSubmit}
+          disabled={isSubmitting || body.trim().length === 0}
+        >
+          {isSubmitting ? (
+            <Spinner className="size-3.5 mr-1.5" />
+          ) : (
+            <Send className="size-3.5 mr-1.5" />
+          )}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Single comment row
+// ---------------------------------------------------------------------------
+
+interface CommentItemProps {
+  comment: CommentData;
+  members: MemberOption[];
+  userId: string;
+  isCoach: boolean;
+  onReply?: () => void;
+  onEdit: (body: string, mentionedMemberIds: string[]) => Promise<void>;
+  onDelete: () => void;
+}
+
+function CommentItem({
+  comment,
+  members,
+  userId,
+  isCoach,
+  onReply,
+  onEdit,
+  onDelete,
+}: CommentItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  // Same rule as the API: authors edit, authors and coaches delete
+  const isOwn = comment.authorId === userId;
+  const canDelete = isOwn || isCoach;
+
+  if (isEditing) {
+    return (
+      <div onClick={(e) => e.stopPropagation()}>
+        <CommentComposer
+          members={members}
+          placeholder="Edit comment"
+          submitLabel="Save"
+          initialBody={comment.body}
+          initialMentions={comment.mentions.map((m) => ({
+            id: m.memberId,
+            name: m.name,
+          }))}
+          autoFocus
+          onSubmit={async (body, mentionedMemberIds) => {
+            await onEdit(body, mentionedMemberIds);
+            setIsEditing(false);
+          }}
+          onCancel={() => setIsEditing(false)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="group/comment flex flex-col gap-0.5">
+      <div className="flex items-center gap-1.5 text-xs">
+        <span className="font-medium truncate">
+          {isOwn ? "You" : (comment.authorName ?? "Unknown")}
+        </span>
+        <span className="text-muted-foreground shrink-0">
+          {formatRelative(comment.createdAt)}
+          {comment.editedAt && " · edited"}
+        </span>
+        <div className="flex-1" />
+        <div className="flex items-center opacity-0 group-hover/comment:opacity-100 focus-within:opacity-100 transition-opacity">
+          {onReply && (
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              className="size-6"
+              onClick={(e) => {
+                e.stopPropagation();
+                onReply();
+              }}
+              aria-label="Reply"
+            >
+              <Reply className="size-3" />
+            </Button>
+          )}
+          {isOwn && (
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              className="size-6"
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsEditing(true);
+              }}
+              aria-label="Edit comment"
+            >
+              <Pencil className="size-3" />
+            </Button>
+          )}
+          {canDelete && (
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              className="size-6"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete();
+              }}
+              aria-label="Delete comment"
+            >
+              <Trash2 className="size-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className="text-sm whitespace-pre-wrap break-words">
+        <CommentBody comment={comment} />
+      </p>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Panel
+// ---------------------------------------------------------------------------
+
+interface CommentPanelProps {
+  orgId: string;
+  /** Footage file the comments belong to */
+  videoId: string;
+  /** Clips for the current game (labels "Play N" targets) */
+  clips: ClipData[];
+  /** Annotations on the current video (labels annotation targets) */
+  annotations: AnnotationData[];
+  /** Play being watched, offered as a comment target */
+  activeClipId?: string | null;
+  /** Annotation on screen, offered as a comment target */
+  activeAnnotationId?: string | null;
+  /** Current playback position, used for new video-moment comments */
+  getCurrentTime: () => number;
+  /** Called when a comment is clicked (seek to its timestamp) */
+  onSeek: (timestamp: number) => void;
+  role: string;
+  userId: string;
+  className?: string;
+}
+
+/** Threaded discussion on the current video, its plays and annotations. */
+export function CommentPanel({
+  orgId,
+  videoId,
+  clips,
+  annotations,
+  activeClipId,
+  activeAnnotationId,
+  getCurrentTime,
+  onSeek,
+  role,
+  userId,
+  className,
+}: CommentPanelProps) {
+  const isCoach = isCoachRole(role);
+  const [threads, setThreads] = useState<CommentThreadData[] | null>(null);
+  const [members, setMembers] = useState<MemberOption[]>([]);
+  const [target, setTarget] = useState<NewThreadTarget>("moment");
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeClip = clips.find((c) => c.id === activeClipId) ?? null;
+  const activeAnnotation =
+    annotations.find((a) => a.id === activeAnnotationId) ?? null;
+
+  // Fall back to the video moment when the chosen target goes away
+  const effectiveTarget: NewThreadTarget =
+    (target === "clip" && !activeClip) ||
+    (target === "annotation" && !activeAnnotation)
+      ? "moment"
+      : target;
+
+  useEffect(() => {
+    let cancelled = false;
+    setThreads(null);
+    setReplyingTo(null);
+
+    fetch(
+      `${API_URL}/orgs/${orgId}/comments?${new URLSearchParams({ videoId })}`,
+      { credentials: "include" },
+    )
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data: { threads: CommentThreadData[] }) => {
+        if (!cancelled) setThreads(data.threads);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setThreads([]);
+          setError("Failed to load comments");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orgId, videoId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    authClient.organization
+      .listMembers({ query: { organizationId: orgId } })
+      .then((res) => {
+        if (cancelled) return;
+        setMembers(
+          (res.data?.members ?? [])
+            .map((member) => ({ id: member.id, name: member.user.name }))
+            .sort((a, b) => a.name.localeCompare(b.name)),
+        );
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orgId]);
+
+  function getTargetLabel(comment: CommentData): string {
+    if (comment.kind === "CLIP") {
+      const clip = clips.find((c) => c.id === comment.clipId);
+      return clip ? clip.title || `Play ${clip.playNumber}` : "Play";
+    }
+    return formatTimestamp(comment.timestamp);
+  }
+
+  async function createComment(
+    payload: Record<string, unknown>,
+  ): Promise<CommentData> {
+    const res = await fetch(`${API_URL}/orgs/${orgId}/comments`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(payload),
+    });
+    if (!res.ok) {
+      throw new Error(await readError(res, "Failed to post comment"));
+    }
+    const data = await res.json();
+    return data.comment;
+  }
+
+  async function handleCreateThread(
+    body: string,
+    mentionedMemberIds: string[],
+  ) {
+    const targetFields =
+      effectiveTarget === "clip"
+        ? { clipId: activeClip!.id }
+        : effectiveTarget === "annotation"
+          ? { annotationId: activeAnnotation!.id }
+          : {
+              videoId,
+              timestamp: Math.round(getCurrentTime() * 10) / 10,
+            };
+
+    const comment = await createComment({
+      ...targetFields,
+      body,
+      mentionedMemberIds,
+    });
+    setThreads((prev) =>
+      [...(prev ?? []), { ...comment, replies: [] }].sort(
+        (a, b) => a.timestamp - b.timestamp,
+      ),
+    );
+  }
+
+  async function handleReply(
+    threadId: string,
+    body: string,
+    mentionedMemberIds: string[],
+  ) {
+    const comment = await createComment({
+      parentId: threadId,
+      body,
+      mentionedMemberIds,
+    });
+    setThreads((prev) =>
+      (prev ?? []).map((thread) =>
+        thread.id === threadId
+          ? { ...thread, replies: [...thread.replies, comment] }
+          : thread,
+      ),
+    );
+    setReplyingTo(null);
+  }
+
+  async function handleEdit(
+    commentId: string,
+    body: string,
+    mentionedMemberIds: string[],
+  ) {
+    const res = await fetch(`${API_URL}/orgs/${orgId}/comments/${commentId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ body, mentionedMemberIds }),
+    });
+    if (!res.ok) {
+      throw new Error(await readError(res, "Failed to edit comment"));
+    }
+    const { comment } = (await res.json()) as { comment: CommentData };
+
+    setThreads((prev) =>
+      (prev ?? []).map((thread) =>
+        thread.id === comment.id
+          ? { ...comment, replies: thread.replies }
+          : {
+              ...thread,
+              replies: thread.replies.map((reply) =>
+                reply.id === comment.id ? comment : reply,
+              ),
+            },
+      ),
+    );
+  }
+
+  async function handleDelete(commentId: string) {
+    setError(null);
+    const res = await fetch(`${API_URL}/orgs/${orgId}/comments/${commentId}`, {
+      method: "DELETE",
+      credentials: "include",
+    });
+    if (!res.ok) {
+      setError(await readError(res, "Failed to delete comment"));
+      return;
+    }
+
+    // Deleting a thread's first comment removes the whole thread
+    setThreads((prev) =>
+      (prev ?? [])
+        .filter((thread) => thread.id !== commentId)
+        .map((thread) => ({
+          ...thread,
+          replies: thread.replies.filter((reply) => reply.id !== commentId),
+        })),
+    );
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-2 px-3 pb-3", className)}>
+      {error && (
+        <div className="flex items-center gap-2 rounded-md bg-destructive/10 px-2 py-1.5 text-xs text-destructive">
+          <span className="flex-1">{error}</span>
+          <button type="button" onClick={() => setError(null)}>
+            <X className="size-3" />
+          </button>
+        </div>
+      )}
+
+      {threads === null ? (
+        <div className="flex items-center justify-center py-6">
+          <Spinner className="size-4" />
+        </div>
+      ) : threads.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-4 gap-2 text-muted-foreground">
+          <MessageSquare className="size-5" />
+          <p className="text-sm">No comments yet</p>
+        </div>
+      ) : (
+        <ScrollArea className="max-h-[30vh]">
+          <div className="flex flex-col gap-1 pr-2">
+            {threads.map((thread) => {
+              const TargetIcon =
+                thread.kind === "ANNOTATION"
+                  ? Diamond
+                  : thread.kind === "CLIP"
+                    ? Film
+                    : Clock;
+
+              return (
+                <div
+                  key={thread.id}
+                  className="flex flex-col gap-2 rounded-md px-2 py-1.5 transition-colors cursor-pointer hover:bg-accent"
+                  onClick={() => onSeek(thread.timestamp)}
+                  role="button"
+                  tabIndex={0}
+                  onKeyDown={(e) => {
+                    if (e.target !== e.currentTarget) return;
+                    if (e.key === "Enter" || e.key === " ") {
+                      e.preventDefault();
+                      onSeek(thread.timestamp);
+                    }
+                  }}
+                >
+                  {/* What the thread is about */}
+                  <span className="inline-flex items-center gap-1 font-mono text-xs tabular-nums text-muted-foreground">
+                    <TargetIcon
+                      className={cn(
+                        "size-3",
+                        thread.kind === "ANNOTATION" &&
+                          "text-amber-400 fill-amber-400",
+                      )}
+                    />
+                    {getTargetLabel(thread)}
+                  </span>
+
+                  <CommentItem
+                    comment={thread}
+                    members={members}
+                    userId={userId}
+                    isCoach={isCoach}
+                    onReply={() => setReplyingTo(thread.id)}
+                    onEdit={(body, mentionIds) =>
+                      handleEdit(thread.id, body, mentionIds)
+                    }
+                    onDelete={() => handleDelete(thread.id)}
+                  />
+
+                  {/* Replies */}
+                  {(thread.replies.length > 0 || replyingTo === thread.id) && (
+                    <div
+                      className="ml-2 flex flex-col gap-2 border-l pl-2"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      {thread.replies.map((reply) => (
+                        <CommentItem
+                          key={reply.id}
+                          comment={reply}
+                          members={members}
+                          userId={userId}
+                          isCoach={isCoach}
+                          onEdit={(body, mentionIds) =>
+                            handleEdit(reply.id, body, mentionIds)
+                          }
+                          onDelete={() => handleDelete(reply.id)}
+                        />
+                      ))}
+                      {replyingTo === thread.id && (
+                        <CommentComposer
+                          members={members}
+                          placeholder="Reply… (@ to mention)"
+                          submitLabel="Reply"
+                          autoFocus
+                          onSubmit={(body, mentionIds) =>
+                            handleReply(thread.id, body, mentionIds)
+                          }
+                          onCancel={() => setReplyingTo(null)}
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+
+      {/* New thread */}
+      <CommentComposer
+        members={members}
+        placeholder="Add a comment… (@ to mention)"
+        submitLabel="Comment"
+        onSubmit={handleCreateThread}
+      >
+        <Select
+          value={effectiveTarget}
+          onValueChange={(value) => setTarget(value as NewThreadTarget)}
+        >
+          <SelectTrigger size="sm" className="h-7 w-auto gap-1.5 text-xs px-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent align="start">
+            <SelectItem value="moment">This moment</SelectItem>
+            {activeClip && (
+              <SelectItem value="clip">
+                {activeClip.title || `Play ${activeClip.playNumber}`}
+              </SelectItem>
+            )}
+            {activeAnnotation && (
+              <SelectItem value="annotation">
+                Annotation at {formatTimestamp(activeAnnotation.timestamp)}
+              </SelectItem>
+            )}
+          </SelectContent>
+        </Select>
+      </CommentComposer>
+    </div>
+  );
+}
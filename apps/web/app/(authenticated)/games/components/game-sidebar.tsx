@@ -29,9 +29,13 @@ import {
   Video,
   PlayCircle,
   Upload,
+  Download,
 } from "lucide-react";
 import { ClipList } from "./clip-list";
+import { BreakdownPanel } from "./breakdown-panel";
 import { AnnotationList } from "./annotation-list";
+import { AnnotationExportDialog } from "./annotation-export-dialog";
+import { CommentPanel } from "./comment-panel";
 import type { ClipData } from "./clip-list";
 import type { VideoData } from "./video-player";
 import type { AnnotationData } from "@repo/types";
@@ -150,8 +154,20 @@ interface GameSidebarProps {
   onDeleteAnnotation?: (annotationId: string) => void;
   /** Called when an annotation is clicked (seek to timestamp) */
   onAnnotationSeek?: (timestamp: number) => void;
+  /** Called when an annotation should be opened for editing */
+  onEditAnnotation?: (annotation: AnnotationData) => void;
+  /** Called when an annotation is replaced (e.g. a version was restored) */
+  onAnnotationUpdated?: (annotation: AnnotationData) => void;
   /** Current user ID (for delete permission checks) */
   userId?: string;
+  /** Clip being played, offered as a comment target */
+  activeClipId?: string | null;
+  /** Annotation on screen, offered as a comment target */
+  activeAnnotationId?: string | null;
+  /** Current playback position (for new comments on the video) */
+  getCurrentTime?: () => number;
+  /** Called when a comment is clicked (seek to its timestamp) */
+  onCommentSeek?: (timestamp: number) => void;
   className?: string;
 }
 
@@ -171,7 +187,13 @@ export function GameSidebar({
   annotations,
   onDeleteAnnotation,
   onAnnotationSeek,
+  onEditAnnotation,
+  onAnnotationUpdated,
   userId,
+  activeClipId,
+  activeAnnotationId,
+  getCurrentTime,
+  onCommentSeek,
   className,
 }: GameSidebarProps) {
   const isCoach = isCoachRole(role);
@@ -179,9 +201,12 @@ export function GameSidebar({
   const [gamesOpen, setGamesOpen] = useState(true);
   const [footageOpen, setFootageOpen] = useState(true);
   const [clipsOpen, setClipsOpen] = useState(clips.length > 0);
+  const [breakdownOpen, setBreakdownOpen] = useState(false);
   const [annotationsOpen, setAnnotationsOpen] = useState(
     (annotations?.length ?? 0) > 0,
   );
+  const [commentsOpen, setCommentsOpen] = useState(true);
+  const [exportOpen, setExportOpen] = useState(false);
 
   // Auto-open annotations section when annotations are added
   const prevAnnotationCount = useRef(annotations?.length ?? 0);
@@ -348,6 +373,40 @@ export function GameSidebar({
 
       <Separator />
 
+      {/* Breakdown section — play-by-play data (down, distance, result...) */}
+      <Collapsible
+        open={breakdownOpen}
+        onOpenChange={setBreakdownOpen}
+        className="shrink-0"
+      >
+        <div className="flex items-center justify-between px-3 py-2">
+          <CollapsibleTrigger className="flex items-center gap-1.5 text-sm font-medium hover:text-foreground transition-colors">
+            <ChevronDown
+              className={cn(
+                "size-3.5 transition-transform",
+                !breakdownOpen && "-rotate-90",
+              )}
+            />
+            Breakdown
+          </CollapsibleTrigger>
+        </div>
+
+        <CollapsibleContent>
+          <BreakdownPanel
+            orgId={orgId}
+            clips={clips}
+            activePlayNumber={activePlayNumber}
+            activeVideoId={activeVideoId}
+            onPlaySelect={onPlaySelect}
+            onClipUpdated={onClipUpdated}
+            isCoach={isCoach}
+            className="max-h-[30vh]"
+          />
+        </CollapsibleContent>
+      </Collapsible>
+
+      <Separator />
+
       {/* Annotations section */}
       {annotations && onDeleteAnnotation && onAnnotationSeek && userId && (
         <>
@@ -372,6 +431,18 @@ export function GameSidebar({
                   {annotations.length}
                 </Badge>
               </CollapsibleTrigger>
+
+              {annotations.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => setExportOpen(true)}
+                  aria-label="Export annotations"
+                  title="Export as PNG or PDF"
+                >
+                  <Download className="size-3.5" />
+                </Button>
+              )}
             </div>
 
             <CollapsibleContent>
@@ -379,6 +450,9 @@ export function GameSidebar({
                 annotations={annotations}
                 onDelete={onDeleteAnnotation}
                 onSeek={onAnnotationSeek}
+                onEdit={onEditAnnotation}
+                onAnnotationUpdated={onAnnotationUpdated}
+                orgId={orgId}
                 role={role}
                 userId={userId}
                 className="max-h-[30vh]"
@@ -386,6 +460,57 @@ export function GameSidebar({
             </CollapsibleContent>
           </Collapsible>
 
+          <AnnotationExportDialog
+            open={exportOpen}
+            onOpenChange={setExportOpen}
+            orgId={orgId}
+            gameTitle={
+              allGames.find((g) => g.id === currentGameId)?.title ?? "Game"
+            }
+            annotations={annotations}
+            clips={clips}
+          />
+
+          <Separator />
+        </>
+      )}
+
+      {/* Comments section — discussion on the active footage file */}
+      {activeVideoId && userId && getCurrentTime && onCommentSeek && (
+        <>
+          <Collapsible
+            open={commentsOpen}
+            onOpenChange={setCommentsOpen}
+            className="shrink-0"
+          >
+            <div className="flex items-center justify-between px-3 py-2">
+              <CollapsibleTrigger className="flex items-center gap-1.5 text-sm font-medium hover:text-foreground transition-colors">
+                <ChevronDown
+                  className={cn(
+                    "size-3.5 transition-transform",
+                    !commentsOpen && "-rotate-90",
+                  )}
+                />
+                Comments
+              </CollapsibleTrigger>
+            </div>
+
+            <CollapsibleContent>
+              <CommentPanel
+                orgId={orgId}
+                videoId={activeVideoId}
+                clips={clips}
+                annotations={annotations ?? []}
+                activeClipId={activeClipId}
+                activeAnnotationId={activeAnnotationId}
+                getCurrentTime={getCurrentTime}
+                onSeek={onCommentSeek}
+                role={role}
+                userId={userId}
+              />
+            </CollapsibleContent>
+          </Collapsible>
+
           <Separator />
         </>
       )}
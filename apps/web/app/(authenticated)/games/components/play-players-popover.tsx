@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import {
+  CLIP_PLAYER_ROLE_LABELS,
+  type ClipPlayerData,
+  type ClipPlayerRole,
+  type ClipPlayersRequest,
+} from "@repo/types";
+import { cn } from "@repo/ui/lib/utils";
+import { Button } from "@repo/ui/components/button";
+import { Checkbox } from "@repo/ui/components/checkbox";
+import { ScrollArea } from "@repo/ui/components/scroll-area";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@repo/ui/components/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@repo/ui/components/select";
+import { Spinner } from "@repo/ui/components/spinner";
+
+export interface PlayerOption {
+  id: string;
+  name: string;
+}
+
+export type PlayPlayersInput = Omit<ClipPlayersRequest, "clipIds">;
+
+/** Roles a member can be given in the editor, one each */
+const ROLE_CHOICES: ClipPlayerRole[] = [
+  "PARTICIPANT",
+  "BALL_CARRIER",
+  "TARGET",
+  "TACKLER",
+];
+
+/** Each tagged member's role, the specific one when they have two */
+function rolesByMember(players: ClipPlayerData[]) {
+  const roles = new Map<string, ClipPlayerRole>();
+  for (const player of players) {
+    if (player.role !== "PARTICIPANT" || !roles.has(player.memberId)) {
+      roles.set(player.memberId, player.role);
+    }
+  }
+  return roles;
+}
+
+function playerLabel(player: { name: string; jerseyNumber: number | null }) {
+  return player.jerseyNumber !== null
+    ? `#${player.jerseyNumber} ${player.name}`
+    : player.name;
+}
+
+/** The primary player if there is one, plus how many others were tagged */
+function summarize(players: ClipPlayerData[]): string {
+  const tagged = players.filter((p) => p.role === "PARTICIPANT");
+  const [first] = tagged;
+  if (!first) return "";
+  const lead =
+    players.find((p) => p.role === "BALL_CARRIER" || p.role === "TARGET") ??
+    first;
+  const lastName = lead.name.split(" ").at(-1) ?? lead.name;
+  const name =
+    lead.jerseyNumber !== null ? `#${lead.jerseyNumber} ${lastName}` : lastName;
+  return tagged.length > 1 ? `${name} +${tagged.length - 1}` : name;
+}
+
+interface PlayPlayersPopoverProps {
+  players: ClipPlayerData[];
+  /** Roster to pick from; null while loading */
+  members: PlayerOption[] | null;
+  /** Present for coaches only */
+  onSave?: (input: PlayPlayersInput) => Promise<void>;
+}
+
+/**
+ * Who was involved in a play. Coaches tick the players on the field and
+ * mark the ball carrier or target and the player who pulled the flag.
+ */
+export function PlayPlayersPopover({
+  players,
+  members,
+  onSave,
+}: PlayPlayersPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(() => rolesByMember(players));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const summary = summarize(players);
+  // Each tagged member once, with their specific role
+  const current = rolesByMember(players);
+  const listed = players.filter((p) => current.get(p.memberId) === p.role);
+
+  function setRole(memberId: string, role: ClipPlayerRole | null) {
+    setDraft((prev) => {
+      const next = new Map(prev);
+      // One ball carrier or target, and one tackler, per play
+      const isPrimary = role === "BALL_CARRIER" || role === "TARGET";
+      for (const [id, held] of next) {
+        const clashes =
+          (isPrimary && (held === "BALL_CARRIER" || held === "TARGET")) ||
+          (role === "TACKLER" && held === "TACKLER");
+        if (clashes) next.set(id, "PARTICIPANT");
+      }
+      if (role) next.set(memberId, role);
+      else next.delete(memberId);
+      return next;
+    });
+  }
+
+  async function handleSave() {
+    if (!onSave) return;
+    const entries = [...draft.entries()];
+    const primary = entries.find(
+      ([, role]) => role === "BALL_CARRIER" || role === "TARGET",
+    );
+    const tackler = entries.find(([, role]) => role === "TACKLER");
+
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSave({
+        participantIds: entries.map(([id]) => id),
+        primary: primary
+          ? {
+              memberId: primary[0],
+              role: primary[1] as "BALL_CARRIER" | "TARGET",
+            }
+          : null,
+        tacklerId: tackler?.[0] ?? null,
+      });
+      setOpen(false);
+    } catch (err) {
+      setError((err as { message?: string }).message || "Failed to save");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // Members tagged on the play first, then the rest of the roster
+  const taggedIds = new Set(players.map((p) => p.memberId));
+  const options = [...(members ?? [])].sort(
+    (a, b) => Number(taggedIds.has(b.id)) - Number(taggedIds.has(a.id)),
+  );
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setDraft(rolesByMember(players));
+        setError(null);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          tabIndex={-1}
+          title={players
+            .filter((p) => p.role !== "PARTICIPANT")
+            .map((p) => `${CLIP_PLAYER_ROLE_LABELS[p.role]}: ${playerLabel(p)}`)
+            .join("\n")}
+          className={cn(
+            "block h-7 w-28 truncate px-1.5 text-left hover:bg-accent/50",
+            !summary && "text-muted-foreground",
+          )}
+        >
+          {summary || (onSave ? "Add players" : "—")}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-2">
+        {onSave ? (
+          members === null ? (
+            <div className="flex justify-center py-4">
+              <Spinner className="size-4" />
+            </div>
+          ) : (
+            <>
+              <ScrollArea className="max-h-64">
+                <div className="space-y-0.5 pr-2">
+                  {options.map((member) => {
+                    const role = draft.get(member.id);
+                    return (
+                      <div
+                        key={member.id}
+                        className="flex items-center gap-2 rounded px-1 py-1 text-sm hover:bg-accent/50"
+                      >
+                        <Checkbox
+                          checked={role !== undefined}
+                          onCheckedChange={(checked) =>
+                            setRole(member.id, checked ? "PARTICIPANT" : null)
+                          }
+                          aria-label={`${member.name} on field`}
+                        />
+                        <span className="flex-1 truncate">{member.name}</span>
+                        <Select
+                          value={role ?? ""}
+                          onValueChange={(value) =>
+                            setRole(member.id, value as ClipPlayerRole)
+                          }
+                        >
+                          <SelectTrigger
+                            size="sm"
+                            className="h-7 w-28 text-xs"
+                            aria-label={`${member.name} role`}
+                          >
+                            <SelectValue placeholder="Not in" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ROLE_CHOICES.map((choice) => (
+                              <SelectItem key={choice} value={choice}>
+                                {CLIP_PLAYER_ROLE_LABELS[choice]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+              {error && (
+                <p className="px-1 pt-2 text-xs text-destructive">{error}</p>
+              )}
+              <div className="flex justify-end pt-2">
+                <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                  {isSaving && <Spinner />}
+                  Save
+                </Button>
+              </div>
+            </>
+          )
+        ) : listed.length === 0 ? (
+          <p className="px-1 py-3 text-center text-xs text-muted-foreground">
+            No players tagged on this play.
+          </p>
+        ) : (
+          <ul className="space-y-1 px-1 py-1 text-sm">
+            {listed.map((player) => (
+              <li key={player.memberId} className="flex justify-between gap-2">
+                <span className="truncate">{playerLabel(player)}</span>
+                <span className="text-xs text-muted-foreground">
+                  {CLIP_PLAYER_ROLE_LABELS[player.role]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -95,7 +95,7 @@ interface PlayerControlsProps {
   onNextPlay: () => void;
   /** Slot for clip mark controls (rendered between play controls and time) */
   clipMarkControls?: ReactNode;
-  /** Annotations for the current video (displayed as keyframe markers on seek bar) */
+  /** Annotations for the current video (keyframe markers on seek bar, plus spans for ranged ones) */
   annotations?: AnnotationData[];
 }
 
@@ -303,6 +303,28 @@ export function PlayerControls({
           </>
         )}
 
+        {/* Ranged annotation spans (behind slider, clamped to the visible range) */}
+        <div className="absolute inset-x-2 top-1/2 -translate-y-1/2 h-1.5 pointer-events-none">
+          {annotations?.map((ann) => {
+            if (ann.endTimestamp === null) return null;
+            const rangeStart = inClipMode ? activeClip!.startTime : 0;
+            const rangeLength = inClipMode ? clipDuration : duration;
+            const start = Math.max(ann.timestamp - rangeStart, 0);
+            const end = Math.min(ann.endTimestamp - rangeStart, rangeLength);
+            if (rangeLength <= 0 || end <= start) return null;
+            return (
+              <div
+                key={ann.id}
+                className="absolute h-full bg-amber-400/40 rounded-full"
+                style={{
+                  left: `${(start / rangeLength) * 100}%`,
+                  width: `${((end - start) / rangeLength) * 100}%`,
+                }}
+              />
+            );
+          })}
+        </div>
+
         {/* Annotation keyframe markers in clip mode */}
         {inClipMode &&
           annotations
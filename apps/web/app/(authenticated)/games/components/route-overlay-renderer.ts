@@ -0,0 +1,136 @@
+import type { DetectedTrackPoint, PlayerTrackData } from "@repo/types";
+
+/** Distinct per-receiver colors, cycled by track order */
+const ROUTE_COLORS = [
+  "#facc15", // yellow
+  "#38bdf8", // sky
+  "#f472b6", // pink
+  "#4ade80", // green
+  "#fb923c", // orange
+  "#a78bfa", // violet
+];
+
+const LINE_WIDTH = 3;
+const LABEL_FONT = "600 11px Inter, system-ui, sans-serif";
+
+/** Linear interpolation of the tracked position at `time` */
+function positionAt(
+  points: DetectedTrackPoint[],
+  time: number,
+): DetectedTrackPoint | null {
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]!;
+    const b = points[i]!;
+    if (time >= a.t && time <= b.t) {
+      const f = b.t === a.t ? 0 : (time - a.t) / (b.t - a.t);
+      return { t: time, x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f };
+    }
+  }
+  return null;
+}
+
+/**
+ * Points of a route revealed up to `time`: every sample inside
+ * [startTime, min(time, endTime)] plus the interpolated current position.
+ */
+function revealedPath(
+  points: DetectedTrackPoint[],
+  startTime: number,
+  endTime: number,
+  time: number,
+): DetectedTrackPoint[] {
+  const until = Math.min(time, endTime);
+  const path = points.filter((p) => p.t >= startTime && p.t <= until);
+  const head = positionAt(points, until);
+  if (head && (path.length === 0 || path[path.length - 1]!.t < head.t)) {
+    path.push(head);
+  }
+  return path;
+}
+
+function renderLabel(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  color: string,
+): void {
+  ctx.font = LABEL_FONT;
+  const paddingX = 5;
+  const boxH = 16;
+  const boxW = ctx.measureText(text).width + paddingX * 2;
+  const bx = x + 8;
+  const by = y - boxH - 6;
+
+  ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
+  ctx.beginPath();
+  ctx.roundRect(bx, by, boxW, boxH, 4);
+  ctx.fill();
+
+  ctx.fillStyle = color;
+  ctx.textBaseline = "middle";
+  ctx.fillText(text, bx + paddingX, by + boxH / 2);
+}
+
+/**
+ * Draw detected routes as time-synced polylines. Each route is revealed
+ * from its start up to the current playback time and labelled with its
+ * route type (and jersey number when known) at the leading point. Tracks
+ * without route segments are skipped.
+ */
+export function renderRouteOverlay(
+  ctx: CanvasRenderingContext2D,
+  tracks: PlayerTrackData[],
+  time: number,
+  canvasWidth: number,
+  canvasHeight: number,
+): void {
+  const receivers = tracks.filter((track) => track.routes.length > 0);
+
+  receivers.forEach((track, index) => {
+    const color = ROUTE_COLORS[index % ROUTE_COLORS.length]!;
+
+    for (const route of track.routes) {
+      if (time < route.startTime) continue;
+
+      const path = revealedPath(
+        track.points,
+        route.startTime,
+        route.endTime,
+        time,
+      );
+      if (path.length < 2) continue;
+
+      ctx.save();
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = LINE_WIDTH;
+      ctx.lineCap = "round";
+      ctx.lineJoin = "round";
+      ctx.shadowColor = "rgba(0, 0, 0, 0.6)";
+      ctx.shadowBlur = 3;
+
+      ctx.beginPath();
+      ctx.moveTo(path[0]!.x * canvasWidth, path[0]!.y * canvasHeight);
+      for (let i = 1; i < path.length; i++) {
+        ctx.lineTo(path[i]!.x * canvasWidth, path[i]!.y * canvasHeight);
+      }
+      ctx.stroke();
+
+      // Leading point
+      const head = path[path.length - 1]!;
+      const hx = head.x * canvasWidth;
+      const hy = head.y * canvasHeight;
+      ctx.beginPath();
+      ctx.arc(hx, hy, LINE_WIDTH + 1.5, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.restore();
+
+      const label =
+        track.jerseyNumber !== null
+          ? `#${track.jerseyNumber} ${route.routeType}`
+          : route.routeType;
+      renderLabel(ctx, label, hx, hy, color);
+    }
+  });
+}
@@ -1,16 +1,38 @@
 /**
  * Hook managing the drawing state machine for annotation mode.
  * Handles pointer events, coordinate normalization, tool-specific drawing logic,
- * drag-to-move with the select tool, and undo/clear operations.
+ * drag-to-move with the select tool, and clear operations. Existing
+ * annotations can be loaded for editing; double-clicking a text callout with
+ * the select tool reopens its text for editing.
+ *
+ * Every change to the element list goes through a command stack, so adds,
+ * moves, deletes and style edits can be undone and redone. Copied elements
+ * stay on the clipboard across annotations, for reuse at another timestamp.
+ *
+ * Routes and zones are placed a point per click and finished with a
+ * double-click or Enter; the curved arrow bends toward the dragged path.
+ *
+ * Elements can be motion-tracked: the canvas shows them at the synced video
+ * time, and dragging a tracked element records a keyframe at that time
+ * instead of moving its drawn geometry.
  */
 
 import { useCallback, useEffect, useRef, useState } from "react";
-import type { AnnotationElement, AnnotationTool } from "@repo/types";
+import type {
+  AnnotationElement,
+  AnnotationKeyframe,
+  AnnotationTool,
+  PlayerTrackData,
+} from "@repo/types";
 import {
   clearCanvas,
+  elementAtTime,
+  getElementAnchor,
+  moveElement,
   renderAnnotation,
   renderSelection,
   hitTestElement,
+  trackedPositionAt,
 } from "./annotation-renderer";
 
 interface UseAnnotationCanvasOptions {
@@ -25,6 +47,10 @@ interface TextInputBox {
   h: number;
   tailX: number;
   tailY: number;
+  /** Existing text when re-editing a callout */
+  text?: string;
+  /** Index of the text element being re-edited (absent for a new callout) */
+  editIndex?: number;
 }
 
 interface DragState {
@@ -38,11 +64,18 @@ interface UseAnnotationCanvasReturn {
   tool: AnnotationTool;
   setTool: (tool: AnnotationTool) => void;
   color: string;
+  /** Also recolors the selected element */
   setColor: (color: string) => void;
   lineWidth: number;
+  /** Also changes the selected element's line width, where it has one */
   setLineWidth: (w: number) => void;
   elements: AnnotationElement[];
+  /** Revert the last edit (or drop the last point of a route or zone being placed) */
   undo: () => void;
+  /** Re-apply the last undone edit */
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   clear: () => void;
   isEmpty: boolean;
   /** Active text input box (drag-defined area for the speech bubble) */
@@ -55,44 +88,266 @@ interface UseAnnotationCanvasReturn {
   selectedIndex: number | null;
   /** Delete the currently selected element */
   deleteSelected: () => void;
+  /**
+   * Copy the selected element, or every element when none is selected.
+   * Returns false when there is nothing to copy.
+   */
+  copy: () => boolean;
+  /** Add copies of the clipboard's elements; returns false when it is empty */
+  paste: () => boolean;
+  canPaste: boolean;
+  /** Add elements (e.g. from a template) as one undoable edit */
+  insertElements: (elements: AnnotationElement[]) => void;
+  /** The drawing as it appears now, without motion tracking (e.g. to save as a template) */
+  snapshotElements: () => AnnotationElement[];
+  /** Replace the canvas contents, e.g. with a saved annotation being edited */
+  loadElements: (elements: AnnotationElement[]) => void;
+  /** Video time the canvas shows tracked elements at (call on every time update) */
+  syncTime: (time: number) => void;
+  /** Whether the selected element is motion-tracked */
+  selectedIsTracked: boolean;
+  /** Start tracking the selected element from its current position */
+  trackSelected: () => void;
+  /** Stop tracking the selected element, leaving it where it is now */
+  untrackSelected: () => void;
+  /**
+   * Track the selected element along the detected player track nearest to it.
+   * Returns false when no track is close enough.
+   */
+  seedSelectedFromTracks: (tracks: PlayerTrackData[]) => boolean;
+  /** Finish the route or zone being placed point by point; returns false if none was */
+  finishPath: () => boolean;
+  /** Discard the route or zone being placed; returns false if none was */
+  cancelPath: () => boolean;
 }
 
-// ---- Element movement helper (normalized coords) ----
+// ---- Tool helpers ----
 
-function moveElement(
+/** Tools placed a point per click rather than by dragging */
+const PATH_TOOLS = new Set<AnnotationTool>(["route", "zone"]);
+
+/** Clicks closer than this to the previous point are ignored (e.g. a double-click) */
+const PATH_POINT_MIN_DISTANCE = 0.005;
+
+const ZONE_OPACITY = 0.3;
+const SPOTLIGHT_DIM = 0.6;
+
+/** Route or zone element for the placed points, or null if too few to draw */
+function pathElement(
+  tool: AnnotationTool,
+  points: [number, number][],
+  color: string,
+  width: number,
+): AnnotationElement | null {
+  if (tool === "zone") {
+    return points.length >= 3
+      ? { type: "zone", points, color, opacity: ZONE_OPACITY }
+      : null;
+  }
+  return points.length >= 2 ? { type: "route", points, color, width } : null;
+}
+
+/** What to draw while a route or zone is being placed */
+function pathPreview(
+  tool: AnnotationTool,
+  points: [number, number][],
+  color: string,
+  width: number,
+): AnnotationElement | null {
+  // A zone's first edge is shown as a plain line until it can be filled
+  if (tool === "zone" && points.length === 2) {
+    return { type: "stroke", points, color, width: 2 };
+  }
+  return pathElement(tool, points, color, width);
+}
+
+/**
+ * Curved arrow from `start` to `end` whose midpoint passes through the
+ * dragged point farthest from the straight line between them.
+ */
+function curveFromDrag(
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+  path: [number, number][],
+  color: string,
+  width: number,
+): AnnotationElement {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const length = Math.hypot(dx, dy);
+  let apex = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+  let farthest = 0;
+  if (length > 0) {
+    for (const [px, py] of path) {
+      const distance =
+        Math.abs(dy * (px - start.x) - dx * (py - start.y)) / length;
+      if (distance > farthest) {
+        farthest = distance;
+        apex = { x: px, y: py };
+      }
+    }
+  }
+  return {
+    type: "curve",
+    startX: start.x,
+    startY: start.y,
+    controlX: 2 * apex.x - (start.x + end.x) / 2,
+    controlY: 2 * apex.y - (start.y + end.y) / 2,
+    endX: end.x,
+    endY: end.y,
+    color,
+    width,
+  };
+}
+
+// ---- Edit history ----
+
+/**
+ * A reversible edit to the element list. Commands are applied and reverted
+ * in stack order, so an index always refers to the list the edit was made on.
+ */
+type EditCommand =
+  | { type: "add"; elements: AnnotationElement[] }
+  | { type: "remove"; index: number; element: AnnotationElement }
+  | {
+      type: "replace";
+      index: number;
+      before: AnnotationElement;
+      after: AnnotationElement;
+    }
+  | { type: "reset"; before: AnnotationElement[]; after: AnnotationElement[] };
+
+/** Oldest edits are forgotten past this many */
+const MAX_HISTORY = 100;
+
+function applyCommand(
+  elements: AnnotationElement[],
+  command: EditCommand,
+): AnnotationElement[] {
+  switch (command.type) {
+    case "add":
+      return [...elements, ...command.elements];
+    case "remove":
+      return elements.filter((_, i) => i !== command.index);
+    case "replace":
+      return elements.map((el, i) => (i === command.index ? command.after : el));
+    case "reset":
+      return command.after;
+  }
+}
+
+function revertCommand(
+  elements: AnnotationElement[],
+  command: EditCommand,
+): AnnotationElement[] {
+  switch (command.type) {
+    case "add":
+      return elements.slice(0, elements.length - command.elements.length);
+    case "remove":
+      return [
+        ...elements.slice(0, command.index),
+        command.element,
+        ...elements.slice(command.index),
+      ];
+    case "replace":
+      return elements.map((el, i) =>
+        i === command.index ? command.before : el,
+      );
+    case "reset":
+      return command.before;
+  }
+}
+
+/** Copies of elements where they appear at `time`, with tracking removed */
+function untrackedAt(
+  elements: AnnotationElement[],
+  time: number,
+): AnnotationElement[] {
+  return elements.map((el) => {
+    const positioned = structuredClone(elementAtTime(el, time));
+    delete positioned.track;
+    return positioned;
+  });
+}
+
+/** The element with a new color and/or line width (when it has one) */
+function restyleElement(
   el: AnnotationElement,
-  dx: number,
-  dy: number,
+  style: { color?: string; width?: number },
 ): AnnotationElement {
-  switch (el.type) {
-    case "stroke":
-      return {
-        ...el,
-        points: el.points.map(
-          ([x, y]) => [x + dx, y + dy] as [number, number],
-        ),
-      };
-    case "arrow":
-      return {
-        ...el,
-        startX: el.startX + dx,
-        startY: el.startY + dy,
-        endX: el.endX + dx,
-        endY: el.endY + dy,
-      };
-    case "circle":
-      return { ...el, cx: el.cx + dx, cy: el.cy + dy };
-    case "rectangle":
-      return { ...el, x: el.x + dx, y: el.y + dy };
-    case "text":
-      return {
-        ...el,
-        x: el.x + dx,
-        y: el.y + dy,
-        tailX: el.tailX + dx,
-        tailY: el.tailY + dy,
-      };
+  const next = { ...el };
+  if (style.color !== undefined) next.color = style.color;
+  if (style.width !== undefined && "width" in next) next.width = style.width;
+  return next;
+}
+
+// ---- Motion tracking helpers ----
+
+/** Keyframes closer together than this (seconds) are treated as one */
+const KEYFRAME_EPSILON = 0.05;
+
+/** Farthest a detected track may be from the element to be picked (normalized) */
+const SEED_MAX_DISTANCE = 0.15;
+
+/** Minimum spacing between keyframes seeded from a detected track (seconds) */
+const SEED_MIN_SPACING = 0.1;
+
+function roundTime(time: number): number {
+  return Math.round(time * 100) / 100;
+}
+
+/** Insert a keyframe, replacing any existing one at (nearly) the same time. */
+function upsertKeyframe(
+  keyframes: AnnotationKeyframe[],
+  keyframe: AnnotationKeyframe,
+): AnnotationKeyframe[] {
+  return [
+    ...keyframes.filter((k) => Math.abs(k.t - keyframe.t) >= KEYFRAME_EPSILON),
+    keyframe,
+  ].sort((a, b) => a.t - b.t);
+}
+
+/**
+ * Keyframes following the detected track passing closest to (x, y) at
+ * `time`, offset so the element stays where it is at that moment.
+ */
+function keyframesFromNearestTrack(
+  tracks: PlayerTrackData[],
+  x: number,
+  y: number,
+  time: number,
+): { keyframes: AnnotationKeyframe[]; sourceTrackId: string } | null {
+  let nearest: PlayerTrackData | null = null;
+  let nearestDistance = SEED_MAX_DISTANCE;
+  let offset = { x: 0, y: 0 };
+
+  for (const track of tracks) {
+    const first = track.points[0];
+    const last = track.points[track.points.length - 1];
+    if (!first || !last || time < first.t || time > last.t) continue;
+    const position = trackedPositionAt(track.points, time);
+    if (!position) continue;
+    const distance = Math.hypot(position.x - x, position.y - y);
+    if (distance < nearestDistance) {
+      nearest = track;
+      nearestDistance = distance;
+      offset = { x: x - position.x, y: y - position.y };
+    }
+  }
+  if (!nearest) return null;
+
+  const keyframes: AnnotationKeyframe[] = [];
+  for (const point of nearest.points) {
+    const prev = keyframes[keyframes.length - 1];
+    if (!prev || point.t - prev.t >= SEED_MIN_SPACING) {
+      keyframes.push({
+        t: roundTime(point.t),
+        x: point.x + offset.x,
+        y: point.y + offset.y,
+      });
+    }
   }
+  return { keyframes, sourceTrackId: nearest.id };
 }
 
 export function useAnnotationCanvas({
@@ -105,11 +360,27 @@ export function useAnnotationCanvas({
   const [elements, setElements] = useState<AnnotationElement[]>([]);
   const [textInput, setTextInput] = useState<TextInputBox | null>(null);
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [historyState, setHistoryState] = useState({
+    canUndo: false,
+    canRedo: false,
+  });
+  const [canPaste, setCanPaste] = useState(false);
+
+  // Undo and redo stacks; kept in a ref so rapid shortcuts see every edit
+  const historyRef = useRef<{ past: EditCommand[]; future: EditCommand[] }>({
+    past: [],
+    future: [],
+  });
+  // Copied elements, kept while annotation mode is closed and reopened
+  const clipboardRef = useRef<AnnotationElement[]>([]);
 
   // Drawing state refs (don't need re-renders)
   const isDrawingRef = useRef(false);
   const currentStrokeRef = useRef<[number, number][]>([]);
   const shapeStartRef = useRef<{ x: number; y: number } | null>(null);
+  // Route/zone points placed so far, plus the cursor for the next one
+  const pathRef = useRef<[number, number][]>([]);
+  const pathCursorRef = useRef<[number, number] | null>(null);
 
   // Drag state for select tool (canvas-only rendering during drag, commit on up)
   const dragRef = useRef<DragState | null>(null);
@@ -125,6 +396,8 @@ export function useAnnotationCanvas({
   const elementsRef = useRef(elements);
   const textInputRef = useRef(textInput);
   const selectedIndexRef = useRef(selectedIndex);
+  // Video time tracked elements are shown at
+  const timeRef = useRef(0);
 
   toolRef.current = tool;
   colorRef.current = color;
@@ -134,7 +407,7 @@ export function useAnnotationCanvas({
   selectedIndexRef.current = selectedIndex;
 
   const getNormalized = useCallback(
-    (e: PointerEvent): { nx: number; ny: number } | null => {
+    (e: MouseEvent): { nx: number; ny: number } | null => {
       const canvas = canvasRef.current;
       if (!canvas) return null;
       const rect = canvas.getBoundingClientRect();
@@ -156,15 +429,20 @@ export function useAnnotationCanvas({
       if (!ctx) return;
       clearCanvas(ctx, canvas.width, canvas.height);
 
-      // Build the elements array, substituting the drag preview if active
+      // Build the elements array at the synced time, substituting the drag
+      // preview (already positioned) if active
       const dp = dragPreviewRef.current;
+      const ti = textInputRef.current;
       const all: AnnotationElement[] = elementsRef.current.map((el, i) =>
-        dp && dp.index === i ? dp.element : el,
+        dp && dp.index === i ? dp.element : elementAtTime(el, timeRef.current),
       );
+      // Hide a callout while its text is being re-edited in the overlay
+      if (ti?.editIndex !== undefined && ti.editIndex < all.length) {
+        all.splice(ti.editIndex, 1);
+      }
       if (extraElements) all.push(...extraElements);
 
       // Draw empty speech bubble preview while the text input is open
-      const ti = textInputRef.current;
       if (ti && !extraElements) {
         all.push({
           type: "text",
@@ -184,13 +462,36 @@ export function useAnnotationCanvas({
 
       // Draw selection highlight (use drag preview bounds if dragging)
       const si = selectedIndexRef.current;
-      if (si !== null && si < all.length) {
+      if (si !== null && si < all.length && !ti) {
         renderSelection(ctx, all[si]!, canvas.width, canvas.height);
       }
     },
     [canvasRef],
   );
 
+  const syncHistory = useCallback(() => {
+    const { past, future } = historyRef.current;
+    setHistoryState({ canUndo: past.length > 0, canRedo: future.length > 0 });
+  }, []);
+
+  const resetHistory = useCallback(() => {
+    historyRef.current = { past: [], future: [] };
+    syncHistory();
+  }, [syncHistory]);
+
+  /** Apply an edit to the element list and record it for undo */
+  const execute = useCallback(
+    (command: EditCommand) => {
+      setElements((prev) => applyCommand(prev, command));
+      historyRef.current = {
+        past: [...historyRef.current.past, command].slice(-MAX_HISTORY),
+        future: [],
+      };
+      syncHistory();
+    },
+    [syncHistory],
+  );
+
   // Redraw when elements, textInput, or selection changes
   useEffect(() => {
     redraw();
@@ -200,11 +501,14 @@ export function useAnnotationCanvas({
   useEffect(() => {
     if (!enabled) {
       setElements([]);
+      resetHistory();
       setTextInput(null);
       setSelectedIndex(null);
       isDrawingRef.current = false;
       currentStrokeRef.current = [];
       shapeStartRef.current = null;
+      pathRef.current = [];
+      pathCursorRef.current = null;
       dragRef.current = null;
       dragPreviewRef.current = null;
       const canvas = canvasRef.current;
@@ -213,7 +517,34 @@ export function useAnnotationCanvas({
         if (ctx) clearCanvas(ctx, canvas.width, canvas.height);
       }
     }
-  }, [enabled, canvasRef]);
+  }, [enabled, canvasRef, resetHistory]);
+
+  /** Add the route or zone placed so far, if it has enough points */
+  const commitPath = useCallback(() => {
+    if (pathRef.current.length === 0) return false;
+    const element = pathElement(
+      toolRef.current,
+      pathRef.current,
+      colorRef.current,
+      lineWidthRef.current,
+    );
+    pathRef.current = [];
+    pathCursorRef.current = null;
+    if (element) {
+      execute({ type: "add", elements: [element] });
+    } else {
+      redraw();
+    }
+    return true;
+  }, [redraw, execute]);
+
+  const cancelPath = useCallback(() => {
+    if (pathRef.current.length === 0) return false;
+    pathRef.current = [];
+    pathCursorRef.current = null;
+    redraw();
+    return true;
+  }, [redraw]);
 
   // Pointer event handlers
   useEffect(() => {
@@ -228,7 +559,9 @@ export function useAnnotationCanvas({
 
       // Select tool: hit-test, then start drag if hit
       if (currentTool === "select") {
-        const els = elementsRef.current;
+        const els = elementsRef.current.map((el) =>
+          elementAtTime(el, timeRef.current),
+        );
         // Search from top (last) to bottom (first) for intuitive selection
         let hitIdx: number | null = null;
         for (let i = els.length - 1; i >= 0; i--) {
@@ -258,24 +591,63 @@ export function useAnnotationCanvas({
         setSelectedIndex(null);
       }
 
+      // Route and zone: each click places a point, no drag
+      if (PATH_TOOLS.has(currentTool)) {
+        const last = pathRef.current[pathRef.current.length - 1];
+        if (
+          !last ||
+          Math.hypot(pos.nx - last[0], pos.ny - last[1]) >=
+            PATH_POINT_MIN_DISTANCE
+        ) {
+          pathRef.current = [...pathRef.current, [pos.nx, pos.ny]];
+        }
+        pathCursorRef.current = null;
+        const preview = pathPreview(
+          currentTool,
+          pathRef.current,
+          colorRef.current,
+          lineWidthRef.current,
+        );
+        redraw(preview ? [preview] : []);
+        return;
+      }
+
       isDrawingRef.current = true;
       canvas!.setPointerCapture(e.pointerId);
 
-      if (currentTool === "pen") {
+      if (currentTool === "pen" || currentTool === "highlighter") {
         currentStrokeRef.current = [[pos.nx, pos.ny]];
       } else {
-        // arrow, circle, rectangle, and text all start with a drag origin
+        // The remaining shapes start with a drag origin; the curved arrow
+        // also records the dragged path to find its bend
         shapeStartRef.current = { x: pos.nx, y: pos.ny };
+        currentStrokeRef.current =
+          currentTool === "curve" ? [[pos.nx, pos.ny]] : [];
       }
     }
 
     function onPointerMove(e: PointerEvent) {
+      const currentTool = toolRef.current;
+
+      // Route/zone: preview the next segment to the cursor
+      if (PATH_TOOLS.has(currentTool) && pathRef.current.length > 0) {
+        const pos = getNormalized(e);
+        if (!pos) return;
+        pathCursorRef.current = [pos.nx, pos.ny];
+        const preview = pathPreview(
+          currentTool,
+          [...pathRef.current, pathCursorRef.current],
+          colorRef.current,
+          lineWidthRef.current,
+        );
+        redraw(preview ? [preview] : []);
+        return;
+      }
+
       if (!isDrawingRef.current) return;
       const pos = getNormalized(e);
       if (!pos) return;
 
-      const currentTool = toolRef.current;
-
       // Select tool: drag move
       if (currentTool === "select" && dragRef.current) {
         const { index, startNx, startNy, original } = dragRef.current;
@@ -292,10 +664,10 @@ export function useAnnotationCanvas({
       const c = colorRef.current;
       const w = lineWidthRef.current;
 
-      if (currentTool === "pen") {
+      if (currentTool === "pen" || currentTool === "highlighter") {
         currentStrokeRef.current.push([pos.nx, pos.ny]);
         const previewElement: AnnotationElement = {
-          type: "stroke",
+          type: currentTool === "pen" ? "stroke" : "highlight",
           points: [...currentStrokeRef.current],
           color: c,
           width: w,
@@ -305,7 +677,36 @@ export function useAnnotationCanvas({
         const start = shapeStartRef.current;
         let preview: AnnotationElement;
 
-        if (currentTool === "arrow") {
+        if (currentTool === "curve") {
+          currentStrokeRef.current.push([pos.nx, pos.ny]);
+          preview = curveFromDrag(
+            start,
+            { x: pos.nx, y: pos.ny },
+            currentStrokeRef.current,
+            c,
+            w,
+          );
+        } else if (currentTool === "spotlight") {
+          preview = {
+            type: "spotlight",
+            cx: start.x,
+            cy: start.y,
+            rx: Math.abs(pos.nx - start.x),
+            ry: Math.abs(pos.ny - start.y),
+            color: c,
+            dim: SPOTLIGHT_DIM,
+          };
+        } else if (currentTool === "scrimmage") {
+          preview = {
+            type: "scrimmage",
+            x1: start.x,
+            y1: start.y,
+            x2: pos.nx,
+            y2: pos.ny,
+            color: c,
+            width: w,
+          };
+        } else if (currentTool === "arrow") {
           preview = {
             type: "arrow",
             startX: start.x,
@@ -367,13 +768,29 @@ export function useAnnotationCanvas({
 
       const currentTool = toolRef.current;
 
-      // Select tool: commit drag
+      // Select tool: commit drag — tracked elements get a keyframe at the
+      // current time, untracked ones are moved
       if (currentTool === "select") {
-        if (dragRef.current && dragPreviewRef.current) {
+        const before =
+          dragPreviewRef.current &&
+          elementsRef.current[dragPreviewRef.current.index];
+        if (dragRef.current && dragPreviewRef.current && before) {
           const { index, element } = dragPreviewRef.current;
-          setElements((prev) =>
-            prev.map((el, i) => (i === index ? element : el)),
-          );
+          const anchor = getElementAnchor(element);
+          const t = roundTime(timeRef.current);
+          const after: AnnotationElement = before.track
+            ? {
+                ...before,
+                track: {
+                  ...before.track,
+                  keyframes: upsertKeyframe(before.track.keyframes, {
+                    t,
+                    ...anchor,
+                  }),
+                },
+              }
+            : element;
+          execute({ type: "replace", index, before, after });
         }
         dragRef.current = null;
         dragPreviewRef.current = null;
@@ -386,15 +803,15 @@ export function useAnnotationCanvas({
       const c = colorRef.current;
       const w = lineWidthRef.current;
 
-      if (currentTool === "pen") {
+      if (currentTool === "pen" || currentTool === "highlighter") {
         if (currentStrokeRef.current.length >= 2) {
           const newElement: AnnotationElement = {
-            type: "stroke",
+            type: currentTool === "pen" ? "stroke" : "highlight",
             points: [...currentStrokeRef.current],
             color: c,
             width: w,
           };
-          setElements((prev) => [...prev, newElement]);
+          execute({ type: "add", elements: [newElement] });
         }
         currentStrokeRef.current = [];
       } else if (shapeStartRef.current) {
@@ -405,6 +822,7 @@ export function useAnnotationCanvas({
         const dy = Math.abs(pos.ny - start.y);
         if (dx < 0.005 && dy < 0.005) {
           shapeStartRef.current = null;
+          currentStrokeRef.current = [];
           redraw();
           return;
         }
@@ -430,7 +848,36 @@ export function useAnnotationCanvas({
 
         let newElement: AnnotationElement;
 
-        if (currentTool === "arrow") {
+        if (currentTool === "curve") {
+          newElement = curveFromDrag(
+            start,
+            { x: pos.nx, y: pos.ny },
+            currentStrokeRef.current,
+            c,
+            w,
+          );
+          currentStrokeRef.current = [];
+        } else if (currentTool === "spotlight") {
+          newElement = {
+            type: "spotlight",
+            cx: start.x,
+            cy: start.y,
+            rx: Math.abs(pos.nx - start.x),
+            ry: Math.abs(pos.ny - start.y),
+            color: c,
+            dim: SPOTLIGHT_DIM,
+          };
+        } else if (currentTool === "scrimmage") {
+          newElement = {
+            type: "scrimmage",
+            x1: start.x,
+            y1: start.y,
+            x2: pos.nx,
+            y2: pos.ny,
+            color: c,
+            width: w,
+          };
+        } else if (currentTool === "arrow") {
           newElement = {
             type: "arrow",
             startX: start.x,
@@ -465,11 +912,56 @@ export function useAnnotationCanvas({
           };
         }
 
-        setElements((prev) => [...prev, newElement]);
+        execute({ type: "add", elements: [newElement] });
         shapeStartRef.current = null;
       }
     }
 
+    // Select tool: double-click a text callout to edit its text.
+    // Route/zone: double-click finishes the path.
+    function onDoubleClick(e: MouseEvent) {
+      if (PATH_TOOLS.has(toolRef.current)) {
+        commitPath();
+        return;
+      }
+      if (toolRef.current !== "select") return;
+      const pos = getNormalized(e);
+      if (!pos) return;
+
+      const els = elementsRef.current;
+      for (let i = els.length - 1; i >= 0; i--) {
+        const el = elementAtTime(els[i]!, timeRef.current);
+        if (el.type === "text" && hitTestElement(el, pos.nx, pos.ny)) {
+          setSelectedIndex(i);
+          setTextInput({
+            x: el.x,
+            y: el.y,
+            w: el.w,
+            h: el.h,
+            tailX: el.tailX,
+            tailY: el.tailY,
+            text: el.text,
+            editIndex: i,
+          });
+          return;
+        }
+      }
+    }
+
+    function onPointerLeave() {
+      // Drop the segment preview that follows the cursor
+      if (pathCursorRef.current) {
+        pathCursorRef.current = null;
+        const preview = pathPreview(
+          toolRef.current,
+          pathRef.current,
+          colorRef.current,
+          lineWidthRef.current,
+        );
+        redraw(preview ? [preview] : []);
+      }
+    }
+
     function onPointerCancel(e: PointerEvent) {
       onPointerUp(e);
     }
@@ -483,6 +975,8 @@ export function useAnnotationCanvas({
     canvas.addEventListener("pointerup", onPointerUp);
     canvas.addEventListener("pointercancel", onPointerCancel);
     canvas.addEventListener("lostpointercapture", onLostPointerCapture);
+    canvas.addEventListener("dblclick", onDoubleClick);
+    canvas.addEventListener("pointerleave", onPointerLeave);
 
     return () => {
       canvas.removeEventListener("pointerdown", onPointerDown);
@@ -490,24 +984,116 @@ export function useAnnotationCanvas({
       canvas.removeEventListener("pointerup", onPointerUp);
       canvas.removeEventListener("pointercancel", onPointerCancel);
       canvas.removeEventListener("lostpointercapture", onLostPointerCapture);
+      canvas.removeEventListener("dblclick", onDoubleClick);
+      canvas.removeEventListener("pointerleave", onPointerLeave);
     };
-  }, [enabled, canvasRef, getNormalized, redraw]);
+  }, [enabled, canvasRef, getNormalized, redraw, commitPath, execute]);
 
   const undo = useCallback(() => {
-    setElements((prev) => prev.slice(0, -1));
-  }, []);
+    // A half-placed route or zone loses its last point first
+    if (pathRef.current.length > 0) {
+      pathRef.current = pathRef.current.slice(0, -1);
+      pathCursorRef.current = null;
+      const preview = pathPreview(
+        toolRef.current,
+        pathRef.current,
+        colorRef.current,
+        lineWidthRef.current,
+      );
+      redraw(preview ? [preview] : []);
+      return;
+    }
+
+    const { past, future } = historyRef.current;
+    const command = past[past.length - 1];
+    if (!command) return;
+    setElements((prev) => revertCommand(prev, command));
+    historyRef.current = {
+      past: past.slice(0, -1),
+      future: [command, ...future],
+    };
+    setSelectedIndex(null);
+    syncHistory();
+  }, [redraw, syncHistory]);
+
+  const redo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    const command = future[0];
+    if (!command) return;
+    setElements((prev) => applyCommand(prev, command));
+    historyRef.current = {
+      past: [...past, command],
+      future: future.slice(1),
+    };
+    setSelectedIndex(null);
+    syncHistory();
+  }, [syncHistory]);
 
   const clear = useCallback(() => {
-    setElements([]);
+    if (elementsRef.current.length > 0) {
+      execute({ type: "reset", before: elementsRef.current, after: [] });
+    }
     setTextInput(null);
+    setSelectedIndex(null);
+  }, [execute]);
+
+  const copy = useCallback(() => {
+    const si = selectedIndexRef.current;
+    const selected = si !== null ? elementsRef.current[si] : undefined;
+    const source = selected ? [selected] : elementsRef.current;
+    if (source.length === 0) return false;
+
+    // Keyframes belong to the moment they were recorded at, so copies are
+    // taken where they appear now and pasted untracked
+    clipboardRef.current = untrackedAt(source, timeRef.current);
+    setCanPaste(true);
+    return true;
   }, []);
 
+  const paste = useCallback(() => {
+    if (clipboardRef.current.length === 0) return false;
+    execute({ type: "add", elements: structuredClone(clipboardRef.current) });
+    setSelectedIndex(null);
+    return true;
+  }, [execute]);
+
+  const insertElements = useCallback(
+    (next: AnnotationElement[]) => {
+      if (next.length === 0) return;
+      execute({ type: "add", elements: untrackedAt(next, timeRef.current) });
+      setSelectedIndex(null);
+    },
+    [execute],
+  );
+
+  const snapshotElements = useCallback(
+    () => untrackedAt(elementsRef.current, timeRef.current),
+    [],
+  );
+
   const commitText = useCallback(
     (text: string) => {
       if (!textInput || !text.trim()) {
         setTextInput(null);
         return;
       }
+
+      // Re-edited callout: keep its box, tail and styling, swap the text
+      const { editIndex } = textInput;
+      if (editIndex !== undefined) {
+        const before = elementsRef.current[editIndex];
+        if (before?.type === "text" && before.text !== text.trim()) {
+          execute({
+            type: "replace",
+            index: editIndex,
+            before,
+            after: { ...before, text: text.trim() },
+          });
+        }
+        setTextInput(null);
+        return;
+      }
+
       const newElement: AnnotationElement = {
         type: "text",
         x: textInput.x,
@@ -520,10 +1106,10 @@ export function useAnnotationCanvas({
         color: colorRef.current,
         fontSize: 0.02,
       };
-      setElements((prev) => [...prev, newElement]);
+      execute({ type: "add", elements: [newElement] });
       setTextInput(null);
     },
-    [textInput],
+    [textInput, execute],
   );
 
   const cancelText = useCallback(() => {
@@ -531,31 +1117,138 @@ export function useAnnotationCanvas({
   }, []);
 
   const deleteSelected = useCallback(() => {
-    setElements((prev) => {
-      const si = selectedIndexRef.current;
-      if (si === null || si >= prev.length) return prev;
-      return prev.filter((_, i) => i !== si);
-    });
+    const si = selectedIndexRef.current;
+    const element = si !== null ? elementsRef.current[si] : undefined;
+    if (si !== null && element) {
+      execute({ type: "remove", index: si, element });
+    }
     setSelectedIndex(null);
-  }, []);
+  }, [execute]);
 
-  // Clear selection when tool changes away from select
-  const handleSetTool = useCallback((newTool: AnnotationTool) => {
-    if (newTool !== "select") {
+  const loadElements = useCallback(
+    (next: AnnotationElement[]) => {
+      setElements(structuredClone(next));
+      resetHistory();
+      setTextInput(null);
       setSelectedIndex(null);
-    }
-    setTool(newTool);
-  }, []);
+    },
+    [resetHistory],
+  );
+
+  const syncTime = useCallback(
+    (time: number) => {
+      timeRef.current = time;
+      if (elementsRef.current.some((el) => el.track)) redraw();
+    },
+    [redraw],
+  );
+
+  /** Apply `update` to the selected element as one undoable edit */
+  const updateSelected = useCallback(
+    (update: (el: AnnotationElement) => AnnotationElement) => {
+      const si = selectedIndexRef.current;
+      const before = si !== null ? elementsRef.current[si] : undefined;
+      if (si === null || !before) return;
+      const after = update(before);
+      if (after !== before) {
+        execute({ type: "replace", index: si, before, after });
+      }
+    },
+    [execute],
+  );
+
+  const handleSetColor = useCallback(
+    (next: string) => {
+      setColor(next);
+      updateSelected((el) =>
+        el.color === next ? el : restyleElement(el, { color: next }),
+      );
+    },
+    [updateSelected],
+  );
+
+  const handleSetLineWidth = useCallback(
+    (next: number) => {
+      setLineWidth(next);
+      updateSelected((el) =>
+        !("width" in el) || el.width === next
+          ? el
+          : restyleElement(el, { width: next }),
+      );
+    },
+    [updateSelected],
+  );
+
+  const trackSelected = useCallback(() => {
+    updateSelected((el) => {
+      if (el.track) return el;
+      const anchor = getElementAnchor(el);
+      return {
+        ...el,
+        track: { keyframes: [{ t: roundTime(timeRef.current), ...anchor }] },
+      };
+    });
+  }, [updateSelected]);
+
+  const untrackSelected = useCallback(() => {
+    updateSelected((el) => {
+      const positioned = { ...elementAtTime(el, timeRef.current) };
+      delete positioned.track;
+      return positioned;
+    });
+  }, [updateSelected]);
+
+  const seedSelectedFromTracks = useCallback(
+    (tracks: PlayerTrackData[]) => {
+      const si = selectedIndexRef.current;
+      const el = si !== null ? elementsRef.current[si] : undefined;
+      if (!el) return false;
+
+      const anchor = getElementAnchor(elementAtTime(el, timeRef.current));
+      const seeded = keyframesFromNearestTrack(
+        tracks,
+        anchor.x,
+        anchor.y,
+        timeRef.current,
+      );
+      if (!seeded) return false;
+
+      updateSelected((current) => ({ ...current, track: seeded }));
+      return true;
+    },
+    [updateSelected],
+  );
+
+  // Clear selection when tool changes away from select, and drop any
+  // half-placed route or zone
+  const handleSetTool = useCallback(
+    (newTool: AnnotationTool) => {
+      if (newTool !== "select") {
+        setSelectedIndex(null);
+      }
+      cancelPath();
+      setTool(newTool);
+    },
+    [cancelPath],
+  );
 
   return {
     tool,
     setTool: handleSetTool,
     color,
-    setColor,
+    setColor: handleSetColor,
     lineWidth,
-    setLineWidth,
+    setLineWidth: handleSetLineWidth,
     elements,
     undo,
+    redo,
+    canUndo: historyState.canUndo,
+    canRedo: historyState.canRedo,
+    copy,
+    paste,
+    canPaste,
+    insertElements,
+    snapshotElements,
     clear,
     isEmpty: elements.length === 0,
     textInput,
@@ -563,5 +1256,14 @@ export function useAnnotationCanvas({
     cancelText,
     selectedIndex,
     deleteSelected,
+    loadElements,
+    syncTime,
+    selectedIsTracked:
+      selectedIndex !== null && !!elements[selectedIndex]?.track,
+    trackSelected,
+    untrackSelected,
+    seedSelectedFromTracks,
+    finishPath: commitPath,
+    cancelPath,
   };
 }
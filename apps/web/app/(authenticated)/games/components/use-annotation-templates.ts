@@ -0,0 +1,84 @@
+/**
+ * Hook for the org's telestration template library.
+ * Loads templates when annotation mode opens; coaches can save the current
+ * drawing as a template or delete one. Inserting happens in the canvas hook.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import type { AnnotationElement, AnnotationTemplateData } from "@repo/types";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+interface UseAnnotationTemplatesReturn {
+  templates: AnnotationTemplateData[];
+  /** Save elements as a new template; throws with the API's message on failure */
+  saveTemplate: (name: string, elements: AnnotationElement[]) => Promise<void>;
+  deleteTemplate: (templateId: string) => Promise<void>;
+}
+
+async function errorMessage(res: Response, fallback: string): Promise<string> {
+  const err = await res.json().catch(() => ({}));
+  return (err as { message?: string }).message || fallback;
+}
+
+export function useAnnotationTemplates(
+  orgId: string,
+  enabled: boolean,
+): UseAnnotationTemplatesReturn {
+  const [templates, setTemplates] = useState<AnnotationTemplateData[]>([]);
+  const baseUrl = `${API_URL}/orgs/${orgId}/annotation-templates`;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    fetch(baseUrl, { credentials: "include" })
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data: { templates: AnnotationTemplateData[] }) => {
+        if (!cancelled) setTemplates(data.templates);
+      })
+      .catch(() => {
+        // Templates are optional — the editor works without them
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, baseUrl]);
+
+  const saveTemplate = useCallback(
+    async (name: string, elements: AnnotationElement[]) => {
+      const res = await fetch(baseUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ name, data: { elements } }),
+      });
+      if (!res.ok) {
+        throw new Error(await errorMessage(res, "Failed to save template"));
+      }
+      const data: { template: AnnotationTemplateData } = await res.json();
+      setTemplates((prev) =>
+        [...prev, data.template].sort((a, b) => a.name.localeCompare(b.name)),
+      );
+    },
+    [baseUrl],
+  );
+
+  const deleteTemplate = useCallback(
+    async (templateId: string) => {
+      const res = await fetch(`${baseUrl}/${templateId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(await errorMessage(res, "Failed to delete template"));
+      }
+      setTemplates((prev) => prev.filter((t) => t.id !== templateId));
+    },
+    [baseUrl],
+  );
+
+  return { templates, saveTemplate, deleteTemplate };
+}
@@ -8,9 +8,14 @@ import { PlayerControls } from "./player-controls";
 import { ClipMarkControls } from "./clip-mark-controls";
 import { usePlayer } from "./use-player";
 import { renderAnnotation, clearCanvas } from "./annotation-renderer";
+import { renderRouteOverlay } from "./route-overlay-renderer";
 import type { AngleOption } from "./player-controls";
 import type { ClipData } from "./clip-list";
-import type { AnnotationData, AnnotationElement } from "@repo/types";
+import type {
+  AnnotationData,
+  AnnotationElement,
+  PlayerTrackData,
+} from "@repo/types";
 
 export interface VideoData {
   id: string;
@@ -38,6 +43,8 @@ interface VideoPlayerProps {
   onSeek?: (time: number) => void;
   /** Currently active clip for playback constraints (seek-to-start, auto-pause-at-end) */
   activeClip?: { startTime: number; endTime: number } | null;
+  /** Called after playback auto-pauses at the end of the active clip (e.g. to advance a playlist) */
+  onClipEnd?: () => void;
   /** Mark-in time for clip creation */
   markIn?: number | null;
   /** Mark-out time for clip creation */
@@ -72,7 +79,7 @@ interface VideoPlayerProps {
   canvasRef?: React.RefObject<HTMLCanvasElement | null>;
   /** Whether annotation drawing mode is active */
   annotationMode?: boolean;
-  /** Annotations for the current video (for keyframe indicators on seek bar) */
+  /** Annotations for the current video (keyframe indicators on seek bar; ranged ones are drawn live) */
   annotations?: AnnotationData[];
   /** Currently displayed saved annotation (paused at keyframe) */
   activeAnnotation?: AnnotationData | null;
@@ -84,6 +91,12 @@ interface VideoPlayerProps {
   annotationTextInput?: React.ReactNode;
   /** Imperative ref — VideoPlayer writes its seek function here so the parent can trigger programmatic seeks */
   seekRef?: React.MutableRefObject<((time: number) => void) | null>;
+  /** Detected player tracks for the route overlay (read-only, drawn beneath annotations) */
+  routeTracks?: PlayerTrackData[];
+  /** Whether the route overlay is visible */
+  showRoutes?: boolean;
+  /** Position to open the footage at (applied once, when it first loads) */
+  startTime?: number;
 }
 
 const CONTROLS_HIDE_DELAY = 3000;
@@ -95,6 +108,7 @@ export function VideoPlayer({
   onTimeUpdate,
   onSeek,
   activeClip,
+  onClipEnd,
   markIn,
   markOut,
   clips,
@@ -118,9 +132,14 @@ export function VideoPlayer({
   annotationToolbar,
   annotationTextInput,
   seekRef,
+  routeTracks,
+  showRoutes = false,
+  startTime,
 }: VideoPlayerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const internalCanvasRef = useRef<HTMLCanvasElement>(null);
+  const routeCanvasRef = useRef<HTMLCanvasElement>(null);
+  const liveCanvasRef = useRef<HTMLCanvasElement>(null);
   const resolvedCanvasRef = externalCanvasRef ?? internalCanvasRef;
   const hideTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -190,7 +209,7 @@ export function VideoPlayer({
   );
 
   // ---- Handle angle change (sync playback time across footage files) ----
-  const pendingSeekRef = useRef<number | null>(null);
+  const pendingSeekRef = useRef<number | null>(startTime ?? null);
   const autoPlayOnLoadRef = useRef(false);
 
   const handleAngleChange = useCallback(
@@ -263,15 +282,23 @@ export function VideoPlayer({
   }, [activeClip, activeClipId, videoRef]);
 
   // ---- Clip playback: auto-pause at clip end ----
+  const onClipEndRef = useRef(onClipEnd);
+  onClipEndRef.current = onClipEnd;
+
   useEffect(() => {
+    // Read the element's time too: state.currentTime can still hold the
+    // previous clip's position right after a programmatic seek
+    const elementTime = videoRef.current?.currentTime ?? state.currentTime;
     if (
       activeClip &&
       state.isPlaying &&
-      state.currentTime >= activeClip.endTime
+      state.currentTime >= activeClip.endTime &&
+      elementTime >= activeClip.endTime
     ) {
       actions.pause();
+      onClipEndRef.current?.();
     }
-  }, [activeClip, state.isPlaying, state.currentTime, actions]);
+  }, [activeClip, state.isPlaying, state.currentTime, actions, videoRef]);
 
   // ---- Seek callback wrapper ----
   const handleSeekChange = useCallback(
@@ -310,6 +337,7 @@ export function VideoPlayer({
             activeAnnotation.data.elements as AnnotationElement[],
             canvas.width,
             canvas.height,
+            activeAnnotation.timestamp,
           );
         }
       }
@@ -382,6 +410,14 @@ export function VideoPlayer({
         const { width, height } = entry.contentRect;
         canvas.width = width;
         canvas.height = height;
+        if (routeCanvasRef.current) {
+          routeCanvasRef.current.width = width;
+          routeCanvasRef.current.height = height;
+        }
+        if (liveCanvasRef.current) {
+          liveCanvasRef.current.width = width;
+          liveCanvasRef.current.height = height;
+        }
       }
     });
 
@@ -389,6 +425,85 @@ export function VideoPlayer({
     return () => observer.disconnect();
   }, [resolvedCanvasRef]);
 
+  // ---- Route overlay: redraw every frame so paths stay in sync with playback ----
+  useEffect(() => {
+    const canvas = routeCanvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    clearCanvas(ctx, canvas.width, canvas.height);
+    if (!showRoutes || !routeTracks || routeTracks.length === 0) return;
+
+    let frame = 0;
+    let lastTime = -1;
+    let lastWidth = 0;
+    function draw() {
+      const time = videoRef.current?.currentTime ?? 0;
+      // Skip redundant redraws while paused (resizing clears the canvas)
+      if (time !== lastTime || canvas!.width !== lastWidth) {
+        lastTime = time;
+        lastWidth = canvas!.width;
+        clearCanvas(ctx!, canvas!.width, canvas!.height);
+        renderRouteOverlay(ctx!, routeTracks!, time, canvas!.width, canvas!.height);
+      }
+      frame = requestAnimationFrame(draw);
+    }
+    frame = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      clearCanvas(ctx, canvas.width, canvas.height);
+    };
+  }, [showRoutes, routeTracks, videoRef]);
+
+  // ---- Ranged annotations: drawn over moving video while inside their range ----
+  const rangedAnnotations = useMemo(
+    () => (annotations ?? []).filter((a) => a.endTimestamp !== null),
+    [annotations],
+  );
+  // Hidden while drawing or while a point annotation holds the freeze-frame
+  const showLiveAnnotations = !annotationMode && !activeAnnotation;
+
+  useEffect(() => {
+    const canvas = liveCanvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    clearCanvas(ctx, canvas.width, canvas.height);
+    if (!showLiveAnnotations || rangedAnnotations.length === 0) return;
+
+    let frame = 0;
+    let lastTime = -1;
+    let lastWidth = 0;
+    function draw() {
+      const time = videoRef.current?.currentTime ?? 0;
+      // Skip redundant redraws while paused (resizing clears the canvas);
+      // tracked elements move with every frame
+      if (time !== lastTime || canvas!.width !== lastWidth) {
+        lastTime = time;
+        lastWidth = canvas!.width;
+        clearCanvas(ctx!, canvas!.width, canvas!.height);
+        for (const ann of rangedAnnotations) {
+          if (time < ann.timestamp || time > ann.endTimestamp!) continue;
+          renderAnnotation(
+            ctx!,
+            ann.data.elements as AnnotationElement[],
+            canvas!.width,
+            canvas!.height,
+            time,
+          );
+        }
+      }
+      frame = requestAnimationFrame(draw);
+    }
+    frame = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      clearCanvas(ctx, canvas.width, canvas.height);
+    };
+  }, [showLiveAnnotations, rangedAnnotations, videoRef]);
+
   // ---- Click handlers ----
   const clickTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -458,6 +573,18 @@ export function VideoPlayer({
         preload="metadata"
       />
 
+      {/* Read-only route overlay (beneath annotations) */}
+      <canvas
+        ref={routeCanvasRef}
+        className="absolute inset-0 z-[5] pointer-events-none"
+      />
+
+      {/* Ranged annotations drawn live over playback */}
+      <canvas
+        ref={liveCanvasRef}
+        className="absolute inset-0 z-[6] pointer-events-none"
+      />
+
       {/* Canvas overlay for annotations/drawing */}
       <canvas
         ref={resolvedCanvasRef}
@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import type { AnnotationInboxItemData } from "@repo/types";
+import { cn } from "@repo/ui/lib/utils";
+import { Badge } from "@repo/ui/components/badge";
+import { Button } from "@repo/ui/components/button";
+import { Separator } from "@repo/ui/components/separator";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@repo/ui/components/empty";
+import { Check, Inbox, Play, Undo2, X } from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+import { AnnotationPreview } from "../games/components/annotation-preview";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatTimestamp(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Inbox Row
+// ---------------------------------------------------------------------------
+
+function InboxRow({
+  item,
+  onReviewedChange,
+}: {
+  item: AnnotationInboxItemData;
+  onReviewedChange: (annotationId: string, reviewed: boolean) => void;
+}) {
+  const isReviewed = item.reviewedAt !== null;
+
+  return (
+    <div className="flex items-center gap-4 py-3">
+      <AnnotationPreview
+        elements={item.data.elements}
+        time={item.timestamp}
+        className={cn(isReviewed && "opacity-60")}
+      />
+
+      <div className="flex-1 min-w-0">
+        <p
+          className={cn(
+            "text-sm font-medium truncate",
+            isReviewed && "text-muted-foreground",
+          )}
+        >
+          {item.createdByName ?? "Unknown"}
+        </p>
+        <p className="text-xs text-muted-foreground truncate mt-0.5">
+          {[
+            item.game?.title,
+            item.video.title,
+            `at ${formatTimestamp(item.timestamp)}`,
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+        {item.sharedAt && (
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Shared {formatDate(item.sharedAt)}
+            {isReviewed && ` · Reviewed ${formatDate(item.reviewedAt!)}`}
+          </p>
+        )}
+      </div>
+
+      <div className="flex shrink-0 items-center gap-1">
+        {item.game ? (
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/games/${item.game.id}?annotation=${item.id}`}>
+              <Play className="size-3.5 mr-1.5" />
+              Open
+            </Link>
+          </Button>
+        ) : (
+          <Badge variant="outline" className="text-xs">
+            No game
+          </Badge>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onReviewedChange(item.id, !isReviewed)}
+        >
+          {isReviewed ? (
+            <Undo2 className="size-3.5 mr-1.5" />
+          ) : (
+            <Check className="size-3.5 mr-1.5" />
+          )}
+          {isReviewed ? "Reopen" : "Mark reviewed"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main Component
+// ---------------------------------------------------------------------------
+
+export function InboxContent({
+  initialItems,
+  activeOrgId,
+}: {
+  initialItems: AnnotationInboxItemData[];
+  activeOrgId: string;
+}) {
+  const [items, setItems] = useState(initialItems);
+  const [error, setError] = useState<string | null>(null);
+
+  const openItems = items.filter((item) => item.reviewedAt === null);
+  const reviewedItems = items.filter((item) => item.reviewedAt !== null);
+
+  async function handleReviewedChange(annotationId: string, reviewed: boolean) {
+    setError(null);
+    const res = await fetch(
+      `${API_URL}/orgs/${activeOrgId}/annotations/${annotationId}/review`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ reviewed }),
+      },
+    );
+
+    if (res.ok) {
+      const { annotation } = await res.json();
+      setItems((prev) =>
+        prev.map((item) =>
+          item.id === annotationId
+            ? { ...item, reviewedAt: annotation.reviewedAt }
+            : item,
+        ),
+      );
+    } else {
+      const err = await res.json().catch(() => null);
+      setError(err?.message || err?.error || "Failed to update annotation");
+    }
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+      {/* Page header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold tracking-tight">Inbox</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Frames your players have drawn on and shared with coaches.
+        </p>
+      </div>
+
+      {/* Error banner */}
+      {error && (
+        <div className="flex items-center justify-between gap-2 mb-4 rounded-md border border-destructive/50 bg-destructive/10 px-4 py-3">
+          <p className="text-sm text-destructive">{error}</p>
+          <button
+            type="button"
+            className="shrink-0 text-destructive hover:text-destructive/80"
+            onClick={() => setError(null)}
+            aria-label="Dismiss error"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <Empty className="min-h-75">
+          <EmptyMedia>
+            <Inbox className="size-16 text-muted-foreground" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>Nothing shared yet</EmptyTitle>
+            <EmptyDescription>
+              When a player shares an annotation with coaches, it shows up here.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="space-y-8">
+          {[
+            { title: "Needs review", list: openItems },
+            { title: "Reviewed", list: reviewedItems },
+          ]
+            .filter((section) => section.list.length > 0)
+            .map((section) => (
+              <section key={section.title}>
+                <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wider mb-3">
+                  {section.title} ({section.list.length})
+                </h2>
+                <Separator className="mb-1" />
+                <div className="divide-y">
+                  {section.list.map((item) => (
+                    <InboxRow
+                      key={item.id}
+                      item={item}
+                      onReviewedChange={handleReviewedChange}
+                    />
+                  ))}
+                </div>
+              </section>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
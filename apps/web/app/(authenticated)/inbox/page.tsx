@@ -0,0 +1,50 @@
+import { requireAuth, getServerOrg, getActiveMember } from "../../lib/auth";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { isCoachRole } from "@repo/types";
+import type { AnnotationInboxItemData } from "@repo/types";
+import { InboxContent } from "./inbox-content";
+import { NoTeamState } from "../components/no-team-state";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+async function fetchInbox(
+  orgId: string,
+  cookie: string,
+): Promise<AnnotationInboxItemData[]> {
+  const res = await fetch(`${API_URL}/orgs/${orgId}/annotations/inbox`, {
+    headers: { cookie },
+    cache: "no-store",
+  });
+  if (!res.ok) return [];
+  const data = await res.json();
+  return data.annotations || [];
+}
+
+export default async function InboxPage() {
+  await requireAuth();
+  const org = await getServerOrg();
+
+  if (!org) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+        <NoTeamState message="Join or create a team to see shared annotations." />
+      </div>
+    );
+  }
+
+  const activeMember = await getActiveMember();
+  const role = activeMember?.role ?? "member";
+
+  // Only coaches receive shared annotations
+  if (!isCoachRole(role)) {
+    redirect("/dashboard");
+  }
+
+  const reqHeaders = await headers();
+  const cookie = reqHeaders.get("cookie") || "";
+  const annotations = await fetchInbox(org.id, cookie);
+
+  return <InboxContent initialItems={annotations} activeOrgId={org.id} />;
+}
@@ -0,0 +1,59 @@
+import { notFound } from "next/navigation";
+import { headers } from "next/headers";
+import type { PlayStatsResponse } from "@repo/types";
+import { requireAuth, getServerOrg } from "../../../../lib/auth";
+import { NoTeamState } from "../../../components/no-team-state";
+import { StatsDashboard } from "../../../components/stats-dashboard";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+async function fetchOpponentStats(
+  orgId: string,
+  tagId: string,
+  cookie: string,
+): Promise<PlayStatsResponse | null> {
+  const res = await fetch(`${API_URL}/orgs/${orgId}/stats/opponents/${tagId}`, {
+    headers: { cookie },
+    cache: "no-store",
+  });
+  if (!res.ok) return null;
+  return res.json();
+}
+
+export default async function OpponentStatsPage({
+  params,
+}: {
+  params: Promise<{ tagId: string }>;
+}) {
+  await requireAuth();
+  const org = await getServerOrg();
+
+  if (!org) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+        <NoTeamState message="Join or create a team to view stats." />
+      </div>
+    );
+  }
+
+  const { tagId } = await params;
+  const reqHeaders = await headers();
+  const cookie = reqHeaders.get("cookie") || "";
+
+  const data = await fetchOpponentStats(org.id, tagId, cookie);
+
+  if (!data) {
+    notFound();
+  }
+
+  return (
+    <StatsDashboard
+      orgId={org.id}
+      endpoint={`opponents/${tagId}`}
+      initialData={data}
+      backHref="/seasons"
+      backLabel="All seasons"
+    />
+  );
+}
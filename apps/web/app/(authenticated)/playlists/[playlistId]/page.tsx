@@ -0,0 +1,62 @@
+import { notFound } from "next/navigation";
+import { headers } from "next/headers";
+import { requireAuth, getServerOrg, getActiveMember } from "../../../lib/auth";
+import { NoTeamState } from "../../components/no-team-state";
+import { PlaylistPlayer } from "./playlist-player";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+async function fetchPlaylist(
+  orgId: string,
+  playlistId: string,
+  cookie: string,
+) {
+  const res = await fetch(`${API_URL}/orgs/${orgId}/playlists/${playlistId}`, {
+    headers: { cookie },
+    cache: "no-store",
+  });
+  if (!res.ok) return null;
+  const data = await res.json();
+  return data.playlist ?? null;
+}
+
+export default async function PlaylistPage({
+  params,
+}: {
+  params: Promise<{ playlistId: string }>;
+}) {
+  await requireAuth();
+  const org = await getServerOrg();
+
+  if (!org) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+        <NoTeamState message="Join or create a team to watch film playlists." />
+      </div>
+    );
+  }
+
+  const { playlistId } = await params;
+  const reqHeaders = await headers();
+  const cookie = reqHeaders.get("cookie") || "";
+
+  const [playlist, activeMember] = await Promise.all([
+    fetchPlaylist(org.id, playlistId, cookie),
+    getActiveMember(),
+  ]);
+
+  if (!playlist) {
+    notFound();
+  }
+
+  const role = activeMember?.role ?? "member";
+
+  return (
+    <PlaylistPlayer
+      initialPlaylist={playlist}
+      role={role}
+      activeOrgId={org.id}
+    />
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { standardSchemaResolver } from "@hookform/resolvers/standard-schema";
+import {
+  playlistNoteSchema,
+  type PlaylistNoteValues,
+} from "@repo/types/validations";
+import { Button } from "@repo/ui/components/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@repo/ui/components/dialog";
+import { Textarea } from "@repo/ui/components/textarea";
+
+interface PlaylistNoteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Label of the clip the note belongs to */
+  clipLabel: string;
+  note: string | null;
+  onSave: (note: string | null) => Promise<void>;
+}
+
+/** Edit the coach note attached to one playlist item. */
+export function PlaylistNoteDialog({
+  open,
+  onOpenChange,
+  clipLabel,
+  note,
+  onSave,
+}: PlaylistNoteDialogProps) {
+  const form = useForm<PlaylistNoteValues>({
+    resolver: standardSchemaResolver(playlistNoteSchema),
+    defaultValues: { note: note ?? "" },
+  });
+
+  useEffect(() => {
+    if (open) form.reset({ note: note ?? "" });
+  }, [open, note, form]);
+
+  async function onSubmit(values: PlaylistNoteValues) {
+    await onSave(values.note || null);
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Coach note</DialogTitle>
+          <DialogDescription>
+            Shown to everyone while {clipLabel} plays.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-1.5">
+            <Textarea
+              rows={4}
+              placeholder='e.g. "Watch the backside safety rotate late"'
+              {...form.register("note")}
+            />
+            {form.formState.errors.note && (
+              <p className="text-xs text-destructive">
+                {form.formState.errors.note.message}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? "Saving..." : "Save note"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
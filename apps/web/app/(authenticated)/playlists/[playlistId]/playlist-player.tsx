@@ -0,0 +1,617 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import {
+  isCoachRole,
+  type MyAssignmentData,
+  type PlaylistData,
+  type PlaylistItemData,
+  type PlaylistItemInput,
+} from "@repo/types";
+import { cn } from "@repo/ui/lib/utils";
+import { Badge } from "@repo/ui/components/badge";
+import { Button } from "@repo/ui/components/button";
+import { Progress } from "@repo/ui/components/progress";
+import { ScrollArea } from "@repo/ui/components/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@repo/ui/components/dropdown-menu";
+import {
+  ArrowLeft,
+  Film,
+  GripVertical,
+  ListVideo,
+  MessageSquareText,
+  MoreHorizontal,
+  Pencil,
+  Repeat,
+  SkipForward,
+  Trash2,
+  UserPlus,
+  X,
+} from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+import { VideoPlayer } from "../../games/components/video-player";
+import { PlaylistNoteDialog } from "./playlist-note-dialog";
+import { AssignFilmDialog } from "../../assignments/assign-film-dialog";
+import { useWatchProgress } from "../../assignments/use-watch-progress";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+const PLAYABLE_STATUSES = new Set(["UPLOADED", "PROCESSING", "COMPLETED"]);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatTime(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return "0:00";
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+/** Due dates are calendar days stored at UTC midnight */
+function formatDueDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function clipLabel(item: PlaylistItemData): string {
+  return item.clip.title || `Play ${item.clip.playNumber}`;
+}
+
+function toItemInput(item: PlaylistItemData): PlaylistItemInput {
+  return { clipId: item.clip.id, note: item.note };
+}
+
+function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved!);
+  return next;
+}
+
+// ---------------------------------------------------------------------------
+// Queue Item
+// ---------------------------------------------------------------------------
+
+function QueueItem({
+  item,
+  index,
+  isActive,
+  editable,
+  isDragging,
+  isDropTarget,
+  onSelect,
+  onEditNote,
+  onRemove,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+}: {
+  item: PlaylistItemData;
+  index: number;
+  isActive: boolean;
+  editable: boolean;
+  isDragging: boolean;
+  isDropTarget: boolean;
+  onSelect: () => void;
+  onEditNote: () => void;
+  onRemove: () => void;
+  onDragStart: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+}) {
+  return (
+    <div
+      draggable={editable}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        onDragStart();
+      }}
+      onDragOver={(e) => {
+        if (!editable) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "move";
+        onDragOver();
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      onDragEnd={onDragEnd}
+      onClick={onSelect}
+      role="button"
+      tabIndex={0}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") onSelect();
+      }}
+      className={cn(
+        "group flex items-start gap-2 rounded-md border border-transparent px-2 py-2 cursor-pointer transition-colors hover:bg-accent/50",
+        isActive && "bg-accent",
+        isDragging && "opacity-40",
+        isDropTarget && "border-primary",
+      )}
+    >
+      {editable ? (
+        <GripVertical className="size-3.5 mt-3 shrink-0 cursor-grab text-muted-foreground" />
+      ) : (
+        <span className="w-4 mt-2.5 shrink-0 text-center text-xs tabular-nums text-muted-foreground">
+          {index + 1}
+        </span>
+      )}
+
+      <div className="shrink-0 w-16 aspect-video rounded bg-muted overflow-hidden flex items-center justify-center">
+        {item.clip.thumbnailUrl ? (
+          <Image
+            src={item.clip.thumbnailUrl}
+            alt=""
+            width={128}
+            height={72}
+            className="size-full object-cover"
+          />
+        ) : (
+          <Film className="size-4 text-muted-foreground" />
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{clipLabel(item)}</p>
+        <p className="text-xs text-muted-foreground truncate">
+          {item.game?.title ?? "No game"} · {formatTime(item.clip.startTime)}
+        </p>
+        {item.note && (
+          <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+            <MessageSquareText className="inline size-3 mr-1 -mt-0.5" />
+            {item.note}
+          </p>
+        )}
+      </div>
+
+      {editable && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              className="shrink-0"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <MoreHorizontal className="size-3.5" />
+              <span className="sr-only">Item actions</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem
+              onClick={(e) => {
+                e.stopPropagation();
+                onEditNote();
+              }}
+            >
+              <Pencil className="size-3.5 mr-2" />
+              {item.note ? "Edit note" : "Add note"}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              className="text-destructive"
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove();
+              }}
+            >
+              <Trash2 className="size-3.5 mr-2" />
+              Remove
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main Component
+// ---------------------------------------------------------------------------
+
+export function PlaylistPlayer({
+  initialPlaylist,
+  role,
+  activeOrgId,
+  assignment,
+  reportProgress = false,
+}: {
+  initialPlaylist: PlaylistData;
+  role: string;
+  activeOrgId: string;
+  /** Set when playing assigned film — the queue becomes read-only */
+  assignment?: MyAssignmentData;
+  /** Whether playback counts towards the viewer's assignment progress */
+  reportProgress?: boolean;
+}) {
+  const isCoach = isCoachRole(role);
+  const editable = isCoach && !assignment;
+  const [playlist, setPlaylist] = useState<PlaylistData>(initialPlaylist);
+  const [currentItemId, setCurrentItemId] = useState<string | null>(
+    () => initialPlaylist.items[0]?.id ?? null,
+  );
+  const [autoAdvance, setAutoAdvance] = useState(true);
+  const [noteItemId, setNoteItemId] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [assignOpen, setAssignOpen] = useState(false);
+
+  const { items } = playlist;
+  const currentIndex = items.findIndex((item) => item.id === currentItemId);
+  const currentItem = currentIndex >= 0 ? items[currentIndex]! : null;
+  const noteItem = items.find((item) => item.id === noteItemId) ?? null;
+
+  const currentVideo = useMemo(() => {
+    if (!currentItem) return null;
+    const video = playlist.videos.find(
+      (v) => v.id === currentItem.clip.videoId,
+    );
+    return video?.storageUrl && PLAYABLE_STATUSES.has(video.status)
+      ? video
+      : null;
+  }, [currentItem, playlist.videos]);
+
+  // The player only ever sees the current item's footage file, so its angle
+  // switcher stays out of the way
+  const footageFiles = useMemo(
+    () => (currentVideo ? [currentVideo] : []),
+    [currentVideo],
+  );
+
+  const { progress, onTimeUpdate } = useWatchProgress({
+    orgId: activeOrgId,
+    assignmentId: assignment && reportProgress ? assignment.id : null,
+    clip: currentItem?.clip ?? null,
+    initialProgress: assignment?.progress ?? null,
+  });
+
+  const hasPrev = currentIndex > 0;
+  const hasNext = currentIndex >= 0 && currentIndex < items.length - 1;
+
+  const goTo = useCallback(
+    (index: number) => {
+      const target = items[index];
+      if (target) setCurrentItemId(target.id);
+    },
+    [items],
+  );
+
+  const handleClipEnd = useCallback(() => {
+    if (autoAdvance && hasNext) goTo(currentIndex + 1);
+  }, [autoAdvance, hasNext, goTo, currentIndex]);
+
+  // ---- Keyboard shortcuts: Shift+←/→ step through the queue ----
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      const target = e.target as HTMLElement;
+      if (
+        target.tagName === "INPUT" ||
+        target.tagName === "TEXTAREA" ||
+        target.tagName === "SELECT" ||
+        target.isContentEditable
+      ) {
+        return;
+      }
+      if (!e.shiftKey) return;
+
+      if (e.key === "ArrowLeft" && hasPrev) {
+        e.preventDefault();
+        goTo(currentIndex - 1);
+      } else if (e.key === "ArrowRight" && hasNext) {
+        e.preventDefault();
+        goTo(currentIndex + 1);
+      }
+    }
+
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [currentIndex, hasPrev, hasNext, goTo]);
+
+  // ---- Persist edits (optimistic, reverted on failure) ----
+  const saveItems = useCallback(
+    async (nextItems: PlaylistItemData[]) => {
+      const previous = playlist;
+      setPlaylist({
+        ...playlist,
+        items: nextItems,
+        itemCount: nextItems.length,
+      });
+      setError(null);
+
+      const res = await fetch(
+        `${API_URL}/orgs/${activeOrgId}/playlists/${playlist.id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ items: nextItems.map(toItemInput) }),
+        },
+      );
+
+      if (!res.ok) {
+        const err = await res.json().catch(() => null);
+        setPlaylist(previous);
+        setError(err?.message || err?.error || "Failed to save playlist");
+        return;
+      }
+
+      // Items are recreated on save — keep the current one selected by position
+      const data = await res.json();
+      const saved: PlaylistData = data.playlist;
+      const keepIndex = nextItems.findIndex((i) => i.id === currentItemId);
+      setPlaylist(saved);
+      setCurrentItemId(saved.items[keepIndex >= 0 ? keepIndex : 0]?.id ?? null);
+    },
+    [playlist, activeOrgId, currentItemId],
+  );
+
+  function handleDrop(to: number) {
+    if (dragIndex !== null && dragIndex !== to) {
+      saveItems(moveItem(items, dragIndex, to));
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  }
+
+  function handleRemove(index: number) {
+    const removed = items[index];
+    const nextItems = items.filter((_, i) => i !== index);
+    if (removed?.id === currentItemId) {
+      // Fall through to whatever now occupies the same slot
+      const fallback = nextItems[Math.min(index, nextItems.length - 1)];
+      setCurrentItemId(fallback?.id ?? null);
+    }
+    saveItems(nextItems);
+  }
+
+  async function handleSaveNote(note: string | null) {
+    if (!noteItemId) return;
+    await saveItems(
+      items.map((item) => (item.id === noteItemId ? { ...item, note } : item)),
+    );
+  }
+
+  return (
+    <div className="flex h-[calc(100vh-3.5rem)] overflow-hidden">
+      {/* Main player area */}
+      <div className="flex-1 min-w-0 flex flex-col overflow-y-auto">
+        {/* Playlist header */}
+        <div className="px-4 py-3 border-b shrink-0">
+          <div className="flex items-center gap-3 flex-wrap">
+            <Link
+              href={assignment ? "/assignments" : "/playlists"}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="size-4" />
+              <span className="sr-only">
+                {assignment ? "Back to assignments" : "Back to playlists"}
+              </span>
+            </Link>
+            <h1 className="text-lg font-semibold truncate">{playlist.title}</h1>
+            <Badge variant="secondary" className="text-xs">
+              {assignment ? "Assignment" : "Playlist"}
+            </Badge>
+            <div className="flex-1" />
+            {editable && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setAssignOpen(true)}
+              >
+                <UserPlus className="size-3.5 mr-1.5" />
+                Assign
+              </Button>
+            )}
+            <Button
+              variant={autoAdvance ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setAutoAdvance((prev) => !prev)}
+              aria-pressed={autoAdvance}
+              title="Play the next clip automatically"
+            >
+              <Repeat className="size-3.5 mr-1.5" />
+              Auto-advance
+            </Button>
+          </div>
+          {currentItem && (
+            <p className="mt-1 text-sm text-muted-foreground">
+              Clip {currentIndex + 1} of {items.length} ·{" "}
+              {currentItem.game?.title ?? "No game"} · {clipLabel(currentItem)}
+            </p>
+          )}
+        </div>
+
+        {/* Assignment details and the viewer's progress */}
+        {assignment && (
+          <div className="flex items-start gap-4 mx-4 mt-3 rounded-md border bg-card px-4 py-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-medium text-muted-foreground">
+                {[
+                  assignment.createdByName &&
+                    `Assigned by ${assignment.createdByName}`,
+                  assignment.dueDate &&
+                    `Due ${formatDueDate(assignment.dueDate)}`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ") || "Assigned film"}
+              </p>
+              {assignment.note && (
+                <p className="mt-1 text-sm whitespace-pre-wrap">
+                  {assignment.note}
+                </p>
+              )}
+            </div>
+            {reportProgress && progress && (
+              <div className="shrink-0 w-32 text-right">
+                <Progress value={progress.progress * 100} className="h-1.5" />
+                <span className="text-xs text-muted-foreground">
+                  {progress.completedAt
+                    ? "Completed"
+                    : `${Math.round(progress.progress * 100)}% watched`}
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center justify-between gap-2 mx-4 mt-3 rounded-md border border-destructive/50 bg-destructive/10 px-4 py-2">
+            <p className="text-sm text-destructive">{error}</p>
+            <button
+              type="button"
+              className="shrink-0 text-destructive hover:text-destructive/80"
+              onClick={() => setError(null)}
+              aria-label="Dismiss error"
+            >
+              <X className="size-4" />
+            </button>
+          </div>
+        )}
+
+        {/* Video player */}
+        <div className="flex items-center justify-center p-4 bg-black/5 dark:bg-black/20 shrink-0">
+          {currentItem && currentVideo ? (
+            <div className="w-full max-w-5xl">
+              <VideoPlayer
+                footageFiles={footageFiles}
+                activeVideoId={currentVideo.id}
+                onAngleChange={() => {}}
+                onTimeUpdate={onTimeUpdate}
+                activeClip={currentItem.clip}
+                activeClipId={currentItem.id}
+                onClipEnd={handleClipEnd}
+                hasPrevPlay={hasPrev}
+                hasNextPlay={hasNext}
+                onPrevPlay={() => goTo(currentIndex - 1)}
+                onNextPlay={() => goTo(currentIndex + 1)}
+              />
+            </div>
+          ) : (
+            <div className="text-center text-muted-foreground py-20">
+              {currentItem ? (
+                <>
+                  <p className="text-lg font-medium">Footage unavailable</p>
+                  <p className="text-sm mt-1">
+                    This clip&apos;s footage is still uploading or processing.
+                  </p>
+                  {hasNext && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="mt-4"
+                      onClick={() => goTo(currentIndex + 1)}
+                    >
+                      <SkipForward className="size-3.5 mr-1.5" />
+                      Skip to next clip
+                    </Button>
+                  )}
+                </>
+              ) : (
+                <>
+                  <p className="text-lg font-medium">This playlist is empty</p>
+                  <p className="text-sm mt-1">
+                    {editable
+                      ? "Add plays from a game's play list using “Add to playlist”."
+                      : "Your coach hasn't added any clips yet."}
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Coach note for the current clip */}
+        {currentItem?.note && (
+          <div className="mx-4 mb-4 rounded-md border bg-card px-4 py-3">
+            <p className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+              <MessageSquareText className="size-3.5" />
+              Coach note
+            </p>
+            <p className="mt-1 text-sm whitespace-pre-wrap">
+              {currentItem.note}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Queue sidebar */}
+      <div className="hidden lg:flex w-80 shrink-0 flex-col border-l">
+        <div className="flex items-center gap-2 px-4 py-3 border-b">
+          <ListVideo className="size-4 text-muted-foreground" />
+          <span className="text-sm font-medium">Queue</span>
+          <span className="text-xs text-muted-foreground">
+            {items.length} clip{items.length !== 1 ? "s" : ""}
+          </span>
+        </div>
+        <ScrollArea className="flex-1">
+          <div
+            className="p-2 space-y-0.5"
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+                setDropIndex(null);
+              }
+            }}
+          >
+            {items.map((item, index) => (
+              <QueueItem
+                key={item.id}
+                item={item}
+                index={index}
+                isActive={item.id === currentItemId}
+                editable={editable}
+                isDragging={dragIndex === index}
+                isDropTarget={dropIndex === index && dragIndex !== index}
+                onSelect={() => setCurrentItemId(item.id)}
+                onEditNote={() => setNoteItemId(item.id)}
+                onRemove={() => handleRemove(index)}
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={() => setDropIndex(index)}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+              />
+            ))}
+          </div>
+        </ScrollArea>
+      </div>
+
+      {editable && (
+        <AssignFilmDialog
+          open={assignOpen}
+          onOpenChange={setAssignOpen}
+          orgId={activeOrgId}
+          target={{ playlistId: playlist.id, label: playlist.title }}
+        />
+      )}
+
+      {editable && (
+        <PlaylistNoteDialog
+          open={noteItem !== null}
+          onOpenChange={(open) => {
+            if (!open) setNoteItemId(null);
+          }}
+          clipLabel={noteItem ? clipLabel(noteItem) : "this clip"}
+          note={noteItem?.note ?? null}
+          onSave={handleSaveNote}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { requireAuth, getServerOrg, getActiveMember } from "../../lib/auth";
+import { headers } from "next/headers";
+import { PlaylistsContent } from "./playlists-content";
+import { NoTeamState } from "../components/no-team-state";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+async function fetchPlaylists(orgId: string, cookie: string) {
+  const res = await fetch(`${API_URL}/orgs/${orgId}/playlists`, {
+    headers: { cookie },
+    cache: "no-store",
+  });
+  if (!res.ok) return [];
+  const data = await res.json();
+  return data.playlists || [];
+}
+
+export default async function PlaylistsPage() {
+  await requireAuth();
+  const org = await getServerOrg();
+
+  if (!org) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+        <NoTeamState message="Join or create a team to build film playlists." />
+      </div>
+    );
+  }
+
+  const reqHeaders = await headers();
+  const cookie = reqHeaders.get("cookie") || "";
+
+  const [playlists, activeMember] = await Promise.all([
+    fetchPlaylists(org.id, cookie),
+    getActiveMember(),
+  ]);
+
+  const role = activeMember?.role ?? "member";
+
+  return (
+    <PlaylistsContent
+      initialPlaylists={playlists}
+      role={role}
+      activeOrgId={org.id}
+    />
+  );
+}
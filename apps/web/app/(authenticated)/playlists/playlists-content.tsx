@@ -0,0 +1,354 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { standardSchemaResolver } from "@hookform/resolvers/standard-schema";
+import { isCoachRole, type PlaylistSummary } from "@repo/types";
+import {
+  createPlaylistSchema,
+  type CreatePlaylistValues,
+} from "@repo/types/validations";
+import { Button } from "@repo/ui/components/button";
+import { Input } from "@repo/ui/components/input";
+import { Label } from "@repo/ui/components/label";
+import { Separator } from "@repo/ui/components/separator";
+import { Badge } from "@repo/ui/components/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@repo/ui/components/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@repo/ui/components/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@repo/ui/components/dropdown-menu";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@repo/ui/components/empty";
+import { Plus, ListVideo, MoreVertical, Trash2, X } from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Create Playlist Dialog
+// ---------------------------------------------------------------------------
+
+function CreatePlaylistDialog({ orgId }: { orgId: string }) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<CreatePlaylistValues>({
+    resolver: standardSchemaResolver(createPlaylistSchema),
+    defaultValues: { title: "" },
+  });
+
+  const onSubmit = async (values: CreatePlaylistValues) => {
+    const res = await fetch(`${API_URL}/orgs/${orgId}/playlists`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ title: values.title }),
+    });
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => null);
+      const message = err?.message || err?.error || "Failed to create playlist";
+      setError("root", { message });
+      return;
+    }
+
+    const data = await res.json();
+    reset();
+    setOpen(false);
+    router.push(`/playlists/${data.playlist.id}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="gap-2">
+          <Plus className="size-4" />
+          <span className="hidden sm:inline">New playlist</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <DialogHeader>
+            <DialogTitle>Create playlist</DialogTitle>
+            <DialogDescription>
+              Queue up clips from any game for a film session. Add plays from
+              the game player&apos;s play list.
+            </DialogDescription>
+          </DialogHeader>
+
+          {errors.root && (
+            <p className="text-sm text-destructive px-1">
+              {errors.root.message}
+            </p>
+          )}
+
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="create-playlist-title">Title</Label>
+              <Input
+                id="create-playlist-title"
+                placeholder='e.g. "Tuesday film — red zone"'
+                {...register("title")}
+              />
+              {errors.title && (
+                <p className="text-sm text-destructive">
+                  {errors.title.message}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Creating..." : "Create playlist"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Playlist Row
+// ---------------------------------------------------------------------------
+
+function PlaylistRow({
+  playlist,
+  isCoach,
+  onDeleted,
+}: {
+  playlist: PlaylistSummary;
+  isCoach: boolean;
+  onDeleted: (playlistId: string) => void;
+}) {
+  const router = useRouter();
+
+  return (
+    <div
+      className="flex items-center gap-4 py-3.5 px-3 -mx-3 rounded-md hover:bg-accent/50 transition-colors cursor-pointer"
+      onClick={() => router.push(`/playlists/${playlist.id}`)}
+      role="link"
+      tabIndex={0}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") router.push(`/playlists/${playlist.id}`);
+      }}
+    >
+      {/* Icon */}
+      <div className="shrink-0 size-10 rounded-md bg-primary/10 flex items-center justify-center">
+        <ListVideo className="size-5 text-primary" />
+      </div>
+
+      {/* Info */}
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{playlist.title}</p>
+        <div className="flex items-center gap-2 mt-0.5">
+          <Badge variant="secondary" className="text-xs">
+            {playlist.itemCount} clip{playlist.itemCount !== 1 ? "s" : ""}
+          </Badge>
+          <span className="text-xs text-muted-foreground">
+            Updated {formatDate(playlist.updatedAt)}
+          </span>
+        </div>
+      </div>
+
+      {/* Actions */}
+      {isCoach && (
+        <div
+          className="shrink-0"
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="size-8">
+                <MoreVertical className="size-4" />
+                <span className="sr-only">Playlist options</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <DropdownMenuItem
+                    onSelect={(e) => e.preventDefault()}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="size-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>
+                      Delete &ldquo;{playlist.title}&rdquo;?
+                    </AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This will permanently delete this playlist and its notes.
+                      The clips themselves are not affected.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => onDeleted(playlist.id)}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main Component
+// ---------------------------------------------------------------------------
+
+export function PlaylistsContent({
+  initialPlaylists,
+  role,
+  activeOrgId,
+}: {
+  initialPlaylists: PlaylistSummary[];
+  role: string;
+  activeOrgId: string;
+}) {
+  const [playlists, setPlaylists] =
+    useState<PlaylistSummary[]>(initialPlaylists);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const isCoach = isCoachRole(role);
+
+  const handleDeleted = useCallback(
+    async (playlistId: string) => {
+      setDeleteError(null);
+      const res = await fetch(
+        `${API_URL}/orgs/${activeOrgId}/playlists/${playlistId}`,
+        { method: "DELETE", credentials: "include" },
+      );
+
+      if (res.ok) {
+        setPlaylists((prev) => prev.filter((p) => p.id !== playlistId));
+      } else {
+        const err = await res.json().catch(() => null);
+        setDeleteError(
+          err?.message || err?.error || "Failed to delete playlist",
+        );
+      }
+    },
+    [activeOrgId],
+  );
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+      {/* Page header */}
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Playlists</h1>
+          {playlists.length > 0 && (
+            <p className="text-sm text-muted-foreground mt-1">
+              {playlists.length} playlist{playlists.length !== 1 ? "s" : ""}
+            </p>
+          )}
+        </div>
+
+        {isCoach && <CreatePlaylistDialog orgId={activeOrgId} />}
+      </div>
+
+      {/* Delete error banner */}
+      {deleteError && (
+        <div className="flex items-center justify-between gap-2 mb-4 rounded-md border border-destructive/50 bg-destructive/10 px-4 py-3">
+          <p className="text-sm text-destructive">{deleteError}</p>
+          <button
+            type="button"
+            className="shrink-0 text-destructive hover:text-destructive/80"
+            onClick={() => setDeleteError(null)}
+            aria-label="Dismiss error"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Playlist list */}
+      {playlists.length === 0 ? (
+        <Empty className="min-h-75">
+          <EmptyMedia>
+            <ListVideo className="size-16 text-muted-foreground" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>No playlists yet</EmptyTitle>
+            <EmptyDescription>
+              {isCoach
+                ? "Create a playlist to run film review from one queue."
+                : "Your coach hasn't created any playlists yet."}
+            </EmptyDescription>
+          </EmptyHeader>
+          {isCoach && <CreatePlaylistDialog orgId={activeOrgId} />}
+        </Empty>
+      ) : (
+        <div>
+          <Separator className="mb-1" />
+          {playlists.map((playlist) => (
+            <PlaylistRow
+              key={playlist.id}
+              playlist={playlist}
+              isCoach={isCoach}
+              onDeleted={handleDeleted}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { isPendingAiClip } from "@repo/types";
+import { Button } from "@repo/ui/components/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@repo/ui/components/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@repo/ui/components/select";
+import { ScrollArea } from "@repo/ui/components/scroll-area";
+import { Spinner } from "@repo/ui/components/spinner";
+import { Check, Film, Plus } from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+import type { ClipData } from "../../games/components/clip-list";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+export interface ReelGameOption {
+  id: string;
+  title: string;
+  date: string | null;
+  tags?: { id: string; name: string; category: string }[];
+}
+
+function formatTime(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return "0:00";
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+function getGameDisplayText(game: ReelGameOption): string {
+  const opponentTag = game.tags?.find((t) => t.category === "OPPONENT");
+  const label = opponentTag ? `vs. ${opponentTag.name}` : game.title;
+  if (!game.date) return label;
+  const date = new Date(game.date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  return `${label} — ${date}`;
+}
+
+interface AddClipsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orgId: string;
+  games: ReelGameOption[];
+  /** Clip IDs already in the reel (shown as added) */
+  addedClipIds: Set<string>;
+  onAdd: (clip: ClipData, game: ReelGameOption) => void;
+}
+
+/** Browse a game's clips and append them to the reel. */
+export function AddClipsDialog({
+  open,
+  onOpenChange,
+  orgId,
+  games,
+  addedClipIds,
+  onAdd,
+}: AddClipsDialogProps) {
+  const [gameId, setGameId] = useState<string>(games[0]?.id ?? "");
+  const [clips, setClips] = useState<ClipData[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const game = games.find((g) => g.id === gameId) ?? null;
+
+  useEffect(() => {
+    if (!open || !gameId) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch(`${API_URL}/orgs/${orgId}/clips?gameId=${gameId}`, {
+      credentials: "include",
+    })
+      .then(async (res) => {
+        if (!res.ok) throw new Error("Failed to load clips");
+        const data = await res.json();
+        if (cancelled) return;
+        // Pending AI suggestions aren't real plays until a coach accepts them
+        setClips(
+          (data.clips as ClipData[]).filter(
+            (clip) => !isPendingAiClip(clip.metadata),
+          ),
+        );
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, gameId, orgId]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add clips</DialogTitle>
+          <DialogDescription>
+            Pick plays from any game. They&apos;re added to the end of the reel.
+          </DialogDescription>
+        </DialogHeader>
+
+        {games.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            No games yet.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <Select value={gameId} onValueChange={setGameId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Pick a game..." />
+              </SelectTrigger>
+              <SelectContent>
+                {games.map((g) => (
+                  <SelectItem key={g.id} value={g.id}>
+                    <span className="truncate">{getGameDisplayText(g)}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <ScrollArea className="h-80 rounded-md border">
+              {loading ? (
+                <div className="flex items-center justify-center py-10">
+                  <Spinner />
+                </div>
+              ) : error ? (
+                <p className="text-sm text-destructive p-4">{error}</p>
+              ) : clips.length === 0 ? (
+                <p className="text-sm text-muted-foreground p-4 text-center">
+                  This game has no clips yet.
+                </p>
+              ) : (
+                <div className="p-1">
+                  {clips.map((clip) => {
+                    const added = addedClipIds.has(clip.id);
+                    return (
+                      <div
+                        key={clip.id}
+                        className="flex items-center gap-3 rounded-md px-2 py-1.5 hover:bg-accent/50"
+                      >
+                        <div className="shrink-0 w-16 aspect-video rounded bg-muted overflow-hidden flex items-center justify-center">
+                          {clip.thumbnailUrl ? (
+                            <Image
+                              src={clip.thumbnailUrl}
+                              alt=""
+                              width={128}
+                              height={72}
+                              className="size-full object-cover"
+                            />
+                          ) : (
+                            <Film className="size-4 text-muted-foreground" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium truncate">
+                            {clip.title || `Play ${clip.playNumber}`}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatTime(clip.startTime)} —{" "}
+                            {formatTime(clip.endTime)}
+                          </p>
+                        </div>
+                        <Button
+                          variant={added ? "ghost" : "outline"}
+                          size="sm"
+                          className="shrink-0 gap-1"
+                          onClick={() => game && onAdd(clip, game)}
+                        >
+                          {added ? (
+                            <Check className="size-3.5" />
+                          ) : (
+                            <Plus className="size-3.5" />
+                          )}
+                          {added ? "Add again" : "Add"}
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+import { notFound } from "next/navigation";
+import { headers } from "next/headers";
+import { requireAuth, getServerOrg, getActiveMember } from "../../../lib/auth";
+import { NoTeamState } from "../../components/no-team-state";
+import { ReelEditor } from "./reel-editor";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+async function fetchReel(orgId: string, reelId: string, cookie: string) {
+  const res = await fetch(`${API_URL}/orgs/${orgId}/reels/${reelId}`, {
+    headers: { cookie },
+    cache: "no-store",
+  });
+  if (!res.ok) return null;
+  const data = await res.json();
+  return data.reel ?? null;
+}
+
+async function fetchGames(orgId: string, cookie: string) {
+  const res = await fetch(`${API_URL}/orgs/${orgId}/games`, {
+    headers: { cookie },
+    cache: "no-store",
+  });
+  if (!res.ok) return [];
+  const data = await res.json();
+  return data.games || [];
+}
+
+export default async function ReelPage({
+  params,
+}: {
+  params: Promise<{ reelId: string }>;
+}) {
+  await requireAuth();
+  const org = await getServerOrg();
+
+  if (!org) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+        <NoTeamState message="Join or create a team to build highlight reels." />
+      </div>
+    );
+  }
+
+  const { reelId } = await params;
+  const reqHeaders = await headers();
+  const cookie = reqHeaders.get("cookie") || "";
+
+  const [reel, games, activeMember] = await Promise.all([
+    fetchReel(org.id, reelId, cookie),
+    fetchGames(org.id, cookie),
+    getActiveMember(),
+  ]);
+
+  if (!reel) {
+    notFound();
+  }
+
+  const role = activeMember?.role ?? "member";
+
+  return (
+    <ReelEditor
+      initialReel={reel}
+      games={games}
+      role={role}
+      activeOrgId={org.id}
+    />
+  );
+}
@@ -0,0 +1,576 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import {
+  isCoachRole,
+  type ReelData,
+  type ReelItemData,
+  type ReelItemInput,
+} from "@repo/types";
+import type { ReelTitleCardValues } from "@repo/types/validations";
+import { Button } from "@repo/ui/components/button";
+import { Input } from "@repo/ui/components/input";
+import { Badge } from "@repo/ui/components/badge";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@repo/ui/components/empty";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Clapperboard,
+  Download,
+  Film,
+  GripVertical,
+  Plus,
+  Type,
+  X,
+} from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+import { AddClipsDialog, type ReelGameOption } from "./add-clips-dialog";
+import { TitleCardDialog } from "./title-card-dialog";
+import type { ClipData } from "../../games/components/clip-list";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+/** How often to refresh render state while a render is in flight */
+const RENDER_POLL_INTERVAL_MS = 5000;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatDuration(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = Math.round(seconds % 60);
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+function itemDuration(item: ReelItemData): number {
+  return item.type === "clip"
+    ? item.clip.endTime - item.clip.startTime
+    : item.durationSecs;
+}
+
+function toItemInput(item: ReelItemData): ReelItemInput {
+  return item.type === "clip"
+    ? { type: "clip", clipId: item.clip.id }
+    : {
+        type: "title",
+        title: item.title,
+        subtitle: item.subtitle,
+        durationSecs: item.durationSecs,
+      };
+}
+
+/** Local ID for items that haven't been saved yet */
+function draftId(): string {
+  return `draft-${crypto.randomUUID()}`;
+}
+
+function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved!);
+  return next;
+}
+
+// ---------------------------------------------------------------------------
+// Reel Item Row
+// ---------------------------------------------------------------------------
+
+function ReelItemRow({
+  item,
+  index,
+  count,
+  editable,
+  isDragging,
+  isDropTarget,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+  onMove,
+  onRemove,
+}: {
+  item: ReelItemData;
+  index: number;
+  count: number;
+  editable: boolean;
+  isDragging: boolean;
+  isDropTarget: boolean;
+  onDragStart: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+  onMove: (to: number) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div
+      draggable={editable}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        onDragStart();
+      }}
+      onDragOver={(e) => {
+        if (!editable) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "move";
+        onDragOver();
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      onDragEnd={onDragEnd}
+      className={`flex items-center gap-3 rounded-md border bg-card px-2 py-2 transition-colors ${
+        isDragging ? "opacity-40" : ""
+      } ${isDropTarget ? "border-primary" : ""}`}
+    >
+      {editable && (
+        <GripVertical className="size-4 shrink-0 cursor-grab text-muted-foreground" />
+      )}
+
+      <span className="w-6 shrink-0 text-center text-xs tabular-nums text-muted-foreground">
+        {index + 1}
+      </span>
+
+      {/* Preview */}
+      <div className="shrink-0 w-20 aspect-video rounded bg-muted overflow-hidden flex items-center justify-center">
+        {item.type === "clip" ? (
+          item.clip.thumbnailUrl ? (
+            <Image
+              src={item.clip.thumbnailUrl}
+              alt=""
+              width={160}
+              height={90}
+              className="size-full object-cover"
+            />
+          ) : (
+            <Film className="size-4 text-muted-foreground" />
+          )
+        ) : (
+          <div className="size-full bg-black flex items-center justify-center">
+            <Type className="size-4 text-white/70" />
+          </div>
+        )}
+      </div>
+
+      {/* Info */}
+      <div className="flex-1 min-w-0">
+        {item.type === "clip" ? (
+          <>
+            <p className="text-sm font-medium truncate">
+              {item.clip.title || `Play ${item.clip.playNumber}`}
+            </p>
+            <p className="text-xs text-muted-foreground truncate">
+              {item.clip.game?.title ?? item.clip.videoTitle} ·{" "}
+              {formatDuration(itemDuration(item))}
+            </p>
+          </>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                Title card
+              </Badge>
+              <p className="text-sm font-medium truncate">{item.title}</p>
+            </div>
+            <p className="text-xs text-muted-foreground truncate">
+              {item.subtitle ? `${item.subtitle} · ` : ""}
+              {formatDuration(item.durationSecs)}
+            </p>
+          </>
+        )}
+      </div>
+
+      {/* Actions */}
+      {editable && (
+        <div className="flex shrink-0 items-center">
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            disabled={index === 0}
+            onClick={() => onMove(index - 1)}
+          >
+            <ArrowUp className="size-3.5" />
+            <span className="sr-only">Move up</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            disabled={index === count - 1}
+            onClick={() => onMove(index + 1)}
+          >
+            <ArrowDown className="size-3.5" />
+            <span className="sr-only">Move down</span>
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={onRemove}>
+            <X className="size-3.5" />
+            <span className="sr-only">Remove from reel</span>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main Component
+// ---------------------------------------------------------------------------
+
+export function ReelEditor({
+  initialReel,
+  games,
+  role,
+  activeOrgId,
+}: {
+  initialReel: ReelData;
+  games: ReelGameOption[];
+  role: string;
+  activeOrgId: string;
+}) {
+  const isCoach = isCoachRole(role);
+  const [reel, setReel] = useState<ReelData>(initialReel);
+  const [title, setTitle] = useState(initialReel.title);
+  const [items, setItems] = useState<ReelItemData[]>(initialReel.items);
+  const [itemsDirty, setItemsDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [addClipsOpen, setAddClipsOpen] = useState(false);
+  const [titleCardOpen, setTitleCardOpen] = useState(false);
+
+  const reelUrl = `${API_URL}/orgs/${activeOrgId}/reels/${reel.id}`;
+  const titleDirty = title.trim() !== reel.title;
+  const dirty = itemsDirty || titleDirty;
+  const isRendering =
+    reel.renderStatus === "QUEUED" || reel.renderStatus === "RENDERING";
+
+  const totalDuration = useMemo(
+    () => items.reduce((sum, item) => sum + itemDuration(item), 0),
+    [items],
+  );
+  const addedClipIds = useMemo(
+    () =>
+      new Set(
+        items.flatMap((item) => (item.type === "clip" ? [item.clip.id] : [])),
+      ),
+    [items],
+  );
+
+  // Poll render state until the worker finishes
+  useEffect(() => {
+    if (!isRendering) return;
+    const interval = setInterval(async () => {
+      const res = await fetch(reelUrl, { credentials: "include" });
+      if (!res.ok) return;
+      const data = await res.json();
+      const latest: ReelData = data.reel;
+      setReel((prev) => ({
+        ...prev,
+        renderStatus: latest.renderStatus,
+        renderError: latest.renderError,
+        durationSecs: latest.durationSecs,
+      }));
+    }, RENDER_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isRendering, reelUrl]);
+
+  const updateItems = useCallback(
+    (update: (prev: ReelItemData[]) => ReelItemData[]) => {
+      setItems(update);
+      setItemsDirty(true);
+    },
+    [],
+  );
+
+  function handleDrop(to: number) {
+    if (dragIndex !== null && dragIndex !== to) {
+      const from = dragIndex;
+      updateItems((prev) => moveItem(prev, from, to));
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  }
+
+  function handleAddClip(clip: ClipData, game: ReelGameOption) {
+    updateItems((prev) => [
+      ...prev,
+      {
+        id: draftId(),
+        type: "clip",
+        clip: {
+          id: clip.id,
+          playNumber: clip.playNumber,
+          title: clip.title,
+          startTime: clip.startTime,
+          endTime: clip.endTime,
+          thumbnailUrl: clip.thumbnailUrl,
+          videoId: clip.videoId,
+          videoTitle: game.title,
+          game: { id: game.id, title: game.title },
+        },
+      },
+    ]);
+  }
+
+  function handleAddTitleCard(card: ReelTitleCardValues) {
+    updateItems((prev) => [
+      ...prev,
+      {
+        id: draftId(),
+        type: "title",
+        title: card.title,
+        subtitle: card.subtitle || null,
+        durationSecs: card.durationSecs,
+      },
+    ]);
+  }
+
+  async function handleSave() {
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle) {
+      setError("Reel title is required");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(reelUrl, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          ...(titleDirty && { title: trimmedTitle }),
+          ...(itemsDirty && { items: items.map(toItemInput) }),
+        }),
+      });
+
+      if (!res.ok) {
+        const err = await res.json().catch(() => null);
+        throw new Error(err?.message || err?.error || "Failed to save reel");
+      }
+
+      const data = await res.json();
+      setReel(data.reel);
+      setTitle(data.reel.title);
+      setItems(data.reel.items);
+      setItemsDirty(false);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRender() {
+    setError(null);
+    const res = await fetch(`${reelUrl}/render`, {
+      method: "POST",
+      credentials: "include",
+    });
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => null);
+      setError(err?.message || err?.error || "Failed to start render");
+      return;
+    }
+
+    setReel((prev) => ({ ...prev, renderStatus: "QUEUED", renderError: null }));
+  }
+
+  async function handleDownload() {
+    const res = await fetch(`${reelUrl}/download`, { credentials: "include" });
+    if (!res.ok) {
+      setError("Failed to get download link");
+      return;
+    }
+    const { url } = await res.json();
+    // Presigned URL is served as an attachment, so this downloads in place
+    window.location.href = url;
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+      <Link
+        href="/reels"
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-4"
+      >
+        <ArrowLeft className="size-4" />
+        Reels
+      </Link>
+
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div className="flex-1 min-w-0">
+          {isCoach ? (
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={200}
+              aria-label="Reel title"
+              className="text-lg font-semibold h-10"
+            />
+          ) : (
+            <h1 className="text-2xl font-semibold tracking-tight truncate">
+              {reel.title}
+            </h1>
+          )}
+          <p className="text-sm text-muted-foreground mt-1">
+            {items.length} item{items.length !== 1 ? "s" : ""} ·{" "}
+            {formatDuration(totalDuration)}
+            {isRendering && " · Rendering…"}
+            {reel.renderStatus === "FAILED" && " · Render failed"}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {reel.renderStatus === "COMPLETED" && !itemsDirty && (
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={handleDownload}
+            >
+              <Download className="size-4" />
+              Download
+            </Button>
+          )}
+          {isCoach && (
+            <>
+              <Button
+                variant="outline"
+                className="gap-2"
+                disabled={dirty || isRendering || items.length === 0}
+                title={dirty ? "Save changes before rendering" : undefined}
+                onClick={handleRender}
+              >
+                <Clapperboard className="size-4" />
+                {reel.renderStatus === "COMPLETED" ? "Re-render" : "Render"}
+              </Button>
+              <Button disabled={!dirty || saving} onClick={handleSave}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Error banner */}
+      {(error || (reel.renderStatus === "FAILED" && reel.renderError)) && (
+        <div className="flex items-center justify-between gap-2 mb-4 rounded-md border border-destructive/50 bg-destructive/10 px-4 py-3">
+          <p className="text-sm text-destructive">
+            {error ?? `Render failed: ${reel.renderError}`}
+          </p>
+          {error && (
+            <button
+              type="button"
+              className="shrink-0 text-destructive hover:text-destructive/80"
+              onClick={() => setError(null)}
+              aria-label="Dismiss error"
+            >
+              <X className="size-4" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Items */}
+      {items.length === 0 ? (
+        <Empty className="min-h-60">
+          <EmptyMedia>
+            <Film className="size-16 text-muted-foreground" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>This reel is empty</EmptyTitle>
+            <EmptyDescription>
+              {isCoach
+                ? "Add clips from your games and title cards, then drag to arrange them."
+                : "Your coach hasn't added any clips yet."}
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div
+          className="space-y-1.5"
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+              setDropIndex(null);
+            }
+          }}
+        >
+          {items.map((item, index) => (
+            <ReelItemRow
+              key={item.id}
+              item={item}
+              index={index}
+              count={items.length}
+              editable={isCoach}
+              isDragging={dragIndex === index}
+              isDropTarget={dropIndex === index && dragIndex !== index}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={() => setDropIndex(index)}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              onMove={(to) => updateItems((prev) => moveItem(prev, index, to))}
+              onRemove={() =>
+                updateItems((prev) => prev.filter((_, i) => i !== index))
+              }
+            />
+          ))}
+        </div>
+      )}
+
+      {isCoach && (
+        <div className="flex items-center gap-2 mt-4">
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => setAddClipsOpen(true)}
+          >
+            <Plus className="size-4" />
+            Add clips
+          </Button>
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => setTitleCardOpen(true)}
+          >
+            <Type className="size-4" />
+            Add title card
+          </Button>
+        </div>
+      )}
+
+      {isCoach && (
+        <>
+          <AddClipsDialog
+            open={addClipsOpen}
+            onOpenChange={setAddClipsOpen}
+            orgId={activeOrgId}
+            games={games}
+            addedClipIds={addedClipIds}
+            onAdd={handleAddClip}
+          />
+          <TitleCardDialog
+            open={titleCardOpen}
+            onOpenChange={setTitleCardOpen}
+            onAdd={handleAddTitleCard}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useForm } from "react-hook-form";
+import { standardSchemaResolver } from "@hookform/resolvers/standard-schema";
+import {
+  reelTitleCardSchema,
+  type ReelTitleCardValues,
+} from "@repo/types/validations";
+import { Button } from "@repo/ui/components/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@repo/ui/components/dialog";
+import { Input } from "@repo/ui/components/input";
+import { Label } from "@repo/ui/components/label";
+
+interface TitleCardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdd: (card: ReelTitleCardValues) => void;
+}
+
+/** Collects the text and length of a title card to insert into a reel. */
+export function TitleCardDialog({
+  open,
+  onOpenChange,
+  onAdd,
+}: TitleCardDialogProps) {
+  const form = useForm<ReelTitleCardValues>({
+    resolver: standardSchemaResolver(reelTitleCardSchema),
+    defaultValues: { title: "", subtitle: "", durationSecs: 3 },
+  });
+
+  function onSubmit(values: ReelTitleCardValues) {
+    onAdd(values);
+    form.reset();
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add title card</DialogTitle>
+          <DialogDescription>
+            A full-screen text slide shown between clips.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="cardTitle">Title</Label>
+            <Input
+              id="cardTitle"
+              placeholder='e.g. "Red zone defense"'
+              {...form.register("title")}
+            />
+            {form.formState.errors.title && (
+              <p className="text-xs text-destructive">
+                {form.formState.errors.title.message}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="cardSubtitle">Subtitle (optional)</Label>
+            <Input id="cardSubtitle" {...form.register("subtitle")} />
+            {form.formState.errors.subtitle && (
+              <p className="text-xs text-destructive">
+                {form.formState.errors.subtitle.message}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="cardDuration">Duration (seconds)</Label>
+            <Input
+              id="cardDuration"
+              type="number"
+              step={0.5}
+              min={1}
+              max={15}
+              {...form.register("durationSecs", { valueAsNumber: true })}
+            />
+            {form.formState.errors.durationSecs && (
+              <p className="text-xs text-destructive">
+                {form.formState.errors.durationSecs.message}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="submit">Add card</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+import { requireAuth, getServerOrg, getActiveMember } from "../../lib/auth";
+import { headers } from "next/headers";
+import { ReelsContent } from "./reels-content";
+import { NoTeamState } from "../components/no-team-state";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+async function fetchReels(orgId: string, cookie: string) {
+  const res = await fetch(`${API_URL}/orgs/${orgId}/reels`, {
+    headers: { cookie },
+    cache: "no-store",
+  });
+  if (!res.ok) return [];
+  const data = await res.json();
+  return data.reels || [];
+}
+
+export default async function ReelsPage() {
+  await requireAuth();
+  const org = await getServerOrg();
+
+  if (!org) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+        <NoTeamState message="Join or create a team to build highlight reels." />
+      </div>
+    );
+  }
+
+  const reqHeaders = await headers();
+  const cookie = reqHeaders.get("cookie") || "";
+
+  const [reels, activeMember] = await Promise.all([
+    fetchReels(org.id, cookie),
+    getActiveMember(),
+  ]);
+
+  const role = activeMember?.role ?? "member";
+
+  return <ReelsContent initialReels={reels} role={role} activeOrgId={org.id} />;
+}
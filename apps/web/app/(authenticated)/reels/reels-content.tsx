@@ -0,0 +1,362 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { standardSchemaResolver } from "@hookform/resolvers/standard-schema";
+import { isCoachRole, type ReelSummary } from "@repo/types";
+import {
+  createReelSchema,
+  type CreateReelValues,
+} from "@repo/types/validations";
+import { Button } from "@repo/ui/components/button";
+import { Input } from "@repo/ui/components/input";
+import { Label } from "@repo/ui/components/label";
+import { Separator } from "@repo/ui/components/separator";
+import { Badge } from "@repo/ui/components/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@repo/ui/components/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@repo/ui/components/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@repo/ui/components/dropdown-menu";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@repo/ui/components/empty";
+import { Plus, Film, MoreVertical, Trash2, X } from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatDuration(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = Math.round(seconds % 60);
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+// ---------------------------------------------------------------------------
+// Create Reel Dialog
+// ---------------------------------------------------------------------------
+
+function CreateReelDialog({ orgId }: { orgId: string }) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<CreateReelValues>({
+    resolver: standardSchemaResolver(createReelSchema),
+    defaultValues: { title: "" },
+  });
+
+  const onSubmit = async (values: CreateReelValues) => {
+    const res = await fetch(`${API_URL}/orgs/${orgId}/reels`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ title: values.title }),
+    });
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => null);
+      const message = err?.message || err?.error || "Failed to create reel";
+      setError("root", { message });
+      return;
+    }
+
+    const data = await res.json();
+    reset();
+    setOpen(false);
+    // New reels are empty — go straight to the editor
+    router.push(`/reels/${data.reel.id}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="gap-2">
+          <Plus className="size-4" />
+          <span className="hidden sm:inline">New reel</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <DialogHeader>
+            <DialogTitle>Create reel</DialogTitle>
+            <DialogDescription>
+              Stitch clips from any game into one highlight video.
+            </DialogDescription>
+          </DialogHeader>
+
+          {errors.root && (
+            <p className="text-sm text-destructive px-1">
+              {errors.root.message}
+            </p>
+          )}
+
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="create-reel-title">Title</Label>
+              <Input
+                id="create-reel-title"
+                placeholder='e.g. "Week 5 defensive highlights"'
+                {...register("title")}
+              />
+              {errors.title && (
+                <p className="text-sm text-destructive">
+                  {errors.title.message}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Creating..." : "Create reel"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Reel Row
+// ---------------------------------------------------------------------------
+
+function ReelRow({
+  reel,
+  isCoach,
+  onDeleted,
+}: {
+  reel: ReelSummary;
+  isCoach: boolean;
+  onDeleted: (reelId: string) => void;
+}) {
+  const router = useRouter();
+
+  return (
+    <div
+      className="flex items-center gap-4 py-3.5 px-3 -mx-3 rounded-md hover:bg-accent/50 transition-colors cursor-pointer"
+      onClick={() => router.push(`/reels/${reel.id}`)}
+      role="link"
+      tabIndex={0}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") router.push(`/reels/${reel.id}`);
+      }}
+    >
+      {/* Icon */}
+      <div className="shrink-0 size-10 rounded-md bg-primary/10 flex items-center justify-center">
+        <Film className="size-5 text-primary" />
+      </div>
+
+      {/* Info */}
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{reel.title}</p>
+        <div className="flex items-center gap-2 mt-0.5">
+          <Badge variant="secondary" className="text-xs">
+            {reel.itemCount} item{reel.itemCount !== 1 ? "s" : ""}
+          </Badge>
+          {reel.renderStatus === "COMPLETED" && reel.durationSecs !== null && (
+            <span className="text-xs text-muted-foreground">
+              {formatDuration(reel.durationSecs)}
+            </span>
+          )}
+          {(reel.renderStatus === "QUEUED" ||
+            reel.renderStatus === "RENDERING") && (
+            <Badge variant="outline" className="text-xs">
+              Rendering…
+            </Badge>
+          )}
+          {reel.renderStatus === "FAILED" && (
+            <Badge variant="destructive" className="text-xs">
+              Render failed
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {/* Actions */}
+      {isCoach && (
+        <div
+          className="shrink-0"
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="size-8">
+                <MoreVertical className="size-4" />
+                <span className="sr-only">Reel options</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <DropdownMenuItem
+                    onSelect={(e) => e.preventDefault()}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="size-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>
+                      Delete &ldquo;{reel.title}&rdquo;?
+                    </AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This will permanently delete this reel and its rendered
+                      video. The clips themselves are not affected.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => onDeleted(reel.id)}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main Component
+// ---------------------------------------------------------------------------
+
+export function ReelsContent({
+  initialReels,
+  role,
+  activeOrgId,
+}: {
+  initialReels: ReelSummary[];
+  role: string;
+  activeOrgId: string;
+}) {
+  const [reels, setReels] = useState<ReelSummary[]>(initialReels);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const isCoach = isCoachRole(role);
+
+  const handleDeleted = useCallback(
+    async (reelId: string) => {
+      setDeleteError(null);
+      const res = await fetch(
+        `${API_URL}/orgs/${activeOrgId}/reels/${reelId}`,
+        { method: "DELETE", credentials: "include" },
+      );
+
+      if (res.ok) {
+        setReels((prev) => prev.filter((r) => r.id !== reelId));
+      } else {
+        const err = await res.json().catch(() => null);
+        setDeleteError(err?.message || err?.error || "Failed to delete reel");
+      }
+    },
+    [activeOrgId],
+  );
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+      {/* Page header */}
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Reels</h1>
+          {reels.length > 0 && (
+            <p className="text-sm text-muted-foreground mt-1">
+              {reels.length} reel{reels.length !== 1 ? "s" : ""}
+            </p>
+          )}
+        </div>
+
+        {isCoach && <CreateReelDialog orgId={activeOrgId} />}
+      </div>
+
+      {/* Delete error banner */}
+      {deleteError && (
+        <div className="flex items-center justify-between gap-2 mb-4 rounded-md border border-destructive/50 bg-destructive/10 px-4 py-3">
+          <p className="text-sm text-destructive">{deleteError}</p>
+          <button
+            type="button"
+            className="shrink-0 text-destructive hover:text-destructive/80"
+            onClick={() => setDeleteError(null)}
+            aria-label="Dismiss error"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Reel list */}
+      {reels.length === 0 ? (
+        <Empty className="min-h-75">
+          <EmptyMedia>
+            <Film className="size-16 text-muted-foreground" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>No reels yet</EmptyTitle>
+            <EmptyDescription>
+              {isCoach
+                ? "Create a reel to stitch clips from across your games into one video."
+                : "Your coach hasn't created any highlight reels yet."}
+            </EmptyDescription>
+          </EmptyHeader>
+          {isCoach && <CreateReelDialog orgId={activeOrgId} />}
+        </Empty>
+      ) : (
+        <div>
+          <Separator className="mb-1" />
+          {reels.map((reel) => (
+            <ReelRow
+              key={reel.id}
+              reel={reel}
+              isCoach={isCoach}
+              onDeleted={handleDeleted}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
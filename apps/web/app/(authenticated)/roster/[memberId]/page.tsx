@@ -0,0 +1,51 @@
+import { notFound } from "next/navigation";
+import { headers } from "next/headers";
+import type { PlayerReportData } from "@repo/types";
+import { requireAuth, getServerOrg } from "../../../lib/auth";
+import { NoTeamState } from "../../components/no-team-state";
+import { PlayerReport } from "./player-report";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+async function fetchReport(
+  orgId: string,
+  memberId: string,
+  cookie: string,
+): Promise<PlayerReportData | null> {
+  const res = await fetch(`${API_URL}/orgs/${orgId}/players/${memberId}`, {
+    headers: { cookie },
+    cache: "no-store",
+  });
+  if (!res.ok) return null;
+  const data = await res.json();
+  return data.report ?? null;
+}
+
+export default async function PlayerPage({
+  params,
+}: {
+  params: Promise<{ memberId: string }>;
+}) {
+  await requireAuth();
+  const org = await getServerOrg();
+
+  if (!org) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+        <NoTeamState message="Join or create a team to see the roster." />
+      </div>
+    );
+  }
+
+  const { memberId } = await params;
+  const reqHeaders = await headers();
+  const cookie = reqHeaders.get("cookie") || "";
+
+  const report = await fetchReport(org.id, memberId, cookie);
+  if (!report) {
+    notFound();
+  }
+
+  return <PlayerReport report={report} />;
+}
@@ -0,0 +1,191 @@
+import Link from "next/link";
+import {
+  CLIP_PLAYER_ROLE_LABELS,
+  getRoleDisplayName,
+  roleBadgeVariant,
+  type PlayerPlayData,
+  type PlayerReportData,
+} from "@repo/types";
+import { Avatar, AvatarFallback } from "@repo/ui/components/avatar";
+import { Badge } from "@repo/ui/components/badge";
+import { Separator } from "@repo/ui/components/separator";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@repo/ui/components/empty";
+import { ArrowLeft, ListVideo } from "lucide-react";
+
+const ORDINALS = ["1st", "2nd", "3rd", "4th"];
+
+function getInitials(name: string): string {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+function formatDate(dateStr: string | null): string {
+  if (!dateStr) return "No date";
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/** e.g. "3rd & 7 · Pass · Complete · +12" */
+function describePlay(play: PlayerPlayData): string {
+  const parts: string[] = [];
+  if (play.down !== null) {
+    const down = ORDINALS[play.down - 1] ?? `${play.down}th`;
+    parts.push(play.distance !== null ? `${down} & ${play.distance}` : down);
+  }
+  if (play.playType) parts.push(play.playType);
+  if (play.result) parts.push(play.result);
+  if (play.gain !== null)
+    parts.push(play.gain > 0 ? `+${play.gain}` : String(play.gain));
+  return parts.join(" · ") || "Not broken down yet";
+}
+
+/** Roles beyond being on the field, or "On field" when that's all */
+function roleBadges(play: PlayerPlayData) {
+  const roles = play.roles.filter((r) => r !== "PARTICIPANT");
+  return roles.length ? roles : play.roles;
+}
+
+export function PlayerReport({ report }: { report: PlayerReportData }) {
+  const { member, stats } = report;
+  const details = [
+    member.jerseyNumber !== null ? `#${member.jerseyNumber}` : null,
+    member.position,
+  ].filter(Boolean);
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+      <Link
+        href="/roster"
+        className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors mb-4"
+      >
+        <ArrowLeft className="size-3.5" />
+        Roster
+      </Link>
+
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-6">
+        <Avatar className="size-14">
+          <AvatarFallback className="text-lg">
+            {getInitials(member.name)}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-2xl font-semibold tracking-tight truncate">
+            {member.name}
+          </h1>
+          {details.length > 0 && (
+            <p className="text-sm text-muted-foreground mt-0.5">
+              {details.join(" · ")}
+            </p>
+          )}
+        </div>
+        <Badge variant={roleBadgeVariant(member.role)}>
+          {getRoleDisplayName(member.role)}
+        </Badge>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-8">
+        {[
+          {
+            label: "Plays",
+            value: stats.plays,
+            detail: `${stats.yards} yards on carries and catches`,
+          },
+          { label: "Targets", value: stats.targets },
+          {
+            label: "Catches",
+            value: stats.catches,
+            detail: stats.targets
+              ? `${Math.round((stats.catches / stats.targets) * 100)}% of targets`
+              : undefined,
+          },
+          { label: "Carries", value: stats.carries },
+          { label: "Flag pulls", value: stats.flagPulls },
+          { label: "Touchdowns", value: stats.touchdowns },
+        ].map((tile) => (
+          <div key={tile.label} className="rounded-lg border px-4 py-3">
+            <p className="text-xs text-muted-foreground">{tile.label}</p>
+            <p className="text-2xl font-semibold tabular-nums mt-1">
+              {tile.value}
+            </p>
+            {tile.detail && (
+              <p className="text-xs text-muted-foreground mt-0.5">
+                {tile.detail}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Plays */}
+      <h2 className="text-lg font-medium mb-2">Plays</h2>
+      <Separator className="mb-1" />
+      {report.plays.length === 0 ? (
+        <Empty className="min-h-60">
+          <EmptyMedia>
+            <ListVideo className="size-12 text-muted-foreground" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>No plays yet</EmptyTitle>
+            <EmptyDescription>
+              Coaches tag players on plays from the breakdown panel of a game.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        report.plays.map((play) => {
+          const content = (
+            <>
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {play.game?.title ?? "Footage"} · Play {play.playNumber}
+                </p>
+                <p className="text-xs text-muted-foreground mt-0.5 truncate">
+                  {play.game && `${formatDate(play.game.date)} · `}
+                  {describePlay(play)}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                {roleBadges(play).map((role) => (
+                  <Badge key={role} variant="secondary" className="text-xs">
+                    {CLIP_PLAYER_ROLE_LABELS[role]}
+                  </Badge>
+                ))}
+              </div>
+            </>
+          );
+          const className =
+            "flex items-center justify-between gap-4 py-3 px-3 -mx-3 rounded-md";
+
+          return play.game ? (
+            <Link
+              key={play.clipId}
+              href={`/games/${play.game.id}`}
+              className={`${className} hover:bg-accent/50 transition-colors`}
+            >
+              {content}
+            </Link>
+          ) : (
+            <div key={play.clipId} className={className}>
+              {content}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
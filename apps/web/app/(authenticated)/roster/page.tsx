@@ -1,3 +1,4 @@
+import Link from "next/link";
 import { requireAuth, getServerOrg } from "../../lib/auth";
 import { roleBadgeVariant, getRoleDisplayName } from "@repo/types";
 import { Badge } from "@repo/ui/components/badge";
@@ -43,7 +44,10 @@ function MemberRow({
   isSelf: boolean;
 }) {
   return (
-    <div className="flex items-center gap-3 py-2.5 px-2 -mx-2 rounded-md hover:bg-accent/50 transition-colors">
+    <Link
+      href={`/roster/${member.id}`}
+      className="flex items-center gap-3 py-2.5 px-2 -mx-2 rounded-md hover:bg-accent/50 transition-colors"
+    >
       <Avatar className="size-10">
         <AvatarFallback className="text-sm">
           {getInitials(member.user.name)}
@@ -65,7 +69,7 @@ function MemberRow({
       <Badge variant={roleBadgeVariant(member.role)}>
         {getRoleDisplayName(member.role)}
       </Badge>
-    </div>
+    </Link>
   );
 }
 
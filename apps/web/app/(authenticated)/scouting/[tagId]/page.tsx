@@ -0,0 +1,59 @@
+import { notFound } from "next/navigation";
+import { headers } from "next/headers";
+import type { ScoutingReportData } from "@repo/types";
+import { requireAuth, getServerOrg, getActiveMember } from "../../../lib/auth";
+import { NoTeamState } from "../../components/no-team-state";
+import { ScoutingReport } from "./scouting-report";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+async function fetchReport(
+  orgId: string,
+  tagId: string,
+  cookie: string,
+): Promise<ScoutingReportData | null> {
+  const res = await fetch(`${API_URL}/orgs/${orgId}/scouting/${tagId}`, {
+    headers: { cookie },
+    cache: "no-store",
+  });
+  if (!res.ok) return null;
+  const data = await res.json();
+  return data.report ?? null;
+}
+
+export default async function ScoutingReportPage({
+  params,
+}: {
+  params: Promise<{ tagId: string }>;
+}) {
+  await requireAuth();
+  const org = await getServerOrg();
+
+  if (!org) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+        <NoTeamState message="Join or create a team to scout opponents." />
+      </div>
+    );
+  }
+
+  const { tagId } = await params;
+  const reqHeaders = await headers();
+  const cookie = reqHeaders.get("cookie") || "";
+
+  const [report, activeMember] = await Promise.all([
+    fetchReport(org.id, tagId, cookie),
+    getActiveMember(),
+  ]);
+
+  if (!report) {
+    notFound();
+  }
+
+  const role = activeMember?.role ?? "member";
+
+  return (
+    <ScoutingReport initialReport={report} role={role} activeOrgId={org.id} />
+  );
+}
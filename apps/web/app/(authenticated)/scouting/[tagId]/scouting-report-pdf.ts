@@ -0,0 +1,134 @@
+import {
+  SCOUTING_SIDE_LABELS,
+  type ScoutingReportData,
+  type ScoutingTendency,
+} from "@repo/types";
+import { createPdf, type PdfBlock } from "../../../lib/pdf-document";
+
+/** Rows per tendency table, so each table fits on its page */
+const MAX_TABLE_ROWS = 25;
+/** Games listed under the overview on the first page */
+const MAX_GAME_ROWS = 18;
+
+function percent(value: number | null): string {
+  return value === null ? "-" : `${Math.round(value * 100)}%`;
+}
+
+function formatDate(dateStr: string | null): string {
+  if (!dateStr) return "No date";
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function tendencyLines(rows: ScoutingTendency[]): string {
+  const shown = rows.slice(0, MAX_TABLE_ROWS).map((row) => {
+    const split =
+      row.runs + row.passes > 0
+        ? ` · ${row.runs} run / ${row.passes} pass`
+        : "";
+    return `${row.value}: ${row.plays} play${row.plays !== 1 ? "s" : ""} (${percent(row.share)})${split}`;
+  });
+  if (rows.length > MAX_TABLE_ROWS) {
+    shown.push(`…and ${rows.length - MAX_TABLE_ROWS} more`);
+  }
+  return shown.join("\n") || "Not broken down yet";
+}
+
+function section(
+  title: string,
+  subtitle: string,
+  rows: ScoutingTendency[],
+): PdfBlock[] {
+  return [
+    { type: "text", text: title, size: 16, bold: true },
+    { type: "text", text: subtitle, size: 10, gray: 0.35 },
+    { type: "text", text: tendencyLines(rows), size: 11 },
+  ];
+}
+
+export function scoutingReportFilename(opponentName: string): string {
+  const slug = opponentName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "opponent"}-scouting-report.pdf`;
+}
+
+/**
+ * A shareable scouting report: an overview page with the games and key
+ * numbers, then a page each for formation, play-type and down-and-distance
+ * tendencies.
+ */
+export function buildScoutingReportPdf(report: ScoutingReportData): Blob {
+  const { summary } = report;
+  const unit = SCOUTING_SIDE_LABELS[report.side];
+  const heading: PdfBlock = {
+    type: "text",
+    text: `Scouting report: vs. ${report.opponent.name}`,
+    size: 20,
+    bold: true,
+  };
+
+  const overview = [
+    `${report.plays} plays broken down from ${report.games.length} game${report.games.length !== 1 ? "s" : ""}`,
+    `Run / pass: ${summary.runs} / ${summary.passes}`,
+    `Yards per play: ${summary.yardsPerPlay === null ? "-" : summary.yardsPerPlay.toFixed(1)}`,
+    `Success rate: ${percent(summary.successRate)}`,
+    `Red zone: ${summary.redZoneTouchdowns} TD in ${summary.redZoneTrips} trip${summary.redZoneTrips !== 1 ? "s" : ""} (${percent(summary.redZoneEfficiency)})`,
+  ].join("\n");
+
+  const games = report.games
+    .slice(0, MAX_GAME_ROWS)
+    .map(
+      (game) =>
+        `${formatDate(game.date)} · ${game.title} (${game.seasonName}) · ${game.plays} plays`,
+    );
+  if (report.games.length > MAX_GAME_ROWS) {
+    games.push(`…and ${report.games.length - MAX_GAME_ROWS} more`);
+  }
+
+  return createPdf([
+    {
+      blocks: [
+        heading,
+        {
+          type: "text",
+          text: `${unit} · generated ${formatDate(new Date().toISOString())}`,
+          size: 11,
+          gray: 0.35,
+        },
+        { type: "text", text: overview, size: 12 },
+        { type: "text", text: "Games", size: 16, bold: true },
+        {
+          type: "text",
+          text: games.join("\n") || "No games yet",
+          size: 11,
+        },
+      ],
+    },
+    {
+      blocks: section(
+        "Formations",
+        `${unit} by Off Formation, most used first`,
+        report.formations,
+      ),
+    },
+    {
+      blocks: section(
+        "Play types",
+        `${unit} by Play Type, most used first`,
+        report.playTypes,
+      ),
+    },
+    {
+      blocks: section(
+        "Down and distance",
+        `${unit} by situation: short is 1-3 yards to go, medium 4-6, long 7+`,
+        report.situations,
+      ),
+    },
+  ]);
+}
@@ -0,0 +1,541 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Bar, BarChart, XAxis, YAxis } from "recharts";
+import {
+  isCoachRole,
+  SCOUTING_PLAYLIST_PRESETS,
+  SCOUTING_SIDE_LABELS,
+  type BreakdownFilter,
+  type ScoutingReportData,
+  type ScoutingTendency,
+  type StatsSide,
+} from "@repo/types";
+import { Button } from "@repo/ui/components/button";
+import { Separator } from "@repo/ui/components/separator";
+import { Spinner } from "@repo/ui/components/spinner";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@repo/ui/components/chart";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@repo/ui/components/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@repo/ui/components/select";
+import {
+  ArrowLeft,
+  BarChart3,
+  Binoculars,
+  Check,
+  Download,
+  Link2,
+  ListVideo,
+  X,
+} from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+import { downloadBlob } from "../../games/components/annotation-export";
+import {
+  buildScoutingReportPdf,
+  scoutingReportFilename,
+} from "./scouting-report-pdf";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+/** Formations charted; the table below lists them all */
+const MAX_CHARTED_FORMATIONS = 8;
+
+const FORMATION_CHART_CONFIG = {
+  runs: { label: "Run", color: "var(--chart-1)" },
+  passes: { label: "Pass", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function formatDate(dateStr: string | null): string {
+  if (!dateStr) return "No date";
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/** Run share among the row's runs and passes */
+function runShare(row: ScoutingTendency): string {
+  const total = row.runs + row.passes;
+  return total > 0 ? formatPercent(row.runs / total) : "—";
+}
+
+// ---------------------------------------------------------------------------
+// Tendency table
+// ---------------------------------------------------------------------------
+
+function TendencyTable({
+  title,
+  description,
+  rows,
+  onPlaylist,
+  creatingKey,
+}: {
+  title: string;
+  description: string;
+  rows: ScoutingTendency[];
+  /** Build a playlist of one row's plays; omitted for non-coaches */
+  onPlaylist?: (row: ScoutingTendency) => void;
+  creatingKey: string | null;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Not broken down yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-xs text-muted-foreground">
+                <th className="py-1.5 text-left font-medium"></th>
+                <th className="py-1.5 text-right font-medium">Plays</th>
+                <th className="py-1.5 text-right font-medium">Share</th>
+                <th className="py-1.5 text-right font-medium">Run</th>
+                {onPlaylist && <th className="w-10" />}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.value} className="border-b last:border-0">
+                  <td className="py-1.5 pr-2 font-medium">{row.value}</td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {row.plays}
+                  </td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {formatPercent(row.share)}
+                  </td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {runShare(row)}
+                  </td>
+                  {onPlaylist && (
+                    <td className="py-1 text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-7"
+                        disabled={creatingKey !== null}
+                        onClick={() => onPlaylist(row)}
+                        title={`Playlist of ${row.value} plays`}
+                      >
+                        {creatingKey === `${title}:${row.value}` ? (
+                          <Spinner className="size-3.5" />
+                        ) : (
+                          <ListVideo className="size-3.5" />
+                        )}
+                        <span className="sr-only">
+                          Playlist of {row.value} plays
+                        </span>
+                      </Button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main Component
+// ---------------------------------------------------------------------------
+
+/**
+ * An opponent's tendencies from our breakdowns of games against them, with
+ * one-click playlists of their plays and a PDF export to share.
+ */
+export function ScoutingReport({
+  initialReport,
+  role,
+  activeOrgId,
+}: {
+  initialReport: ScoutingReportData;
+  role: string;
+  activeOrgId: string;
+}) {
+  const router = useRouter();
+  const [report, setReport] = useState(initialReport);
+  const [side, setSide] = useState<StatsSide>(initialReport.side);
+  const [isLoading, setIsLoading] = useState(false);
+  const [creatingKey, setCreatingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const isFirstRender = useRef(true);
+  const isCoach = isCoachRole(role);
+  const opponentId = initialReport.opponent.id;
+
+  useEffect(() => {
+    // The server already loaded the default side
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetch(
+      `${API_URL}/orgs/${activeOrgId}/scouting/${opponentId}?side=${side}`,
+      {
+        credentials: "include",
+      },
+    )
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data: { report: ScoutingReportData }) => {
+        if (!cancelled) setReport(data.report);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Failed to load the scouting report");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeOrgId, opponentId, side]);
+
+  async function createPlaylist(
+    key: string,
+    label: string,
+    breakdown: BreakdownFilter[],
+  ) {
+    setCreatingKey(key);
+    setError(null);
+    try {
+      const res = await fetch(
+        `${API_URL}/orgs/${activeOrgId}/scouting/${opponentId}/playlists`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({
+            title: `vs. ${report.opponent.name}: ${label} (${SCOUTING_SIDE_LABELS[report.side]})`,
+            side: report.side,
+            breakdown,
+          }),
+        },
+      );
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(
+          (err as { message?: string }).message || "Failed to create playlist",
+        );
+      }
+      const data: { playlist: { id: string } } = await res.json();
+      router.push(`/playlists/${data.playlist.id}`);
+    } catch (err) {
+      setError(
+        (err as { message?: string }).message || "Failed to create playlist",
+      );
+      setCreatingKey(null);
+    }
+  }
+
+  function handleExport() {
+    downloadBlob(
+      buildScoutingReportPdf(report),
+      scoutingReportFilename(report.opponent.name),
+    );
+  }
+
+  async function handleCopyLink() {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }
+
+  const { summary } = report;
+  const unit = SCOUTING_SIDE_LABELS[report.side];
+  const charted = report.formations.slice(0, MAX_CHARTED_FORMATIONS);
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+      {/* Back link */}
+      <Link
+        href="/scouting"
+        className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors mb-4"
+      >
+        <ArrowLeft className="size-3.5" />
+        All opponents
+      </Link>
+
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4 mb-6 flex-wrap">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="shrink-0 size-10 rounded-md bg-primary/10 flex items-center justify-center">
+            <Binoculars className="size-5 text-primary" />
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-2xl font-semibold tracking-tight truncate">
+              vs. {report.opponent.name}
+            </h1>
+            <p className="text-sm text-muted-foreground mt-0.5">
+              {report.games.length} game{report.games.length !== 1 ? "s" : ""}
+              {" · "}
+              {report.plays} play{report.plays !== 1 ? "s" : ""} broken down
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 shrink-0">
+          {isLoading && <Spinner className="size-4" />}
+          <Select value={side} onValueChange={(v) => setSide(v as StatsSide)}>
+            <SelectTrigger className="w-36 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="D">{SCOUTING_SIDE_LABELS.D}</SelectItem>
+              <SelectItem value="O">{SCOUTING_SIDE_LABELS.O}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" className="gap-1.5" asChild>
+            <Link href={`/opponents/${opponentId}/stats`}>
+              <BarChart3 className="size-3.5" />
+              Stats
+            </Link>
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5"
+            onClick={handleCopyLink}
+          >
+            {copied ? (
+              <Check className="size-3.5" />
+            ) : (
+              <Link2 className="size-3.5" />
+            )}
+            {copied ? "Copied" : "Copy link"}
+          </Button>
+          <Button size="sm" className="gap-1.5" onClick={handleExport}>
+            <Download className="size-3.5" />
+            Export PDF
+          </Button>
+        </div>
+      </div>
+
+      {/* Error banner */}
+      {error && (
+        <div className="flex items-center justify-between gap-2 mb-4 rounded-md border border-destructive/50 bg-destructive/10 px-4 py-3">
+          <p className="text-sm text-destructive">{error}</p>
+          <button
+            type="button"
+            className="shrink-0 text-destructive hover:text-destructive/80"
+            onClick={() => setError(null)}
+            aria-label="Dismiss error"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Key numbers */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+        {[
+          {
+            label: "Run / pass",
+            value: `${summary.runs} / ${summary.passes}`,
+          },
+          {
+            label: "Yards per play",
+            value:
+              summary.yardsPerPlay === null
+                ? "—"
+                : summary.yardsPerPlay.toFixed(1),
+          },
+          { label: "Success rate", value: formatPercent(summary.successRate) },
+          {
+            label: "Red zone TD rate",
+            value: formatPercent(summary.redZoneEfficiency),
+          },
+        ].map((tile) => (
+          <div key={tile.label} className="rounded-lg border px-4 py-3">
+            <p className="text-xs text-muted-foreground">{tile.label}</p>
+            <p className="text-2xl font-semibold tabular-nums mt-1">
+              {tile.value}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* One-click playlists */}
+      {isCoach && (
+        <div className="flex items-center gap-2 flex-wrap mb-6">
+          <span className="text-sm text-muted-foreground mr-1">
+            Playlists of {unit.toLowerCase()}:
+          </span>
+          {SCOUTING_PLAYLIST_PRESETS.map((preset) => (
+            <Button
+              key={preset.id}
+              variant="outline"
+              size="sm"
+              className="gap-1.5"
+              disabled={creatingKey !== null || report.plays === 0}
+              onClick={() =>
+                createPlaylist(preset.id, preset.label, preset.breakdown)
+              }
+            >
+              {creatingKey === preset.id ? (
+                <Spinner className="size-3.5" />
+              ) : (
+                <ListVideo className="size-3.5" />
+              )}
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2 mb-6">
+        {/* Formation chart */}
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-base">Formation tendencies</CardTitle>
+            <CardDescription>
+              {unit}: run and pass calls out of their most used formations
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {charted.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Fill in Off Formation in the Breakdown panel to chart their
+                formations.
+              </p>
+            ) : (
+              <ChartContainer
+                config={FORMATION_CHART_CONFIG}
+                className="aspect-auto w-full"
+                style={{ height: 48 + charted.length * 32 }}
+              >
+                <BarChart data={charted} layout="vertical">
+                  <XAxis type="number" allowDecimals={false} hide />
+                  <YAxis
+                    type="category"
+                    dataKey="value"
+                    tickLine={false}
+                    axisLine={false}
+                    width={120}
+                  />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar
+                    dataKey="runs"
+                    stackId="split"
+                    fill="var(--color-runs)"
+                  />
+                  <Bar
+                    dataKey="passes"
+                    stackId="split"
+                    fill="var(--color-passes)"
+                    radius={[0, 4, 4, 0]}
+                  />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <TendencyTable
+          title="Formations"
+          description="By Off Formation, most used first"
+          rows={report.formations}
+          creatingKey={creatingKey}
+          onPlaylist={
+            isCoach
+              ? (row) =>
+                  createPlaylist(`Formations:${row.value}`, row.value, [
+                    { key: "off_formation", equals: row.value },
+                  ])
+              : undefined
+          }
+        />
+        <TendencyTable
+          title="Play types"
+          description="By Play Type, most used first"
+          rows={report.playTypes}
+          creatingKey={creatingKey}
+          onPlaylist={
+            isCoach
+              ? (row) =>
+                  createPlaylist(`Play types:${row.value}`, row.value, [
+                    { key: "play_type", equals: row.value },
+                  ])
+              : undefined
+          }
+        />
+        <TendencyTable
+          title="Down and distance"
+          description="Short is 1–3 yards to go, medium 4–6, long 7+"
+          rows={report.situations}
+          creatingKey={creatingKey}
+        />
+      </div>
+
+      {/* Games */}
+      <h2 className="text-lg font-medium mb-2">Games</h2>
+      <Separator className="mb-1" />
+      {report.games.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-3">
+          No games against this opponent yet.
+        </p>
+      ) : (
+        report.games.map((game) => (
+          <Link
+            key={game.id}
+            href={`/games/${game.id}`}
+            className="flex items-center justify-between gap-4 py-3 px-3 -mx-3 rounded-md hover:bg-accent/50 transition-colors"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{game.title}</p>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                {formatDate(game.date)}
+                {" · "}
+                {game.seasonName}
+              </p>
+            </div>
+            <span className="shrink-0 text-xs text-muted-foreground tabular-nums">
+              {game.plays} play{game.plays !== 1 ? "s" : ""}
+            </span>
+          </Link>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { requireAuth, getServerOrg } from "../../lib/auth";
+import { headers } from "next/headers";
+import type { ScoutingOpponentData } from "@repo/types";
+import { ScoutingContent } from "./scouting-content";
+import { NoTeamState } from "../components/no-team-state";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+async function fetchOpponents(
+  orgId: string,
+  cookie: string,
+): Promise<ScoutingOpponentData[]> {
+  const res = await fetch(`${API_URL}/orgs/${orgId}/scouting`, {
+    headers: { cookie },
+    cache: "no-store",
+  });
+  if (!res.ok) return [];
+  const data = await res.json();
+  return data.opponents || [];
+}
+
+export default async function ScoutingPage() {
+  await requireAuth();
+  const org = await getServerOrg();
+
+  if (!org) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+        <NoTeamState message="Join or create a team to scout opponents." />
+      </div>
+    );
+  }
+
+  const reqHeaders = await headers();
+  const cookie = reqHeaders.get("cookie") || "";
+  const opponents = await fetchOpponents(org.id, cookie);
+
+  return <ScoutingContent opponents={opponents} />;
+}
@@ -0,0 +1,83 @@
+import Link from "next/link";
+import type { ScoutingOpponentData } from "@repo/types";
+import { Badge } from "@repo/ui/components/badge";
+import { Separator } from "@repo/ui/components/separator";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@repo/ui/components/empty";
+import { Binoculars } from "lucide-react";
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export function ScoutingContent({
+  opponents,
+}: {
+  opponents: ScoutingOpponentData[];
+}) {
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 pt-6 pb-16">
+      {/* Page header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold tracking-tight">Scouting</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Tendencies and playlists for every opponent you&apos;ve tagged.
+        </p>
+      </div>
+
+      {opponents.length === 0 ? (
+        <Empty className="min-h-75">
+          <EmptyMedia>
+            <Binoculars className="size-16 text-muted-foreground" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>No opponents yet</EmptyTitle>
+            <EmptyDescription>
+              Tag games with an opponent to start building scouting reports.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div>
+          <Separator className="mb-1" />
+          {opponents.map((opponent) => (
+            <Link
+              key={opponent.id}
+              href={`/scouting/${opponent.id}`}
+              className="flex items-center gap-4 py-3.5 px-3 -mx-3 rounded-md hover:bg-accent/50 transition-colors"
+            >
+              <div className="shrink-0 size-10 rounded-md bg-primary/10 flex items-center justify-center">
+                <Binoculars className="size-5 text-primary" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  vs. {opponent.name}
+                </p>
+                <div className="flex items-center gap-2 mt-0.5">
+                  <Badge variant="secondary" className="text-xs">
+                    {opponent.gameCount} game
+                    {opponent.gameCount !== 1 ? "s" : ""}
+                  </Badge>
+                  {opponent.lastGameDate && (
+                    <span className="text-xs text-muted-foreground">
+                      Last played {formatDate(opponent.lastGameDate)}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
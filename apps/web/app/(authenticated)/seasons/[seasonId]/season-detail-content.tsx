@@ -60,6 +60,7 @@ import {
 import { Progress } from "@repo/ui/components/progress";
 import {
   ArrowLeft,
+  BarChart3,
   Calendar,
   Check,
   Film,
@@ -123,6 +124,8 @@ type GroupBy = "none" | "opponent";
 interface GameGroup {
   key: string;
   label: string;
+  /** Opponent tag, when grouped by opponent */
+  tagId?: string;
   games: GameData[];
 }
 
@@ -189,6 +192,8 @@ function groupGames(games: GameData[], groupBy: GroupBy): GameGroup[] {
   return Array.from(groups.entries()).map(([opponent, groupedGames]) => ({
     key: opponent,
     label: `vs. ${opponent}`,
+    tagId: groupedGames[0]?.tags?.find((tag) => tag.category === "OPPONENT")
+      ?.id,
     games: groupedGames,
   }));
 }
@@ -701,50 +706,58 @@ export function SeasonDetailContent({
           </div>
         </div>
 
-        {isCoach && (
-          <div className="flex items-center gap-2 shrink-0">
-            <EditSeasonDialog
-              season={season}
-              orgId={activeOrgId}
-              onUpdated={handleSeasonUpdated}
-            />
-            <AlertDialog>
-              <AlertDialogTrigger asChild>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="gap-1.5 text-destructive hover:text-destructive"
-                  disabled={gameCount > 0}
-                >
-                  <Trash2 className="size-3.5" />
-                  Delete
-                </Button>
-              </AlertDialogTrigger>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle>
-                    Delete &ldquo;{season.name}&rdquo;?
-                  </AlertDialogTitle>
-                  <AlertDialogDescription>
-                    {gameCount > 0
-                      ? `This season has ${gameCount} game${gameCount !== 1 ? "s" : ""}. You must move or delete all games before deleting the season.`
-                      : "This will permanently delete this season. This action cannot be undone."}
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                  <AlertDialogAction
-                    onClick={handleDeleteSeason}
+        <div className="flex items-center gap-2 shrink-0">
+          <Button variant="outline" size="sm" className="gap-1.5" asChild>
+            <Link href={`/seasons/${season.id}/stats`}>
+              <BarChart3 className="size-3.5" />
+              Stats
+            </Link>
+          </Button>
+          {isCoach && (
+            <>
+              <EditSeasonDialog
+                season={season}
+                orgId={activeOrgId}
+                onUpdated={handleSeasonUpdated}
+              />
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1.5 text-destructive hover:text-destructive"
                     disabled={gameCount > 0}
-                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                   >
+                    <Trash2 className="size-3.5" />
                     Delete
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
-          </div>
-        )}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>
+                      Delete &ldquo;{season.name}&rdquo;?
+                    </AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {gameCount > 0
+                        ? `This season has ${gameCount} game${gameCount !== 1 ? "s" : ""}. You must move or delete all games before deleting the season.`
+                        : "This will permanently delete this season. This action cannot be undone."}
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={handleDeleteSeason}
+                      disabled={gameCount > 0}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Stats bar */}
@@ -852,6 +865,15 @@ export function SeasonDetailContent({
                     {group.games.length !== 1 ? "s" : ""}
                   </span>
                   <div className="flex-1 h-px bg-border" />
+                  {group.tagId && (
+                    <Link
+                      href={`/opponents/${group.tagId}/stats`}
+                      className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                    >
+                      <BarChart3 className="size-3" />
+                      Stats
+                    </Link>
+                  )}
                 </div>
               )}
               <div>
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_LABELS,
+  type NotificationEmailPreferences,
+  type NotificationType,
+} from "@repo/types";
+import { Label } from "@repo/ui/components/label";
+import { Separator } from "@repo/ui/components/separator";
+import { Switch } from "@repo/ui/components/switch";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+/** Profile settings section: which team activity also sends email. */
+export function NotificationPreferences({
+  initialPreferences,
+}: {
+  initialPreferences: NotificationEmailPreferences;
+}) {
+  const [preferences, setPreferences] = useState(initialPreferences);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleToggle(type: NotificationType, email: boolean) {
+    const previous = preferences;
+    setPreferences({ ...preferences, [type]: email });
+    setError(null);
+
+    const res = await fetch(`${API_URL}/notifications/preferences`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({ email: { [type]: email } }),
+    }).catch(() => null);
+
+    if (!res?.ok) {
+      setPreferences(previous);
+      setError("Failed to save notification settings");
+      return;
+    }
+    const data: { email: NotificationEmailPreferences } = await res.json();
+    setPreferences(data.email);
+  }
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold mb-4">Email notifications</h2>
+      <Separator className="mb-6" />
+
+      <p className="text-sm text-muted-foreground mb-4">
+        Everything shows up under the bell in the top bar. Choose which activity
+        should also be emailed to you.
+      </p>
+
+      {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+      <div className="space-y-4">
+        {NOTIFICATION_TYPES.map((type) => {
+          const { label, description } = NOTIFICATION_TYPE_LABELS[type];
+          const id = `notify-email-${type}`;
+
+          return (
+            <div key={type} className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor={id} className="text-sm font-medium">
+                  {label}
+                </Label>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+              <Switch
+                id={id}
+                checked={preferences[type]}
+                onCheckedChange={(checked) => handleToggle(type, checked)}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
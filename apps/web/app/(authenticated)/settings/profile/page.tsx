@@ -1,5 +1,6 @@
 import { requireAuth, listUserOrgs } from "../../../lib/auth";
 import { prisma } from "@repo/db";
+import { DEFAULT_EMAIL_NOTIFICATIONS } from "@repo/types";
 import {
   ProfileSettingsContent,
   type ProfileInitialData,
@@ -29,6 +30,14 @@ export default async function ProfileSettingsPage() {
     }
   }
 
+  const notificationPreferences = { ...DEFAULT_EMAIL_NOTIFICATIONS };
+  const savedPreferences = await prisma.notificationPreference.findMany({
+    where: { userId: session.user.id },
+  });
+  for (const preference of savedPreferences) {
+    notificationPreferences[preference.type] = preference.email;
+  }
+
   const initialData: ProfileInitialData = {
     userName: session.user.name || "User",
     userEmail: session.user.email || "",
@@ -39,6 +48,7 @@ export default async function ProfileSettingsPage() {
       slug: o.slug,
     })),
     soleOwnedOrgNames,
+    notificationPreferences,
     profile: {
       sport: user.sport || "",
       position: user.position || "",
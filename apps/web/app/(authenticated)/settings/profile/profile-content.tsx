@@ -70,6 +70,8 @@ import {
   Monitor,
 } from "lucide-react";
 import type { ControllerRenderProps } from "react-hook-form";
+import type { NotificationEmailPreferences } from "@repo/types";
+import { NotificationPreferences } from "./notification-preferences";
 
 function getInitials(name: string): string {
   return name
@@ -98,6 +100,7 @@ export interface ProfileInitialData {
   activeOrgId: string | undefined;
   orgs: Array<{ id: string; name: string; slug: string }>;
   soleOwnedOrgNames: string[];
+  notificationPreferences: NotificationEmailPreferences;
   profile: {
     sport: string;
     position: string;
@@ -925,6 +928,11 @@ export function ProfileSettingsContent({
           </div>
         </section>
 
+        {/* Notifications */}
+        <NotificationPreferences
+          initialPreferences={initialData.notificationPreferences}
+        />
+
         {/* Teams */}
         <section>
           <h2 className="text-lg font-semibold mb-4">Teams</h2>
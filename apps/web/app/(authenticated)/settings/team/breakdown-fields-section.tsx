@@ -0,0 +1,502 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  BREAKDOWN_FIELD_TYPES,
+  BREAKDOWN_FIELD_TYPE_LABELS,
+  type BreakdownFieldData,
+  type BreakdownFieldType,
+} from "@repo/types";
+import { breakdownFieldSchema } from "@repo/types/validations";
+import { Button } from "@repo/ui/components/button";
+import { Input } from "@repo/ui/components/input";
+import { Label } from "@repo/ui/components/label";
+import { Badge } from "@repo/ui/components/badge";
+import { Separator } from "@repo/ui/components/separator";
+import { Spinner } from "@repo/ui/components/spinner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@repo/ui/components/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@repo/ui/components/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@repo/ui/components/alert-dialog";
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2 } from "lucide-react";
+import { clientEnv } from "@repo/env/web";
+
+const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
+
+/** One-line description of what a column accepts */
+function describeField(field: BreakdownFieldData): string {
+  if (field.type === "SELECT") return field.options.join(", ");
+  if (field.type === "NUMBER") {
+    if (field.min !== null && field.max !== null) {
+      return `${field.min} to ${field.max}`;
+    }
+    if (field.min !== null) return `${field.min} or more`;
+    if (field.max !== null) return `Up to ${field.max}`;
+    return "Any whole number";
+  }
+  return "Free text";
+}
+
+function parseBound(text: string): number | null {
+  return text.trim() === "" ? null : Number(text);
+}
+
+async function apiRequest<T>(path: string, init: RequestInit): Promise<T> {
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(
+      (err as { message?: string }).message || "Something went wrong",
+    );
+  }
+  return res.json();
+}
+
+interface FieldDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Column being edited, or null to add one */
+  field: BreakdownFieldData | null;
+  onSubmit: (values: {
+    label: string;
+    type: BreakdownFieldType;
+    options: string[];
+    min: number | null;
+    max: number | null;
+  }) => Promise<void>;
+}
+
+/** Add or edit a column. A column's type is fixed once it has been created. */
+function FieldDialog({
+  open,
+  onOpenChange,
+  field,
+  onSubmit,
+}: FieldDialogProps) {
+  const [label, setLabel] = useState(field?.label ?? "");
+  const [type, setType] = useState<BreakdownFieldType>(field?.type ?? "TEXT");
+  const [optionsText, setOptionsText] = useState(
+    field?.options.join(", ") ?? "",
+  );
+  const [minText, setMinText] = useState(field?.min?.toString() ?? "");
+  const [maxText, setMaxText] = useState(field?.max?.toString() ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const parsed = breakdownFieldSchema.safeParse({
+      label,
+      type,
+      options:
+        type === "SELECT"
+          ? optionsText
+              .split(",")
+              .map((o) => o.trim())
+              .filter(Boolean)
+          : [],
+      min: type === "NUMBER" ? parseBound(minText) : null,
+      max: type === "NUMBER" ? parseBound(maxText) : null,
+    });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message || "Invalid column");
+      return;
+    }
+
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSubmit(parsed.data);
+      onOpenChange(false);
+    } catch (err) {
+      setError(
+        (err as { message?: string }).message || "Failed to save column",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{field ? "Edit column" : "Add column"}</DialogTitle>
+            <DialogDescription>
+              Coaches fill in breakdown columns for each play while watching
+              film.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="breakdown-label">Name</Label>
+            <Input
+              id="breakdown-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Hash"
+              maxLength={40}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select
+              value={type}
+              onValueChange={(v) => setType(v as BreakdownFieldType)}
+              disabled={field !== null}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BREAKDOWN_FIELD_TYPES.map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {BREAKDOWN_FIELD_TYPE_LABELS[t]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {type === "SELECT" && (
+            <div className="space-y-2">
+              <Label htmlFor="breakdown-options">Options</Label>
+              <Input
+                id="breakdown-options"
+                value={optionsText}
+                onChange={(e) => setOptionsText(e.target.value)}
+                placeholder="Left, Middle, Right"
+              />
+              <p className="text-xs text-muted-foreground">
+                Separate options with commas.
+              </p>
+            </div>
+          )}
+
+          {type === "NUMBER" && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="breakdown-min">Minimum</Label>
+                <Input
+                  id="breakdown-min"
+                  type="number"
+                  value={minText}
+                  onChange={(e) => setMinText(e.target.value)}
+                  placeholder="None"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="breakdown-max">Maximum</Label>
+                <Input
+                  id="breakdown-max"
+                  type="number"
+                  value={maxText}
+                  onChange={(e) => setMaxText(e.target.value)}
+                  placeholder="None"
+                />
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? <Spinner className="size-4" /> : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Team settings section for the play-by-play breakdown schema: the columns
+ * coaches fill in for each play in the game breakdown panel.
+ */
+export function BreakdownFieldsSection({ orgId }: { orgId: string }) {
+  const [fields, setFields] = useState<BreakdownFieldData[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogField, setDialogField] = useState<
+    BreakdownFieldData | null | undefined
+  >(undefined);
+  const [isAddingDefaults, setIsAddingDefaults] = useState(false);
+
+  const basePath = `/orgs/${orgId}/breakdown-fields`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiRequest<{ fields: BreakdownFieldData[] }>(basePath, { method: "GET" })
+      .then((data) => {
+        if (!cancelled) setFields(data.fields);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setFields([]);
+          setError("Failed to load breakdown columns");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [basePath]);
+
+  async function runAction(action: () => Promise<void>) {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError((err as { message?: string }).message || "Something went wrong");
+    }
+  }
+
+  async function handleAddDefaults() {
+    setIsAddingDefaults(true);
+    await runAction(async () => {
+      const data = await apiRequest<{ fields: BreakdownFieldData[] }>(
+        `${basePath}/defaults`,
+        { method: "POST" },
+      );
+      setFields(data.fields);
+    });
+    setIsAddingDefaults(false);
+  }
+
+  function handleMove(index: number, offset: -1 | 1) {
+    if (!fields) return;
+    const next = [...fields];
+    const [moved] = next.splice(index, 1);
+    if (!moved) return;
+    next.splice(index + offset, 0, moved);
+    setFields(next);
+
+    return runAction(async () => {
+      const data = await apiRequest<{ fields: BreakdownFieldData[] }>(
+        `${basePath}/order`,
+        {
+          method: "PUT",
+          body: JSON.stringify({ fieldIds: next.map((f) => f.id) }),
+        },
+      );
+      setFields(data.fields);
+    });
+  }
+
+  function handleDelete(field: BreakdownFieldData) {
+    return runAction(async () => {
+      await apiRequest(`${basePath}/${field.id}`, { method: "DELETE" });
+      setFields((prev) => prev?.filter((f) => f.id !== field.id) ?? null);
+    });
+  }
+
+  async function handleSubmit(values: {
+    label: string;
+    type: BreakdownFieldType;
+    options: string[];
+    min: number | null;
+    max: number | null;
+  }) {
+    if (dialogField) {
+      // The type can't change after creation
+      const { label, options, min, max } = values;
+      const data = await apiRequest<{ field: BreakdownFieldData }>(
+        `${basePath}/${dialogField.id}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify({ label, options, min, max }),
+        },
+      );
+      setFields(
+        (prev) =>
+          prev?.map((f) => (f.id === data.field.id ? data.field : f)) ?? null,
+      );
+    } else {
+      const data = await apiRequest<{ field: BreakdownFieldData }>(basePath, {
+        method: "POST",
+        body: JSON.stringify(values),
+      });
+      setFields((prev) => [...(prev ?? []), data.field]);
+    }
+  }
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Play Breakdown</h2>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setDialogField(null)}
+          className="gap-1.5"
+        >
+          <Plus className="size-4" />
+          Add column
+        </Button>
+      </div>
+      <Separator className="mb-6" />
+
+      <p className="text-sm text-muted-foreground mb-4">
+        Columns coaches fill in for every play in the game breakdown panel.
+        Values are checked against each column&apos;s type.
+      </p>
+
+      {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+      {fields === null ? (
+        <div className="flex justify-center py-6">
+          <Spinner className="size-5" />
+        </div>
+      ) : fields.length === 0 ? (
+        <div className="flex flex-col items-center gap-3 rounded-lg border border-dashed py-8 text-center">
+          <p className="text-sm text-muted-foreground">
+            No breakdown columns yet.
+          </p>
+          <Button
+            size="sm"
+            onClick={handleAddDefaults}
+            disabled={isAddingDefaults}
+          >
+            {isAddingDefaults ? (
+              <Spinner className="size-4" />
+            ) : (
+              "Add standard football columns"
+            )}
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            ODK, down, distance, yard line, formation, play type, result and
+            gain/loss.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {fields.map((field, index) => (
+            <div
+              key={field.id}
+              className="flex items-center gap-3 rounded-md px-3 py-2 hover:bg-muted/50"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{field.label}</span>
+                  <Badge variant="secondary">
+                    {BREAKDOWN_FIELD_TYPE_LABELS[field.type]}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground truncate mt-0.5">
+                  {describeField(field)}
+                </p>
+              </div>
+              <div className="flex items-center shrink-0">
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => handleMove(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${field.label} up`}
+                >
+                  <ArrowUp className="size-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => handleMove(index, 1)}
+                  disabled={index === fields.length - 1}
+                  aria-label={`Move ${field.label} down`}
+                >
+                  <ArrowDown className="size-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => setDialogField(field)}
+                  aria-label={`Edit ${field.label}`}
+                >
+                  <Pencil className="size-4" />
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      aria-label={`Delete ${field.label}`}
+                      className="text-muted-foreground hover:text-destructive"
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {field.label}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The column will be removed from the breakdown panel.
+                        Values already entered are kept and come back if you add
+                        a column with the same name again.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleDelete(field)}>
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {dialogField !== undefined && (
+        <FieldDialog
+          // Reset the form for each column opened
+          key={dialogField?.id ?? "new"}
+          open
+          onOpenChange={(open) => {
+            if (!open) setDialogField(undefined);
+          }}
+          field={dialogField}
+          onSubmit={handleSubmit}
+        />
+      )}
+    </section>
+  );
+}
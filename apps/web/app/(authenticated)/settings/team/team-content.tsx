@@ -82,6 +82,7 @@ import {
 } from "lucide-react";
 import type { ControllerRenderProps } from "react-hook-form";
 import { clientEnv } from "@repo/env/web";
+import { BreakdownFieldsSection } from "./breakdown-fields-section";
 
 const API_URL = clientEnv.NEXT_PUBLIC_API_URL;
 
@@ -1142,6 +1143,9 @@ export function TeamSettingsContent({
           </div>
         </section>
 
+        {/* Play Breakdown */}
+        <BreakdownFieldsSection orgId={initialData.orgId} />
+
         {/* Danger Zone */}
         {isOwner && (
           <section>
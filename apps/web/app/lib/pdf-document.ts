@@ -0,0 +1,257 @@
+/**
+ * Minimal client-side PDF writer.
+ *
+ * Lays out pages of text and JPEG images top to bottom on US Letter
+ * landscape pages using the built-in Helvetica fonts, so no font files or
+ * PDF library are needed. JPEGs are embedded as-is (DCTDecode).
+ */
+
+/** US Letter landscape, in points */
+const PAGE_WIDTH = 792;
+const PAGE_HEIGHT = 612;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const LINE_HEIGHT = 1.3;
+/** Vertical space between blocks, in points */
+const BLOCK_GAP = 10;
+/** Average Helvetica glyph width as a fraction of the font size, for wrapping */
+const AVG_CHAR_WIDTH = 0.5;
+
+export interface PdfImage {
+  /** JPEG file bytes */
+  jpeg: Uint8Array<ArrayBuffer>;
+  width: number;
+  height: number;
+}
+
+export type PdfBlock =
+  | {
+      type: "text";
+      text: string;
+      /** Font size in points */
+      size: number;
+      bold?: boolean;
+      /** Gray level, 0 (black) to 1 (white) */
+      gray?: number;
+    }
+  | { type: "image"; image: PdfImage };
+
+export interface PdfPage {
+  blocks: PdfBlock[];
+}
+
+/** Typographic characters outside Latin-1 mapped to plain equivalents */
+const CHAR_REPLACEMENTS: Record<string, string> = {
+  "–": "-",
+  "—": "-",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "•": "·",
+  "…": "...",
+};
+
+/** Text as a PDF literal string in the standard Latin encoding. */
+function pdfString(text: string): string {
+  let out = "";
+  for (const char of text) {
+    const replaced = CHAR_REPLACEMENTS[char] ?? char;
+    for (const c of replaced) {
+      const code = c.charCodeAt(0);
+      if (c === "\\" || c === "(" || c === ")") out += `\\${c}`;
+      else if (code < 0x20) out += " ";
+      else if (code > 0xff || (code >= 0x7f && code < 0xa0)) out += "?";
+      else out += c;
+    }
+  }
+  return `(${out})`;
+}
+
+function latin1Bytes(text: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+/** Greedy word wrap by estimated width; long words are broken. */
+function wrapText(text: string, size: number, maxWidth: number): string[] {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (size * AVG_CHAR_WIDTH)));
+  const lines: string[] = [];
+
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      let rest = word;
+      while (rest.length > maxChars) {
+        if (line) {
+          lines.push(line);
+          line = "";
+        }
+        lines.push(rest.slice(0, maxChars));
+        rest = rest.slice(maxChars);
+      }
+      const candidate = line ? `${line} ${rest}` : rest;
+      if (candidate.length > maxChars) {
+        lines.push(line);
+        line = rest;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function textBlockHeight(block: Extract<PdfBlock, { type: "text" }>): number {
+  const lines = wrapText(block.text, block.size, CONTENT_WIDTH);
+  return lines.length * block.size * LINE_HEIGHT + BLOCK_GAP;
+}
+
+/**
+ * Content stream for one page. Images share the height left after the text
+ * blocks that follow them, so captions under an image stay on the page.
+ */
+function pageContent(page: PdfPage, imageNames: string[]): string {
+  const ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+  let imageIndex = 0;
+
+  page.blocks.forEach((block, index) => {
+    if (block.type === "text") {
+      const font = block.bold ? "F2" : "F1";
+      ops.push(`${block.gray ?? 0} g`);
+      for (const line of wrapText(block.text, block.size, CONTENT_WIDTH)) {
+        y -= block.size * LINE_HEIGHT;
+        if (y < MARGIN) break;
+        ops.push(
+          `BT /${font} ${block.size} Tf ${MARGIN} ${y.toFixed(2)} Td ${pdfString(line)} Tj ET`,
+        );
+      }
+    } else {
+      const reserved = page.blocks
+        .slice(index + 1)
+        .reduce(
+          (sum, next) =>
+            next.type === "text" ? sum + textBlockHeight(next) : sum,
+          0,
+        );
+      const available = Math.max(0, y - MARGIN - reserved);
+      const scale = Math.min(
+        CONTENT_WIDTH / block.image.width,
+        available / block.image.height,
+      );
+      const width = block.image.width * scale;
+      const height = block.image.height * scale;
+      const x = MARGIN + (CONTENT_WIDTH - width) / 2;
+      y -= height;
+      ops.push(
+        `q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /${imageNames[imageIndex]} Do Q`,
+      );
+      imageIndex++;
+    }
+    y -= BLOCK_GAP;
+  });
+
+  return ops.join("\n");
+}
+
+/** Build a PDF file from pages of text and images. */
+export function createPdf(pages: PdfPage[]): Blob {
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  function write(data: string | Uint8Array<ArrayBuffer>) {
+    const bytes = typeof data === "string" ? latin1Bytes(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  }
+
+  function writeObject(
+    id: number,
+    dict: string,
+    stream?: Uint8Array<ArrayBuffer>,
+  ) {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${dict}\n`);
+    if (stream) {
+      write("stream\n");
+      write(stream);
+      write("\nendstream\n");
+    }
+    write("endobj\n");
+  }
+
+  // Object ids: 1 catalog, 2 page tree, 3-4 fonts, then per page the page,
+  // its content stream and its images
+  let nextId = 5;
+  const layout = pages.map((page) => {
+    const pageId = nextId++;
+    const contentId = nextId++;
+    const imageIds = page.blocks
+      .filter((block) => block.type === "image")
+      .map(() => nextId++);
+    return { page, pageId, contentId, imageIds };
+  });
+
+  write("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+  writeObject(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  writeObject(
+    2,
+    `<< /Type /Pages /Kids [${layout.map((p) => `${p.pageId} 0 R`).join(" ")}] /Count ${layout.length} >>`,
+  );
+  writeObject(
+    3,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+  );
+  writeObject(
+    4,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  );
+
+  for (const { page, pageId, contentId, imageIds } of layout) {
+    const imageNames = imageIds.map((_, i) => `Im${i + 1}`);
+    const xObjects = imageIds
+      .map((id, i) => `/${imageNames[i]} ${id} 0 R`)
+      .join(" ");
+
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> ` +
+        `/Contents ${contentId} 0 R >>`,
+    );
+
+    const content = latin1Bytes(pageContent(page, imageNames));
+    writeObject(contentId, `<< /Length ${content.length} >>`, content);
+
+    const images = page.blocks.filter(
+      (block): block is Extract<PdfBlock, { type: "image" }> =>
+        block.type === "image",
+    );
+    images.forEach(({ image }, i) => {
+      writeObject(
+        imageIds[i]!,
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+          `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>`,
+        image.jpeg,
+      );
+    });
+  }
+
+  const xrefOffset = length;
+  const objectCount = nextId;
+  let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objectCount; id++) {
+    xref += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  write(xref);
+  write(
+    `trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`,
+  );
+
+  return new Blob(chunks, { type: "application/pdf" });
+}
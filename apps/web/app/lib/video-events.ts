@@ -0,0 +1,72 @@
+"use client";
+
+/**
+ * Video events — client for the per-video processing status stream (SSE).
+ *
+ * Opens one EventSource per video and forwards status transitions and
+ * processing progress to the caller. Streams are closed once a video reaches
+ * a terminal status (COMPLETED/FAILED) so EventSource doesn't auto-reconnect.
+ */
+
+import { useEffect, useRef } from "react";
+import { clientEnv } from "@repo/env/web";
+import type { VideoStatusValue, VideoStreamEvent } from "@repo/types";
+
+/** Statuses after which the server closes the stream. */
+const TERMINAL_STATUSES: ReadonlySet<VideoStatusValue> = new Set([
+  "COMPLETED",
+  "FAILED",
+]);
+
+/** Statuses worth subscribing to — the video is still moving through the pipeline. */
+export const IN_FLIGHT_STATUSES: ReadonlySet<string> = new Set([
+  "UPLOADING",
+  "UPLOADED",
+  "PROCESSING",
+]);
+
+/**
+ * Subscribe to the events stream of each video in `videoIds`.
+ * `onEvent` may change between renders without reopening the streams.
+ */
+export function useVideoEvents(
+  organizationId: string,
+  videoIds: string[],
+  onEvent: (event: VideoStreamEvent) => void,
+): void {
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  // Re-subscribe only when the set of IDs actually changes
+  const key = videoIds.join(",");
+
+  useEffect(() => {
+    if (!key) return;
+
+    const sources = key.split(",").map((videoId) => {
+      const source = new EventSource(
+        `${clientEnv.NEXT_PUBLIC_API_URL}/orgs/${organizationId}/videos/${videoId}/events`,
+        { withCredentials: true },
+      );
+
+      source.onmessage = (message) => {
+        let event: VideoStreamEvent;
+        try {
+          event = JSON.parse(message.data) as VideoStreamEvent;
+        } catch {
+          return;
+        }
+        onEventRef.current(event);
+        if (event.type === "status" && TERMINAL_STATUSES.has(event.status)) {
+          source.close();
+        }
+      };
+
+      return source;
+    });
+
+    return () => {
+      for (const source of sources) source.close();
+    };
+  }, [organizationId, key]);
+}
@@ -22,7 +22,7 @@ const webAppUrl =
     : "http://localhost:3000";
 
 /** Send an email via Resend and log failures. */
-async function sendEmail(
+export async function sendEmail(
   to: string,
   template: { subject: string; html: string },
 ) {
@@ -0,0 +1,47 @@
+/**
+ * One-off backfill: annotation `visibility` replaces the `isPrivate` flag.
+ *
+ * Run it against each existing database BEFORE the `db:push` that brings
+ * in the visibility schema — that push drops "isPrivate" (it asks for
+ * --accept-data-loss to do so), and private annotations would otherwise
+ * fall back to the TEAM default:
+ *
+ *   dotenv -- bun run --cwd packages/db db:backfill-annotation-visibility
+ *   bun run db:push
+ *
+ * Adds the visibility column if the database doesn't have it yet and marks
+ * every annotation flagged private as PRIVATE; everything else keeps the
+ * TEAM visibility it had. Safe to run more than once, and a no-op once
+ * "isPrivate" is gone.
+ */
+
+import { prisma } from "../src/client";
+
+const [column] = await prisma.$queryRaw<{ exists: boolean }[]>`
+  SELECT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'annotation' AND column_name = 'isPrivate'
+  ) AS "exists"
+`;
+
+if (!column?.exists) {
+  console.log('annotation."isPrivate" is already gone — nothing to backfill');
+} else {
+  await prisma.$executeRaw`
+    DO $$ BEGIN
+      CREATE TYPE "AnnotationVisibility" AS ENUM ('PRIVATE', 'COACHES', 'TEAM');
+    EXCEPTION
+      WHEN duplicate_object THEN NULL;
+    END $$
+  `;
+  await prisma.$executeRaw`
+    ALTER TABLE "annotation"
+      ADD COLUMN IF NOT EXISTS "visibility" "AnnotationVisibility" NOT NULL DEFAULT 'TEAM'
+  `;
+  const updated = await prisma.$executeRaw`
+    UPDATE "annotation" SET "visibility" = 'PRIVATE' WHERE "isPrivate" = true
+  `;
+  console.log(`Marked ${updated} private annotation(s) as PRIVATE`);
+}
+
+await prisma.$disconnect();
@@ -3,6 +3,7 @@ export {
   resetPasswordEmail,
   deleteAccountVerificationEmail,
   invitationEmail,
+  notificationEmail,
 } from "./templates";
 
 export type {
@@ -10,4 +11,5 @@ export type {
   ResetPasswordEmailParams,
   DeleteAccountEmailParams,
   InvitationEmailParams,
+  NotificationEmailParams,
 } from "./templates";
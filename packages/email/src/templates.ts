@@ -7,6 +7,16 @@ const mutedColor = "#666";
 const fontFamily =
   "Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
 
+/** Escape user-provided text for interpolation into HTML */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 /** Primary CTA button */
 function button(label: string, href: string): string {
   return `
@@ -259,3 +269,51 @@ export function invitationEmail({
     html: layout(body),
   };
 }
+
+export interface NotificationEmailParams {
+  userName?: string | null;
+  organizationName: string;
+  title: string;
+  body?: string | null;
+  url: string;
+}
+
+/** Email copy of an in-app notification about team activity. */
+export function notificationEmail({
+  userName,
+  organizationName,
+  title,
+  body: details,
+  url,
+}: NotificationEmailParams): { subject: string; html: string } {
+  const greeting = userName ? `Hi ${escapeHtml(userName)},` : "Hi,";
+
+  const body = `
+    <tr>
+      <td>
+        <h2 style="margin: 0 0 16px; font-size: 18px; color: ${brandColor};">${escapeHtml(title)}</h2>
+        <p style="margin: 0 0 8px; color: #374151; line-height: 1.6;">${greeting}</p>
+        ${
+          details
+            ? `<p style="margin: 0; color: #374151; line-height: 1.6;">${escapeHtml(details)}</p>`
+            : ""
+        }
+      </td>
+    </tr>
+    <tr>${button("Open in FUDL", url)}</tr>
+    <tr>
+      <td>
+        <p style="color: ${mutedColor}; font-size: 13px; line-height: 1.5;">
+          You're receiving this because you're a member of <strong>${escapeHtml(organizationName)}</strong>.
+          Choose which activity sends email in your profile settings.
+        </p>
+        ${fallbackLink(url)}
+      </td>
+    </tr>
+  `;
+
+  return {
+    subject: `${title} — ${organizationName}`,
+    html: layout(body),
+  };
+}
@@ -24,6 +24,10 @@ export const apiSchema = sharedSchema.extend({
   AWS_S3_REGION: z.string().default("us-east-1"),
   AWS_ACCESS_KEY_ID: z.string().min(1),
   AWS_SECRET_ACCESS_KEY: z.string().min(1),
+
+  // Media tooling (clip/reel render worker)
+  FFMPEG_PATH: z.string().default("ffmpeg"),
+  FFPROBE_PATH: z.string().default("ffprobe"),
 });
 
 export const apiEnv = parseEnv(apiSchema);
@@ -55,10 +59,21 @@ export const apiConfig = {
     cookiePrefix: "fudl_auth",
   },
 
+  /** Base URL for links back into the web app (e.g. in emails) */
+  webAppUrl:
+    apiEnv.NODE_ENV === "production"
+      ? (apiEnv.WEB_APP_URL ?? "http://localhost:3000")
+      : "http://localhost:3000",
+
   s3: {
     bucket: apiEnv.AWS_S3_BUCKET,
     region: apiEnv.AWS_S3_REGION,
     accessKeyId: apiEnv.AWS_ACCESS_KEY_ID,
     secretAccessKey: apiEnv.AWS_SECRET_ACCESS_KEY,
   },
+
+  ffmpeg: {
+    path: apiEnv.FFMPEG_PATH,
+    probePath: apiEnv.FFPROBE_PATH,
+  },
 } as const;
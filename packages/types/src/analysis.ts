@@ -1,11 +1,3 @@
-/** Job states in BullMQ */
-export type JobState =
-  | "waiting"
-  | "active"
-  | "completed"
-  | "failed"
-  | "delayed";
-
 /** Player analysis data from the ML model */
 export interface PlayerAnalysis {
   player_id: string;
@@ -13,16 +5,83 @@ export interface PlayerAnalysis {
   route_type: string | null;
 }
 
+/** A single tracked position; x/y are normalized to the frame (0-1) */
+export interface DetectedTrackPoint {
+  /** Video time in seconds */
+  t: number;
+  x: number;
+  y: number;
+}
+
+/** A route run by a tracked player, as detected by the ML model */
+export interface DetectedRouteSegment {
+  route_type: string;
+  start_time: number;
+  end_time: number;
+  /** Model confidence, 0-1 */
+  confidence: number;
+}
+
+/** Per-frame positions of one player across the video */
+export interface DetectedTrack {
+  /** Worker-assigned identifier, unique within a run */
+  track_id: string;
+  jersey_number?: number | null;
+  points: DetectedTrackPoint[];
+  routes?: DetectedRouteSegment[];
+}
+
+/** A play detected between snap and whistle */
+export interface DetectedPlay {
+  start_time: number;
+  end_time: number;
+  /** Model confidence, 0-1 */
+  confidence: number;
+}
+
 /** Result returned by the video analysis worker */
 export interface VideoAnalysisResult {
   routes_detected: string[];
   players: PlayerAnalysis[];
   analysis_complete: boolean;
+  /** Version of the model that produced this result, if the worker reports it */
+  model_version?: string;
+  /** Player tracks — persisted as PlayerTrack/TrackPoint/RouteSegment rows */
+  tracks?: DetectedTrack[];
+  /** Play boundaries — turned into suggested clips */
+  plays?: DetectedPlay[];
 }
 
-/** Data submitted with a video analysis job (legacy — used by the analysis demo route) */
-export interface VideoJobData {
+/** Review state of an AI-suggested clip */
+export type ClipReviewStatus = "pending" | "accepted";
+
+/** Clip metadata written for clips created from analysis play boundaries */
+export interface AiClipMetadata {
+  source: "ai";
+  /** Model confidence, 0-1 */
+  confidence: number;
+  /** Pending suggestions are replaced when analysis is re-run */
+  reviewStatus: ClipReviewStatus;
+  analysisRunId: string;
+}
+
+/** True if clip metadata marks an AI suggestion that hasn't been accepted yet */
+export function isPendingAiClip(metadata: unknown): boolean {
+  if (!metadata || typeof metadata !== "object") return false;
+  const m = metadata as Partial<AiClipMetadata>;
+  return m.source === "ai" && m.reviewStatus === "pending";
+}
+
+/** Data submitted with a video analysis job (one job per AnalysisRun) */
+export interface VideoAnalysisJobData {
+  analysisRunId: string;
+  videoId: string;
+  organizationId: string;
+  /** Presigned download URL for the source video */
   videoUrl: string;
+  s3Key: string;
+  s3Bucket: string;
+  s3Region: string;
 }
 
 /** Data submitted with a video processing job (post-upload pipeline) */
@@ -45,23 +104,112 @@ export interface VideoProcessResult {
   durationSecs: number | null;
 }
 
-/** Full job status returned by the API */
-export interface JobStatus {
+/** Data submitted with a clip render job (cut a clip out of its footage file) */
+export interface ClipRenderJobData {
+  clipId: string;
+  videoId: string;
+  organizationId: string;
+  /** S3 key of the source footage file */
+  sourceKey: string;
+  startTime: number;
+  endTime: number;
+}
+
+/** Result returned by the clip render worker */
+export interface ClipRenderResult {
+  storageKey: string;
+  thumbnailKey: string | null;
+}
+
+/** Lifecycle status of a rendered clip/reel file (mirrors the Prisma RenderStatus enum) */
+export type RenderStatusValue = "QUEUED" | "RENDERING" | "COMPLETED" | "FAILED";
+
+/** Lifecycle status of a Video record (mirrors the Prisma VideoStatus enum) */
+export type VideoStatusValue =
+  | "PENDING"
+  | "UPLOADING"
+  | "UPLOADED"
+  | "PROCESSING"
+  | "COMPLETED"
+  | "FAILED";
+
+/** Event pushed over the per-video SSE stream (`/videos/:videoId/events`) */
+export type VideoStreamEvent =
+  | {
+      type: "status";
+      videoId: string;
+      status: VideoStatusValue;
+      errorMessage: string | null;
+    }
+  | {
+      type: "progress";
+      videoId: string;
+      /** Processing progress, 0-100 */
+      progress: number;
+    };
+
+/** Lifecycle status of an AnalysisRun record (mirrors the Prisma AnalysisRunStatus enum) */
+export type AnalysisRunStatusValue =
+  | "QUEUED"
+  | "RUNNING"
+  | "COMPLETED"
+  | "FAILED";
+
+/** A persisted analysis run for a video, as returned by the API */
+export interface AnalysisRunData {
   id: string;
-  name: string;
-  state: JobState;
-  progress: number;
-  data: VideoJobData;
-  timestamp: number;
+  videoId: string;
+  status: AnalysisRunStatusValue;
+  modelVersion: string | null;
+  errorMessage: string | null;
+  requestedBy: { id: string; name: string } | null;
+  queuedAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  /** Wall-clock time from start to completion, in milliseconds */
+  durationMs: number | null;
+  /** Worker output — only populated once the run has COMPLETED */
   result: VideoAnalysisResult | null;
 }
 
-/** Response when creating a new job */
-export interface CreateJobResponse {
-  jobId: string;
-  status: "queued";
+/** A persisted route segment, as returned by the API */
+export interface RouteSegmentData {
+  id: string;
+  routeType: string;
+  startTime: number;
+  endTime: number;
+  confidence: number;
 }
 
+/** A persisted player track, as returned by the API */
+export interface PlayerTrackData {
+  id: string;
+  trackId: string;
+  jerseyNumber: number | null;
+  startTime: number;
+  endTime: number;
+  /** Positions within the requested time window, ordered by time */
+  points: DetectedTrackPoint[];
+  routes: RouteSegmentData[];
+}
+
+/** Tracks for a video time window, taken from a single analysis run */
+export interface TracksResponse {
+  /** The run the tracks came from, or null if the video has no completed run */
+  analysisRunId: string | null;
+  tracks: PlayerTrackData[];
+}
+
+/** Event pushed over the analysis run SSE stream (`/analysis/:runId/stream`) */
+export type AnalysisStreamEvent =
+  | { type: "run"; run: AnalysisRunData }
+  | {
+      type: "progress";
+      runId: string;
+      /** Analysis progress, 0-100 */
+      progress: number;
+    };
+
 /** Error response from the API */
 export interface ApiError {
   error: string;
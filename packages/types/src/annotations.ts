@@ -2,10 +2,48 @@
 // Annotation types — shared between API and frontend
 // ---------------------------------------------------------------------------
 
-export type AnnotationTool = "select" | "pen" | "arrow" | "circle" | "rectangle" | "text";
+export type AnnotationTool =
+  | "select"
+  | "pen"
+  | "highlighter"
+  | "arrow"
+  | "route"
+  | "curve"
+  | "circle"
+  | "rectangle"
+  | "zone"
+  | "spotlight"
+  | "scrimmage"
+  | "text";
 
-export type AnnotationElement =
+/** Position of a tracked element's anchor at a video time (normalized 0-1) */
+export interface AnnotationKeyframe {
+  t: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Motion tracking for an element. The element keeps the geometry it was
+ * drawn with and is translated so its bounds centre follows the keyframes,
+ * interpolated linearly and held at either end.
+ */
+export interface AnnotationElementTrack {
+  /** Ordered by time */
+  keyframes: AnnotationKeyframe[];
+  /** Detected player track the keyframes were seeded from, if any */
+  sourceTrackId?: string;
+}
+
+export type AnnotationElement = (
   | { type: "stroke"; points: [number, number][]; color: string; width: number }
+  /** Freehand translucent marker drawn beneath a wide stroke */
+  | {
+      type: "highlight";
+      points: [number, number][];
+      color: string;
+      width: number;
+    }
   | {
       type: "arrow";
       startX: number;
@@ -15,6 +53,25 @@ export type AnnotationElement =
       color: string;
       width: number;
     }
+  /** Multi-segment route line with an arrowhead at the last point */
+  | {
+      type: "route";
+      points: [number, number][];
+      color: string;
+      width: number;
+    }
+  /** Quadratic curved arrow bending toward the control point */
+  | {
+      type: "curve";
+      startX: number;
+      startY: number;
+      controlX: number;
+      controlY: number;
+      endX: number;
+      endY: number;
+      color: string;
+      width: number;
+    }
   | {
       type: "circle";
       cx: number;
@@ -33,6 +90,38 @@ export type AnnotationElement =
       color: string;
       width: number;
     }
+  /** Translucent filled polygon marking an area of the field */
+  | {
+      type: "zone";
+      points: [number, number][];
+      color: string;
+      /** Fill opacity (0-1) */
+      opacity: number;
+    }
+  /** Dims the frame outside an ellipse to isolate a player */
+  | {
+      type: "spotlight";
+      cx: number;
+      cy: number;
+      rx: number;
+      ry: number;
+      color: string;
+      /** Opacity (0-1) of the shade outside the ellipse */
+      dim: number;
+    }
+  /**
+   * Line of scrimmage through two points, drawn extended to the frame
+   * edges so it follows the field's angle on camera.
+   */
+  | {
+      type: "scrimmage";
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      color: string;
+      width: number;
+    }
   | {
       type: "text";
       x: number;
@@ -45,15 +134,71 @@ export type AnnotationElement =
       text: string;
       color: string;
       fontSize: number;
-    };
+    }
+) & {
+  /** Present when the element follows a moving object */
+  track?: AnnotationElementTrack;
+};
+
+/** Who besides its creator can see an annotation (mirrors the Prisma enum) */
+export type AnnotationVisibility = "PRIVATE" | "COACHES" | "TEAM";
+
+export const ANNOTATION_VISIBILITY_LABELS: Record<AnnotationVisibility, string> =
+  {
+    PRIVATE: "Private",
+    COACHES: "Shared with coaches",
+    TEAM: "Team",
+  };
+
+/**
+ * Visibilities a member may give their own annotations. Players can keep
+ * a drawing private or send it to coaches; only coaches publish to the team.
+ */
+export function allowedAnnotationVisibilities(
+  isCoach: boolean,
+): AnnotationVisibility[] {
+  return isCoach ? ["PRIVATE", "COACHES", "TEAM"] : ["PRIVATE", "COACHES"];
+}
 
 export interface AnnotationData {
   id: string;
   videoId: string;
   timestamp: number;
+  /** End of the display range; null for a point (freeze-frame) annotation */
+  endTimestamp: number | null;
   data: { elements: AnnotationElement[] };
-  isPrivate: boolean;
+  visibility: AnnotationVisibility;
+  /** Last time it was shared with coaches, if ever */
+  sharedAt: string | null;
+  /** When a coach marked the shared annotation as reviewed */
+  reviewedAt: string | null;
   createdById: string;
   createdByName: string | null;
   createdAt: string;
+  updatedAt: string;
+}
+
+/** A coach-saved drawing that can be inserted onto any frame */
+export interface AnnotationTemplateData {
+  id: string;
+  name: string;
+  data: { elements: AnnotationElement[] };
+  createdByName: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A saved version of an annotation (newest first in history responses) */
+export interface AnnotationRevisionData {
+  id: string;
+  data: { elements: AnnotationElement[] };
+  editedById: string | null;
+  editedByName: string | null;
+  createdAt: string;
+}
+
+/** A player annotation shared with coaches, as listed in the coach inbox */
+export interface AnnotationInboxItemData extends AnnotationData {
+  video: { id: string; title: string };
+  game: { id: string; title: string } | null;
 }
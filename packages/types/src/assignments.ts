@@ -0,0 +1,84 @@
+// ---------------------------------------------------------------------------
+// Assignment types — shared between API and frontend
+// ---------------------------------------------------------------------------
+
+import type { PlaylistData } from "./playlists";
+
+/** What an assignment points at */
+export type AssignmentKind = "CLIP" | "PLAYLIST";
+
+/**
+ * Share of an assignment's film a member must watch before it counts as
+ * completed. Progress is the length of film watched at least once over
+ * total film length — replaying a stretch doesn't add to it.
+ */
+export const ASSIGNMENT_COMPLETION_THRESHOLD = 0.9;
+
+/** Fields common to every assignment view */
+export interface AssignmentSummary {
+  id: string;
+  kind: AssignmentKind;
+  /** Playlist title, or the clip's title / "Play N" */
+  title: string;
+  clipId: string | null;
+  playlistId: string | null;
+  /** Game the clip belongs to (clip assignments only) */
+  game: { id: string; title: string } | null;
+  note: string | null;
+  dueDate: string | null;
+  /** Total length of the assigned film (each clip once), in seconds */
+  totalSecs: number;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+/** One member's progress on an assignment */
+export interface AssignmentProgressData {
+  /** Seconds of the film watched at least once */
+  watchedSecs: number;
+  /** 0–1, watchedSecs over totalSecs */
+  progress: number;
+  lastWatchedAt: string | null;
+  completedAt: string | null;
+}
+
+/** A stretch of a clip played through without seeking, in footage seconds */
+export interface WatchedRange {
+  start: number;
+  end: number;
+}
+
+/** Progress report: the stretches of one clip watched since the last report */
+export interface AssignmentProgressRequest {
+  clipId: string;
+  ranges: WatchedRange[];
+}
+
+/** A recipient row in the coach completion view */
+export interface AssignmentRecipientData extends AssignmentProgressData {
+  memberId: string;
+  userId: string;
+  name: string;
+  email: string;
+}
+
+/** Coach view: an assignment with per-member completion */
+export interface AssignmentData extends AssignmentSummary {
+  recipients: AssignmentRecipientData[];
+}
+
+/** Member view: an assignment with the caller's own progress */
+export interface MyAssignmentData extends AssignmentSummary {
+  progress: AssignmentProgressData;
+}
+
+/**
+ * Everything the assignment player needs. Clip assignments are presented as
+ * a one-item playlist so both kinds share the same player.
+ */
+export interface AssignmentPlaybackData {
+  assignment: MyAssignmentData;
+  playlist: PlaylistData;
+  /** False when a coach previews film that was not sent to them */
+  isRecipient: boolean;
+}
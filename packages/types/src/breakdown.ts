@@ -0,0 +1,174 @@
+// ---------------------------------------------------------------------------
+// Play-by-play breakdown types — shared between API and frontend
+// ---------------------------------------------------------------------------
+
+/** Kind of value a breakdown column holds (mirrors the Prisma enum) */
+export type BreakdownFieldType = "NUMBER" | "TEXT" | "SELECT";
+
+export const BREAKDOWN_FIELD_TYPES: BreakdownFieldType[] = [
+  "NUMBER",
+  "TEXT",
+  "SELECT",
+];
+
+export const BREAKDOWN_FIELD_TYPE_LABELS: Record<BreakdownFieldType, string> = {
+  NUMBER: "Number",
+  TEXT: "Text",
+  SELECT: "List",
+};
+
+/** Longest value a TEXT column accepts */
+export const BREAKDOWN_TEXT_MAX_LENGTH = 100;
+
+/** A column in the org's breakdown schema */
+export interface BreakdownFieldData {
+  id: string;
+  /** Stable identifier values are stored under on each clip */
+  key: string;
+  label: string;
+  type: BreakdownFieldType;
+  /** Allowed values for SELECT columns */
+  options: string[];
+  /** Inclusive bounds for NUMBER columns */
+  min: number | null;
+  max: number | null;
+  position: number;
+}
+
+export type BreakdownValue = string | number;
+
+/** A clip's breakdown, keyed by BreakdownFieldData.key */
+export type BreakdownValues = Record<string, BreakdownValue>;
+
+/** Column definition without server-assigned fields */
+export type BreakdownFieldInput = Pick<
+  BreakdownFieldData,
+  "label" | "type" | "options" | "min" | "max"
+>;
+
+/**
+ * Standard football breakdown columns a team can start from. Yard line
+ * follows the usual convention: negative in your own territory, positive
+ * in the opponent's.
+ */
+export const DEFAULT_BREAKDOWN_FIELDS: BreakdownFieldInput[] = [
+  {
+    label: "ODK",
+    type: "SELECT",
+    options: ["O", "D", "K"],
+    min: null,
+    max: null,
+  },
+  { label: "Down", type: "NUMBER", options: [], min: 1, max: 4 },
+  { label: "Distance", type: "NUMBER", options: [], min: 0, max: 99 },
+  { label: "Yard Line", type: "NUMBER", options: [], min: -50, max: 50 },
+  {
+    label: "Off Formation",
+    type: "TEXT",
+    options: [],
+    min: null,
+    max: null,
+  },
+  {
+    label: "Play Type",
+    type: "SELECT",
+    options: ["Run", "Pass", "Punt", "Field Goal", "Kickoff", "PAT"],
+    min: null,
+    max: null,
+  },
+  {
+    label: "Result",
+    type: "SELECT",
+    options: [
+      "Rush",
+      "Complete",
+      "Incomplete",
+      "Sack",
+      "Interception",
+      "Fumble",
+      "Touchdown",
+      "Penalty",
+      "Good",
+      "No Good",
+    ],
+    min: null,
+    max: null,
+  },
+  { label: "Gain/Loss", type: "NUMBER", options: [], min: -99, max: 99 },
+];
+
+/** Storage key for a column label, e.g. "Off Formation" → "off_formation" */
+export function breakdownFieldKey(label: string): string {
+  return (
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "")
+      .slice(0, 40) || "field"
+  );
+}
+
+export type BreakdownParseResult =
+  | { ok: true; value: BreakdownValue | null }
+  | { ok: false; error: string };
+
+/**
+ * Validate a raw cell value against its column. Blank input clears the
+ * value (null); list values are matched case-insensitively and returned
+ * in the column's spelling.
+ */
+export function parseBreakdownValue(
+  field: Pick<BreakdownFieldData, "label" | "type" | "options" | "min" | "max">,
+  raw: unknown,
+): BreakdownParseResult {
+  if (raw === null || raw === undefined) return { ok: true, value: null };
+  if (typeof raw !== "string" && typeof raw !== "number") {
+    return { ok: false, error: `${field.label} must be text or a number` };
+  }
+
+  const text = String(raw).trim();
+  if (text === "") return { ok: true, value: null };
+
+  switch (field.type) {
+    case "NUMBER": {
+      const value = Number(text);
+      if (!Number.isInteger(value)) {
+        return { ok: false, error: `${field.label} must be a whole number` };
+      }
+      if (field.min !== null && value < field.min) {
+        return {
+          ok: false,
+          error: `${field.label} must be at least ${field.min}`,
+        };
+      }
+      if (field.max !== null && value > field.max) {
+        return {
+          ok: false,
+          error: `${field.label} must be at most ${field.max}`,
+        };
+      }
+      return { ok: true, value };
+    }
+    case "SELECT": {
+      const option = field.options.find(
+        (o) => o.toLowerCase() === text.toLowerCase(),
+      );
+      if (!option) {
+        return {
+          ok: false,
+          error: `${field.label} must be one of: ${field.options.join(", ")}`,
+        };
+      }
+      return { ok: true, value: option };
+    }
+    case "TEXT": {
+      if (text.length > BREAKDOWN_TEXT_MAX_LENGTH) {
+        return {
+          ok: false,
+          error: `${field.label} must be at most ${BREAKDOWN_TEXT_MAX_LENGTH} characters`,
+        };
+      }
+      return { ok: true, value: text };
+    }
+  }
+}
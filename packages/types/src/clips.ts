@@ -0,0 +1,72 @@
+// ---------------------------------------------------------------------------
+// Clip search types — shared between API and frontend
+// ---------------------------------------------------------------------------
+
+import type { BreakdownValue, BreakdownValues } from "./breakdown";
+import type { RenderStatusValue } from "./analysis";
+
+/** How a clip was created: marked by a coach or suggested by analysis */
+export type ClipSource = "manual" | "ai";
+
+/**
+ * Condition on one breakdown column. Combine `min`/`max` for a range on a
+ * number column, e.g. distance 7 or more for "and long".
+ */
+export interface BreakdownFilter {
+  key: string;
+  equals?: BreakdownValue;
+  /** Any of these values */
+  in?: BreakdownValue[];
+  min?: number;
+  max?: number;
+}
+
+/** Clip filters; every filter given must match */
+export interface ClipSearchFilters {
+  seasonId?: string;
+  gameIds?: string[];
+  /**
+   * Opponent and field tags match the clip's game, camera angle tags its
+   * footage file. Tags in the same category are alternatives.
+   */
+  tagIds?: string[];
+  /** Clip has every one of these labels */
+  labels?: string[];
+  source?: ClipSource;
+  /** Clip has (or hasn't) an annotation the viewer can see within its time range */
+  hasAnnotations?: boolean;
+  breakdown?: BreakdownFilter[];
+}
+
+export type ClipSearchSort = "gameDate" | "playNumber" | "createdAt";
+
+export interface ClipSearchRequest extends ClipSearchFilters {
+  sortBy?: ClipSearchSort;
+  sortOrder?: "asc" | "desc";
+  /** 1-based */
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ClipSearchResultData {
+  id: string;
+  videoId: string;
+  playNumber: number;
+  title: string | null;
+  startTime: number;
+  endTime: number;
+  thumbnailUrl: string | null;
+  labels: string[];
+  metadata: Record<string, unknown>;
+  breakdown: BreakdownValues;
+  renderStatus: RenderStatusValue | null;
+  createdAt: string;
+  game: { id: string; title: string; date: string | null } | null;
+}
+
+export interface ClipSearchResponse {
+  clips: ClipSearchResultData[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
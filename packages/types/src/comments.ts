@@ -0,0 +1,37 @@
+// ---------------------------------------------------------------------------
+// Comment types — shared between API and frontend
+// ---------------------------------------------------------------------------
+
+/** What a comment thread is attached to */
+export type CommentTargetKind = "VIDEO" | "CLIP" | "ANNOTATION";
+
+/** An org member @mentioned in a comment */
+export interface CommentMentionData {
+  memberId: string;
+  userId: string;
+  name: string;
+}
+
+export interface CommentData {
+  id: string;
+  kind: CommentTargetKind;
+  videoId: string;
+  /** Where the player seeks to: the video moment, clip start or annotation */
+  timestamp: number;
+  clipId: string | null;
+  annotationId: string | null;
+  /** Thread's first comment; null for the first comment itself */
+  parentId: string | null;
+  /** Plain text; mentions appear as "@Name" */
+  body: string;
+  mentions: CommentMentionData[];
+  authorId: string;
+  authorName: string | null;
+  editedAt: string | null;
+  createdAt: string;
+}
+
+/** A thread's first comment with its replies, oldest first */
+export interface CommentThreadData extends CommentData {
+  replies: CommentData[];
+}
@@ -3,3 +3,13 @@ export * from "./roles";
 export * from "./profile";
 export * from "./validations";
 export * from "./annotations";
+export * from "./reels";
+export * from "./playlists";
+export * from "./assignments";
+export * from "./comments";
+export * from "./notifications";
+export * from "./breakdown";
+export * from "./clips";
+export * from "./stats";
+export * from "./scouting";
+export * from "./players";
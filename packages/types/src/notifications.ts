@@ -0,0 +1,65 @@
+// ---------------------------------------------------------------------------
+// Notification types — shared between API and frontend
+// ---------------------------------------------------------------------------
+
+/** Team activity a member can be notified about (mirrors the Prisma enum) */
+export type NotificationType =
+  | "FOOTAGE_READY"
+  | "FILM_ASSIGNED"
+  | "COMMENT_REPLY"
+  | "PROCESSING_FAILED";
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  "FOOTAGE_READY",
+  "FILM_ASSIGNED",
+  "COMMENT_REPLY",
+  "PROCESSING_FAILED",
+];
+
+/** Labels for the notification preferences form */
+export const NOTIFICATION_TYPE_LABELS: Record<
+  NotificationType,
+  { label: string; description: string }
+> = {
+  FOOTAGE_READY: {
+    label: "New game footage",
+    description: "Footage for a game has finished processing",
+  },
+  FILM_ASSIGNED: {
+    label: "Film assigned to you",
+    description: "A coach sent you a clip or playlist to watch",
+  },
+  COMMENT_REPLY: {
+    label: "Comment replies",
+    description: "Someone replied in a comment thread you're part of",
+  },
+  PROCESSING_FAILED: {
+    label: "Processing failures",
+    description: "Footage, a reel or an analysis you started failed",
+  },
+};
+
+/**
+ * Whether each type sends email until the user changes it. Footage
+ * notifications go to the whole team, so they stay in-app by default.
+ */
+export const DEFAULT_EMAIL_NOTIFICATIONS: Record<NotificationType, boolean> = {
+  FOOTAGE_READY: false,
+  FILM_ASSIGNED: true,
+  COMMENT_REPLY: true,
+  PROCESSING_FAILED: true,
+};
+
+export interface NotificationData {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  /** Web app path the notification opens */
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+/** A user's email choices, one flag per notification type */
+export type NotificationEmailPreferences = Record<NotificationType, boolean>;
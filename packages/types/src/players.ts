@@ -0,0 +1,81 @@
+// ---------------------------------------------------------------------------
+// Player participation types — shared between API and frontend
+// ---------------------------------------------------------------------------
+
+export type ClipPlayerRole =
+  | "PARTICIPANT"
+  | "BALL_CARRIER"
+  | "TARGET"
+  | "TACKLER";
+
+/** The player the play went to: a run's ball carrier or a pass's target */
+export type PrimaryPlayerRole = "BALL_CARRIER" | "TARGET";
+
+export const CLIP_PLAYER_ROLE_LABELS: Record<ClipPlayerRole, string> = {
+  PARTICIPANT: "On field",
+  BALL_CARRIER: "Ball carrier",
+  TARGET: "Target",
+  TACKLER: "Flag pull",
+};
+
+/** An org member tagged on a clip, in one role */
+export interface ClipPlayerData {
+  memberId: string;
+  name: string;
+  jerseyNumber: number | null;
+  role: ClipPlayerRole;
+}
+
+/**
+ * Replace who was involved in a play, on every camera angle of it. The
+ * primary player and tackler are counted as on the field too.
+ */
+export interface ClipPlayersRequest {
+  clipIds: string[];
+  participantIds: string[];
+  primary: { memberId: string; role: PrimaryPlayerRole } | null;
+  tacklerId: string | null;
+}
+
+/** Totals over the plays a member is tagged on, each play counted once */
+export interface PlayerStatsData {
+  plays: number;
+  carries: number;
+  targets: number;
+  /** Targets on a Complete or Touchdown result */
+  catches: number;
+  flagPulls: number;
+  /** Touchdown results where the player carried the ball or was the target */
+  touchdowns: number;
+  /** Gain/Loss on the player's carries and catches */
+  yards: number;
+}
+
+export interface PlayerPlayData {
+  /** One angle of the play */
+  clipId: string;
+  game: { id: string; title: string; date: string | null } | null;
+  playNumber: number;
+  /** The player's roles, PARTICIPANT first */
+  roles: ClipPlayerRole[];
+  odk: string | null;
+  playType: string | null;
+  result: string | null;
+  down: number | null;
+  distance: number | null;
+  gain: number | null;
+}
+
+export interface PlayerReportData {
+  member: {
+    id: string;
+    role: string;
+    name: string;
+    image: string | null;
+    position: string | null;
+    jerseyNumber: number | null;
+  };
+  stats: PlayerStatsData;
+  /** In game and play order */
+  plays: PlayerPlayData[];
+}
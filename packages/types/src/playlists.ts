@@ -0,0 +1,55 @@
+// ---------------------------------------------------------------------------
+// Playlist types — shared between API and frontend
+// ---------------------------------------------------------------------------
+
+/** A playlist entry as sent by the editor (order is the array order) */
+export interface PlaylistItemInput {
+  clipId: string;
+  /** Coach note shown while the clip plays */
+  note?: string | null;
+}
+
+/** A footage file referenced by a playlist, with a presigned playback URL */
+export interface PlaylistVideoData {
+  id: string;
+  title: string;
+  status: string;
+  mimeType: string | null;
+  fileSize: string | null;
+  durationSecs: number | null;
+  createdAt: string;
+  thumbnailUrl: string | null;
+  storageUrl: string | null;
+  tags: Array<{ id: string; name: string; category: string }>;
+}
+
+/** A playlist entry as returned by the API */
+export interface PlaylistItemData {
+  id: string;
+  note: string | null;
+  clip: {
+    id: string;
+    videoId: string;
+    playNumber: number;
+    title: string | null;
+    startTime: number;
+    endTime: number;
+    thumbnailUrl: string | null;
+  };
+  game: { id: string; title: string } | null;
+}
+
+/** Playlist summary for list views */
+export interface PlaylistSummary {
+  id: string;
+  title: string;
+  itemCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Full playlist with ordered items and the footage they play from */
+export interface PlaylistData extends PlaylistSummary {
+  items: PlaylistItemData[];
+  videos: PlaylistVideoData[];
+}
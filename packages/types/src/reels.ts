@@ -0,0 +1,81 @@
+// ---------------------------------------------------------------------------
+// Highlight reel types — shared between API, media worker and frontend
+// ---------------------------------------------------------------------------
+
+import type { RenderStatusValue } from "./analysis";
+
+/** A reel entry as sent by the editor (order is the array order) */
+export type ReelItemInput =
+  | { type: "clip"; clipId: string }
+  | {
+      type: "title";
+      title: string;
+      subtitle?: string | null;
+      /** How long the card is shown, in seconds */
+      durationSecs?: number;
+    };
+
+/** A reel entry as returned by the API */
+export type ReelItemData =
+  | {
+      id: string;
+      type: "clip";
+      clip: {
+        id: string;
+        playNumber: number;
+        title: string | null;
+        startTime: number;
+        endTime: number;
+        thumbnailUrl: string | null;
+        videoId: string;
+        videoTitle: string;
+        game: { id: string; title: string } | null;
+      };
+    }
+  | {
+      id: string;
+      type: "title";
+      title: string;
+      subtitle: string | null;
+      durationSecs: number;
+    };
+
+/** Reel summary for list views */
+export interface ReelSummary {
+  id: string;
+  title: string;
+  itemCount: number;
+  renderStatus: RenderStatusValue | null;
+  durationSecs: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Full reel with ordered items */
+export interface ReelData extends ReelSummary {
+  renderError: string | null;
+  items: ReelItemData[];
+}
+
+/** One segment of a reel render, in playback order */
+export type ReelRenderSegment =
+  | { type: "clip"; sourceKey: string; startTime: number; endTime: number }
+  | {
+      type: "title";
+      title: string;
+      subtitle: string | null;
+      durationSecs: number;
+    };
+
+/** Data submitted with a reel render job */
+export interface ReelRenderJobData {
+  reelId: string;
+  organizationId: string;
+  segments: ReelRenderSegment[];
+}
+
+/** Result returned by the reel render worker */
+export interface ReelRenderResult {
+  storageKey: string;
+  durationSecs: number;
+}
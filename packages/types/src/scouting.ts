@@ -0,0 +1,122 @@
+// ---------------------------------------------------------------------------
+// Opponent scouting types — shared between API and frontend
+// ---------------------------------------------------------------------------
+
+import type { BreakdownFilter } from "./clips";
+import {
+  RED_ZONE_YARD_LINES,
+  type PlayStatsSummary,
+  type StatsSide,
+} from "./stats";
+
+/**
+ * ODK is broken down from our side of the ball, so the opponent's offense
+ * is what our defense saw.
+ */
+export const SCOUTING_SIDE_LABELS: Record<StatsSide, string> = {
+  D: "Their offense",
+  O: "Their defense",
+};
+
+export interface ScoutingOpponentData {
+  /** The OPPONENT tag */
+  id: string;
+  name: string;
+  gameCount: number;
+  lastGameDate: string | null;
+}
+
+export interface ScoutingGameData {
+  id: string;
+  title: string;
+  date: string | null;
+  seasonName: string;
+  /** Broken-down plays on the scouted side */
+  plays: number;
+}
+
+/** How often something happened, and how they ran or passed out of it */
+export interface ScoutingTendency {
+  value: string;
+  plays: number;
+  /** Share of the scouted side's plays, 0–1 */
+  share: number;
+  runs: number;
+  passes: number;
+}
+
+export interface ScoutingReportData {
+  opponent: { id: string; name: string };
+  side: StatsSide;
+  games: ScoutingGameData[];
+  /** Plays on the scouted side, each counted once across camera angles */
+  plays: number;
+  summary: PlayStatsSummary;
+  /** By Off Formation, most used first */
+  formations: ScoutingTendency[];
+  /** By Play Type, most used first */
+  playTypes: ScoutingTendency[];
+  /** By down and distance, in down order */
+  situations: ScoutingTendency[];
+}
+
+export type ScoutingPlaylistPresetId =
+  | "all"
+  | "red-zone"
+  | "third-down"
+  | "third-and-long"
+  | "runs"
+  | "passes";
+
+export interface ScoutingPlaylistPreset {
+  id: ScoutingPlaylistPresetId;
+  label: string;
+  /** Added to the opponent and side filters */
+  breakdown: BreakdownFilter[];
+}
+
+/** One-click playlists offered on every scouting report */
+export const SCOUTING_PLAYLIST_PRESETS: ScoutingPlaylistPreset[] = [
+  { id: "all", label: "All plays", breakdown: [] },
+  {
+    id: "red-zone",
+    label: "Red zone",
+    breakdown: [
+      {
+        key: "yard_line",
+        min: RED_ZONE_YARD_LINES.min,
+        max: RED_ZONE_YARD_LINES.max,
+      },
+    ],
+  },
+  {
+    id: "third-down",
+    label: "3rd down",
+    breakdown: [{ key: "down", equals: 3 }],
+  },
+  {
+    id: "third-and-long",
+    label: "3rd & long",
+    breakdown: [
+      { key: "down", equals: 3 },
+      { key: "distance", min: 7 },
+    ],
+  },
+  {
+    id: "runs",
+    label: "Runs",
+    breakdown: [{ key: "play_type", equals: "Run" }],
+  },
+  {
+    id: "passes",
+    label: "Passes",
+    breakdown: [{ key: "play_type", equals: "Pass" }],
+  },
+];
+
+/** Build a playlist of the opponent's plays on one side matching `breakdown` */
+export interface ScoutingPlaylistRequest {
+  title: string;
+  side: StatsSide;
+  breakdown: BreakdownFilter[];
+}
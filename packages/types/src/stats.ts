@@ -0,0 +1,65 @@
+// ---------------------------------------------------------------------------
+// Play statistics types — shared between API and frontend
+// ---------------------------------------------------------------------------
+
+/**
+ * Which side of the ball to count, by the play's ODK breakdown value.
+ * Omitted means every run and pass play.
+ */
+export type StatsSide = "O" | "D";
+
+/** Yard Line values inside the opponent's 20 (own territory is negative) */
+export const RED_ZONE_YARD_LINES = { min: 1, max: 20 } as const;
+
+/** Aggregates over a set of run and pass plays */
+export interface PlayStatsCounts {
+  /** Plays (each counted once, however many camera angles it has) */
+  plays: number;
+  runs: number;
+  passes: number;
+  /** Total Gain/Loss over plays that have one */
+  yards: number;
+  yardsPerPlay: number | null;
+  /**
+   * Share of plays that gained 40% of the distance on 1st down, 60% on
+   * 2nd, or all of it on 3rd and 4th. Touchdowns always count.
+   */
+  successRate: number | null;
+}
+
+export interface PlayStatsSummary extends PlayStatsCounts {
+  /** Series of consecutive plays snapped inside the opponent's 20 */
+  redZoneTrips: number;
+  redZoneTouchdowns: number;
+  redZoneEfficiency: number | null;
+}
+
+export interface DownStats extends PlayStatsCounts {
+  down: number;
+}
+
+export interface GameStats extends PlayStatsSummary {
+  gameId: string;
+  title: string;
+  date: string | null;
+}
+
+export interface PlayStatsData {
+  summary: PlayStatsSummary;
+  byDown: DownStats[];
+  /** Chronological; games without any counted plays are left out */
+  byGame: GameStats[];
+  /** Plays in scope with no Play Type entered yet */
+  unclassifiedPlays: number;
+}
+
+export interface StatsScope {
+  type: "game" | "season" | "opponent";
+  id: string;
+  name: string;
+}
+
+export interface PlayStatsResponse {
+  scope: StatsScope;
+  stats: PlayStatsData;
+}
@@ -5,6 +5,7 @@
 
 import { z } from "zod";
 import { SPORTS, POSITIONS_BY_SPORT, type Sport } from "./profile";
+import { BREAKDOWN_FIELD_TYPES } from "./breakdown";
 
 // ---------------------------------------------------------------------------
 // Common field validators (reusable building blocks)
@@ -336,11 +337,27 @@ export type UpdateClipValues = z.infer<typeof updateClipSchema>;
 // Annotation schemas
 // ---------------------------------------------------------------------------
 
+const elementTrackSchema = z.object({
+  keyframes: z
+    .array(z.object({ t: z.number().min(0), x: z.number(), y: z.number() }))
+    .min(1),
+  sourceTrackId: z.string().optional(),
+});
+
 const strokeElementSchema = z.object({
   type: z.literal("stroke"),
   points: z.array(z.tuple([z.number(), z.number()])).min(1),
   color: z.string(),
   width: z.number(),
+  track: elementTrackSchema.optional(),
+});
+
+const highlightElementSchema = z.object({
+  type: z.literal("highlight"),
+  points: z.array(z.tuple([z.number(), z.number()])).min(1),
+  color: z.string(),
+  width: z.number(),
+  track: elementTrackSchema.optional(),
 });
 
 const arrowElementSchema = z.object({
@@ -351,6 +368,28 @@ const arrowElementSchema = z.object({
   endY: z.number(),
   color: z.string(),
   width: z.number(),
+  track: elementTrackSchema.optional(),
+});
+
+const routeElementSchema = z.object({
+  type: z.literal("route"),
+  points: z.array(z.tuple([z.number(), z.number()])).min(2),
+  color: z.string(),
+  width: z.number(),
+  track: elementTrackSchema.optional(),
+});
+
+const curveElementSchema = z.object({
+  type: z.literal("curve"),
+  startX: z.number(),
+  startY: z.number(),
+  controlX: z.number(),
+  controlY: z.number(),
+  endX: z.number(),
+  endY: z.number(),
+  color: z.string(),
+  width: z.number(),
+  track: elementTrackSchema.optional(),
 });
 
 const circleElementSchema = z.object({
@@ -361,6 +400,7 @@ const circleElementSchema = z.object({
   ry: z.number(),
   color: z.string(),
   width: z.number(),
+  track: elementTrackSchema.optional(),
 });
 
 const rectangleElementSchema = z.object({
@@ -371,6 +411,37 @@ const rectangleElementSchema = z.object({
   h: z.number(),
   color: z.string(),
   width: z.number(),
+  track: elementTrackSchema.optional(),
+});
+
+const zoneElementSchema = z.object({
+  type: z.literal("zone"),
+  points: z.array(z.tuple([z.number(), z.number()])).min(3),
+  color: z.string(),
+  opacity: z.number().min(0).max(1),
+  track: elementTrackSchema.optional(),
+});
+
+const spotlightElementSchema = z.object({
+  type: z.literal("spotlight"),
+  cx: z.number(),
+  cy: z.number(),
+  rx: z.number(),
+  ry: z.number(),
+  color: z.string(),
+  dim: z.number().min(0).max(1),
+  track: elementTrackSchema.optional(),
+});
+
+const scrimmageElementSchema = z.object({
+  type: z.literal("scrimmage"),
+  x1: z.number(),
+  y1: z.number(),
+  x2: z.number(),
+  y2: z.number(),
+  color: z.string(),
+  width: z.number(),
+  track: elementTrackSchema.optional(),
 });
 
 const textElementSchema = z.object({
@@ -384,19 +455,27 @@ const textElementSchema = z.object({
   text: z.string(),
   color: z.string(),
   fontSize: z.number(),
+  track: elementTrackSchema.optional(),
 });
 
 const annotationElementSchema = z.discriminatedUnion("type", [
   strokeElementSchema,
+  highlightElementSchema,
   arrowElementSchema,
+  routeElementSchema,
+  curveElementSchema,
   circleElementSchema,
   rectangleElementSchema,
+  zoneElementSchema,
+  spotlightElementSchema,
+  scrimmageElementSchema,
   textElementSchema,
 ]);
 
 export const createAnnotationSchema = z.object({
   videoId: z.string().min(1, "Video is required"),
   timestamp: z.number().min(0, "Timestamp must be non-negative"),
+  endTimestamp: z.number().min(0).nullable().optional(),
   data: z.object({
     elements: z
       .array(annotationElementSchema)
@@ -406,6 +485,115 @@ export const createAnnotationSchema = z.object({
 
 export type CreateAnnotationValues = z.infer<typeof createAnnotationSchema>;
 
+export const annotationTemplateSchema = z.object({
+  name: trimmedString(1, 60, "Template name"),
+  elements: z
+    .array(annotationElementSchema)
+    .min(1, "Draw something before saving a template"),
+});
+
+export type AnnotationTemplateValues = z.infer<typeof annotationTemplateSchema>;
+
+// ---------------------------------------------------------------------------
+// Breakdown schemas
+// ---------------------------------------------------------------------------
+
+export const breakdownFieldSchema = z
+  .object({
+    label: trimmedString(1, 40, "Column name"),
+    type: z.enum(BREAKDOWN_FIELD_TYPES),
+    options: z
+      .array(trimmedString(1, 40, "Option"))
+      .max(50, "A list column can have at most 50 options"),
+    min: z.number().int().nullable(),
+    max: z.number().int().nullable(),
+  })
+  .refine((data) => data.type !== "SELECT" || data.options.length > 0, {
+    message: "Add at least one option",
+    path: ["options"],
+  })
+  .refine(
+    (data) => data.min === null || data.max === null || data.min <= data.max,
+    { message: "Minimum must not be more than maximum", path: ["max"] },
+  );
+
+export type BreakdownFieldValues = z.infer<typeof breakdownFieldSchema>;
+
+// ---------------------------------------------------------------------------
+// Reel schemas
+// ---------------------------------------------------------------------------
+
+export const createReelSchema = z.object({
+  title: trimmedString(1, 200, "Reel title"),
+});
+
+export type CreateReelValues = z.infer<typeof createReelSchema>;
+
+export const reelTitleCardSchema = z.object({
+  title: trimmedString(1, 120, "Card title"),
+  subtitle: z
+    .string()
+    .trim()
+    .max(200, "Subtitle must be at most 200 characters")
+    .optional(),
+  durationSecs: z
+    .number("Duration is required")
+    .min(1, "Duration must be at least 1 second")
+    .max(15, "Duration must be at most 15 seconds"),
+});
+
+export type ReelTitleCardValues = z.infer<typeof reelTitleCardSchema>;
+
+// ---------------------------------------------------------------------------
+// Playlist schemas
+// ---------------------------------------------------------------------------
+
+export const createPlaylistSchema = z.object({
+  title: trimmedString(1, 200, "Playlist title"),
+});
+
+export type CreatePlaylistValues = z.infer<typeof createPlaylistSchema>;
+
+export const playlistNoteSchema = z.object({
+  note: z
+    .string()
+    .trim()
+    .max(1000, "Note must be at most 1000 characters")
+    .optional(),
+});
+
+export type PlaylistNoteValues = z.infer<typeof playlistNoteSchema>;
+
+// ---------------------------------------------------------------------------
+// Assignment schemas
+// ---------------------------------------------------------------------------
+
+export const createAssignmentSchema = z.object({
+  memberIds: z.array(z.string()).min(1, "Pick at least one member"),
+  dueDate: z
+    .string()
+    .date("Invalid date format")
+    .optional()
+    .or(z.literal("")),
+  note: z
+    .string()
+    .trim()
+    .max(1000, "Note must be at most 1000 characters")
+    .optional(),
+});
+
+export type CreateAssignmentValues = z.infer<typeof createAssignmentSchema>;
+
+// ---------------------------------------------------------------------------
+// Comment schemas
+// ---------------------------------------------------------------------------
+
+export const commentSchema = z.object({
+  body: trimmedString(1, 2000, "Comment"),
+});
+
+export type CommentValues = z.infer<typeof commentSchema>;
+
 // ---------------------------------------------------------------------------
 // Setup / org creation
 // ---------------------------------------------------------------------------